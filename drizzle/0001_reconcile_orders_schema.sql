@@ -0,0 +1,77 @@
+CREATE TABLE "order_status_history" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"order_id" varchar(255) NOT NULL,
+	"from_status" varchar(50),
+	"to_status" varchar(50) NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL,
+	"actor" varchar(255) NOT NULL,
+	"reason" text
+);
+--> statement-breakpoint
+CREATE TABLE "tax_rates" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"country" varchar(2) NOT NULL,
+	"state" varchar(100),
+	"city" varchar(100),
+	"category" varchar(20) NOT NULL,
+	"rate" numeric(7, 6) NOT NULL,
+	"effective_from" date NOT NULL,
+	"effective_to" date,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "orders" DROP CONSTRAINT "orders_item_id_items_id_fk";
+--> statement-breakpoint
+ALTER TABLE "orders" DROP CONSTRAINT "orders_status_id_order_statuses_id_fk";
+--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "tax_category" varchar(20) DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "items" jsonb;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "status" varchar(50);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tax_country" varchar(2);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tax_state" varchar(100);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tax_city" varchar(100);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "pricing_mode" varchar(20);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "subtotal" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tax_total" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tax_lines" jsonb;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "cancellation_reason" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "refunded_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+-- Carry single-item legacy orders over to the jsonb shape; their tax was never computed,
+-- so they are recorded as untaxed in the "XX" (unknown) jurisdiction
+UPDATE "orders" o SET
+	"items" = jsonb_build_array(jsonb_build_object(
+		'productId', o."item_id",
+		'productName', i."name",
+		'quantity', o."quantity",
+		'price', i."price",
+		'taxCategory', 'standard'
+	)),
+	"status" = lower(s."name"),
+	"tax_country" = 'XX',
+	"pricing_mode" = 'exclusive',
+	"subtotal" = o."total",
+	"tax_total" = 0,
+	"tax_lines" = jsonb_build_array(jsonb_build_object(
+		'productId', o."item_id",
+		'taxCategory', 'standard',
+		'rate', 0,
+		'netAmount', o."total",
+		'taxAmount', 0,
+		'grossAmount', o."total"
+	))
+FROM "items" i, "order_statuses" s
+WHERE i."id" = o."item_id" AND s."id" = o."status_id";--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "items" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "status" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "tax_country" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "pricing_mode" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "subtotal" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "tax_total" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "tax_lines" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "order_status_history_order_idx" ON "order_status_history" USING btree ("order_id","changed_at");--> statement-breakpoint
+CREATE INDEX "tax_rates_lookup_idx" ON "tax_rates" USING btree ("country","category","effective_from");--> statement-breakpoint
+ALTER TABLE "orders" DROP COLUMN "item_id";--> statement-breakpoint
+ALTER TABLE "orders" DROP COLUMN "quantity";--> statement-breakpoint
+ALTER TABLE "orders" DROP COLUMN "status_id";
\ No newline at end of file
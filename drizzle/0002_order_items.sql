@@ -0,0 +1,53 @@
+CREATE TABLE "order_items" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"order_id" varchar(255) NOT NULL,
+	"item_id" varchar(255) NOT NULL,
+	"position" integer NOT NULL,
+	"product_name" varchar(255) NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_price" numeric(10, 2) NOT NULL,
+	"tax_category" varchar(20) NOT NULL,
+	"tax_rate" numeric(7, 6) NOT NULL,
+	"net_amount" numeric(10, 2) NOT NULL,
+	"tax_amount" numeric(10, 2) NOT NULL,
+	"line_total" numeric(10, 2) NOT NULL,
+	CONSTRAINT "order_items_order_position_unique" UNIQUE("order_id","position")
+);
+--> statement-breakpoint
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_item_id_items_id_fk" FOREIGN KEY ("item_id") REFERENCES "public"."items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "order_items_item_idx" ON "order_items" USING btree ("item_id");--> statement-breakpoint
+-- Orders placed before the catalog existed can reference products it never had
+INSERT INTO "items" ("id", "name", "price", "tax_category")
+SELECT DISTINCT ON (line->>'productId')
+	line->>'productId',
+	line->>'productName',
+	(line->>'price')::numeric,
+	coalesce(line->>'taxCategory', 'standard')
+FROM "orders" o, jsonb_array_elements(o."items") AS line
+ORDER BY line->>'productId', o."created_at" DESC
+ON CONFLICT ("id") DO NOTHING;--> statement-breakpoint
+-- items and tax_lines were written side by side, one tax line per item
+INSERT INTO "order_items" (
+	"id", "order_id", "item_id", "position", "product_name", "quantity", "unit_price",
+	"tax_category", "tax_rate", "net_amount", "tax_amount", "line_total"
+)
+SELECT
+	gen_random_uuid()::text,
+	o."id",
+	line.value->>'productId',
+	line.position - 1,
+	line.value->>'productName',
+	(line.value->>'quantity')::integer,
+	(line.value->>'price')::numeric,
+	coalesce(tax.value->>'taxCategory', line.value->>'taxCategory', 'standard'),
+	coalesce((tax.value->>'rate')::numeric, 0),
+	coalesce((tax.value->>'netAmount')::numeric, (line.value->>'price')::numeric * (line.value->>'quantity')::integer),
+	coalesce((tax.value->>'taxAmount')::numeric, 0),
+	coalesce((tax.value->>'grossAmount')::numeric, (line.value->>'price')::numeric * (line.value->>'quantity')::integer)
+FROM "orders" o
+CROSS JOIN LATERAL jsonb_array_elements(o."items") WITH ORDINALITY AS line(value, position)
+LEFT JOIN LATERAL jsonb_array_elements(o."tax_lines") WITH ORDINALITY AS tax(value, position)
+	ON tax.position = line.position;--> statement-breakpoint
+ALTER TABLE "orders" DROP COLUMN "items";--> statement-breakpoint
+ALTER TABLE "orders" DROP COLUMN "tax_lines";
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "exchange_rates" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"base_currency" varchar(3) NOT NULL,
+	"quote_currency" varchar(3) NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"effective_date" date NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "exchange_rates_pair_date_unique" UNIQUE("base_currency","quote_currency","effective_date")
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "reporting_currency" varchar(3);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "reporting_total" numeric(10, 2);--> statement-breakpoint
+-- Every order so far was placed in the single currency the shop used
+UPDATE "orders" SET "reporting_currency" = "currency", "reporting_total" = "total";--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "reporting_currency" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "reporting_total" SET NOT NULL;
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "discount_rules" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"percentage" numeric(5, 2),
+	"amount" numeric(10, 2),
+	"currency" varchar(3),
+	"buy_quantity" integer,
+	"get_quantity" integer,
+	"product_id" varchar(255),
+	"category" varchar(100),
+	"minimum_total" numeric(10, 2),
+	"coupon_code" varchar(50),
+	"valid_from" timestamp,
+	"valid_to" timestamp,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"stackable" boolean DEFAULT false NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "discount_rules_coupon_code_unique" UNIQUE("coupon_code")
+);
+--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "category" varchar(100);--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "category" varchar(100);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "coupon_codes" varchar(50)[] DEFAULT '{}'::varchar[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "discount_rules" ADD CONSTRAINT "discount_rules_product_id_items_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "discount_rules_active_idx" ON "discount_rules" USING btree ("active","priority");--> statement-breakpoint
+-- Replaces the discounts previously hardcoded in OrderDomainService: 10% on orders over $1000, else 5% over $500
+INSERT INTO "discount_rules" ("id", "name", "type", "percentage", "currency", "minimum_total", "priority", "stackable") VALUES
+	('9d5c8a7e-3f1b-4e2a-9c6d-1a2b3c4d5e01', '10% off orders over $1000', 'percentage', 10, 'USD', 1000.01, 20, false),
+	('9d5c8a7e-3f1b-4e2a-9c6d-1a2b3c4d5e02', '5% off orders over $500', 'percentage', 5, 'USD', 500.01, 10, false)
+ON CONFLICT ("id") DO NOTHING;
@@ -0,0 +1,3 @@
+CREATE INDEX "orders_created_at_idx" ON "orders" USING btree ("created_at","id");--> statement-breakpoint
+CREATE INDEX "orders_user_created_at_idx" ON "orders" USING btree ("user_id","created_at","id");--> statement-breakpoint
+CREATE INDEX "users_created_at_idx" ON "users" USING btree ("created_at","id");
\ No newline at end of file
@@ -0,0 +1,81 @@
+CREATE TABLE "permissions" (
+	"name" varchar(100) PRIMARY KEY NOT NULL,
+	"description" text
+);
+--> statement-breakpoint
+CREATE TABLE "role_permissions" (
+	"role" varchar(50) NOT NULL,
+	"permission" varchar(100) NOT NULL,
+	CONSTRAINT "role_permissions_role_permission_pk" PRIMARY KEY("role","permission")
+);
+--> statement-breakpoint
+CREATE TABLE "roles" (
+	"name" varchar(50) PRIMARY KEY NOT NULL,
+	"description" text
+);
+--> statement-breakpoint
+INSERT INTO "roles" ("name", "description") VALUES
+	('customer', 'Reads and changes their own account and orders'),
+	('staff', 'Reads every account and order, moves orders through fulfilment'),
+	('admin', 'Full access, including deleting users, refunds and role changes')
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+INSERT INTO "permissions" ("name", "description") VALUES
+	('users:create', 'Create users'),
+	('users:read:own', 'Read their own account'),
+	('users:read:any', 'Read and list every account'),
+	('users:update:own', 'Update their own account'),
+	('users:update:any', 'Update any account'),
+	('users:delete', 'Delete users'),
+	('users:assign-role', 'Change the role of a user'),
+	('orders:create:own', 'Place orders for themselves'),
+	('orders:create:any', 'Place orders for any user'),
+	('orders:read:own', 'Read their own orders'),
+	('orders:read:any', 'Read and list every order'),
+	('orders:cancel:own', 'Cancel their own orders'),
+	('orders:cancel:any', 'Cancel any order'),
+	('orders:confirm', 'Confirm pending orders'),
+	('orders:process', 'Start processing orders'),
+	('orders:ship', 'Ship orders'),
+	('orders:deliver', 'Mark orders delivered'),
+	('orders:complete', 'Complete orders'),
+	('orders:refund', 'Refund orders')
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+	('customer', 'users:read:own'),
+	('customer', 'users:update:own'),
+	('customer', 'orders:create:own'),
+	('customer', 'orders:read:own'),
+	('customer', 'orders:cancel:own'),
+	('staff', 'users:read:any'),
+	('staff', 'users:update:own'),
+	('staff', 'orders:create:any'),
+	('staff', 'orders:read:any'),
+	('staff', 'orders:cancel:any'),
+	('staff', 'orders:confirm'),
+	('staff', 'orders:process'),
+	('staff', 'orders:ship'),
+	('staff', 'orders:deliver'),
+	('staff', 'orders:complete'),
+	('admin', 'users:create'),
+	('admin', 'users:read:any'),
+	('admin', 'users:update:any'),
+	('admin', 'users:delete'),
+	('admin', 'users:assign-role'),
+	('admin', 'orders:create:any'),
+	('admin', 'orders:read:any'),
+	('admin', 'orders:cancel:any'),
+	('admin', 'orders:confirm'),
+	('admin', 'orders:process'),
+	('admin', 'orders:ship'),
+	('admin', 'orders:deliver'),
+	('admin', 'orders:complete'),
+	('admin', 'orders:refund')
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+-- Keys minted before roles existed could do everything, so they start out as admin
+ALTER TABLE "api_keys" ADD COLUMN "role" varchar(50) DEFAULT 'admin' NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ALTER COLUMN "role" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" varchar(50) DEFAULT 'customer' NOT NULL;--> statement-breakpoint
+ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_role_roles_name_fk" FOREIGN KEY ("role") REFERENCES "public"."roles"("name") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_permission_permissions_name_fk" FOREIGN KEY ("permission") REFERENCES "public"."permissions"("name") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_role_roles_name_fk" FOREIGN KEY ("role") REFERENCES "public"."roles"("name") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_role_roles_name_fk" FOREIGN KEY ("role") REFERENCES "public"."roles"("name") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
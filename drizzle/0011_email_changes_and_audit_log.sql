@@ -0,0 +1,12 @@
+CREATE TABLE "audit_log" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"actor" varchar(255) NOT NULL,
+	"action" varchar(100) NOT NULL,
+	"entity_type" varchar(50) NOT NULL,
+	"entity_id" varchar(255) NOT NULL,
+	"details" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_tokens" ADD COLUMN "new_email" varchar(255);--> statement-breakpoint
+CREATE INDEX "audit_log_entity_idx" ON "audit_log" USING btree ("entity_type","entity_id","created_at");
\ No newline at end of file
@@ -0,0 +1,10 @@
+INSERT INTO "permissions" ("name", "description") VALUES
+	('users:export:own', 'Export the data held about their own account'),
+	('users:export:any', 'Export the data held about any account'),
+	('users:erase', 'Erase the personal data of users')
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+	('customer', 'users:export:own'),
+	('admin', 'users:export:any'),
+	('admin', 'users:erase')
+ON CONFLICT DO NOTHING;
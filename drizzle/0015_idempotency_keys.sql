@@ -0,0 +1,13 @@
+CREATE TABLE "idempotency_keys" (
+	"principal" varchar(255) NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"request_hash" varchar(64) NOT NULL,
+	"response_status" integer,
+	"response_headers" jsonb,
+	"response_body" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	CONSTRAINT "idempotency_keys_principal_key_pk" PRIMARY KEY("principal","key")
+);
+--> statement-breakpoint
+CREATE INDEX "idempotency_keys_expires_at_idx" ON "idempotency_keys" USING btree ("expires_at");
\ No newline at end of file
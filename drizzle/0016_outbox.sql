@@ -0,0 +1,14 @@
+CREATE TABLE "outbox" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"aggregate_type" varchar(50) NOT NULL,
+	"aggregate_id" varchar(255) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"occurred_at" timestamp NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"available_at" timestamp DEFAULT now() NOT NULL,
+	"dispatched_at" timestamp,
+	"last_error" text
+);
+--> statement-breakpoint
+CREATE INDEX "outbox_pending_idx" ON "outbox" USING btree ("dispatched_at","available_at");
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "webhook_deliveries" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"subscription_id" varchar(255) NOT NULL,
+	"event_id" varchar(255) NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"attempts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"next_attempt_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "webhook_subscriptions" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"owner" varchar(255) NOT NULL,
+	"url" text NOT NULL,
+	"event_types" varchar(100)[] NOT NULL,
+	"secret" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_subscription_id_webhook_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."webhook_subscriptions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "webhook_deliveries_subscription_event_idx" ON "webhook_deliveries" USING btree ("subscription_id","event_id");--> statement-breakpoint
+CREATE INDEX "webhook_deliveries_due_idx" ON "webhook_deliveries" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "webhook_subscriptions_owner_idx" ON "webhook_subscriptions" USING btree ("owner");--> statement-breakpoint
+INSERT INTO "permissions" ("name", "description") VALUES
+	('webhooks:manage', 'Subscribe their own webhooks to events and read their deliveries')
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+	('admin', 'webhooks:manage')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,10 @@
+INSERT INTO "permissions" ("name", "description") VALUES
+	('catalog:manage', 'Add, reprice and remove catalog items'),
+	('tax-rates:manage', 'Create, change and delete tax rates'),
+	('discounts:manage', 'Read, create, change and delete discount rules and their coupon codes')
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+	('admin', 'catalog:manage'),
+	('admin', 'tax-rates:manage'),
+	('admin', 'discounts:manage')
+ON CONFLICT DO NOTHING;
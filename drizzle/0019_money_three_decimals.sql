@@ -0,0 +1,14 @@
+-- Amounts in three-decimal currencies saved before this were already rounded to two decimals
+ALTER TABLE "discount_rules" ALTER COLUMN "amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "discount_rules" ALTER COLUMN "minimum_total" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "items" ALTER COLUMN "price" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "order_items" ALTER COLUMN "unit_price" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "order_items" ALTER COLUMN "net_amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "order_items" ALTER COLUMN "tax_amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "order_items" ALTER COLUMN "line_total" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "subtotal" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "tax_total" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "total" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "reporting_total" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "refunded_amount" SET DATA TYPE numeric(12, 3);--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "refunded_amount" SET DEFAULT '0';
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- Registrations stored before their payload shrank to the user id carried the email and name
+UPDATE "outbox" SET "payload" = jsonb_build_object('userId', "payload"->'userId') WHERE "type" = 'user.registered';
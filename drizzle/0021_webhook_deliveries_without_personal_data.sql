@@ -0,0 +1,2 @@
+-- Deliveries scheduled before registrations shrank to the user id copied the email and name into their body
+UPDATE "webhook_deliveries" SET "payload" = jsonb_set("payload", '{data}', jsonb_build_object('userId', "payload"->'data'->'userId')) WHERE "event_type" = 'user.registered';
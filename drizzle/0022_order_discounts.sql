@@ -0,0 +1,13 @@
+CREATE TABLE "order_discounts" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"order_id" varchar(255) NOT NULL,
+	"position" integer NOT NULL,
+	"rule_id" varchar(255) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"coupon_code" varchar(50),
+	"amount" numeric(12, 3) NOT NULL,
+	CONSTRAINT "order_discounts_order_position_unique" UNIQUE("order_id","position")
+);
+--> statement-breakpoint
+ALTER TABLE "order_discounts" ADD CONSTRAINT "order_discounts_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Two rates for the same jurisdiction and category may not share a day, whatever saves them concurrently.
+-- State and city compare like the service's overlap check: case-insensitively, with no level matching only no level.
+CREATE EXTENSION IF NOT EXISTS btree_gist;--> statement-breakpoint
+ALTER TABLE "tax_rates" ADD CONSTRAINT "tax_rates_no_overlap" EXCLUDE USING gist (
+	"country" WITH =,
+	lower(coalesce("state", '')) WITH =,
+	lower(coalesce("city", '')) WITH =,
+	"category" WITH =,
+	daterange("effective_from", "effective_to", '[]') WITH &&
+);
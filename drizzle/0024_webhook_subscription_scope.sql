@@ -0,0 +1,12 @@
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "user_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "webhook_subscriptions" ADD CONSTRAINT "webhook_subscriptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "permissions" ("name", "description") VALUES
+	('webhooks:manage:own', 'Subscribe their own webhooks to events about their own account and orders'),
+	('webhooks:manage:any', 'Subscribe their own webhooks to every event')
+ON CONFLICT ("name") DO NOTHING;--> statement-breakpoint
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+	('customer', 'webhooks:manage:own'),
+	('admin', 'webhooks:manage:any')
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+-- Existing webhooks were made by admins and keep receiving every event; their grant goes with the permission
+DELETE FROM "permissions" WHERE "name" = 'webhooks:manage';
@@ -24,6 +24,7 @@ INSERT INTO order_statuses (id, name, description, is_active) VALUES
 (4, 'Delivered', 'Order has been successfully delivered', true),
 (5, 'Cancelled', 'Order has been cancelled', false),
 (6, 'Refunded', 'Order has been refunded', false),
-(7, 'Completed', 'Order has been completed', true)
+(7, 'Completed', 'Order has been completed', true),
+(8, 'Confirmed', 'Order has been confirmed and awaits processing', true)
 ON CONFLICT (id) DO NOTHING;
 
@@ -0,0 +1,70 @@
+import { Permission } from '../../domain/vo/Permission';
+import { Role } from '../../domain/vo/Role';
+import type { Principal } from '../../domain/vo/Principal';
+import type { AuthConfig } from '../../infrastructure/auth/config';
+
+// The grants seeded by the roles_and_permissions and later migrations
+export const rolePermissions: Record<Role, Permission[]> = {
+  [Role.CUSTOMER]: [
+    Permission.USERS_READ_OWN,
+    Permission.USERS_UPDATE_OWN,
+    Permission.USERS_EXPORT_OWN,
+    Permission.ORDERS_CREATE_OWN,
+    Permission.ORDERS_READ_OWN,
+    Permission.ORDERS_CANCEL_OWN,
+    Permission.WEBHOOKS_MANAGE_OWN
+  ],
+  [Role.STAFF]: [
+    Permission.USERS_READ_ANY,
+    Permission.USERS_UPDATE_OWN,
+    Permission.ORDERS_CREATE_ANY,
+    Permission.ORDERS_READ_ANY,
+    Permission.ORDERS_CANCEL_ANY,
+    Permission.ORDERS_CONFIRM,
+    Permission.ORDERS_PROCESS,
+    Permission.ORDERS_SHIP,
+    Permission.ORDERS_DELIVER,
+    Permission.ORDERS_COMPLETE
+  ],
+  [Role.ADMIN]: [
+    Permission.USERS_CREATE,
+    Permission.USERS_READ_ANY,
+    Permission.USERS_UPDATE_ANY,
+    Permission.USERS_DELETE,
+    Permission.USERS_EXPORT_ANY,
+    Permission.USERS_ERASE,
+    Permission.USERS_ASSIGN_ROLE,
+    Permission.ORDERS_CREATE_ANY,
+    Permission.ORDERS_READ_ANY,
+    Permission.ORDERS_CANCEL_ANY,
+    Permission.ORDERS_CONFIRM,
+    Permission.ORDERS_PROCESS,
+    Permission.ORDERS_SHIP,
+    Permission.ORDERS_DELIVER,
+    Permission.ORDERS_COMPLETE,
+    Permission.ORDERS_REFUND,
+    Permission.WEBHOOKS_MANAGE_ANY,
+    Permission.CATALOG_MANAGE,
+    Permission.TAX_RATES_MANAGE,
+    Permission.DISCOUNTS_MANAGE
+  ]
+};
+
+export const userPrincipal = (role: Role, id = 'test-id-123'): Principal => ({
+  type: 'user',
+  id,
+  role,
+  permissions: rolePermissions[role]
+});
+
+export const mockCustomer = userPrincipal(Role.CUSTOMER);
+export const mockStaff = userPrincipal(Role.STAFF, 'staff-42');
+export const mockAdmin = userPrincipal(Role.ADMIN, 'admin-1');
+
+export const mockJwtSecret = 'jwt-secret-that-is-at-least-32-chars';
+
+export const mockAuthConfig: AuthConfig = {
+  jwt: { algorithm: 'HS256', key: mockJwtSecret, signingKey: mockJwtSecret, issuer: 'tax-finch' },
+  sessions: { accessTokenTtlSeconds: 900, refreshTokenTtlDays: 30, maxFailedLogins: 3, lockoutMinutes: 15 },
+  tokens: { emailVerificationTtlHours: 48, passwordResetTtlMinutes: 60 }
+};
@@ -0,0 +1,15 @@
+import { ItemEntity } from '../../domain/entities/item';
+import { Money } from '../../domain/vo/Money';
+import { TaxCategory } from '../../domain/vo/TaxCategory';
+
+export const mockItemEntity = new ItemEntity(
+  "5b8f2c1e-9a4d-4c7b-8e1f-2a3b4c5d6e7f",
+  "Test Product",
+  "A product used in tests",
+  Money.of(30000, "USD"),
+  "TEST-SKU-1",
+  TaxCategory.STANDARD,
+  "books",
+  new Date("2024-01-01T00:00:00.000Z"),
+  new Date("2024-01-01T00:00:00.000Z")
+);
@@ -0,0 +1,59 @@
+import { OrderEntity } from '../../domain/entities/order';
+import { Money } from '../../domain/vo/Money';
+import { OrderStatus } from '../../domain/vo/OrderStatus';
+import { PricingMode } from '../../domain/vo/PricingMode';
+import { TaxCategory } from '../../domain/vo/TaxCategory';
+import type { TaxBreakdown } from '../../domain/vo/TaxBreakdown';
+import type { CreateOrderDTOType } from '../../application/dto';
+
+export const mockOrderItems = [
+  {
+    productId: "5b8f2c1e-9a4d-4c7b-8e1f-2a3b4c5d6e7f",
+    productName: "Test Product",
+    quantity: 2,
+    price: Money.of(30000, "USD"),
+    taxCategory: TaxCategory.STANDARD
+  }
+];
+
+export const mockTaxBreakdown: TaxBreakdown = {
+  jurisdiction: { country: "US", state: "TX" },
+  pricingMode: PricingMode.TAX_EXCLUSIVE,
+  lines: [
+    {
+      productId: "5b8f2c1e-9a4d-4c7b-8e1f-2a3b4c5d6e7f",
+      taxCategory: TaxCategory.STANDARD,
+      rate: 0.0625,
+      netAmount: Money.of(60000, "USD"),
+      taxAmount: Money.of(3750, "USD"),
+      grossAmount: Money.of(63750, "USD")
+    }
+  ],
+  netTotal: Money.of(60000, "USD"),
+  taxTotal: Money.of(3750, "USD"),
+  grossTotal: Money.of(63750, "USD")
+};
+
+export const mockOrderEntity = new OrderEntity(
+  "order-id-123",
+  "test-id-123",
+  mockOrderItems,
+  OrderStatus.PENDING,
+  Money.of(63750, "USD"),
+  mockTaxBreakdown,
+  Money.of(58650, "EUR"),
+  [],
+  [],
+  null,
+  Money.zero("USD"),
+  new Date("2024-01-01T00:00:00.000Z"),
+  new Date("2024-01-01T00:00:00.000Z")
+);
+
+export const mockCreateOrderDTO: CreateOrderDTOType = {
+  userId: "test-id-123",
+  items: [{ productId: "5b8f2c1e-9a4d-4c7b-8e1f-2a3b4c5d6e7f", quantity: 2 }],
+  jurisdiction: { country: "US", state: "TX" },
+  pricingMode: PricingMode.TAX_EXCLUSIVE,
+  couponCodes: []
+};
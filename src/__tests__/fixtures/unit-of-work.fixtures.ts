@@ -0,0 +1,4 @@
+import type { IUnitOfWork } from '../../domain/repositories/iunit-of-work';
+
+// Runs the work straight away, for services tested over mocked repositories
+export const mockUnitOfWork: IUnitOfWork = { run: (work) => work() };
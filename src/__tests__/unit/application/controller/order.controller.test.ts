@@ -0,0 +1,288 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OrderController } from '../../../../application/controller/order.controller';
+import {
+  InvalidStateTransitionError,
+  NotFoundError,
+  PreconditionFailedError,
+  ValidationFailedError
+} from '../../../../domain/errors';
+import { mockCreateOrderDTO, mockOrderEntity } from '../../../fixtures/order.fixtures';
+import { mockStaff, rolePermissions } from '../../../fixtures/auth.fixtures';
+import { Role } from '../../../../domain/vo/Role';
+
+const apiKeyPrincipal = { type: 'api_key', id: 'key-1', role: Role.ADMIN, permissions: rolePermissions[Role.ADMIN] };
+
+// Mock Hono Context for unit testing, authenticated as the given principal
+const createMockContext = (body?: any, params?: any, principal: any = apiKeyPrincipal, headers: Record<string, string> = {}) => ({
+  req: {
+    json: vi.fn().mockResolvedValue(body || {}),
+    valid: vi.fn().mockReturnValue(body || {}),
+    param: vi.fn((key: string) => params?.[key] || ''),
+    header: vi.fn((name: string) => headers[name])
+  },
+  get: vi.fn((key: string) => (key === 'principal' ? principal : undefined)),
+  header: vi.fn(),
+  json: vi.fn((data: any, status?: number) => ({ data, status }))
+});
+
+describe('OrderController Unit Tests', () => {
+  let orderController: OrderController;
+  let mockOrderService: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockOrderService = {
+      createOrder: vi.fn(),
+      getOrderById: vi.fn(),
+      confirmOrder: vi.fn(),
+      shipOrder: vi.fn(),
+      processOrder: vi.fn(),
+      deliverOrder: vi.fn(),
+      completeOrder: vi.fn(),
+      cancelOrder: vi.fn(),
+      refundOrder: vi.fn(),
+      getOrderHistory: vi.fn(),
+      getUserOrders: vi.fn(),
+      listOrders: vi.fn(),
+      getOrderWithDiscount: vi.fn()
+    };
+
+    orderController = new OrderController(mockOrderService);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create order successfully and return 201 status', async () => {
+      // Arrange
+      mockOrderService.createOrder.mockResolvedValue(mockOrderEntity);
+      const mockContext = createMockContext(mockCreateOrderDTO);
+
+      // Act
+      const result: any = await orderController.create(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.createOrder).toHaveBeenCalledWith(mockCreateOrderDTO, apiKeyPrincipal);
+      expect(mockContext.json).toHaveBeenCalledWith(
+        { message: "Order created", order: mockOrderEntity },
+        201
+      );
+      expect(result.status).toBe(201);
+    });
+
+    it('should leave unknown users to the error handler', async () => {
+      // Arrange
+      const error = new ValidationFailedError('User not found');
+      mockOrderService.createOrder.mockRejectedValue(error);
+      const mockContext = createMockContext(mockCreateOrderDTO);
+
+      // Act & Assert
+      await expect(orderController.create(mockContext as any)).rejects.toBe(error);
+      expect(mockContext.json).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getById', () => {
+    it('should return order when found', async () => {
+      // Arrange
+      mockOrderService.getOrderById.mockResolvedValue(mockOrderEntity);
+      const mockContext = createMockContext({}, { id: 'order-id-123' });
+
+      // Act
+      const result: any = await orderController.getById(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.getOrderById).toHaveBeenCalledWith('order-id-123', apiKeyPrincipal);
+      expect(mockContext.json).toHaveBeenCalledWith({ order: mockOrderEntity });
+      expect(result.status).toBeUndefined();
+    });
+
+    it('should leave missing orders to the error handler', async () => {
+      // Arrange
+      mockOrderService.getOrderById.mockRejectedValue(new NotFoundError('Order'));
+      const mockContext = createMockContext({}, { id: 'missing' });
+
+      // Act & Assert
+      await expect(orderController.getById(mockContext as any)).rejects.toThrow(NotFoundError);
+      expect(mockContext.json).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirm', () => {
+    it('should confirm order', async () => {
+      // Arrange
+      mockOrderService.confirmOrder.mockResolvedValue(mockOrderEntity);
+      const mockContext = createMockContext({}, { id: 'order-id-123' });
+
+      // Act
+      await orderController.confirm(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.confirmOrder).toHaveBeenCalledWith('order-id-123', apiKeyPrincipal, undefined);
+      expect(mockContext.json).toHaveBeenCalledWith({ message: "Order confirmed", order: mockOrderEntity });
+    });
+
+    it('should make the transition conditional on If-Match and answer the new ETag', async () => {
+      // Arrange
+      const confirmed = mockOrderEntity.withVersion(4);
+      mockOrderService.confirmOrder.mockResolvedValue(confirmed);
+      const mockContext = createMockContext({}, { id: 'order-id-123' }, apiKeyPrincipal, { 'If-Match': '"3"' });
+
+      // Act
+      await orderController.confirm(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.confirmOrder).toHaveBeenCalledWith('order-id-123', apiKeyPrincipal, 3);
+      expect(mockContext.header).toHaveBeenCalledWith('ETag', '"4"');
+    });
+
+    it('should fail the precondition for an If-Match this API never hands out', async () => {
+      // Arrange
+      const mockContext = createMockContext({}, { id: 'order-id-123' }, apiKeyPrincipal, { 'If-Match': 'W/"3"' });
+
+      // Act & Assert
+      await expect(orderController.confirm(mockContext as any)).rejects.toThrow(PreconditionFailedError);
+      expect(mockOrderService.confirmOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invalid transitions', () => {
+    it('should leave transitions outside the status table to the error handler', async () => {
+      // Arrange
+      mockOrderService.deliverOrder.mockRejectedValue(
+        new InvalidStateTransitionError('order', 'pending', 'delivered')
+      );
+      const mockContext = createMockContext({}, { id: 'order-id-123' });
+
+      // Act & Assert
+      await expect(orderController.deliver(mockContext as any))
+        .rejects
+        .toThrow('Cannot move order from pending to delivered');
+      expect(mockContext.json).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should pass the cancellation reason to the service', async () => {
+      // Arrange
+      mockOrderService.cancelOrder.mockResolvedValue(mockOrderEntity);
+      const mockContext = createMockContext({ reason: 'Out of stock' }, { id: 'order-id-123' });
+
+      // Act
+      await orderController.cancel(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.cancelOrder).toHaveBeenCalledWith('order-id-123', { reason: 'Out of stock' }, apiKeyPrincipal, undefined);
+      expect(mockContext.json).toHaveBeenCalledWith({ message: "Order cancelled", order: mockOrderEntity });
+    });
+  });
+
+  describe('refund', () => {
+    it('should pass the refund amount to the service', async () => {
+      // Arrange
+      mockOrderService.refundOrder.mockResolvedValue(mockOrderEntity);
+      const mockContext = createMockContext({ amount: 50 }, { id: 'order-id-123' });
+
+      // Act
+      await orderController.refund(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.refundOrder).toHaveBeenCalledWith('order-id-123', { amount: 50 }, apiKeyPrincipal, undefined);
+      expect(mockContext.json).toHaveBeenCalledWith({ message: "Order refunded", order: mockOrderEntity });
+    });
+  });
+
+  describe('actor', () => {
+    it('should hand the authenticated principal to the service', async () => {
+      // Arrange
+      mockOrderService.confirmOrder.mockResolvedValue(mockOrderEntity);
+      const mockContext = createMockContext({}, { id: 'order-id-123' }, mockStaff);
+
+      // Act
+      await orderController.confirm(mockContext as any);
+
+      // Assert
+      expect(mockContext.get).toHaveBeenCalledWith('principal');
+      expect(mockOrderService.confirmOrder).toHaveBeenCalledWith('order-id-123', mockStaff, undefined);
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return the status timeline', async () => {
+      // Arrange
+      const history = [
+        { fromStatus: null, toStatus: 'pending', changedAt: new Date(), actor: 'api_key:key-1', reason: null },
+        { fromStatus: 'pending', toStatus: 'confirmed', changedAt: new Date(), actor: 'user:staff-42', reason: null }
+      ];
+      mockOrderService.getOrderHistory.mockResolvedValue(history);
+      const mockContext = createMockContext({}, { id: 'order-id-123' });
+
+      // Act
+      await orderController.getHistory(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.getOrderHistory).toHaveBeenCalledWith('order-id-123', apiKeyPrincipal);
+      expect(mockContext.json).toHaveBeenCalledWith({ history });
+    });
+
+    it('should leave missing orders to the error handler', async () => {
+      // Arrange
+      mockOrderService.getOrderHistory.mockRejectedValue(new NotFoundError('Order'));
+      const mockContext = createMockContext({}, { id: 'missing' });
+
+      // Act & Assert
+      await expect(orderController.getHistory(mockContext as any)).rejects.toThrow('Order not found');
+    });
+  });
+
+  describe('ship', () => {
+    it('should ship order', async () => {
+      // Arrange
+      mockOrderService.shipOrder.mockResolvedValue(mockOrderEntity);
+      const mockContext = createMockContext({}, { id: 'order-id-123' });
+
+      // Act
+      await orderController.ship(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.shipOrder).toHaveBeenCalledWith('order-id-123', apiKeyPrincipal, undefined);
+      expect(mockContext.json).toHaveBeenCalledWith({ message: "Order shipped", order: mockOrderEntity });
+    });
+  });
+
+  describe('getByUserId', () => {
+    it('should return a page of orders for the user in the path', async () => {
+      // Arrange
+      const query = { limit: 20, direction: 'forward', sortBy: 'createdAt', sortOrder: 'desc' };
+      const pagination = { limit: 20, nextCursor: 'next', prevCursor: null, hasNextPage: true, hasPrevPage: false };
+      mockOrderService.getUserOrders.mockResolvedValue({ data: [mockOrderEntity], ...pagination });
+      const mockContext = createMockContext(query, { id: 'test-id-123' });
+
+      // Act
+      await orderController.getByUserId(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.getUserOrders).toHaveBeenCalledWith('test-id-123', query, apiKeyPrincipal);
+      expect(mockContext.json).toHaveBeenCalledWith({ orders: [mockOrderEntity], pagination });
+    });
+  });
+
+  describe('getPricing', () => {
+    it('should return order pricing with discount', async () => {
+      // Arrange
+      const pricing = { order: mockOrderEntity, tax: mockOrderEntity.tax, discount: 0.05, finalTotal: 605.63 };
+      mockOrderService.getOrderWithDiscount.mockResolvedValue(pricing);
+      const mockContext = createMockContext({}, { id: 'order-id-123' });
+
+      // Act
+      await orderController.getPricing(mockContext as any);
+
+      // Assert
+      expect(mockOrderService.getOrderWithDiscount).toHaveBeenCalledWith('order-id-123', apiKeyPrincipal);
+      expect(mockContext.json).toHaveBeenCalledWith(pricing);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import 'reflect-metadata';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { container } from 'tsyringe';
+import { authenticate } from '../../../../application/middleware/authenticate';
+import { handleError } from '../../../../application/middleware/problem-details';
+import { AuthService } from '../../../../application/service/auth.service';
+import { UnauthenticatedError } from '../../../../domain/errors';
+
+// App with one protected route echoing the principal, authenticated by the given mock
+const appWith = (authService: Pick<AuthService, 'authenticate'>) => {
+  container.registerInstance(AuthService, authService as AuthService);
+  const app = new Hono();
+  app.use('*', authenticate);
+  app.get('/me', (c) => c.json(c.get('principal')));
+  app.onError(handleError);
+  return app;
+};
+
+describe('authenticate middleware', () => {
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  it('should put the authenticated principal on the context', async () => {
+    // Arrange
+    const authService = { authenticate: vi.fn().mockResolvedValue({ type: 'user', id: 'user-1' }) };
+
+    // Act
+    const response = await appWith(authService).request('/me', {
+      headers: { Authorization: 'Bearer token', 'X-API-Key': 'tf_key' }
+    });
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ type: 'user', id: 'user-1' });
+    expect(authService.authenticate).toHaveBeenCalledWith({ authorization: 'Bearer token', apiKey: 'tf_key' });
+  });
+
+  it('should answer failed authentication with a 401 problem and a challenge', async () => {
+    // Arrange
+    const authService = { authenticate: vi.fn().mockRejectedValue(new UnauthenticatedError()) };
+
+    // Act
+    const response = await appWith(authService).request('/me');
+
+    // Assert
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer realm="api"');
+    expect(await response.json()).toMatchObject({ code: 'unauthenticated', detail: 'Authentication required' });
+  });
+});
@@ -0,0 +1,167 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { container } from 'tsyringe';
+import { idempotent } from '../../../../application/middleware/idempotency';
+import { handleError } from '../../../../application/middleware/problem-details';
+import { validate } from '../../../../application/middleware/validate';
+import { IdempotencyService } from '../../../../application/service/idempotency.service';
+import type { IdempotencyKeyEntity } from '../../../../domain/entities/idempotency-key';
+import { ConflictError } from '../../../../domain/errors';
+import { mockCustomer, mockStaff } from '../../../fixtures/auth.fixtures';
+
+// Keeps records the way the table does: one per caller and key, expired ones up for grabs
+const inMemoryRepository = () => {
+  const records = new Map<string, IdempotencyKeyEntity>();
+  const id = (principal: string, key: string) => `${principal} ${key}`;
+  return {
+    claim: vi.fn(async (record: IdempotencyKeyEntity) => {
+      const held = records.get(id(record.principal, record.key));
+      if (held && held.expiresAt > record.createdAt) return false;
+      records.set(id(record.principal, record.key), record);
+      return true;
+    }),
+    findByKey: vi.fn(async (principal: string, key: string) => records.get(id(principal, key)) ?? null),
+    complete: vi.fn(async (record: IdempotencyKeyEntity) => {
+      records.set(id(record.principal, record.key), record);
+    }),
+    release: vi.fn(async (principal: string, key: string) => {
+      records.delete(id(principal, key));
+    }),
+    deleteExpired: vi.fn()
+  };
+};
+
+describe('idempotent middleware', () => {
+  let repository: ReturnType<typeof inMemoryRepository>;
+  let placeOrder: ReturnType<typeof vi.fn>;
+
+  // Order routes behind the middleware; X-Caller picks who is signed in
+  const buildApp = () => {
+    const app = new Hono();
+    app.use('*', async (c, next) => {
+      c.set('principal', c.req.header('X-Caller') === 'staff' ? mockStaff : mockCustomer);
+      await next();
+    });
+    app.post('/orders', idempotent, validate('json', z.object({ sku: z.string() })), async (c) => {
+      const order = await placeOrder();
+      c.header('ETag', '"1"');
+      return c.json({ order }, 201);
+    });
+    app.onError(handleError);
+    return app;
+  };
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    buildApp().request('/orders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+
+  beforeEach(() => {
+    let placed = 0;
+    placeOrder = vi.fn(async () => ({ id: `order-${++placed}` }));
+    repository = inMemoryRepository();
+    container.registerInstance(IdempotencyService, new IdempotencyService(repository, { ttlHours: 24 }));
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  it('should answer a retry with the stored response instead of running it again', async () => {
+    // Act
+    const first = await post({ sku: 'A' }, { 'Idempotency-Key': 'key-1' });
+    const retry = await post({ sku: 'A' }, { 'Idempotency-Key': 'key-1' });
+
+    // Assert
+    expect(placeOrder).toHaveBeenCalledTimes(1);
+    expect(first.status).toBe(201);
+    expect(first.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(retry.headers.get('ETag')).toBe('"1"');
+    expect(retry.headers.get('Content-Type')).toBe(first.headers.get('Content-Type'));
+    expect(await retry.json()).toEqual(await first.json());
+  });
+
+  it('should refuse a key reused for a different request', async () => {
+    // Arrange
+    await post({ sku: 'A' }, { 'Idempotency-Key': 'key-1' });
+
+    // Act
+    const response = await post({ sku: 'B' }, { 'Idempotency-Key': 'key-1' });
+
+    // Assert
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'idempotency_key_reused' });
+    expect(placeOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer a conflict while the first request is still running', async () => {
+    // Arrange
+    let finish!: () => void;
+    placeOrder.mockImplementationOnce(() => new Promise((resolve) => {
+      finish = () => resolve({ id: 'order-1' });
+    }));
+    const first = post({ sku: 'A' }, { 'Idempotency-Key': 'key-1' });
+    await vi.waitFor(() => expect(placeOrder).toHaveBeenCalled());
+
+    // Act
+    const retry = await post({ sku: 'A' }, { 'Idempotency-Key': 'key-1' });
+    finish();
+
+    // Assert
+    expect(retry.status).toBe(409);
+    expect(await retry.json()).toMatchObject({ code: 'idempotency_key_in_use' });
+    expect((await first).status).toBe(201);
+  });
+
+  it('should let failed requests be retried under the same key', async () => {
+    // Arrange
+    placeOrder.mockRejectedValueOnce(new ConflictError('Out of stock'));
+
+    // Act
+    const failed = await post({ sku: 'A' }, { 'Idempotency-Key': 'key-1' });
+    const invalid = await post({}, { 'Idempotency-Key': 'key-1' });
+    const retry = await post({ sku: 'A' }, { 'Idempotency-Key': 'key-1' });
+
+    // Assert
+    expect(failed.status).toBe(409);
+    expect(invalid.status).toBe(400);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(placeOrder).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the keys of different callers apart', async () => {
+    // Act
+    await post({ sku: 'A' }, { 'Idempotency-Key': 'key-1' });
+    const other = await post({ sku: 'A' }, { 'Idempotency-Key': 'key-1', 'X-Caller': 'staff' });
+
+    // Assert
+    expect(other.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(placeOrder).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run every request without a key', async () => {
+    // Act
+    await post({ sku: 'A' });
+    await post({ sku: 'A' });
+
+    // Assert
+    expect(placeOrder).toHaveBeenCalledTimes(2);
+    expect(repository.claim).not.toHaveBeenCalled();
+  });
+
+  it('should reject keys longer than 255 characters', async () => {
+    // Act
+    const response = await post({ sku: 'A' }, { 'Idempotency-Key': 'k'.repeat(256) });
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(placeOrder).not.toHaveBeenCalled();
+  });
+});
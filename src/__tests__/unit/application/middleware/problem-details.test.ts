@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { handleError, handleNotFound } from '../../../../application/middleware/problem-details';
+import { validate } from '../../../../application/middleware/validate';
+import {
+  AccountLockedError,
+  ConflictError,
+  InvalidStateTransitionError,
+  NotFoundError,
+  PreconditionFailedError,
+  VersionConflictError
+} from '../../../../domain/errors';
+import { InvalidCursorError } from '../../../../infrastructure/database/utils/cursor';
+
+// Small app whose only route throws the given error
+const appThrowing = (error: unknown) => {
+  const app = new Hono();
+  app.get('/things/:id', () => {
+    throw error;
+  });
+  app.post('/things', validate('json', z.object({ name: z.string().min(1) })), (c) => c.json({ ok: true }));
+  app.onError(handleError);
+  app.notFound(handleNotFound);
+  return app;
+};
+
+const problemFrom = async (response: Response) => ({
+  status: response.status,
+  contentType: response.headers.get('Content-Type'),
+  body: await response.json()
+});
+
+describe('problem details error handler', () => {
+  it('should answer missing resources with a 404 problem', async () => {
+    // Act
+    const { status, contentType, body } = await problemFrom(
+      await appThrowing(new NotFoundError('Order', 'order-1')).request('/things/order-1')
+    );
+
+    // Assert
+    expect(status).toBe(404);
+    expect(contentType).toBe('application/problem+json');
+    expect(body).toEqual({
+      type: '/problems/not-found',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Order order-1 not found',
+      instance: '/things/order-1',
+      code: 'not_found',
+      resource: 'Order',
+      id: 'order-1'
+    });
+  });
+
+  it('should answer conflicts and invalid transitions with 409', async () => {
+    // Act
+    const conflict = await problemFrom(await appThrowing(new ConflictError('SKU taken')).request('/things/1'));
+    const transition = await problemFrom(
+      await appThrowing(new InvalidStateTransitionError('order', 'pending', 'shipped')).request('/things/1')
+    );
+
+    // Assert
+    expect(conflict.status).toBe(409);
+    expect(conflict.body.code).toBe('conflict');
+    expect(transition.status).toBe(409);
+    expect(transition.body).toMatchObject({ code: 'invalid_state_transition', from: 'pending', to: 'shipped' });
+  });
+
+  it('should answer stale writes with a version conflict', async () => {
+    // Act
+    const { status, body } = await problemFrom(
+      await appThrowing(new VersionConflictError('Order', 'order-1')).request('/things/order-1')
+    );
+
+    // Assert
+    expect(status).toBe(409);
+    expect(body).toMatchObject({ code: 'version_conflict', resource: 'Order', id: 'order-1' });
+  });
+
+  it('should answer failed If-Match preconditions with 412 and the current ETag', async () => {
+    // Act
+    const response = await appThrowing(new PreconditionFailedError('Order', 4)).request('/things/order-1');
+    const { status, body } = await problemFrom(response);
+
+    // Assert
+    expect(status).toBe(412);
+    expect(response.headers.get('ETag')).toBe('"4"');
+    expect(body).toMatchObject({ title: 'Precondition Failed', code: 'precondition_failed', resource: 'Order' });
+  });
+
+  it('should tell locked out clients when to try again', async () => {
+    // Arrange
+    const lockedUntil = new Date(Date.now() + 90_000);
+
+    // Act
+    const response = await appThrowing(new AccountLockedError(lockedUntil)).request('/things/1');
+    const { status, body } = await problemFrom(response);
+
+    // Assert
+    expect(status).toBe(423);
+    expect(body).toMatchObject({ title: 'Locked', code: 'account_locked', lockedUntil: lockedUntil.toISOString() });
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThanOrEqual(89);
+  });
+
+  it('should list the fields that failed validation', async () => {
+    // Act
+    const { status, body } = await problemFrom(await appThrowing(new InvalidCursorError()).request('/things/1'));
+
+    // Assert
+    expect(status).toBe(400);
+    expect(body.code).toBe('invalid_cursor');
+    expect(body.errors).toEqual([{ path: 'cursor', message: 'Invalid cursor' }]);
+  });
+
+  it('should report request bodies rejected by the schema as validation failures', async () => {
+    // Act
+    const response = await appThrowing(null).request('/things', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: '' })
+    });
+    const { status, body } = await problemFrom(response);
+
+    // Assert
+    expect(status).toBe(400);
+    expect(body.code).toBe('validation_failed');
+    expect(body.errors).toEqual([{ path: 'name', message: expect.any(String) }]);
+  });
+
+  it('should hide the message of unexpected errors behind a 500', async () => {
+    // Arrange
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Act
+    const { status, body } = await problemFrom(
+      await appThrowing(new Error('connection to 10.0.0.3 refused')).request('/things/1')
+    );
+
+    // Assert
+    expect(status).toBe(500);
+    expect(body).toMatchObject({ code: 'internal_error', detail: 'An unexpected error occurred' });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('should answer unknown routes with a problem as well', async () => {
+    // Act
+    const { status, body } = await problemFrom(await appThrowing(null).request('/nowhere'));
+
+    // Assert
+    expect(status).toBe(404);
+    expect(body).toMatchObject({ code: 'route_not_found', detail: 'No route for GET /nowhere' });
+  });
+});
@@ -0,0 +1,284 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { container } from 'tsyringe';
+import routes from '../../../../application/routes';
+import { handleError, handleNotFound } from '../../../../application/middleware/problem-details';
+import { AccountService } from '../../../../application/service/account.service';
+import { AuthService } from '../../../../application/service/auth.service';
+import { ExchangeRateService } from '../../../../application/service/exchange-rate.service';
+import { OrderService } from '../../../../application/service/order.service';
+import { UserService } from '../../../../application/service/user.service';
+import { UserDataService } from '../../../../application/service/user-data.service';
+import { ItemService } from '../../../../application/service/item.service';
+import { TaxRateService } from '../../../../application/service/tax-rate.service';
+import { DiscountRuleService } from '../../../../application/service/discount-rule.service';
+import { DiscountRuleEntity } from '../../../../domain/entities/discount-rule';
+import { TaxRateEntity } from '../../../../domain/entities/tax-rate';
+import { DiscountType } from '../../../../domain/vo/DiscountType';
+import { TaxCategory } from '../../../../domain/vo/TaxCategory';
+import { ExchangeRateEntity } from '../../../../domain/entities/exchange-rate';
+import { UnauthenticatedError } from '../../../../domain/errors';
+import { DeletedUserOrderPolicy } from '../../../../domain/vo/DeletedUserOrderPolicy';
+import { Role } from '../../../../domain/vo/Role';
+import type { Principal } from '../../../../domain/vo/Principal';
+import { mockAdmin, mockAuthConfig, mockCustomer, mockStaff, userPrincipal } from '../../../fixtures/auth.fixtures';
+import { mockItemEntity } from '../../../fixtures/item.fixtures';
+import { mockCreateOrderDTO, mockOrderEntity } from '../../../fixtures/order.fixtures';
+import { mockUserEntity } from '../../../fixtures/user.fixtures';
+import { mockUnitOfWork } from '../../../fixtures/unit-of-work.fixtures';
+
+// The customer owns mockUserEntity and mockOrderEntity, the other customer owns nothing here
+const principals: Record<string, Principal> = {
+  customer: mockCustomer,
+  otherCustomer: userPrincipal(Role.CUSTOMER, 'someone-else'),
+  staff: mockStaff,
+  admin: mockAdmin
+};
+
+type Caller = keyof typeof principals;
+
+interface RouteCase {
+  method: string;
+  path: string;
+  body?: unknown;
+  allowed: Caller[];
+  hidden?: Caller[]; // Refused like a missing resource, so they cannot tell it exists
+}
+
+const userId = mockUserEntity.id;
+const orderId = mockOrderEntity.id;
+const itemId = mockItemEntity.id;
+const taxRate = TaxRateEntity.create({ country: 'DE' }, TaxCategory.STANDARD, 0.19, '2024-01-01', '2024-12-31');
+const discountRule = DiscountRuleEntity.create({
+  name: 'Spring sale',
+  type: DiscountType.PERCENTAGE,
+  percentage: 10,
+  amount: null,
+  buyQuantity: null,
+  getQuantity: null,
+  productId: null,
+  category: null,
+  minimumTotal: null,
+  couponCode: null,
+  validFrom: null,
+  validTo: null,
+  priority: 0,
+  stackable: false,
+  active: true
+});
+const everyone: Caller[] = ['customer', 'otherCustomer', 'staff', 'admin'];
+
+const matrix: RouteCase[] = [
+  { method: 'GET', path: '/users', allowed: ['staff', 'admin'] },
+  { method: 'GET', path: '/users?deleted=true', allowed: ['admin'] },
+  { method: 'POST', path: '/users', body: { email: 'new@example.com', name: 'New' }, allowed: ['admin'] },
+  { method: 'GET', path: `/users/${userId}`, allowed: ['customer', 'staff', 'admin'] },
+  { method: 'PUT', path: `/users/${userId}`, body: { name: 'Renamed' }, allowed: ['customer', 'admin'] },
+  { method: 'PUT', path: `/users/${userId}`, body: { role: 'admin' }, allowed: ['admin'] },
+  { method: 'POST', path: `/users/${userId}/email`, body: { email: 'moved@example.com' }, allowed: ['customer', 'admin'] },
+  { method: 'DELETE', path: `/users/${userId}`, allowed: ['admin'] },
+  { method: 'POST', path: `/users/${userId}/restore`, allowed: ['admin'] },
+  { method: 'GET', path: `/users/${userId}/export`, allowed: ['customer', 'admin'] },
+  { method: 'GET', path: `/users/${userId}/export?format=zip`, allowed: ['customer', 'admin'] },
+  { method: 'POST', path: `/users/${userId}/erase`, allowed: ['admin'] },
+  { method: 'GET', path: `/users/${userId}/orders`, allowed: ['customer', 'staff', 'admin'] },
+  { method: 'GET', path: '/orders', allowed: ['customer', 'otherCustomer', 'staff', 'admin'] },
+  { method: 'POST', path: '/orders', body: mockCreateOrderDTO, allowed: ['customer', 'staff', 'admin'] },
+  { method: 'GET', path: `/orders/${orderId}`, allowed: ['customer', 'staff', 'admin'], hidden: ['otherCustomer'] },
+  { method: 'POST', path: `/orders/${orderId}/confirm`, allowed: ['staff', 'admin'] },
+  { method: 'POST', path: `/orders/${orderId}/process`, allowed: ['staff', 'admin'] },
+  { method: 'POST', path: `/orders/${orderId}/ship`, allowed: ['staff', 'admin'] },
+  { method: 'POST', path: `/orders/${orderId}/deliver`, allowed: ['staff', 'admin'] },
+  { method: 'POST', path: `/orders/${orderId}/complete`, allowed: ['staff', 'admin'] },
+  { method: 'POST', path: `/orders/${orderId}/cancel`, body: { reason: 'No longer needed' }, allowed: ['customer', 'staff', 'admin'], hidden: ['otherCustomer'] },
+  { method: 'POST', path: `/orders/${orderId}/refund`, body: { amount: '10.00' }, allowed: ['admin'] },
+  { method: 'GET', path: `/orders/${orderId}/history`, allowed: ['customer', 'staff', 'admin'], hidden: ['otherCustomer'] },
+  { method: 'GET', path: `/orders/${orderId}/pricing`, allowed: ['customer', 'staff', 'admin'], hidden: ['otherCustomer'] },
+  { method: 'GET', path: '/items', allowed: everyone },
+  { method: 'GET', path: `/items/${itemId}`, allowed: everyone },
+  { method: 'POST', path: '/items', body: { name: 'Lamp', price: '25.00', currency: 'USD' }, allowed: ['admin'] },
+  { method: 'PUT', path: `/items/${itemId}`, body: { price: '0.01' }, allowed: ['admin'] },
+  { method: 'DELETE', path: `/items/${itemId}`, allowed: ['admin'] },
+  { method: 'GET', path: '/tax-rates', allowed: everyone },
+  { method: 'GET', path: `/tax-rates/${taxRate.id}`, allowed: everyone },
+  { method: 'POST', path: '/tax-rates', body: { jurisdiction: { country: 'DE' }, category: 'standard', rate: 0.19, effectiveFrom: '2025-01-01' }, allowed: ['admin'] },
+  { method: 'PUT', path: `/tax-rates/${taxRate.id}`, body: { rate: 0, effectiveFrom: '2024-01-01' }, allowed: ['admin'] },
+  { method: 'DELETE', path: `/tax-rates/${taxRate.id}`, allowed: ['admin'] },
+  { method: 'GET', path: '/exchange-rates', allowed: everyone },
+  // Listings would hand out every coupon code
+  { method: 'GET', path: '/discount-rules', allowed: ['admin'] },
+  { method: 'GET', path: `/discount-rules/${discountRule.id}`, allowed: ['admin'] },
+  { method: 'POST', path: '/discount-rules', body: { name: 'Everything free', type: 'percentage', percentage: 100 }, allowed: ['admin'] },
+  { method: 'PUT', path: `/discount-rules/${discountRule.id}`, body: { percentage: 100 }, allowed: ['admin'] },
+  { method: 'DELETE', path: `/discount-rules/${discountRule.id}`, allowed: ['admin'] }
+];
+
+const cases = matrix.flatMap((route) =>
+  (Object.keys(principals) as Caller[]).map((caller) => ({ ...route, caller, expected: route.allowed.includes(caller) }))
+);
+
+// The whole API with real services over mocked repositories; callers name themselves in the Authorization header
+const buildApp = () => {
+  const emptyPage = { data: [], limit: 20, nextCursor: null, prevCursor: null, hasNextPage: false, hasPrevPage: false };
+  const userRepository = {
+    findById: vi.fn().mockResolvedValue(mockUserEntity),
+    findByEmail: vi.fn().mockResolvedValue(null),
+    findPage: vi.fn().mockResolvedValue(emptyPage),
+    save: vi.fn(async (user: any) => user),
+    erase: vi.fn(),
+    delete: vi.fn()
+  };
+  const orderRepository = {
+    findById: vi.fn().mockResolvedValue(mockOrderEntity),
+    findByUserId: vi.fn().mockResolvedValue([mockOrderEntity]),
+    findPage: vi.fn().mockResolvedValue(emptyPage),
+    findStatusHistory: vi.fn().mockResolvedValue([]),
+    existsForUser: vi.fn().mockResolvedValue(false),
+    existsForItem: vi.fn().mockResolvedValue(false),
+    save: vi.fn(async (order: any) => order)
+  };
+
+  container.registerInstance(AuthService, {
+    authenticate: async ({ authorization }: { authorization?: string }) => {
+      const principal = principals[authorization?.replace('Bearer ', '') ?? ''];
+      if (!principal) throw new UnauthenticatedError();
+      return principal;
+    }
+  } as unknown as AuthService);
+  container.registerInstance(
+    UserService,
+    new UserService(
+      userRepository as any,
+      orderRepository as any,
+      { revokeAllForUser: vi.fn() } as any,
+      { record: vi.fn() } as any,
+      { orderPolicy: DeletedUserOrderPolicy.BLOCK },
+      mockUnitOfWork
+    )
+  );
+  container.registerInstance(
+    UserDataService,
+    new UserDataService(userRepository as any, orderRepository as any, { findByEntity: vi.fn().mockResolvedValue([]) } as any)
+  );
+  container.registerInstance(
+    AccountService,
+    new AccountService(
+      userRepository as any,
+      { invalidate: vi.fn(), save: vi.fn() } as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      { send: vi.fn() },
+      { appUrl: 'https://shop.example.com' },
+      mockAuthConfig,
+      { record: vi.fn() } as any,
+      mockUnitOfWork
+    )
+  );
+  container.registerInstance(
+    OrderService,
+    new OrderService(
+      orderRepository as any,
+      userRepository as any,
+      { findEffective: vi.fn().mockResolvedValue([]) } as any,
+      { findByIds: vi.fn().mockResolvedValue([mockItemEntity]) } as any,
+      { findActive: vi.fn().mockResolvedValue([]), findByCouponCode: vi.fn() } as any,
+      new ExchangeRateService({
+        findEffective: vi.fn().mockResolvedValue(ExchangeRateEntity.create('USD', 'EUR', 0.92, '2024-01-01'))
+      } as any),
+      'USD',
+      mockUnitOfWork
+    )
+  );
+
+  const itemRepository = {
+    findById: vi.fn().mockResolvedValue(mockItemEntity),
+    findByIds: vi.fn().mockResolvedValue([mockItemEntity]),
+    findAll: vi.fn().mockResolvedValue([mockItemEntity]),
+    findBySku: vi.fn().mockResolvedValue(null),
+    save: vi.fn(),
+    delete: vi.fn()
+  };
+  container.registerInstance(ItemService, new ItemService(itemRepository as any, orderRepository as any));
+  container.registerInstance(
+    TaxRateService,
+    new TaxRateService({
+      findById: vi.fn().mockResolvedValue(taxRate),
+      findAll: vi.fn().mockResolvedValue([taxRate]),
+      findByKey: vi.fn().mockResolvedValue([]),
+      save: vi.fn(),
+      delete: vi.fn()
+    } as any)
+  );
+  container.registerInstance(
+    DiscountRuleService,
+    new DiscountRuleService(
+      {
+        findById: vi.fn().mockResolvedValue(discountRule),
+        findAll: vi.fn().mockResolvedValue([discountRule]),
+        findByCouponCode: vi.fn().mockResolvedValue(null),
+        save: vi.fn(),
+        delete: vi.fn()
+      } as any,
+      itemRepository as any
+    )
+  );
+  container.registerInstance(
+    ExchangeRateService,
+    new ExchangeRateService({ findAll: vi.fn().mockResolvedValue([]) } as any)
+  );
+
+  const app = new Hono();
+  app.route('/api', routes);
+  app.onError(handleError);
+  app.notFound(handleNotFound);
+  return app;
+};
+
+const call = (app: Hono, route: RouteCase, authorization?: string) =>
+  app.request(`/api${route.path}`, {
+    method: route.method,
+    headers: {
+      ...(authorization ? { Authorization: authorization } : {}),
+      ...(route.body ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: route.body ? JSON.stringify(route.body) : undefined
+  });
+
+describe('access control across the API routes', () => {
+  let app: Hono;
+
+  beforeEach(() => {
+    app = buildApp();
+  });
+
+  afterEach(() => {
+    container.clearInstances();
+  });
+
+  it.each(cases)('$method $path as $caller: allowed=$expected', async ({ caller, expected, hidden, ...route }) => {
+    // Act
+    const response = await call(app, route, `Bearer ${caller}`);
+
+    // Assert
+    if (expected) {
+      // Allowed calls may still fail on the order status, but never on authorization or unexpectedly
+      expect([200, 201, 202, 409]).toContain(response.status);
+    } else if (hidden?.includes(caller)) {
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({ code: 'not_found' });
+    } else {
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: 'forbidden' });
+    }
+  });
+
+  it.each(matrix)('$method $path without credentials answers 401', async (route) => {
+    // Act
+    const response = await call(app, route);
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
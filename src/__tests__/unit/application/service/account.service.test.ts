@@ -0,0 +1,292 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AccountService } from '../../../../application/service/account.service';
+import { PasswordCredentialEntity } from '../../../../domain/entities/password-credential';
+import { UserEntity } from '../../../../domain/entities/user';
+import { UserTokenEntity } from '../../../../domain/entities/user-token';
+import { ConflictError, ForbiddenError, ValidationFailedError } from '../../../../domain/errors';
+import type { MailMessage } from '../../../../infrastructure/email/mailer';
+import { mockAuthConfig, mockCustomer, userPrincipal } from '../../../fixtures/auth.fixtures';
+import { Role } from '../../../../domain/vo/Role';
+import { mockUserEntity } from '../../../fixtures/user.fixtures';
+import { mockUnitOfWork } from '../../../fixtures/unit-of-work.fixtures';
+
+// The token is the last query parameter of the emailed link
+const tokenFrom = (message: MailMessage) => /token=([\w-]+)/.exec(message.text)![1];
+
+describe('AccountService', () => {
+  let accountService: AccountService;
+  let mockUserRepository: any;
+  let mockCredentialRepository: any;
+  let mockRefreshTokenRepository: any;
+  let mockUserTokenRepository: any;
+  let mockAuditLogRepository: any;
+  let sent: MailMessage[];
+  let mockMailer: { send: ReturnType<typeof vi.fn> };
+  let storedTokens: UserTokenEntity[];
+
+  const markUsed = (token: UserTokenEntity, at: Date) =>
+    new UserTokenEntity(token.id, token.userId, token.purpose, token.tokenHash, token.expiresAt, token.createdAt, at);
+
+  beforeEach(() => {
+    sent = [];
+    storedTokens = [];
+
+    mockUserRepository = {
+      findByEmail: vi.fn().mockResolvedValue(mockUserEntity),
+      findById: vi.fn().mockResolvedValue(mockUserEntity),
+      save: vi.fn(async (user: UserEntity) => user)
+    };
+    mockCredentialRepository = { findByUserId: vi.fn().mockResolvedValue(null), save: vi.fn() };
+    mockRefreshTokenRepository = { revokeAllForUser: vi.fn() };
+    // Keeps tokens in memory so a link can be followed after it was sent
+    mockUserTokenRepository = {
+      findByHash: vi.fn(async (purpose: string, hash: string) =>
+        storedTokens.find((token) => token.purpose === purpose && token.tokenHash === hash) ?? null
+      ),
+      save: vi.fn(async (token: UserTokenEntity) => {
+        storedTokens.push(token);
+      }),
+      consume: vi.fn(async (id: string, at: Date) => {
+        const index = storedTokens.findIndex((token) => token.id === id && !token.isUsed);
+        if (index < 0) return false;
+        storedTokens[index] = markUsed(storedTokens[index], at);
+        return true;
+      }),
+      invalidate: vi.fn(async (userId: string, purpose: string, at: Date) => {
+        storedTokens = storedTokens.map((token) =>
+          token.userId === userId && token.purpose === purpose && !token.isUsed ? markUsed(token, at) : token
+        );
+      })
+    };
+    mockAuditLogRepository = { record: vi.fn() };
+    mockMailer = {
+      send: vi.fn(async (message: MailMessage) => {
+        sent.push(message);
+      })
+    };
+
+    accountService = new AccountService(
+      mockUserRepository,
+      mockUserTokenRepository,
+      mockCredentialRepository,
+      mockRefreshTokenRepository,
+      { hash: async (password: string) => `hashed:${password}` } as any,
+      mockMailer,
+      { appUrl: 'https://shop.example.com' },
+      mockAuthConfig,
+      mockAuditLogRepository,
+      mockUnitOfWork
+    );
+  });
+
+  describe('email verification', () => {
+    it('should email a link whose token verifies the address once', async () => {
+      // Act
+      await accountService.sendVerification(mockUserEntity);
+      const token = tokenFrom(sent[0]);
+      const user = await accountService.verifyEmail(token);
+
+      // Assert
+      expect(sent[0]).toMatchObject({ to: 'test@example.com', subject: 'Confirm your email address' });
+      expect(sent[0].text).toContain(`https://shop.example.com/verify-email?token=${token}`);
+      expect(sent[0].text).toContain('expires in 48 hours');
+      expect(storedTokens[0].tokenHash).not.toContain(token);
+      expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+      expect(mockUserRepository.save).toHaveBeenCalledWith(user);
+      await expect(accountService.verifyEmail(token)).rejects.toThrow(ValidationFailedError);
+    });
+
+    it('should only honour the latest link', async () => {
+      // Arrange
+      await accountService.sendVerification(mockUserEntity);
+      await accountService.requestVerification('test@example.com');
+
+      // Act & Assert
+      await expect(accountService.verifyEmail(tokenFrom(sent[0]))).rejects.toThrow('Invalid or expired token');
+      await expect(accountService.verifyEmail(tokenFrom(sent[1]))).resolves.toBeInstanceOf(UserEntity);
+    });
+
+    it('should refuse expired tokens', async () => {
+      // Arrange
+      await accountService.sendVerification(mockUserEntity);
+      const [token] = storedTokens;
+      storedTokens[0] = new UserTokenEntity(
+        token.id, token.userId, token.purpose, token.tokenHash, new Date(Date.now() - 1), token.createdAt, null
+      );
+
+      // Act & Assert
+      await expect(accountService.verifyEmail(tokenFrom(sent[0]))).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should send nothing for unknown emails or addresses already verified', async () => {
+      // Arrange
+      mockUserRepository.findByEmail.mockResolvedValueOnce(null);
+
+      // Act
+      await accountService.requestVerification('nobody@example.com');
+      await accountService.sendVerification(mockUserEntity.verifyEmail());
+
+      // Assert
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should log mail that cannot be sent instead of failing the request', async () => {
+      // Arrange
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockMailer.send.mockRejectedValue(new Error('SMTP RCPT TO failed: 550 No such user'));
+
+      // Act & Assert
+      await expect(accountService.requestVerification('test@example.com')).resolves.toBeUndefined();
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('password reset', () => {
+    it('should set the new password, lift the lockout and sign out every session', async () => {
+      // Arrange
+      mockCredentialRepository.findByUserId.mockResolvedValue(
+        new PasswordCredentialEntity('test-id-123', 'hashed:old', 0, new Date(Date.now() + 60_000), new Date())
+      );
+      await accountService.requestPasswordReset('test@example.com');
+
+      // Act
+      await accountService.resetPassword(tokenFrom(sent[0]), 'a brand new passphrase');
+
+      // Assert
+      expect(sent[0].subject).toBe('Reset your password');
+      expect(sent[0].text).toContain('https://shop.example.com/reset-password?token=');
+      expect(sent[0].text).toContain('expires in 60 minutes');
+      const saved = mockCredentialRepository.save.mock.calls[0][0] as PasswordCredentialEntity;
+      expect(saved.passwordHash).toBe('hashed:a brand new passphrase');
+      expect(saved.isLocked()).toBe(false);
+      expect(mockRefreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith('test-id-123', expect.any(Date));
+      // Following the emailed link proves the address
+      expect(mockUserRepository.save).toHaveBeenCalledWith(expect.objectContaining({ emailVerifiedAt: expect.any(Date) }));
+    });
+
+    it('should give accounts created without a password their first one', async () => {
+      // Arrange
+      await accountService.requestPasswordReset('test@example.com');
+
+      // Act
+      await accountService.resetPassword(tokenFrom(sent[0]), 'a brand new passphrase');
+
+      // Assert
+      expect(mockCredentialRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'test-id-123', passwordHash: 'hashed:a brand new passphrase', failedAttempts: 0 })
+      );
+    });
+
+    it('should not accept verification tokens, or a reset token twice', async () => {
+      // Arrange
+      await accountService.sendVerification(mockUserEntity);
+      await accountService.requestPasswordReset('test@example.com');
+      const [verification, reset] = sent.map(tokenFrom);
+      await accountService.resetPassword(reset, 'a brand new passphrase');
+
+      // Act & Assert
+      await expect(accountService.resetPassword(verification, 'another passphrase')).rejects.toThrow(ValidationFailedError);
+      await expect(accountService.resetPassword(reset, 'another passphrase')).rejects.toThrow(ValidationFailedError);
+      expect(mockCredentialRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should quietly ignore unknown emails', async () => {
+      // Arrange
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+
+      // Act
+      await accountService.requestPasswordReset('nobody@example.com');
+
+      // Assert
+      expect(mockUserTokenRepository.save).not.toHaveBeenCalled();
+      expect(mockMailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email change', () => {
+    beforeEach(() => {
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+      mockUserRepository.changeEmail = vi.fn(async (user: UserEntity) => user);
+    });
+
+    it('should keep the old address until the new one confirms the change', async () => {
+      // Act
+      await accountService.requestEmailChange('test-id-123', 'moved@example.com', mockCustomer);
+
+      // Assert
+      expect(sent).toHaveLength(1);
+      expect(sent[0]).toMatchObject({ to: 'moved@example.com', subject: 'Confirm your new email address' });
+      expect(sent[0].text).toContain('https://shop.example.com/confirm-email-change?token=');
+      expect(mockUserRepository.changeEmail).not.toHaveBeenCalled();
+      expect(mockAuditLogRepository.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actor: 'user:test-id-123',
+          action: 'user.email_change_requested',
+          entityId: 'test-id-123',
+          details: { newEmail: 'moved@example.com' }
+        })
+      );
+    });
+
+    it('should move the account, audit the change and tell the old address', async () => {
+      // Arrange
+      await accountService.requestEmailChange('test-id-123', 'moved@example.com', mockCustomer);
+
+      // Act
+      const user = await accountService.confirmEmailChange(tokenFrom(sent[0]));
+
+      // Assert
+      expect(user.email).toBe('moved@example.com');
+      expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+      expect(mockUserRepository.changeEmail).toHaveBeenCalledWith(
+        user,
+        expect.objectContaining({
+          action: 'user.email_changed',
+          details: { from: 'test@example.com', to: 'moved@example.com' }
+        })
+      );
+      expect(sent[1]).toMatchObject({ to: 'test@example.com', subject: 'Your email address was changed' });
+      await expect(accountService.confirmEmailChange(tokenFrom(sent[0]))).rejects.toThrow(ValidationFailedError);
+    });
+
+    it('should void links already mailed to the old address', async () => {
+      // Arrange
+      mockUserRepository.findByEmail.mockResolvedValueOnce(mockUserEntity);
+      await accountService.requestPasswordReset('test@example.com');
+      await accountService.requestEmailChange('test-id-123', 'moved@example.com', mockCustomer);
+      await accountService.confirmEmailChange(tokenFrom(sent[1]));
+
+      // Act & Assert
+      await expect(accountService.resetPassword(tokenFrom(sent[0]), 'a brand new passphrase')).rejects.toThrow(
+        'Invalid or expired token'
+      );
+    });
+
+    it('should refuse addresses other users have, also when taken after the request', async () => {
+      // Arrange
+      const other = new UserEntity('other-1', 'moved@example.com', 'Other', new Date(), new Date());
+      mockUserRepository.findByEmail.mockResolvedValueOnce(other);
+
+      // Act & Assert
+      await expect(accountService.requestEmailChange('test-id-123', 'moved@example.com', mockCustomer)).rejects.toThrow(
+        ConflictError
+      );
+
+      await accountService.requestEmailChange('test-id-123', 'moved@example.com', mockCustomer);
+      mockUserRepository.findByEmail.mockResolvedValueOnce(other);
+      await expect(accountService.confirmEmailChange(tokenFrom(sent[0]))).rejects.toThrow(ConflictError);
+      expect(mockUserRepository.changeEmail).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the current address and changes to other customers', async () => {
+      await expect(accountService.requestEmailChange('test-id-123', 'test@example.com', mockCustomer)).rejects.toThrow(
+        ValidationFailedError
+      );
+      await expect(
+        accountService.requestEmailChange('test-id-123', 'moved@example.com', userPrincipal(Role.CUSTOMER, 'someone-else'))
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { sign } from 'hono/jwt';
+import { AuthService } from '../../../../application/service/auth.service';
+import { ApiKeyService, hashApiKey } from '../../../../application/service/api-key.service';
+import { ApiKeyEntity } from '../../../../domain/entities/api-key';
+import { UnauthenticatedError } from '../../../../domain/errors';
+import { Role } from '../../../../domain/vo/Role';
+import type { AuthConfig } from '../../../../infrastructure/auth/config';
+import { mockAuthConfig, mockJwtSecret, rolePermissions } from '../../../fixtures/auth.fixtures';
+import { mockUserEntity } from '../../../fixtures/user.fixtures';
+
+const secret = mockJwtSecret;
+const config = mockAuthConfig;
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('AuthService', () => {
+  let apiKeyService: ApiKeyService;
+  let mockApiKeyRepository: any;
+  let mockUserRepository: any;
+  let mockRoleRepository: any;
+  const authService = (authConfig: AuthConfig = config) =>
+    new AuthService(apiKeyService, mockUserRepository, mockRoleRepository, authConfig);
+
+  beforeEach(() => {
+    mockApiKeyRepository = {
+      findById: vi.fn(),
+      findByHash: vi.fn(),
+      findAll: vi.fn(),
+      save: vi.fn(),
+      markUsed: vi.fn()
+    };
+    mockUserRepository = { findById: vi.fn().mockResolvedValue(mockUserEntity) };
+    mockRoleRepository = { findPermissions: vi.fn((role: Role) => Promise.resolve(rolePermissions[role])) };
+    apiKeyService = new ApiKeyService(mockApiKeyRepository);
+  });
+
+  describe('bearer tokens', () => {
+    it('should authenticate the subject of a valid token with the permissions of their role', async () => {
+      // Arrange
+      const token = await sign({ sub: mockUserEntity.id, iss: 'tax-finch', exp: inAnHour() }, secret);
+
+      // Act
+      const principal = await authService().authenticate({ authorization: `Bearer ${token}` });
+
+      // Assert
+      expect(mockUserRepository.findById).toHaveBeenCalledWith(mockUserEntity.id);
+      expect(principal).toEqual({
+        type: 'user',
+        id: mockUserEntity.id,
+        role: Role.CUSTOMER,
+        permissions: rolePermissions[Role.CUSTOMER]
+      });
+    });
+
+    it('should reject tokens for users that no longer exist', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(null);
+      const token = await sign({ sub: 'deleted-user', iss: 'tax-finch', exp: inAnHour() }, secret);
+
+      // Act & Assert
+      await expect(authService().authenticate({ authorization: `Bearer ${token}` }))
+        .rejects.toThrow('Token subject is not a known user');
+    });
+
+    it('should reject expired tokens, other issuers and other signing keys', async () => {
+      // Arrange
+      const service = authService();
+      const expired = await sign({ sub: 'user-1', iss: 'tax-finch', exp: 1 }, secret);
+      const foreign = await sign({ sub: 'user-1', iss: 'elsewhere', exp: inAnHour() }, secret);
+      const forged = await sign({ sub: 'user-1', iss: 'tax-finch', exp: inAnHour() }, 'another-secret-that-is-32-chars-long');
+
+      // Act & Assert
+      for (const token of [expired, foreign, forged]) {
+        await expect(service.authenticate({ authorization: `Bearer ${token}` })).rejects.toThrow(UnauthenticatedError);
+      }
+    });
+
+    it('should reject tokens without a subject', async () => {
+      // Arrange
+      const token = await sign({ iss: 'tax-finch', exp: inAnHour() }, secret);
+
+      // Act & Assert
+      await expect(authService().authenticate({ authorization: `Bearer ${token}` }))
+        .rejects.toThrow('Token has no subject');
+    });
+
+    it('should refuse bearer tokens when no JWT key is configured', async () => {
+      // Arrange
+      const token = await sign({ sub: 'user-1', exp: inAnHour() }, secret);
+
+      // Act & Assert
+      await expect(authService({ ...config, jwt: null }).authenticate({ authorization: `Bearer ${token}` }))
+        .rejects.toThrow('Bearer tokens are not accepted');
+    });
+  });
+
+  describe('API keys', () => {
+    it('should find minted keys by the hash that was stored', async () => {
+      // Arrange
+      const { apiKey, key } = await apiKeyService.mintKey('billing-sync', Role.STAFF);
+      mockApiKeyRepository.findByHash.mockResolvedValue(apiKey);
+
+      // Act
+      const principal = await authService().authenticate({ apiKey: key });
+
+      // Assert
+      expect(apiKey.keyHash).toBe(hashApiKey(key));
+      expect(apiKey.keyHash).not.toContain(key);
+      expect(mockApiKeyRepository.findByHash).toHaveBeenCalledWith(hashApiKey(key));
+      expect(mockApiKeyRepository.markUsed).toHaveBeenCalledWith(apiKey.id, expect.any(Date));
+      expect(principal).toEqual({ type: 'api_key', id: apiKey.id, role: Role.STAFF, permissions: rolePermissions[Role.STAFF] });
+    });
+
+    it('should reject revoked and unknown keys', async () => {
+      // Arrange
+      const service = authService();
+      const { apiKey, key } = await apiKeyService.mintKey('old-integration', Role.ADMIN);
+      mockApiKeyRepository.findByHash.mockResolvedValueOnce(apiKey.revoke()).mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(service.authenticate({ apiKey: key })).rejects.toThrow('Invalid or revoked API key');
+      await expect(service.authenticate({ apiKey: 'tf_unknown' })).rejects.toThrow('Invalid or revoked API key');
+      expect(mockApiKeyRepository.markUsed).not.toHaveBeenCalled();
+    });
+
+    it('should never return the hash when a key is listed', async () => {
+      // Arrange
+      const { apiKey } = await apiKeyService.mintKey('reporting', Role.STAFF);
+
+      // Act
+      const listed = apiKey.toJSON();
+
+      // Assert
+      expect(listed).not.toHaveProperty('keyHash');
+      expect(apiKey.prefix).toMatch(/^tf_/);
+    });
+  });
+
+  it('should reject requests without credentials', async () => {
+    await expect(authService().authenticate({})).rejects.toThrow('Authentication required');
+  });
+});
+
+describe('ApiKeyService', () => {
+  it('should revoke keys and report unknown ones as missing', async () => {
+    // Arrange
+    const existing = ApiKeyEntity.create('ci', Role.STAFF, 'tf_abcdef', 'hash');
+    const mockApiKeyRepository: any = { findById: vi.fn(), save: vi.fn() };
+    mockApiKeyRepository.findById.mockResolvedValueOnce(existing).mockResolvedValueOnce(null);
+    const service = new ApiKeyService(mockApiKeyRepository);
+
+    // Act
+    const revoked = await service.revokeKey(existing.id);
+
+    // Assert
+    expect(revoked.isActive).toBe(false);
+    expect(mockApiKeyRepository.save).toHaveBeenCalledWith(revoked);
+    await expect(service.revokeKey('missing')).rejects.toThrow('API key missing not found');
+  });
+});
@@ -0,0 +1,38 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ItemService } from '../../../../application/service/item.service';
+import { ConflictError } from '../../../../domain/errors';
+import { mockAdmin } from '../../../fixtures/auth.fixtures';
+import { mockItemEntity } from '../../../fixtures/item.fixtures';
+
+describe('ItemService', () => {
+  let mockItemRepository: any;
+  let mockOrderRepository: any;
+  let service: ItemService;
+
+  beforeEach(() => {
+    mockItemRepository = { findById: vi.fn().mockResolvedValue(mockItemEntity), delete: vi.fn() };
+    mockOrderRepository = { existsForItem: vi.fn().mockResolvedValue(false) };
+    service = new ItemService(mockItemRepository, mockOrderRepository);
+  });
+
+  describe('deleteItem', () => {
+    it('should delete an item nobody ordered', async () => {
+      // Act
+      await service.deleteItem(mockItemEntity.id, mockAdmin);
+
+      // Assert
+      expect(mockOrderRepository.existsForItem).toHaveBeenCalledWith(mockItemEntity.id);
+      expect(mockItemRepository.delete).toHaveBeenCalledWith(mockItemEntity.id);
+    });
+
+    it('should refuse to delete an item orders were placed for', async () => {
+      // Arrange
+      mockOrderRepository.existsForItem.mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(service.deleteItem(mockItemEntity.id, mockAdmin)).rejects.toThrow(ConflictError);
+      expect(mockItemRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
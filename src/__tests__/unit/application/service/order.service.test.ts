@@ -0,0 +1,392 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OrderService } from '../../../../application/service/order.service';
+import { ExchangeRateService } from '../../../../application/service/exchange-rate.service';
+import { ExchangeRateEntity } from '../../../../domain/entities/exchange-rate';
+import { DiscountRuleEntity } from '../../../../domain/entities/discount-rule';
+import type { DiscountRuleProps } from '../../../../domain/entities/discount-rule';
+import { TaxRateEntity } from '../../../../domain/entities/tax-rate';
+import { OrderStatus } from '../../../../domain/vo/OrderStatus';
+import { TaxCategory } from '../../../../domain/vo/TaxCategory';
+import { DiscountType } from '../../../../domain/vo/DiscountType';
+import { Money } from '../../../../domain/vo/Money';
+import { Role } from '../../../../domain/vo/Role';
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from '../../../../domain/errors';
+import { mockUserEntity } from '../../../fixtures/user.fixtures';
+import { mockCustomer, mockStaff, userPrincipal } from '../../../fixtures/auth.fixtures';
+import { mockItemEntity } from '../../../fixtures/item.fixtures';
+import { mockCreateOrderDTO, mockOrderEntity } from '../../../fixtures/order.fixtures';
+import { mockUnitOfWork } from '../../../fixtures/unit-of-work.fixtures';
+
+const percentageRule = (overrides: Partial<DiscountRuleProps>) =>
+  DiscountRuleEntity.create({
+    name: 'Volume discount',
+    type: DiscountType.PERCENTAGE,
+    percentage: 5,
+    amount: null,
+    buyQuantity: null,
+    getQuantity: null,
+    productId: null,
+    category: null,
+    minimumTotal: null,
+    couponCode: null,
+    validFrom: null,
+    validTo: null,
+    priority: 0,
+    stackable: false,
+    active: true,
+    ...overrides
+  });
+
+describe('OrderService Unit Tests', () => {
+  let orderService: OrderService;
+  let mockOrderRepository: any;
+  let mockUserRepository: any;
+  let mockTaxRateRepository: any;
+  let mockItemRepository: any;
+  let mockExchangeRateRepository: any;
+  let mockDiscountRuleRepository: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockOrderRepository = {
+      findById: vi.fn(),
+      findByUserId: vi.fn(),
+      findPage: vi.fn(),
+      findStatusHistory: vi.fn(),
+      save: vi.fn(async (order: any) => order),
+      delete: vi.fn()
+    };
+    mockUserRepository = { findById: vi.fn() };
+    mockTaxRateRepository = { findEffective: vi.fn().mockResolvedValue([]) };
+    mockItemRepository = { findByIds: vi.fn() };
+    mockDiscountRuleRepository = {
+      findActive: vi.fn().mockResolvedValue([]),
+      findByCouponCode: vi.fn().mockResolvedValue(null)
+    };
+    mockExchangeRateRepository = {
+      findEffective: vi.fn().mockResolvedValue(ExchangeRateEntity.create('USD', 'EUR', 0.92, '2024-01-01'))
+    };
+
+    orderService = new OrderService(
+      mockOrderRepository,
+      mockUserRepository,
+      mockTaxRateRepository,
+      mockItemRepository,
+      mockDiscountRuleRepository,
+      new ExchangeRateService(mockExchangeRateRepository),
+      'EUR',
+      mockUnitOfWork
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createOrder', () => {
+    it('should price items from the catalog and apply effective tax rates', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity);
+      mockItemRepository.findByIds.mockResolvedValue([mockItemEntity]);
+      mockTaxRateRepository.findEffective.mockResolvedValue([
+        TaxRateEntity.create({ country: 'US', state: 'TX' }, TaxCategory.STANDARD, 0.0625, '2020-01-01')
+      ]);
+
+      // Act
+      const order = await orderService.createOrder(mockCreateOrderDTO, mockStaff);
+
+      // Assert
+      expect(mockItemRepository.findByIds).toHaveBeenCalledWith([mockItemEntity.id]);
+      expect(order.items).toEqual([
+        {
+          productId: mockItemEntity.id,
+          productName: mockItemEntity.name,
+          quantity: 2,
+          price: mockItemEntity.price,
+          taxCategory: TaxCategory.STANDARD,
+          category: 'books'
+        }
+      ]);
+      expect(order.tax.taxTotal.toDecimalString()).toBe('37.50');
+      expect(order.total.toJSON()).toEqual({ amount: '637.50', currency: 'USD' });
+      expect(order.status).toBe(OrderStatus.PENDING);
+      expect(mockOrderRepository.save).toHaveBeenCalledWith(order, { actor: 'user:staff-42' });
+    });
+
+    it('should convert the total into the reporting currency at the order date rate', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity);
+      mockItemRepository.findByIds.mockResolvedValue([mockItemEntity]);
+
+      // Act
+      const order = await orderService.createOrder(mockCreateOrderDTO, mockStaff);
+
+      // Assert
+      expect(order.currency).toBe('USD');
+      expect(order.reportingTotal.toJSON()).toEqual({ amount: '552.00', currency: 'EUR' });
+      expect(mockExchangeRateRepository.findEffective).toHaveBeenCalledWith('USD', 'EUR', expect.any(Date));
+    });
+
+    it('should price catalog items in the requested order currency', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity);
+      mockItemRepository.findByIds.mockResolvedValue([mockItemEntity]);
+
+      // Act
+      const order = await orderService.createOrder({ ...mockCreateOrderDTO, currency: 'EUR' }, mockStaff);
+
+      // Assert
+      expect(order.currency).toBe('EUR');
+      expect(order.items[0].price.toDecimalString()).toBe('276.00');
+      expect(order.total.toDecimalString()).toBe('552.00');
+      expect(order.reportingTotal.toDecimalString()).toBe('552.00');
+    });
+
+    it('should reject orders when no exchange rate is known', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity);
+      mockItemRepository.findByIds.mockResolvedValue([mockItemEntity]);
+      mockExchangeRateRepository.findEffective.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(orderService.createOrder(mockCreateOrderDTO, mockStaff))
+        .rejects
+        .toThrow(/No USD\/EUR exchange rate on or before/);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should store the coupon codes presented with the order', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity);
+      mockItemRepository.findByIds.mockResolvedValue([mockItemEntity]);
+      mockDiscountRuleRepository.findByCouponCode.mockResolvedValue(
+        percentageRule({ couponCode: 'SPRING10', percentage: 10 })
+      );
+
+      // Act
+      const order = await orderService.createOrder({ ...mockCreateOrderDTO, couponCodes: ['SPRING10'] }, mockStaff);
+
+      // Assert
+      expect(mockDiscountRuleRepository.findByCouponCode).toHaveBeenCalledWith('SPRING10');
+      expect(order.couponCodes).toEqual(['SPRING10']);
+    });
+
+    it('should store the discounts the order was priced with', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity);
+      mockItemRepository.findByIds.mockResolvedValue([mockItemEntity]);
+      mockTaxRateRepository.findEffective.mockResolvedValue([
+        TaxRateEntity.create({ country: 'US', state: 'TX' }, TaxCategory.STANDARD, 0.0625, '2020-01-01')
+      ]);
+      mockDiscountRuleRepository.findActive.mockResolvedValue([
+        percentageRule({ name: '10% over 1000', percentage: 10, minimumTotal: Money.of(100001, 'USD'), priority: 20 }),
+        percentageRule({ name: '5% over 500', percentage: 5, minimumTotal: Money.of(50001, 'USD'), priority: 10 })
+      ]);
+
+      // Act
+      const order = await orderService.createOrder(mockCreateOrderDTO, mockStaff);
+
+      // Assert
+      expect(order.discounts.map((d) => d.name)).toEqual(['5% over 500']);
+      expect(order.totalDiscount.toDecimalString()).toBe('31.88');
+      expect(order.finalTotal.toDecimalString()).toBe('605.62');
+      expect(mockOrderRepository.save.mock.calls[0][0].discounts).toEqual(order.discounts);
+    });
+
+    it('should reject unknown or expired coupon codes', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity);
+      mockDiscountRuleRepository.findByCouponCode.mockResolvedValue(
+        percentageRule({ couponCode: 'OLD', validTo: new Date('2020-01-01') })
+      );
+
+      // Act & Assert
+      await expect(orderService.createOrder({ ...mockCreateOrderDTO, couponCodes: ['OLD'] }, mockStaff))
+        .rejects
+        .toThrow('Coupon OLD is not valid');
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject products missing from the catalog', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity);
+      mockItemRepository.findByIds.mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(orderService.createOrder(mockCreateOrderDTO, mockStaff))
+        .rejects
+        .toThrow(`Product ${mockItemEntity.id} not found`);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown users', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(orderService.createOrder(mockCreateOrderDTO, mockStaff)).rejects.toThrow('User not found');
+      expect(mockItemRepository.findByIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('should save the cancelled order with the reason for the audit trail', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(mockOrderEntity);
+
+      // Act
+      const order = await orderService.cancelOrder('order-id-123', { reason: 'Out of stock' }, mockStaff);
+
+      // Assert
+      expect(order.status).toBe(OrderStatus.CANCELLED);
+      expect(mockOrderRepository.save).toHaveBeenCalledWith(order, { actor: 'user:staff-42', reason: 'Out of stock' });
+    });
+  });
+
+  describe('expected versions', () => {
+    it('should transition the order when the If-Match version is the stored one', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(mockOrderEntity.withVersion(3));
+
+      // Act
+      const order = await orderService.confirmOrder('order-id-123', mockStaff, 3);
+
+      // Assert
+      expect(order.status).toBe(OrderStatus.CONFIRMED);
+      expect(mockOrderRepository.save).toHaveBeenCalledWith(expect.objectContaining({ version: 3 }), { actor: 'user:staff-42' });
+    });
+
+    it('should refuse to transition an order changed since the client read it', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(mockOrderEntity.withVersion(4));
+
+      // Act & Assert
+      await expect(orderService.confirmOrder('order-id-123', mockStaff, 3)).rejects.toThrow(PreconditionFailedError);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getOrderWithDiscount', () => {
+    it('should report the stored discounts and discounted total in both currencies', async () => {
+      // Arrange
+      const rule = percentageRule({ name: '5% over 500', percentage: 5, minimumTotal: Money.of(50001, 'USD') });
+      mockOrderRepository.findById.mockResolvedValue(mockOrderEntity.withDiscounts([
+        { ruleId: rule.id, name: rule.name, type: rule.type, couponCode: null, amount: Money.of(3188, 'USD') }
+      ]));
+
+      // Act
+      const pricing = await orderService.getOrderWithDiscount('order-id-123', mockStaff);
+
+      // Assert
+      expect(pricing.discounts.map((d) => d.name)).toEqual(['5% over 500']);
+      expect(pricing.totalDiscount.toDecimalString()).toBe('31.88');
+      expect(pricing.finalTotal.toJSON()).toEqual({ amount: '605.62', currency: 'USD' });
+      expect(pricing.reporting.total).toBe(mockOrderEntity.reportingTotal);
+      expect(pricing.reporting.finalTotal.toJSON()).toEqual({ amount: '557.17', currency: 'EUR' });
+      expect(mockExchangeRateRepository.findEffective)
+        .toHaveBeenCalledWith('USD', 'EUR', mockOrderEntity.createdAt);
+    });
+
+    it('should not reprice the order from the rules in force today', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(mockOrderEntity);
+      mockDiscountRuleRepository.findActive.mockResolvedValue([percentageRule({ percentage: 50 })]);
+
+      // Act
+      const pricing = await orderService.getOrderWithDiscount('order-id-123', mockStaff);
+
+      // Assert
+      expect(pricing.discounts).toEqual([]);
+      expect(pricing.finalTotal).toEqual(mockOrderEntity.total);
+      expect(mockDiscountRuleRepository.findActive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUserOrders', () => {
+    it('should list the user orders with the other filters and page settings', async () => {
+      // Arrange
+      const page = { data: [mockOrderEntity], limit: 10, nextCursor: null, prevCursor: null, hasNextPage: false, hasPrevPage: false };
+      mockOrderRepository.findPage.mockResolvedValue(page);
+      const createdFrom = new Date('2024-01-01');
+
+      // Act
+      const result = await orderService.getUserOrders('test-id-123', {
+        limit: 10,
+        direction: 'forward',
+        sortBy: 'total',
+        sortOrder: 'asc',
+        status: [OrderStatus.PENDING],
+        createdFrom
+      }, mockStaff);
+
+      // Assert
+      expect(result).toBe(page);
+      expect(mockOrderRepository.findPage).toHaveBeenCalledWith(
+        { status: [OrderStatus.PENDING], userId: 'test-id-123', createdFrom, createdTo: undefined },
+        { limit: 10, direction: 'forward', sortBy: 'total', sortOrder: 'asc' }
+      );
+    });
+  });
+
+  describe('getOrderHistory', () => {
+    it('should throw when the order does not exist', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(orderService.getOrderHistory('missing', mockStaff)).rejects.toThrow('Order not found');
+      expect(mockOrderRepository.findStatusHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('access control', () => {
+    const otherCustomer = userPrincipal(Role.CUSTOMER, 'someone-else');
+    const emptyPage = { data: [], limit: 20, nextCursor: null, prevCursor: null, hasNextPage: false, hasPrevPage: false };
+    const listQuery = { limit: 20, direction: 'forward', sortBy: 'createdAt', sortOrder: 'desc' } as const;
+
+    it('should let customers place orders only for themselves', async () => {
+      // Act & Assert
+      await expect(orderService.createOrder(mockCreateOrderDTO, otherCustomer)).rejects.toThrow(ForbiddenError);
+      expect(mockUserRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should answer orders customers do not own like missing ones', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(mockOrderEntity);
+
+      // Act & Assert
+      await expect(orderService.getOrderById('order-id-123', otherCustomer)).rejects.toThrow(NotFoundError);
+      await expect(orderService.cancelOrder('order-id-123', { reason: 'Changed my mind' }, otherCustomer))
+        .rejects.toThrow(NotFoundError);
+      // Not even a stale version gives the order away
+      await expect(orderService.cancelOrder('order-id-123', { reason: 'Changed my mind' }, otherCustomer, 7))
+        .rejects.toThrow(NotFoundError);
+      await expect(orderService.getOrderById('order-id-123', mockCustomer)).resolves.toBe(mockOrderEntity);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should check fulfilment permissions before loading the order', async () => {
+      // Act & Assert
+      await expect(orderService.shipOrder('order-id-123', mockCustomer)).rejects.toThrow(ForbiddenError);
+      await expect(orderService.refundOrder('order-id-123', { amount: '1.00' }, mockStaff)).rejects.toThrow(ForbiddenError);
+      expect(mockOrderRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should narrow order listings to the customer own orders', async () => {
+      // Arrange
+      mockOrderRepository.findPage.mockResolvedValue(emptyPage);
+
+      // Act
+      await orderService.listOrders(listQuery, mockCustomer);
+
+      // Assert
+      expect(mockOrderRepository.findPage).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockCustomer.id }),
+        listQuery
+      );
+      await expect(orderService.listOrders({ ...listQuery, userId: 'someone-else' }, mockCustomer))
+        .rejects.toThrow('You can only list your own orders');
+    });
+  });
+});
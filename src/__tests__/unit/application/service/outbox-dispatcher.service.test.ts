@@ -0,0 +1,84 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventBus } from '../../../../application/service/event-bus';
+import { OutboxDispatcher, retryDelayMs } from '../../../../application/service/outbox-dispatcher.service';
+import { DomainEventType, domainEvent } from '../../../../domain/events/domain-event';
+
+const confirmed = domainEvent(DomainEventType.ORDER_CONFIRMED, 'order', 'order-1', { orderId: 'order-1' });
+const shipped = domainEvent(DomainEventType.ORDER_SHIPPED, 'order', 'order-1', { orderId: 'order-1' });
+
+describe('OutboxDispatcher', () => {
+  let mockOutboxRepository: any;
+  let eventBus: EventBus;
+  let dispatcher: OutboxDispatcher;
+
+  beforeEach(() => {
+    mockOutboxRepository = {
+      claimPending: vi.fn().mockResolvedValue([
+        { event: confirmed, attempts: 0 },
+        { event: shipped, attempts: 3 }
+      ]),
+      markDispatched: vi.fn(),
+      markFailed: vi.fn()
+    };
+    eventBus = new EventBus();
+    dispatcher = new OutboxDispatcher(mockOutboxRepository, eventBus, { batchSize: 50 });
+  });
+
+  it('should hand each claimed event to its subscribers and mark it dispatched', async () => {
+    // Arrange
+    const onConfirmed = vi.fn();
+    const onShipped = vi.fn();
+    eventBus.subscribe(DomainEventType.ORDER_CONFIRMED, onConfirmed);
+    eventBus.subscribe(DomainEventType.ORDER_SHIPPED, onShipped);
+    const now = new Date('2026-01-01T00:00:00Z');
+
+    // Act
+    const result = await dispatcher.dispatchPending(now);
+
+    // Assert
+    expect(result).toEqual({ dispatched: 2, failed: 0 });
+    expect(mockOutboxRepository.claimPending).toHaveBeenCalledWith(50, now, expect.any(Number));
+    expect(onConfirmed).toHaveBeenCalledWith(confirmed);
+    expect(onShipped).toHaveBeenCalledWith(shipped);
+    expect(mockOutboxRepository.markDispatched).toHaveBeenCalledWith(confirmed.id, expect.any(Date));
+    expect(mockOutboxRepository.markDispatched).toHaveBeenCalledWith(shipped.id, expect.any(Date));
+  });
+
+  it('should mark events without subscribers dispatched as well', async () => {
+    // Act
+    const result = await dispatcher.dispatchPending();
+
+    // Assert
+    expect(result).toEqual({ dispatched: 2, failed: 0 });
+  });
+
+  it('should leave an event a subscriber failed on for a later retry, and go on with the rest', async () => {
+    // Arrange
+    const onShipped = vi.fn();
+    eventBus.subscribe(DomainEventType.ORDER_CONFIRMED, () => {
+      throw new Error('Warehouse unreachable');
+    });
+    eventBus.subscribe(DomainEventType.ORDER_SHIPPED, onShipped);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const before = Date.now();
+
+    // Act
+    const result = await dispatcher.dispatchPending();
+
+    // Assert
+    expect(result).toEqual({ dispatched: 1, failed: 1 });
+    expect(mockOutboxRepository.markDispatched).not.toHaveBeenCalledWith(confirmed.id, expect.anything());
+    const [id, error, retryAt] = mockOutboxRepository.markFailed.mock.calls[0];
+    expect(id).toBe(confirmed.id);
+    expect(error).toBe('Warehouse unreachable');
+    expect(retryAt.getTime()).toBeGreaterThanOrEqual(before + retryDelayMs(0));
+    expect(onShipped).toHaveBeenCalledWith(shipped);
+  });
+
+  it('should back off exponentially up to an hour', () => {
+    expect(retryDelayMs(0)).toBe(1000);
+    expect(retryDelayMs(3)).toBe(8000);
+    expect(retryDelayMs(30)).toBe(60 * 60 * 1000);
+  });
+});
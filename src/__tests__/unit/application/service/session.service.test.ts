@@ -0,0 +1,262 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { verify } from 'hono/jwt';
+import { SessionService } from '../../../../application/service/session.service';
+import { PasswordCredentialEntity } from '../../../../domain/entities/password-credential';
+import { RefreshTokenEntity } from '../../../../domain/entities/refresh-token';
+import { AccountLockedError, ConflictError, UnauthenticatedError } from '../../../../domain/errors';
+import { mockAuthConfig, mockJwtSecret } from '../../../fixtures/auth.fixtures';
+import { mockUserEntity } from '../../../fixtures/user.fixtures';
+
+// Stands in for scrypt, which is too slow to run in every test
+const fakeHasher = {
+  hash: vi.fn(async (password: string) => `hashed:${password}`),
+  verify: vi.fn(async (password: string, hash: string) => hash === `hashed:${password}`)
+};
+
+const credentials = { email: mockUserEntity.email, password: 'correct horse battery' };
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+  let mockUserRepository: any;
+  let mockCredentialRepository: any;
+  let mockRefreshTokenRepository: any;
+  let mockAccountService: any;
+  let storedTokens: RefreshTokenEntity[];
+  let storedCredential: PasswordCredentialEntity;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storedTokens = [];
+    storedCredential = PasswordCredentialEntity.create(mockUserEntity.id, 'hashed:correct horse battery');
+
+    mockUserRepository = { findByEmail: vi.fn().mockResolvedValue(mockUserEntity) };
+    // Keeps the credential in memory; failures update whatever is stored by then, like the UPDATE does
+    mockCredentialRepository = {
+      findByUserId: vi.fn(async () => storedCredential),
+      save: vi.fn(async (credential: PasswordCredentialEntity) => {
+        storedCredential = credential;
+      }),
+      recordFailure: vi.fn(async (userId: string, maxAttempts: number, lockoutMs: number, now: Date) => {
+        const { passwordHash, failedAttempts, lockedUntil } = storedCredential;
+        storedCredential = failedAttempts + 1 >= maxAttempts
+          ? new PasswordCredentialEntity(userId, passwordHash, 0, new Date(now.getTime() + lockoutMs), now)
+          : new PasswordCredentialEntity(userId, passwordHash, failedAttempts + 1, lockedUntil, now);
+        return storedCredential;
+      }),
+      clearFailures: vi.fn(async (userId: string, now: Date) => {
+        storedCredential = new PasswordCredentialEntity(userId, storedCredential.passwordHash, 0, null, now);
+      }),
+      saveWithUser: vi.fn()
+    };
+    // Keeps tokens in memory so rotation can be followed across calls
+    mockRefreshTokenRepository = {
+      findByHash: vi.fn(async (hash: string) => storedTokens.find((token) => token.tokenHash === hash) ?? null),
+      save: vi.fn(async (token: RefreshTokenEntity) => {
+        storedTokens.push(token);
+      }),
+      revoke: vi.fn(async (id: string, replacedBy: string | null, at: Date) => {
+        const index = storedTokens.findIndex((token) => token.id === id && !token.isRevoked);
+        if (index < 0) return false;
+        const token = storedTokens[index];
+        storedTokens[index] = new RefreshTokenEntity(
+          token.id, token.userId, token.familyId, token.tokenHash, token.expiresAt, token.createdAt, at, replacedBy
+        );
+        return true;
+      }),
+      revokeFamily: vi.fn(async (familyId: string, at: Date) => {
+        storedTokens = storedTokens.map((token) =>
+          token.familyId === familyId && !token.isRevoked
+            ? new RefreshTokenEntity(token.id, token.userId, token.familyId, token.tokenHash, token.expiresAt, token.createdAt, at, null)
+            : token
+        );
+      })
+    };
+
+    mockAccountService = { sendVerification: vi.fn() };
+
+    sessionService = new SessionService(
+      mockUserRepository,
+      mockCredentialRepository,
+      mockRefreshTokenRepository,
+      fakeHasher as any,
+      mockAuthConfig,
+      mockAccountService
+    );
+  });
+
+  describe('register', () => {
+    it('should store the user with a hashed password and sign them in', async () => {
+      // Arrange
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+
+      // Act
+      const { user, session } = await sessionService.register({ ...credentials, name: 'New User' });
+
+      // Assert
+      expect(user.role).toBe('customer');
+      expect(mockCredentialRepository.saveWithUser).toHaveBeenCalledWith(
+        user,
+        expect.objectContaining({ userId: user.id, passwordHash: 'hashed:correct horse battery' })
+      );
+      expect((await verify(session.accessToken, mockJwtSecret, 'HS256')).sub).toBe(user.id);
+      expect(mockAccountService.sendVerification).toHaveBeenCalledWith(user);
+    });
+
+    it('should refuse emails that are already registered', async () => {
+      await expect(sessionService.register({ ...credentials, name: 'Again' })).rejects.toThrow(ConflictError);
+      expect(mockCredentialRepository.saveWithUser).not.toHaveBeenCalled();
+    });
+
+    it('should not create accounts when no signing key is configured', async () => {
+      // Arrange
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+      const withoutKey = new SessionService(
+        mockUserRepository,
+        mockCredentialRepository,
+        mockRefreshTokenRepository,
+        fakeHasher as any,
+        { ...mockAuthConfig, jwt: { ...mockAuthConfig.jwt!, signingKey: null } },
+        mockAccountService
+      );
+
+      // Act & Assert
+      await expect(withoutKey.register({ ...credentials, name: 'New User' })).rejects.toThrow('JWT signing key');
+      expect(mockCredentialRepository.saveWithUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('login', () => {
+    it('should issue an access token for the user and store only a hash of the refresh token', async () => {
+      // Act
+      const session = await sessionService.login(credentials);
+
+      // Assert
+      const payload = await verify(session.accessToken, mockJwtSecret, { alg: 'HS256', iss: 'tax-finch' });
+      expect(payload.sub).toBe(mockUserEntity.id);
+      expect(payload.exp! - payload.iat!).toBe(900);
+      expect(session).toMatchObject({ tokenType: 'Bearer', expiresIn: 900 });
+      expect(storedTokens).toHaveLength(1);
+      expect(storedTokens[0].tokenHash).not.toContain(session.refreshToken);
+    });
+
+    it('should answer unknown emails and wrong passwords alike', async () => {
+      // Arrange
+      mockUserRepository.findByEmail.mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(sessionService.login(credentials)).rejects.toThrow('Invalid email or password');
+      await expect(sessionService.login({ ...credentials, password: 'wrong' })).rejects.toThrow('Invalid email or password');
+      // The unknown email was still checked against a hash, so it takes as long
+      expect(fakeHasher.verify).toHaveBeenCalledTimes(2);
+    });
+
+    it('should lock the account after too many wrong passwords in a row', async () => {
+      // Arrange
+      storedCredential = new PasswordCredentialEntity(mockUserEntity.id, 'hashed:correct horse battery', 2, null, new Date());
+
+      // Act & Assert
+      await expect(sessionService.login({ ...credentials, password: 'wrong' })).rejects.toThrow(AccountLockedError);
+      expect(mockCredentialRepository.recordFailure).toHaveBeenCalledWith(mockUserEntity.id, 3, 15 * 60 * 1000, expect.any(Date));
+      expect(storedCredential.isLocked()).toBe(true);
+
+      // The right password does not get through while the lock lasts
+      fakeHasher.verify.mockClear();
+      await expect(sessionService.login(credentials)).rejects.toThrow(AccountLockedError);
+      expect(fakeHasher.verify).not.toHaveBeenCalled();
+    });
+
+    it('should reset the failure count after a successful login', async () => {
+      // Arrange
+      storedCredential = new PasswordCredentialEntity(mockUserEntity.id, 'hashed:correct horse battery', 2, null, new Date());
+
+      // Act
+      await sessionService.login(credentials);
+
+      // Assert
+      expect(mockCredentialRepository.clearFailures).toHaveBeenCalledWith(mockUserEntity.id, expect.any(Date));
+      expect(storedCredential.failedAttempts).toBe(0);
+    });
+
+    it('should count wrong passwords sent at the same time', async () => {
+      // Act
+      await Promise.allSettled([
+        sessionService.login({ ...credentials, password: 'wrong' }),
+        sessionService.login({ ...credentials, password: 'also wrong' })
+      ]);
+
+      // Assert
+      expect(storedCredential.failedAttempts).toBe(2);
+    });
+
+    it('should keep a password reset that lands while a wrong password is checked', async () => {
+      // Arrange
+      fakeHasher.verify.mockImplementationOnce(async () => {
+        storedCredential = storedCredential.changePassword('hashed:new password');
+        return false;
+      });
+
+      // Act
+      await expect(sessionService.login({ ...credentials, password: 'wrong' })).rejects.toThrow(UnauthenticatedError);
+
+      // Assert
+      expect(storedCredential.passwordHash).toBe('hashed:new password');
+      expect(mockCredentialRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token within the same session', async () => {
+      // Arrange
+      const first = await sessionService.login(credentials);
+
+      // Act
+      const second = await sessionService.refresh(first.refreshToken);
+
+      // Assert
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(storedTokens).toHaveLength(2);
+      expect(storedTokens[0]).toMatchObject({ replacedBy: storedTokens[1].id });
+      expect(storedTokens[0].isRevoked).toBe(true);
+      expect(storedTokens[1].familyId).toBe(storedTokens[0].familyId);
+    });
+
+    it('should revoke the whole session when a replaced token is used again', async () => {
+      // Arrange
+      const first = await sessionService.login(credentials);
+      const second = await sessionService.refresh(first.refreshToken);
+
+      // Act & Assert
+      await expect(sessionService.refresh(first.refreshToken)).rejects.toThrow('already used');
+      await expect(sessionService.refresh(second.refreshToken)).rejects.toThrow(UnauthenticatedError);
+      expect(storedTokens.every((token) => token.isRevoked)).toBe(true);
+    });
+
+    it('should refuse unknown and expired refresh tokens', async () => {
+      // Arrange
+      const session = await sessionService.login(credentials);
+      const [token] = storedTokens;
+      storedTokens[0] = new RefreshTokenEntity(
+        token.id, token.userId, token.familyId, token.tokenHash, new Date(Date.now() - 1), token.createdAt, null, null
+      );
+
+      // Act & Assert
+      await expect(sessionService.refresh('rt_unknown')).rejects.toThrow('Invalid refresh token');
+      await expect(sessionService.refresh(session.refreshToken)).rejects.toThrow('Refresh token has expired');
+    });
+  });
+
+  describe('logout', () => {
+    it('should end the session so its refresh token stops working', async () => {
+      // Arrange
+      const session = await sessionService.login(credentials);
+
+      // Act
+      await sessionService.logout(session.refreshToken);
+      await sessionService.logout(session.refreshToken);
+
+      // Assert
+      await expect(sessionService.refresh(session.refreshToken)).rejects.toThrow(UnauthenticatedError);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { inflateRawSync } from 'node:zlib';
+import { UserDataService, userDataArchive } from '../../../../application/service/user-data.service';
+import { AuditEntryEntity } from '../../../../domain/entities/audit-entry';
+import { ForbiddenError, NotFoundError } from '../../../../domain/errors';
+import { OrderStatus } from '../../../../domain/vo/OrderStatus';
+import { Role } from '../../../../domain/vo/Role';
+import { mockAdmin, mockCustomer, mockStaff, userPrincipal } from '../../../fixtures/auth.fixtures';
+import { mockOrderEntity } from '../../../fixtures/order.fixtures';
+import { mockUserEntity } from '../../../fixtures/user.fixtures';
+
+describe('UserDataService', () => {
+  let userDataService: UserDataService;
+  let mockUserRepository: any;
+  let mockOrderRepository: any;
+  let mockAuditLogRepository: any;
+
+  const statusChange = {
+    fromStatus: null,
+    toStatus: OrderStatus.PENDING,
+    changedAt: new Date('2024-01-01T00:00:00.000Z'),
+    actor: `user:${mockUserEntity.id}`,
+    reason: null
+  };
+  const auditEntry = AuditEntryEntity.record('user:admin-1', 'user.deleted', 'user', mockUserEntity.id);
+
+  beforeEach(() => {
+    mockUserRepository = { findById: vi.fn().mockResolvedValue(mockUserEntity), erase: vi.fn() };
+    mockOrderRepository = {
+      findByUserId: vi.fn().mockResolvedValue([mockOrderEntity]),
+      findStatusHistory: vi.fn().mockResolvedValue([statusChange])
+    };
+    mockAuditLogRepository = { findByEntity: vi.fn().mockResolvedValue([auditEntry]) };
+    userDataService = new UserDataService(mockUserRepository, mockOrderRepository, mockAuditLogRepository);
+  });
+
+  describe('exportUser', () => {
+    it('should gather the profile, orders, their history and the audit entries', async () => {
+      // Act
+      const data = await userDataService.exportUser(mockUserEntity.id, userPrincipal(Role.CUSTOMER, mockUserEntity.id));
+
+      // Assert
+      expect(mockUserRepository.findById).toHaveBeenCalledWith(mockUserEntity.id, { includeDeleted: true });
+      expect(data.profile).toBe(mockUserEntity);
+      expect(data.orders).toEqual([mockOrderEntity]);
+      expect(data.orderStatusHistory).toEqual([{ orderId: mockOrderEntity.id, ...statusChange }]);
+      expect(data.auditLog).toEqual([auditEntry]);
+    });
+
+    it('should only let customers export their own data', async () => {
+      // Act & Assert
+      await expect(userDataService.exportUser('someone-else', mockCustomer)).rejects.toThrow(ForbiddenError);
+      await expect(userDataService.exportUser(mockUserEntity.id, mockStaff)).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should put each section in its own file of the archive', async () => {
+      // Arrange
+      const data = await userDataService.exportUser(mockUserEntity.id, mockAdmin);
+
+      // Act
+      const archive = userDataArchive(data);
+
+      // Assert
+      const names = ['README.txt', 'profile.json', 'orders.json', 'order-status-history.json', 'audit-log.json'];
+      names.forEach((name) => expect(archive.includes(Buffer.from(name))).toBe(true));
+      // The first entry starts right after its 30 byte header and name
+      const compressedSize = archive.readUInt32LE(18);
+      const readme = inflateRawSync(archive.subarray(30 + 'README.txt'.length, 30 + 'README.txt'.length + compressedSize));
+      expect(readme.toString()).toContain(mockUserEntity.id);
+    });
+  });
+
+  describe('eraseUser', () => {
+    it('should pseudonymize and delete the user in one go, with an audit entry', async () => {
+      // Act
+      const erased = await userDataService.eraseUser(mockUserEntity.id, mockAdmin);
+
+      // Assert
+      expect(erased.id).toBe(mockUserEntity.id);
+      expect(erased.email).toBe(`${mockUserEntity.id}@deleted.invalid`);
+      expect(erased.name).toBe('Deleted user');
+      expect(erased.isDeleted).toBe(true);
+      expect(mockUserRepository.erase).toHaveBeenCalledWith(
+        erased,
+        expect.objectContaining({ actor: 'user:admin-1', action: 'user.erased', entityId: mockUserEntity.id })
+      );
+    });
+
+    it('should erase users that were already deleted', async () => {
+      // Arrange
+      const deletedAt = new Date('2024-01-01T00:00:00.000Z');
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity.softDelete(deletedAt));
+
+      // Act
+      const erased = await userDataService.eraseUser(mockUserEntity.id, mockAdmin);
+
+      // Assert
+      expect(erased.deletedAt).toEqual(deletedAt);
+    });
+
+    it('should refuse callers without the erase permission', async () => {
+      // Act & Assert
+      await expect(userDataService.eraseUser(mockUserEntity.id, mockStaff)).rejects.toThrow(ForbiddenError);
+      expect(mockUserRepository.erase).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown users', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(userDataService.eraseUser('missing', mockAdmin)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
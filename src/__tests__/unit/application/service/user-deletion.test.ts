@@ -0,0 +1,119 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UserService } from '../../../../application/service/user.service';
+import { ConflictError, ForbiddenError, PreconditionFailedError } from '../../../../domain/errors';
+import { DeletedUserOrderPolicy } from '../../../../domain/vo/DeletedUserOrderPolicy';
+import { mockAdmin, mockStaff } from '../../../fixtures/auth.fixtures';
+import { mockUserEntity } from '../../../fixtures/user.fixtures';
+import { mockUnitOfWork } from '../../../fixtures/unit-of-work.fixtures';
+
+describe('UserService deletion', () => {
+  let mockUserRepository: any;
+  let mockOrderRepository: any;
+  let mockRefreshTokenRepository: any;
+  let mockAuditLogRepository: any;
+
+  const serviceWith = (orderPolicy: DeletedUserOrderPolicy) =>
+    new UserService(
+      mockUserRepository,
+      mockOrderRepository,
+      mockRefreshTokenRepository,
+      mockAuditLogRepository,
+      { orderPolicy },
+      mockUnitOfWork
+    );
+
+  beforeEach(() => {
+    mockUserRepository = {
+      findById: vi.fn().mockResolvedValue(mockUserEntity),
+      findPage: vi.fn(),
+      save: vi.fn(async (user: any) => user),
+      delete: vi.fn()
+    };
+    mockOrderRepository = { existsForUser: vi.fn().mockResolvedValue(false) };
+    mockRefreshTokenRepository = { revokeAllForUser: vi.fn() };
+    mockAuditLogRepository = { record: vi.fn() };
+  });
+
+  describe('deleteUser', () => {
+    it('should soft-delete the user, sign them out and audit it', async () => {
+      // Act
+      await serviceWith(DeletedUserOrderPolicy.BLOCK).deleteUser(mockUserEntity.id, mockAdmin);
+
+      // Assert
+      expect(mockUserRepository.delete).not.toHaveBeenCalled();
+      const saved = mockUserRepository.save.mock.calls[0][0];
+      expect(saved.id).toBe(mockUserEntity.id);
+      expect(saved.deletedAt).toBeInstanceOf(Date);
+      expect(mockRefreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(mockUserEntity.id, saved.deletedAt);
+      expect(mockAuditLogRepository.record).toHaveBeenCalledWith(
+        expect.objectContaining({ actor: 'user:admin-1', action: 'user.deleted', entityId: mockUserEntity.id })
+      );
+    });
+
+    it('should refuse to delete users with orders under the block policy', async () => {
+      // Arrange
+      mockOrderRepository.existsForUser.mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(serviceWith(DeletedUserOrderPolicy.BLOCK).deleteUser(mockUserEntity.id, mockAdmin))
+        .rejects.toThrow(ConflictError);
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should delete users with orders under the other policies', async () => {
+      // Arrange
+      mockOrderRepository.existsForUser.mockResolvedValue(true);
+
+      // Act
+      await serviceWith(DeletedUserOrderPolicy.ANONYMIZE).deleteUser(mockUserEntity.id, mockAdmin);
+
+      // Assert
+      expect(mockUserRepository.save).toHaveBeenCalled();
+    });
+
+    it('should leave users changed since the If-Match version alone', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity.withVersion(2));
+
+      // Act & Assert
+      await expect(serviceWith(DeletedUserOrderPolicy.BLOCK).deleteUser(mockUserEntity.id, mockAdmin, 1))
+        .rejects.toThrow(PreconditionFailedError);
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+      expect(mockRefreshTokenRepository.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreUser', () => {
+    it('should bring back a deleted user', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUserEntity.softDelete());
+
+      // Act
+      const restored = await serviceWith(DeletedUserOrderPolicy.BLOCK).restoreUser(mockUserEntity.id, mockAdmin);
+
+      // Assert
+      expect(mockUserRepository.findById).toHaveBeenCalledWith(mockUserEntity.id, { includeDeleted: true, lock: 'update' });
+      expect(restored.isDeleted).toBe(false);
+      expect(mockUserRepository.save).toHaveBeenCalledWith(restored);
+      expect(mockAuditLogRepository.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'user.restored', entityId: mockUserEntity.id })
+      );
+    });
+
+    it('should answer a conflict for users that are not deleted', async () => {
+      // Act & Assert
+      await expect(serviceWith(DeletedUserOrderPolicy.BLOCK).restoreUser(mockUserEntity.id, mockAdmin))
+        .rejects.toThrow('User is not deleted');
+    });
+  });
+
+  describe('listUsers', () => {
+    it('should only list deleted users to those who may restore them', async () => {
+      // Act & Assert
+      await expect(
+        serviceWith(DeletedUserOrderPolicy.BLOCK).listUsers({ deleted: true } as any, mockStaff)
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+});
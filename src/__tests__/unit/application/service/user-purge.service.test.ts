@@ -0,0 +1,87 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UserPurgeService } from '../../../../application/service/user-purge.service';
+import { UserEntity } from '../../../../domain/entities/user';
+import { DeletedUserOrderPolicy } from '../../../../domain/vo/DeletedUserOrderPolicy';
+import { mockUnitOfWork } from '../../../fixtures/unit-of-work.fixtures';
+
+const now = new Date('2024-06-30T00:00:00.000Z');
+const createdAt = new Date('2024-01-01T00:00:00.000Z');
+const deletedUser = (id: string) =>
+  new UserEntity(id, `${id}@example.com`, 'Gone', createdAt, createdAt).softDelete(new Date('2024-05-01T00:00:00.000Z'));
+
+describe('UserPurgeService', () => {
+  let mockUserRepository: any;
+  let mockOrderRepository: any;
+  let mockAuditLogRepository: any;
+
+  const purgeWith = (orderPolicy: DeletedUserOrderPolicy) =>
+    new UserPurgeService(
+      mockUserRepository,
+      mockOrderRepository,
+      mockAuditLogRepository,
+      { orderPolicy, purgeAfterDays: 30 },
+      mockUnitOfWork
+    ).purge(now);
+
+  beforeEach(() => {
+    const users = [deletedUser('no-orders'), deletedUser('with-orders')];
+    mockUserRepository = {
+      findDeletedBefore: vi.fn().mockResolvedValue(users),
+      findById: vi.fn(async (id: string) => users.find((user) => user.id === id) ?? null),
+      delete: vi.fn(),
+      erase: vi.fn()
+    };
+    mockOrderRepository = { existsForUser: vi.fn(async (userId: string) => userId === 'with-orders') };
+    mockAuditLogRepository = { record: vi.fn() };
+  });
+
+  it('should only look at users deleted before the restore window', async () => {
+    // Act
+    await purgeWith(DeletedUserOrderPolicy.KEEP);
+
+    // Assert
+    expect(mockUserRepository.findDeletedBefore).toHaveBeenCalledWith(new Date('2024-05-31T00:00:00.000Z'));
+  });
+
+  it('should remove users without orders and keep the others under the keep policy', async () => {
+    // Act
+    const result = await purgeWith(DeletedUserOrderPolicy.KEEP);
+
+    // Assert
+    expect(result).toEqual({ removed: 1, anonymized: 0, kept: 1 });
+    expect(mockUserRepository.delete).toHaveBeenCalledWith('no-orders');
+    expect(mockUserRepository.erase).not.toHaveBeenCalled();
+    expect(mockAuditLogRepository.record).toHaveBeenCalledWith(
+      expect.objectContaining({ actor: 'system', action: 'user.purged', entityId: 'no-orders' })
+    );
+  });
+
+  it('should anonymize users with orders under the anonymize policy', async () => {
+    // Act
+    const result = await purgeWith(DeletedUserOrderPolicy.ANONYMIZE);
+
+    // Assert
+    expect(result).toEqual({ removed: 1, anonymized: 1, kept: 0 });
+    expect(mockUserRepository.delete).not.toHaveBeenCalledWith('with-orders');
+    // Through the same cleanup as an erasure request, with its audit entry
+    expect(mockUserRepository.erase).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'with-orders', email: 'with-orders@deleted.invalid', name: 'Deleted user' }),
+      expect.objectContaining({ actor: 'system', action: 'user.anonymized', entityId: 'with-orders' })
+    );
+  });
+
+  it('should not anonymize the same user twice', async () => {
+    // Arrange
+    const anonymized = deletedUser('with-orders').anonymize(now);
+    mockUserRepository.findDeletedBefore.mockResolvedValue([anonymized]);
+    mockUserRepository.findById.mockResolvedValue(anonymized);
+
+    // Act
+    const result = await purgeWith(DeletedUserOrderPolicy.ANONYMIZE);
+
+    // Assert
+    expect(result).toEqual({ removed: 0, anonymized: 0, kept: 1 });
+    expect(mockUserRepository.erase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WebhookDispatcher, webhookRetryDelayMs } from '../../../../application/service/webhook-dispatcher.service';
+import { WebhookDeliveryEntity } from '../../../../domain/entities/webhook-delivery';
+import { WebhookSubscriptionEntity } from '../../../../domain/entities/webhook-subscription';
+import { DomainEventType, domainEvent } from '../../../../domain/events/domain-event';
+import { WebhookDeliveryStatus } from '../../../../domain/vo/WebhookDelivery';
+import type { WebhookAttempt } from '../../../../domain/vo/WebhookDelivery';
+
+const subscription = WebhookSubscriptionEntity.create(
+  'api_key:partner',
+  null,
+  'https://partner.example.com/hooks',
+  [DomainEventType.ORDER_SHIPPED],
+  'whsec_test'
+);
+const shipped = domainEvent(DomainEventType.ORDER_SHIPPED, 'order', 'order-1', { orderId: 'order-1' });
+
+const succeeded: WebhookAttempt = { attemptedAt: new Date(), statusCode: 200, error: null, durationMs: 12 };
+const failed: WebhookAttempt = { attemptedAt: new Date(), statusCode: 500, error: 'HTTP 500', durationMs: 12 };
+
+describe('WebhookDispatcher', () => {
+  let mockDeliveryRepository: any;
+  let mockSubscriptionRepository: any;
+  let mockSender: any;
+  let dispatcher: WebhookDispatcher;
+
+  const claim = (...deliveries: WebhookDeliveryEntity[]) => mockDeliveryRepository.claimDue.mockResolvedValue(deliveries);
+  const saved = (): WebhookDeliveryEntity => mockDeliveryRepository.save.mock.calls[0][0];
+
+  beforeEach(() => {
+    mockDeliveryRepository = { claimDue: vi.fn().mockResolvedValue([]), save: vi.fn() };
+    mockSubscriptionRepository = { findById: vi.fn().mockResolvedValue(subscription) };
+    mockSender = { send: vi.fn().mockResolvedValue(succeeded) };
+    dispatcher = new WebhookDispatcher(mockDeliveryRepository, mockSubscriptionRepository, mockSender, {
+      maxAttempts: 3
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should post the stored payload to the subscription and mark the delivery delivered', async () => {
+    // Arrange
+    const delivery = WebhookDeliveryEntity.schedule(subscription.id, shipped);
+    claim(delivery);
+
+    // Act
+    const result = await dispatcher.deliverDue();
+
+    // Assert
+    expect(result).toEqual({ delivered: 1, retrying: 0, dead: 0 });
+    expect(mockSender.send).toHaveBeenCalledWith({
+      url: 'https://partner.example.com/hooks',
+      secret: 'whsec_test',
+      eventId: shipped.id,
+      eventType: 'order.shipped',
+      body: JSON.stringify(delivery.payload)
+    });
+    expect(saved().status).toBe(WebhookDeliveryStatus.DELIVERED);
+    expect(saved().attempts).toEqual([succeeded]);
+    expect(saved().nextAttemptAt).toBeNull();
+  });
+
+  it('should schedule a failed delivery for a retry with backoff', async () => {
+    // Arrange
+    claim(WebhookDeliveryEntity.schedule(subscription.id, shipped));
+    mockSender.send.mockResolvedValue(failed);
+    const before = Date.now();
+
+    // Act
+    const result = await dispatcher.deliverDue();
+
+    // Assert
+    expect(result).toEqual({ delivered: 0, retrying: 1, dead: 0 });
+    expect(saved().status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(saved().attempts).toEqual([failed]);
+    expect(saved().nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + webhookRetryDelayMs(1));
+  });
+
+  it('should leave a delivery dead once it runs out of attempts', async () => {
+    // Arrange
+    const delivery = WebhookDeliveryEntity.schedule(subscription.id, shipped)
+      .recordAttempt(failed, new Date())
+      .recordAttempt(failed, new Date());
+    claim(delivery);
+    mockSender.send.mockResolvedValue(failed);
+
+    // Act
+    const result = await dispatcher.deliverDue();
+
+    // Assert
+    expect(result).toEqual({ delivered: 0, retrying: 0, dead: 1 });
+    expect(saved().status).toBe(WebhookDeliveryStatus.DEAD);
+    expect(saved().attempts).toHaveLength(3);
+    expect(saved().nextAttemptAt).toBeNull();
+  });
+
+  it('should skip deliveries whose subscription was deleted meanwhile', async () => {
+    // Arrange
+    claim(WebhookDeliveryEntity.schedule(subscription.id, shipped));
+    mockSubscriptionRepository.findById.mockResolvedValue(null);
+
+    // Act
+    const result = await dispatcher.deliverDue();
+
+    // Assert
+    expect(result).toEqual({ delivered: 0, retrying: 0, dead: 0 });
+    expect(mockSender.send).not.toHaveBeenCalled();
+    expect(mockDeliveryRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should back off exponentially from 30 seconds up to six hours', () => {
+    expect(webhookRetryDelayMs(1)).toBe(30_000);
+    expect(webhookRetryDelayMs(4)).toBe(240_000);
+    expect(webhookRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
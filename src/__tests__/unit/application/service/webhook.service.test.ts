@@ -0,0 +1,185 @@
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WebhookService } from '../../../../application/service/webhook.service';
+import { WebhookDeliveryEntity } from '../../../../domain/entities/webhook-delivery';
+import { WebhookSubscriptionEntity } from '../../../../domain/entities/webhook-subscription';
+import { ForbiddenError, InvalidStateTransitionError, NotFoundError, ValidationFailedError } from '../../../../domain/errors';
+import { DomainEventType, domainEvent } from '../../../../domain/events/domain-event';
+import { WebhookDeliveryStatus } from '../../../../domain/vo/WebhookDelivery';
+import { mockAdmin, mockCustomer, mockStaff, userPrincipal } from '../../../fixtures/auth.fixtures';
+import { Role } from '../../../../domain/vo/Role';
+
+const subscriptionOf = (owner: string, userId: string | null = null) =>
+  WebhookSubscriptionEntity.create(owner, userId, 'https://partner.example.com/hooks', [DomainEventType.ORDER_SHIPPED], 'whsec_test');
+const shipped = domainEvent(DomainEventType.ORDER_SHIPPED, 'order', 'order-1', { orderId: 'order-1' });
+
+describe('WebhookService', () => {
+  let mockSubscriptionRepository: any;
+  let mockDeliveryRepository: any;
+  let service: WebhookService;
+
+  beforeEach(() => {
+    mockSubscriptionRepository = {
+      findById: vi.fn(),
+      findByOwner: vi.fn().mockResolvedValue([]),
+      findForEvent: vi.fn().mockResolvedValue([]),
+      save: vi.fn(),
+      delete: vi.fn()
+    };
+    mockDeliveryRepository = {
+      findById: vi.fn(),
+      findPage: vi.fn(),
+      schedule: vi.fn(),
+      save: vi.fn(),
+      deleteSettledBefore: vi.fn().mockResolvedValue(2)
+    };
+    service = new WebhookService(mockSubscriptionRepository, mockDeliveryRepository, { deliveryRetentionDays: 30 });
+  });
+
+  describe('createWebhook', () => {
+    it('should store the webhook for the caller and hand out its secret once', async () => {
+      // Act
+      const { webhook, secret } = await service.createWebhook(
+        { url: 'https://partner.example.com/hooks', eventTypes: [DomainEventType.ORDER_SHIPPED] },
+        mockAdmin
+      );
+
+      // Assert
+      expect(webhook.owner).toBe('user:admin-1');
+      expect(webhook.userId).toBeNull();
+      expect(secret).toMatch(/^whsec_/);
+      expect(webhook.secret).toBe(secret);
+      expect(JSON.stringify(webhook)).not.toContain(secret);
+      expect(mockSubscriptionRepository.save).toHaveBeenCalledWith(webhook);
+    });
+
+    it('should refuse URLs that are not http or https', async () => {
+      // Act & Assert
+      await expect(
+        service.createWebhook({ url: 'ftp://partner.example.com', eventTypes: [DomainEventType.ORDER_SHIPPED] }, mockAdmin)
+      ).rejects.toThrow(ValidationFailedError);
+    });
+
+    it("should limit a customer's webhook to events about their own data", async () => {
+      // Act
+      const { webhook } = await service.createWebhook(
+        { url: 'https://partner.example.com/hooks', eventTypes: [DomainEventType.ORDER_SHIPPED] },
+        mockCustomer
+      );
+
+      // Assert
+      expect(webhook.owner).toBe(`user:${mockCustomer.id}`);
+      expect(webhook.userId).toBe(mockCustomer.id);
+    });
+
+    it('should need a webhooks:manage grant', async () => {
+      // Act & Assert
+      await expect(
+        service.createWebhook({ url: 'https://partner.example.com', eventTypes: [DomainEventType.ORDER_SHIPPED] }, mockStaff)
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('getWebhook', () => {
+    it("should not show one caller another's webhook", async () => {
+      // Arrange
+      const otherAdmin = userPrincipal(Role.ADMIN, 'admin-2');
+      mockSubscriptionRepository.findById.mockResolvedValue(subscriptionOf('user:admin-1'));
+
+      // Act & Assert
+      await expect(service.getWebhook('webhook-1', otherAdmin)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should queue a dead delivery again', async () => {
+      // Arrange
+      const subscription = subscriptionOf('user:admin-1');
+      const dead = WebhookDeliveryEntity.schedule(subscription.id, shipped).recordAttempt(
+        { attemptedAt: new Date(), statusCode: 500, error: 'HTTP 500', durationMs: 5 },
+        null
+      );
+      mockSubscriptionRepository.findById.mockResolvedValue(subscription);
+      mockDeliveryRepository.findById.mockResolvedValue(dead);
+
+      // Act
+      const delivery = await service.redeliver(subscription.id, dead.id, mockAdmin);
+
+      // Assert
+      expect(delivery.status).toBe(WebhookDeliveryStatus.PENDING);
+      expect(delivery.attempts).toHaveLength(1);
+      expect(mockDeliveryRepository.save).toHaveBeenCalledWith(delivery);
+    });
+
+    it('should refuse deliveries that are not dead', async () => {
+      // Arrange
+      const subscription = subscriptionOf('user:admin-1');
+      const pending = WebhookDeliveryEntity.schedule(subscription.id, shipped);
+      mockSubscriptionRepository.findById.mockResolvedValue(subscription);
+      mockDeliveryRepository.findById.mockResolvedValue(pending);
+
+      // Act & Assert
+      await expect(service.redeliver(subscription.id, pending.id, mockAdmin)).rejects.toThrow(
+        InvalidStateTransitionError
+      );
+    });
+
+    it("should not redeliver another webhook's delivery", async () => {
+      // Arrange
+      const subscription = subscriptionOf('user:admin-1');
+      mockSubscriptionRepository.findById.mockResolvedValue(subscription);
+      mockDeliveryRepository.findById.mockResolvedValue(WebhookDeliveryEntity.schedule('webhook-2', shipped));
+
+      // Act & Assert
+      await expect(service.redeliver(subscription.id, 'delivery-1', mockAdmin)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('schedule', () => {
+    it('should queue one delivery of the event per subscribed webhook', async () => {
+      // Arrange
+      const first = subscriptionOf('user:admin-1');
+      const second = subscriptionOf('api_key:partner');
+      mockSubscriptionRepository.findForEvent.mockResolvedValue([first, second]);
+
+      // Act
+      await service.schedule(shipped);
+
+      // Assert
+      expect(mockSubscriptionRepository.findForEvent).toHaveBeenCalledWith(DomainEventType.ORDER_SHIPPED, null);
+      const [deliveries] = mockDeliveryRepository.schedule.mock.calls[0];
+      expect(deliveries.map((delivery: WebhookDeliveryEntity) => delivery.subscriptionId)).toEqual([first.id, second.id]);
+      expect(deliveries[0].payload).toEqual({
+        id: shipped.id,
+        type: 'order.shipped',
+        occurredAt: shipped.occurredAt.toISOString(),
+        data: { orderId: 'order-1' }
+      });
+    });
+
+    it("should only look up the webhooks allowed to see the event's user", async () => {
+      // Arrange
+      const confirmed = domainEvent(DomainEventType.ORDER_CONFIRMED, 'order', 'order-2', { orderId: 'order-2', userId: 'customer-7' });
+
+      // Act
+      await service.schedule(confirmed);
+
+      // Assert
+      expect(mockSubscriptionRepository.findForEvent).toHaveBeenCalledWith(DomainEventType.ORDER_CONFIRMED, 'customer-7');
+    });
+  });
+
+  describe('purgeSettledDeliveries', () => {
+    it('should delete the deliveries settled longer ago than the retention', async () => {
+      // Arrange
+      const now = new Date('2026-03-31T00:00:00Z');
+
+      // Act
+      const deleted = await service.purgeSettledDeliveries(now);
+
+      // Assert
+      expect(deleted).toBe(2);
+      expect(mockDeliveryRepository.deleteSettledBefore).toHaveBeenCalledWith(new Date('2026-03-01T00:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { OrderEntity } from '../../../../domain/entities/order';
+import { InvalidStateTransitionError } from '../../../../domain/errors';
+import { DomainEventType } from '../../../../domain/events/domain-event';
+import { DiscountType } from '../../../../domain/vo/DiscountType';
+import { Money } from '../../../../domain/vo/Money';
+import { OrderStatus, ORDER_STATUS_TRANSITIONS } from '../../../../domain/vo/OrderStatus';
+import { mockOrderItems, mockTaxBreakdown } from '../../../fixtures/order.fixtures';
+
+const pendingOrder = () =>
+  OrderEntity.create('test-id-123', mockOrderItems, mockTaxBreakdown, mockTaxBreakdown.grossTotal);
+
+describe('OrderEntity', () => {
+  describe('static create method', () => {
+    it('should create a pending order totalled from the tax breakdown', () => {
+      const order = pendingOrder();
+
+      expect(order.status).toBe(OrderStatus.PENDING);
+      expect(order.total).toBe(mockTaxBreakdown.grossTotal);
+      expect(order.cancellationReason).toBeNull();
+      expect(order.refundedAmount.equals(Money.zero('USD'))).toBe(true);
+    });
+
+    it('should reject orders without items', () => {
+      expect(() => OrderEntity.create('test-id-123', [], mockTaxBreakdown, mockTaxBreakdown.grossTotal))
+        .toThrow('Order must have at least one item');
+    });
+  });
+
+  describe('withDiscounts method', () => {
+    it('should take the discounts off the final total', () => {
+      const order = pendingOrder().withDiscounts([
+        { ruleId: 'rule-1', name: 'Spring sale', type: DiscountType.FIXED_AMOUNT, couponCode: 'SPRING', amount: Money.of(5000, 'USD') }
+      ]);
+
+      expect(order.totalDiscount.toDecimalString()).toBe('50.00');
+      expect(order.finalTotal.toDecimalString()).toBe('587.50');
+    });
+
+    it('should refuse to reprice an order once it is stored', () => {
+      const stored = pendingOrder().withVersion(1);
+
+      expect(() => stored.withDiscounts([])).toThrow('Discounts can only be applied to a new order');
+    });
+  });
+
+  describe('status transitions', () => {
+    it('should define transitions for every status', () => {
+      for (const status of Object.values(OrderStatus)) {
+        expect(ORDER_STATUS_TRANSITIONS[status]).toBeDefined();
+      }
+    });
+
+    it('should walk the happy path to completion', () => {
+      const order = pendingOrder().confirm().startProcessing().ship().deliver().complete();
+
+      expect(order.status).toBe(OrderStatus.COMPLETED);
+    });
+
+    it('should raise a typed error for transitions outside the table', () => {
+      const order = pendingOrder();
+
+      expect(() => order.ship()).toThrow(InvalidStateTransitionError);
+      expect(() => order.deliver()).toThrow('Cannot move order from pending to delivered');
+    });
+
+    it('should not allow leaving terminal statuses', () => {
+      const cancelled = pendingOrder().cancel('Customer changed their mind');
+
+      expect(() => cancelled.confirm()).toThrow(InvalidStateTransitionError);
+      expect(() => cancelled.refund(Money.of(1000, 'USD'))).toThrow(InvalidStateTransitionError);
+    });
+  });
+
+  describe('domain events', () => {
+    it('should record confirming and shipping the order', () => {
+      const order = pendingOrder().confirm().startProcessing().ship();
+
+      expect(order.events.map((event) => event.type)).toEqual([
+        DomainEventType.ORDER_CONFIRMED,
+        DomainEventType.ORDER_SHIPPED
+      ]);
+      expect(order.events[1]).toMatchObject({
+        aggregateType: 'order',
+        aggregateId: order.id,
+        payload: { orderId: order.id, userId: 'test-id-123', status: OrderStatus.SHIPPED, total: order.total.toJSON() }
+      });
+    });
+
+    it('should leave the events out once the order is stored', () => {
+      const stored = pendingOrder().confirm().withVersion(1);
+
+      expect(stored.events).toEqual([]);
+      expect(stored.toJSON()).not.toHaveProperty('events');
+    });
+  });
+
+  describe('cancel method', () => {
+    it('should record the cancellation reason', () => {
+      const order = pendingOrder().confirm().cancel('Out of stock');
+
+      expect(order.status).toBe(OrderStatus.CANCELLED);
+      expect(order.cancellationReason).toBe('Out of stock');
+    });
+
+    it('should not cancel shipped orders', () => {
+      const shipped = pendingOrder().confirm().ship();
+
+      expect(() => shipped.cancel('Too late')).toThrow(InvalidStateTransitionError);
+    });
+
+    it('should require a reason', () => {
+      expect(() => pendingOrder().cancel('  ')).toThrow('Cancellation reason is required');
+    });
+  });
+
+  describe('refund method', () => {
+    it('should refund a delivered order', () => {
+      const order = pendingOrder().confirm().ship().deliver().refund(Money.of(10000, 'USD'));
+
+      expect(order.status).toBe(OrderStatus.REFUNDED);
+      expect(order.refundedAmount.toDecimalString()).toBe('100.00');
+    });
+
+    it('should not refund more than the order total', () => {
+      const delivered = pendingOrder().confirm().ship().deliver();
+
+      expect(() => delivered.refund(delivered.total.add(Money.of(1, 'USD'))))
+        .toThrow('Refund amount cannot exceed the order total');
+    });
+
+    it('should not refund more than was paid after discounts', () => {
+      const delivered = pendingOrder()
+        .withDiscounts([
+          { ruleId: 'rule-1', name: 'Spring sale', type: DiscountType.FIXED_AMOUNT, couponCode: null, amount: Money.of(5000, 'USD') }
+        ])
+        .confirm().ship().deliver();
+
+      expect(() => delivered.refund(delivered.total)).toThrow('Refund amount cannot exceed the order total');
+      expect(delivered.refund(delivered.finalTotal).refundedAmount.toDecimalString()).toBe('587.50');
+    });
+  });
+});
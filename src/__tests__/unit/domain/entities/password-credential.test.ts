@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { PasswordCredentialEntity } from '../../../../domain/entities/password-credential';
+
+const now = new Date('2024-01-01T12:00:00Z');
+const fifteenMinutes = 15 * 60 * 1000;
+
+describe('PasswordCredentialEntity', () => {
+  it('should be locked until the lock ends', () => {
+    // Arrange
+    const credential = new PasswordCredentialEntity('user-1', 'hash', 0, new Date(now.getTime() + fifteenMinutes), now);
+
+    // Assert
+    expect(credential.isLocked(now)).toBe(true);
+    expect(credential.isLocked(new Date(now.getTime() + fifteenMinutes))).toBe(false);
+    expect(PasswordCredentialEntity.create('user-1', 'hash').isLocked(now)).toBe(false);
+  });
+
+  it('should clear failures and any lock on a new password', () => {
+    // Arrange
+    const locked = new PasswordCredentialEntity('user-1', 'hash', 2, new Date(now.getTime() + fifteenMinutes), now);
+
+    // Act
+    const changed = locked.changePassword('new-hash', now);
+
+    // Assert
+    expect(changed.passwordHash).toBe('new-hash');
+    expect(changed.failedAttempts).toBe(0);
+    expect(changed.isLocked(now)).toBe(false);
+  });
+});
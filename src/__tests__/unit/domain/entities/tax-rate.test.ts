@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { TaxRateEntity } from '../../../../domain/entities/tax-rate';
+import { TaxCategory } from '../../../../domain/vo/TaxCategory';
+
+const ukRate = (effectiveFrom: string, effectiveTo: string | null, category = TaxCategory.STANDARD) =>
+  TaxRateEntity.create({ country: 'gb' }, category, 0.2, effectiveFrom, effectiveTo);
+
+describe('TaxRateEntity', () => {
+  describe('static create method', () => {
+    it('should normalise the country code', () => {
+      expect(ukRate('2024-01-01', null).jurisdiction.country).toBe('GB');
+    });
+
+    it('should reject rates outside of 0..1', () => {
+      expect(() => TaxRateEntity.create({ country: 'GB' }, TaxCategory.STANDARD, 20, '2024-01-01'))
+        .toThrow('Tax rate must be a fraction between 0 and 1');
+    });
+
+    it('should reject an end date before the start date', () => {
+      expect(() => ukRate('2024-06-01', '2024-05-31'))
+        .toThrow('Effective end date cannot be before the start date');
+    });
+  });
+
+  describe('isEffectiveOn', () => {
+    it('should include both ends of the range', () => {
+      const rate = ukRate('2024-01-01', '2024-12-31');
+
+      expect(rate.isEffectiveOn(new Date('2024-01-01T00:00:00.000Z'))).toBe(true);
+      expect(rate.isEffectiveOn(new Date('2024-12-31T23:59:59.000Z'))).toBe(true);
+      expect(rate.isEffectiveOn(new Date('2025-01-01T00:00:00.000Z'))).toBe(false);
+    });
+
+    it('should treat a missing end date as open-ended', () => {
+      expect(ukRate('2024-01-01', null).isEffectiveOn(new Date('2099-01-01'))).toBe(true);
+    });
+  });
+
+  describe('overlaps', () => {
+    it('should detect overlapping ranges for the same key', () => {
+      expect(ukRate('2024-01-01', '2024-12-31').overlaps(ukRate('2024-12-31', null))).toBe(true);
+      expect(ukRate('2024-01-01', null).overlaps(ukRate('2030-01-01', null))).toBe(true);
+    });
+
+    it('should allow adjacent ranges', () => {
+      expect(ukRate('2024-01-01', '2024-12-31').overlaps(ukRate('2025-01-01', null))).toBe(false);
+    });
+
+    it('should ignore other categories and itself', () => {
+      const rate = ukRate('2024-01-01', null);
+
+      expect(rate.overlaps(ukRate('2024-01-01', null, TaxCategory.REDUCED))).toBe(false);
+      expect(rate.overlaps(rate.update(0.21, '2024-01-01', null))).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { UserEntity } from '../../../../domain/entities/user';
+import { DomainEventType } from '../../../../domain/events/domain-event';
+import { Role } from '../../../../domain/vo/Role';
 import { mockUserData, mockUserEntity, mockLongNameUserData } from '../../../fixtures/user.fixtures';
 
 describe('UserEntity', () => {
@@ -67,6 +69,19 @@ describe('UserEntity', () => {
       expect(userData.updatedAt.getTime()).toBeLessThanOrEqual(afterCreation.getTime());
     });
 
+    it('should record the registration, and keep it through later changes', () => {
+      const user = UserEntity.create('valid@email.com', 'Valid Name', 'valid-id').assignRole(Role.STAFF);
+
+      expect(user.events).toHaveLength(1);
+      expect(user.events[0]).toMatchObject({
+        type: DomainEventType.USER_REGISTERED,
+        aggregateType: 'user',
+        aggregateId: 'valid-id',
+        payload: { userId: 'valid-id' }
+      });
+      expect(user.withVersion(1).events).toEqual([]);
+    });
+
     it('should create a user with valid email and name', () => {
       const userData = UserEntity.create('valid@email.com', 'Valid Name', 'valid-id');
       
@@ -122,6 +137,75 @@ describe('UserEntity', () => {
     });
   });
 
+  describe('assignRole method', () => {
+    it('should start users as customers and keep the role through renames', () => {
+      const staff = user.assignRole(Role.STAFF);
+
+      expect(user.role).toBe(Role.CUSTOMER);
+      expect(staff.role).toBe(Role.STAFF);
+      expect(staff.updateName('Renamed').role).toBe(Role.STAFF);
+    });
+  });
+
+  describe('verifyEmail method', () => {
+    it('should record when the email was verified and keep it across changes', () => {
+      const at = new Date('2024-02-01T00:00:00.000Z');
+
+      const verified = user.verifyEmail(at);
+
+      expect(user.emailVerifiedAt).toBeNull();
+      expect(verified.emailVerifiedAt).toEqual(at);
+      expect(verified.verifyEmail(new Date()).emailVerifiedAt).toEqual(at);
+      expect(verified.updateName('Renamed').emailVerifiedAt).toEqual(at);
+      expect(verified.assignRole(Role.STAFF).emailVerifiedAt).toEqual(at);
+    });
+  });
+
+  describe('changeEmail method', () => {
+    it('should move to the confirmed address and count it as verified', () => {
+      const at = new Date('2024-03-01T00:00:00.000Z');
+
+      const moved = user.changeEmail('moved@example.com', at);
+
+      expect(user.email).toBe('test@example.com');
+      expect(moved.email).toBe('moved@example.com');
+      expect(moved.emailVerifiedAt).toEqual(at);
+      expect(moved.updatedAt).toEqual(at);
+      expect(() => user.changeEmail('  ')).toThrow('Email cannot be empty');
+    });
+  });
+
+  describe('softDelete and restore methods', () => {
+    it('should mark the user deleted and bring them back', () => {
+      const at = new Date('2024-04-01T00:00:00.000Z');
+
+      const deleted = user.softDelete(at);
+      const restored = deleted.restore(new Date('2024-04-02T00:00:00.000Z'));
+
+      expect(user.isDeleted).toBe(false);
+      expect(deleted.isDeleted).toBe(true);
+      expect(deleted.deletedAt).toEqual(at);
+      expect(deleted.updateName('Renamed').deletedAt).toEqual(at);
+      expect(restored.isDeleted).toBe(false);
+      expect(restored.email).toBe('test@example.com');
+    });
+  });
+
+  describe('anonymize method', () => {
+    it('should strip personal data but keep the id orders point at', () => {
+      const at = new Date('2024-05-01T00:00:00.000Z');
+      const deleted = user.verifyEmail(at).softDelete(at);
+
+      const anonymized = deleted.anonymize(new Date('2024-06-01T00:00:00.000Z'));
+
+      expect(anonymized.id).toBe('test-id');
+      expect(anonymized.email).toBe('test-id@deleted.invalid');
+      expect(anonymized.name).toBe('Deleted user');
+      expect(anonymized.emailVerifiedAt).toBeNull();
+      expect(anonymized.deletedAt).toEqual(at);
+    });
+  });
+
   describe('toJSON method', () => {
     it('should return correct JSON structure', () => {
       const json = user.toJSON();
@@ -130,8 +214,12 @@ describe('UserEntity', () => {
         id: 'test-id',
         email: 'test@example.com',
         name: 'Test User',
+        role: 'customer',
+        emailVerifiedAt: null,
+        deletedAt: null,
         createdAt: new Date('2024-01-01T00:00:00.000Z'),
-        updatedAt: new Date('2024-01-01T00:00:00.000Z')
+        updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+        version: 0
       });
     });
 
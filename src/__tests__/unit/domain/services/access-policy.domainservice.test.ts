@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { AccessPolicy } from '../../../../domain/services/access-policy.domainservice';
+import { ForbiddenError } from '../../../../domain/errors';
+import { Permission } from '../../../../domain/vo/Permission';
+import { Role } from '../../../../domain/vo/Role';
+import { mockCustomer, mockStaff, rolePermissions } from '../../../fixtures/auth.fixtures';
+
+describe('AccessPolicy', () => {
+  describe('can', () => {
+    it('should allow owned actions on the principal own resources only', () => {
+      expect(AccessPolicy.can(mockCustomer, 'orders:read', mockCustomer.id)).toBe(true);
+      expect(AccessPolicy.can(mockCustomer, 'orders:read', 'someone-else')).toBe(false);
+    });
+
+    it('should allow owned actions on anyone resources with the any grant', () => {
+      expect(AccessPolicy.can(mockStaff, 'orders:read', 'someone-else')).toBe(true);
+      expect(AccessPolicy.can(mockStaff, 'users:update', 'someone-else')).toBe(false);
+    });
+
+    it('should never treat an API key as the owner, even when the ids match', () => {
+      const apiKey = { type: 'api_key' as const, id: 'key-1', role: Role.CUSTOMER, permissions: rolePermissions[Role.CUSTOMER] };
+
+      expect(AccessPolicy.can(apiKey, 'users:read', 'key-1')).toBe(false);
+    });
+  });
+
+  describe('listScope', () => {
+    it('should narrow listings to the principal own resources without the any grant', () => {
+      expect(AccessPolicy.listScope(mockCustomer, 'orders:read')).toBe(mockCustomer.id);
+      expect(AccessPolicy.listScope(mockStaff, 'orders:read')).toBeUndefined();
+    });
+
+    it('should refuse listings to API keys holding only own grants', () => {
+      const apiKey = { type: 'api_key' as const, id: 'key-1', role: Role.CUSTOMER, permissions: rolePermissions[Role.CUSTOMER] };
+
+      expect(() => AccessPolicy.listScope(apiKey, 'orders:read')).toThrow(ForbiddenError);
+    });
+  });
+
+  describe('assert', () => {
+    it('should name the missing permission in the error', () => {
+      const attempt = () => AccessPolicy.assert(mockStaff, Permission.ORDERS_REFUND);
+
+      expect(attempt).toThrow(ForbiddenError);
+      expect(attempt).toThrow(expect.objectContaining({ permission: 'orders:refund' }));
+    });
+  });
+});
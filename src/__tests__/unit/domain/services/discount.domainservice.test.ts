@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { DiscountDomainService } from '../../../../domain/services/discount.domainservice';
+import { TaxDomainService } from '../../../../domain/services/tax.domainservice';
+import { DiscountRuleEntity } from '../../../../domain/entities/discount-rule';
+import type { DiscountRuleProps } from '../../../../domain/entities/discount-rule';
+import { OrderEntity } from '../../../../domain/entities/order';
+import { DiscountType } from '../../../../domain/vo/DiscountType';
+import { Money } from '../../../../domain/vo/Money';
+import { TaxCategory } from '../../../../domain/vo/TaxCategory';
+import type { OrderItem } from '../../../../domain/vo/OrderItem';
+
+const item = (productId: string, price: string, quantity = 1, category: string | null = null): OrderItem => ({
+  productId,
+  productName: productId,
+  quantity,
+  price: Money.fromDecimal(price, 'USD'),
+  taxCategory: TaxCategory.STANDARD,
+  category,
+});
+
+// Untaxed orders keep the arithmetic readable, the line totals equal price x quantity
+const order = (items: OrderItem[], couponCodes: string[] = []) => {
+  const tax = TaxDomainService.calculateOrderTax(items, { country: 'XX' }, []);
+  return OrderEntity.create('user-1', items, tax, tax.grossTotal, couponCodes);
+};
+
+const rule = (overrides: Partial<DiscountRuleProps>) =>
+  DiscountRuleEntity.create({
+    name: 'Rule',
+    type: DiscountType.PERCENTAGE,
+    percentage: 10,
+    amount: null,
+    buyQuantity: null,
+    getQuantity: null,
+    productId: null,
+    category: null,
+    minimumTotal: null,
+    couponCode: null,
+    validFrom: null,
+    validTo: null,
+    priority: 0,
+    stackable: true,
+    active: true,
+    ...overrides,
+  });
+
+describe('DiscountDomainService', () => {
+  describe('applyRules', () => {
+    it('should apply only the highest priority rule when rules do not stack', () => {
+      const result = DiscountDomainService.applyRules(order([item('a', '200.00')]), [
+        rule({ name: 'Low', percentage: 5, priority: 1, stackable: false }),
+        rule({ name: 'High', percentage: 20, priority: 5, stackable: false }),
+      ]);
+
+      expect(result.discounts.map((d) => d.name)).toEqual(['High']);
+      expect(result.totalDiscount.toDecimalString()).toBe('40.00');
+      expect(result.finalTotal.toDecimalString()).toBe('160.00');
+    });
+
+    it('should take each stackable discount off what the previous ones left', () => {
+      const result = DiscountDomainService.applyRules(order([item('a', '100.00')]), [
+        rule({ name: 'Ten percent', percentage: 10, priority: 2 }),
+        rule({ name: 'Five off', type: DiscountType.FIXED_AMOUNT, percentage: null, amount: Money.of(500, 'USD'), priority: 1 }),
+      ]);
+
+      expect(result.discounts.map((d) => d.amount.toDecimalString())).toEqual(['10.00', '5.00']);
+      expect(result.finalTotal.toDecimalString()).toBe('85.00');
+    });
+
+    it('should never take the total below zero', () => {
+      const result = DiscountDomainService.applyRules(order([item('a', '30.00')]), [
+        rule({ type: DiscountType.FIXED_AMOUNT, percentage: null, amount: Money.of(5000, 'USD') }),
+      ]);
+
+      expect(result.totalDiscount.toDecimalString()).toBe('30.00');
+      expect(result.finalTotal.isZero()).toBe(true);
+    });
+
+    it('should only apply coupon rules to orders presenting the code', () => {
+      const coupon = rule({ couponCode: 'spring10' });
+
+      expect(DiscountDomainService.applyRules(order([item('a', '50.00')]), [coupon]).discounts).toEqual([]);
+      expect(DiscountDomainService.applyRules(order([item('a', '50.00')], ['SPRING10']), [coupon]).discounts)
+        .toHaveLength(1);
+    });
+
+    it('should skip rules outside their validity window on the order date', () => {
+      const placed = order([item('a', '50.00')]);
+      const expired = rule({ validTo: new Date(placed.createdAt.getTime() - 1) });
+      const upcoming = rule({ validFrom: new Date(placed.createdAt.getTime() + 1) });
+
+      expect(DiscountDomainService.applyRules(placed, [expired, upcoming]).discounts).toEqual([]);
+    });
+
+    it('should skip rules with a minimum total the order does not reach or another currency', () => {
+      const placed = order([item('a', '50.00')]);
+
+      const result = DiscountDomainService.applyRules(placed, [
+        rule({ minimumTotal: Money.of(5001, 'USD') }),
+        rule({ minimumTotal: Money.of(100, 'EUR') }),
+      ]);
+
+      expect(result.discounts).toEqual([]);
+    });
+  });
+
+  describe('calculateAmount', () => {
+    it('should discount only lines in the rule category', () => {
+      const placed = order([item('a', '40.00', 1, 'books'), item('b', '60.00', 1, 'games')]);
+      const books = rule({ type: DiscountType.CATEGORY, category: 'Books', percentage: 25 });
+
+      expect(DiscountDomainService.calculateAmount(books, placed, placed.total).toDecimalString()).toBe('10.00');
+    });
+
+    it('should give away one unit for every complete buy-X-get-Y bundle', () => {
+      const placed = order([item('a', '9.99', 7), item('b', '5.00', 3)]);
+      const threeForTwo = rule({
+        type: DiscountType.BUY_X_GET_Y,
+        percentage: null,
+        buyQuantity: 2,
+        getQuantity: 1,
+        productId: 'a',
+      });
+
+      // 7 units make two full bundles of three
+      expect(DiscountDomainService.calculateAmount(threeForTwo, placed, placed.total).toDecimalString()).toBe('19.98');
+    });
+  });
+});
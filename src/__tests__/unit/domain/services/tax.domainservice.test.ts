@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { TaxDomainService } from '../../../../domain/services/tax.domainservice';
+import { Money } from '../../../../domain/vo/Money';
+import { PricingMode } from '../../../../domain/vo/PricingMode';
+import { TaxCategory } from '../../../../domain/vo/TaxCategory';
+import type { TaxRate } from '../../../../domain/vo/TaxRate';
+
+const rates: TaxRate[] = [
+  { jurisdiction: { country: 'US', state: 'CA' }, category: TaxCategory.STANDARD, rate: 0.0725 },
+  { jurisdiction: { country: 'US', state: 'CA', city: 'Los Angeles' }, category: TaxCategory.STANDARD, rate: 0.0225 },
+  { jurisdiction: { country: 'GB' }, category: TaxCategory.STANDARD, rate: 0.2 },
+  { jurisdiction: { country: 'GB' }, category: TaxCategory.REDUCED, rate: 0.05 },
+];
+
+const item = (price: string, quantity = 1, taxCategory = TaxCategory.STANDARD) => ({
+  productId: 'product-1',
+  productName: 'Product',
+  quantity,
+  price: Money.fromDecimal(price, 'USD'),
+  taxCategory,
+});
+
+describe('TaxDomainService', () => {
+  describe('appliesTo', () => {
+    it('should treat missing state and city as wildcards', () => {
+      expect(TaxDomainService.appliesTo(rates[2], { country: 'GB', city: 'London' })).toBe(true);
+    });
+
+    it('should require every level named by the rate to match', () => {
+      expect(TaxDomainService.appliesTo(rates[1], { country: 'US', state: 'CA' })).toBe(false);
+      expect(TaxDomainService.appliesTo(rates[1], { country: 'us', state: 'ca', city: 'los angeles' })).toBe(true);
+    });
+  });
+
+  describe('resolveRate', () => {
+    it('should stack state and city rates', () => {
+      const rate = TaxDomainService.resolveRate(
+        TaxCategory.STANDARD,
+        { country: 'US', state: 'CA', city: 'Los Angeles' },
+        rates,
+      );
+      expect(rate).toBe(0.095);
+    });
+
+    it('should pick the rate for the item category', () => {
+      expect(TaxDomainService.resolveRate(TaxCategory.REDUCED, { country: 'GB' }, rates)).toBe(0.05);
+    });
+
+    it('should return zero for exempt items and unknown jurisdictions', () => {
+      expect(TaxDomainService.resolveRate(TaxCategory.EXEMPT, { country: 'GB' }, rates)).toBe(0);
+      expect(TaxDomainService.resolveRate(TaxCategory.STANDARD, { country: 'FR' }, rates)).toBe(0);
+    });
+  });
+
+  describe('calculateLineTax', () => {
+    it('should add tax on top of exclusive prices', () => {
+      const line = TaxDomainService.calculateLineTax(item('19.99', 3), 0.0725, PricingMode.TAX_EXCLUSIVE);
+
+      expect(line.netAmount.toDecimalString()).toBe('59.97');
+      expect(line.taxAmount.toDecimalString()).toBe('4.35');
+      expect(line.grossAmount.toDecimalString()).toBe('64.32');
+    });
+
+    it('should extract tax from inclusive prices', () => {
+      const line = TaxDomainService.calculateLineTax(item('12', 1), 0.2, PricingMode.TAX_INCLUSIVE);
+
+      expect(line.grossAmount.toDecimalString()).toBe('12.00');
+      expect(line.netAmount.toDecimalString()).toBe('10.00');
+      expect(line.taxAmount.toDecimalString()).toBe('2.00');
+    });
+  });
+
+  describe('calculateOrderTax', () => {
+    it('should produce per-line and total breakdown', () => {
+      const breakdown = TaxDomainService.calculateOrderTax(
+        [item('100', 1), item('10', 2, TaxCategory.REDUCED), item('5', 1, TaxCategory.EXEMPT)],
+        { country: 'GB' },
+        rates,
+      );
+
+      expect(breakdown.pricingMode).toBe(PricingMode.TAX_EXCLUSIVE);
+      expect(breakdown.lines.map((line) => line.taxAmount.minorUnits)).toEqual([2000, 100, 0]);
+      expect(breakdown.netTotal.toDecimalString()).toBe('125.00');
+      expect(breakdown.taxTotal.toDecimalString()).toBe('21.00');
+      expect(breakdown.grossTotal.toDecimalString()).toBe('146.00');
+    });
+  });
+});
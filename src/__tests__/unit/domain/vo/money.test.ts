@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Money } from '../../../../domain/vo/Money';
+import { RoundingMode } from '../../../../domain/vo/RoundingMode';
+
+describe('Money', () => {
+  describe('fromDecimal', () => {
+    it('should parse decimal strings and numbers into minor units', () => {
+      expect(Money.fromDecimal('12.34', 'usd').minorUnits).toBe(1234);
+      expect(Money.fromDecimal(0.1, 'USD').minorUnits).toBe(10);
+      expect(Money.fromDecimal('1500', 'JPY').minorUnits).toBe(1500);
+      expect(Money.fromDecimal('1.234', 'KWD').minorUnits).toBe(1234);
+    });
+
+    it('should reject amounts finer than the currency allows unless told how to round', () => {
+      expect(() => Money.fromDecimal('1.005', 'USD')).toThrow('Amount 1.005 is more precise than USD allows');
+      expect(Money.fromDecimal('1.005', 'USD', RoundingMode.HALF_EVEN).minorUnits).toBe(100);
+      expect(Money.fromDecimal('1.005', 'USD', RoundingMode.HALF_UP).minorUnits).toBe(101);
+    });
+
+    it('should reject invalid currency codes', () => {
+      expect(() => Money.fromDecimal('1', 'US')).toThrow('Invalid currency code: US');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add without float drift', () => {
+      const total = Money.fromDecimal('0.1', 'USD').add(Money.fromDecimal('0.2', 'USD'));
+
+      expect(total.toDecimalString()).toBe('0.30');
+    });
+
+    it('should refuse to combine different currencies', () => {
+      expect(() => Money.of(100, 'USD').add(Money.of(100, 'EUR')))
+        .toThrow('Cannot combine USD and EUR amounts');
+    });
+
+    it('should apply the rounding mode to percentages', () => {
+      const amount = Money.fromDecimal('10.05', 'USD');
+
+      expect(amount.percentage(50, RoundingMode.HALF_UP).toDecimalString()).toBe('5.03');
+      expect(amount.percentage(50, RoundingMode.HALF_EVEN).toDecimalString()).toBe('5.02');
+      expect(amount.percentage(50, RoundingMode.DOWN).toDecimalString()).toBe('5.02');
+      expect(amount.multiply(0.0725).toDecimalString()).toBe('0.73');
+    });
+
+    it('should round negative amounts symmetrically', () => {
+      const amount = Money.of(-105, 'USD');
+
+      expect(amount.divide(10, RoundingMode.HALF_UP).minorUnits).toBe(-11);
+      expect(amount.divide(10, RoundingMode.FLOOR).minorUnits).toBe(-11);
+      expect(amount.divide(10, RoundingMode.CEILING).minorUnits).toBe(-10);
+    });
+  });
+
+  describe('convert', () => {
+    it('should convert between currencies with different minor units', () => {
+      expect(Money.fromDecimal('10.00', 'USD').convert('JPY', 148.125).toDecimalString()).toBe('1481');
+      expect(Money.fromDecimal('1481', 'JPY').convert('USD', 0.00675).toDecimalString()).toBe('10.00');
+      expect(Money.fromDecimal('10.00', 'USD').convert('KWD', 0.3075).toDecimalString()).toBe('3.075');
+    });
+  });
+
+  describe('allocate', () => {
+    it('should split without losing a minor unit', () => {
+      const shares = Money.fromDecimal('100', 'USD').allocate([1, 1, 1]);
+
+      expect(shares.map((share) => share.toDecimalString())).toEqual(['33.34', '33.33', '33.33']);
+    });
+
+    it('should give leftovers to the largest remainders', () => {
+      const shares = Money.of(5, 'USD').allocate([1, 3]);
+
+      expect(shares.map((share) => share.minorUnits)).toEqual([1, 4]);
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should serialize the amount as a string with its currency', () => {
+      expect(JSON.stringify(Money.of(-5, 'USD'))).toBe('{"amount":"-0.05","currency":"USD"}');
+      expect(Money.of(1500, 'JPY').toJSON()).toEqual({ amount: '1500', currency: 'JPY' });
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import 'reflect-metadata';
+import { describe, it, expect } from 'vitest';
+import { PasswordHasher } from '../../../../infrastructure/auth/password';
+
+describe('PasswordHasher', () => {
+  const hasher = new PasswordHasher();
+
+  it('should salt each hash and check passwords against it', async () => {
+    // Act
+    const hash = await hasher.hash('correct horse battery');
+    const again = await hasher.hash('correct horse battery');
+
+    // Assert
+    expect(hash).toMatch(/^scrypt\$131072\$8\$1\$[\w-]+\$[\w-]+$/);
+    expect(again).not.toBe(hash);
+    expect(await hasher.verify('correct horse battery', hash)).toBe(true);
+    expect(await hasher.verify('correct horse batterY', hash)).toBe(false);
+  });
+
+  it('should refuse hashes it does not recognise', async () => {
+    expect(await hasher.verify('password', 'bcrypt$2b$10$abc')).toBe(false);
+    expect(await hasher.verify('password', 'not-a-hash')).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { paginateWithCursor } from '../../../../infrastructure/database/utils/pagination';
+import { decodeCursor, encodeCursor, InvalidCursorError } from '../../../../infrastructure/database/utils/cursor';
+import { usersTable } from '../../../../infrastructure/database/schema/users';
+import type { PageRequest } from '../../../../domain/vo/Page';
+
+const secret = 'test-secret-that-is-at-least-32-chars';
+const sortKey = { scope: 'users', sortBy: 'createdAt', sortOrder: 'desc' as const };
+
+// Stands in for db.select().from().where().orderBy().limit(), answering with the given rows
+const fakeDb = (rows: { id: string; createdAt: string }[]) => {
+  const limit = vi.fn().mockResolvedValue(
+    rows.map((row) => ({ row, cursorValue: row.createdAt, cursorId: row.id })),
+  );
+  const chain = { from: () => chain, where: () => chain, orderBy: () => chain, limit };
+  return { db: { select: () => chain } as any, limit };
+};
+
+const rows = (...ids: string[]) => ids.map((id) => ({ id, createdAt: '2024-01-01 00:00:00' }));
+
+const paginate = (db: any, page: Partial<PageRequest>) =>
+  paginateWithCursor({
+    db,
+    table: usersTable,
+    sortColumn: usersTable.createdAt,
+    idColumn: usersTable.id,
+    page: { limit: 2, direction: 'forward', sortBy: 'createdAt', sortOrder: 'desc', ...page },
+    scope: 'users',
+    secret,
+  });
+
+describe('paginateWithCursor', () => {
+  it('should fetch one extra row to tell whether another page follows', async () => {
+    // Arrange
+    const { db, limit } = fakeDb(rows('a', 'b', 'c'));
+
+    // Act
+    const page = await paginate(db, {});
+
+    // Assert
+    expect(limit).toHaveBeenCalledWith(3);
+    expect(page.data.map((row) => row.id)).toEqual(['a', 'b']);
+    expect(page.hasNextPage).toBe(true);
+    expect(page.hasPrevPage).toBe(false);
+    expect(page.prevCursor).toBeNull();
+    expect(decodeCursor(page.nextCursor!, secret, sortKey)).toMatchObject({ id: 'b', value: '2024-01-01 00:00:00' });
+  });
+
+  it('should offer a way back but not forward on the last page', async () => {
+    // Arrange
+    const { db } = fakeDb(rows('c'));
+    const cursor = encodeCursor({ ...sortKey, value: '2024-01-01 00:00:00', id: 'b' }, secret);
+
+    // Act
+    const page = await paginate(db, { cursor });
+
+    // Assert
+    expect(page.hasNextPage).toBe(false);
+    expect(page.nextCursor).toBeNull();
+    expect(page.hasPrevPage).toBe(true);
+    expect(decodeCursor(page.prevCursor!, secret, sortKey).id).toBe('c');
+  });
+
+  it('should put rows read backward back into listing order', async () => {
+    // Arrange
+    const { db } = fakeDb(rows('b', 'a'));
+    const cursor = encodeCursor({ ...sortKey, value: '2024-01-01 00:00:00', id: 'c' }, secret);
+
+    // Act
+    const page = await paginate(db, { cursor, direction: 'backward', limit: 5 });
+
+    // Assert
+    expect(page.data.map((row) => row.id)).toEqual(['a', 'b']);
+    expect(page.hasPrevPage).toBe(false);
+    expect(page.hasNextPage).toBe(true);
+    expect(decodeCursor(page.nextCursor!, secret, sortKey).id).toBe('b');
+  });
+
+  it('should cap the page size', async () => {
+    // Arrange
+    const { db, limit } = fakeDb([]);
+
+    // Act
+    const page = await paginate(db, { limit: 1000 });
+
+    // Assert
+    expect(page.limit).toBe(100);
+    expect(limit).toHaveBeenCalledWith(101);
+  });
+});
+
+describe('decodeCursor', () => {
+  const cursor = encodeCursor({ ...sortKey, value: '2024-01-01 00:00:00', id: 'b' }, secret);
+
+  it('should reject cursors whose payload was edited', () => {
+    const [, signature] = cursor.split('.');
+    const forged = Buffer.from(JSON.stringify({ s: 'users', k: 'createdAt', o: 'desc', v: '1970-01-01', i: 'a' }))
+      .toString('base64url');
+
+    expect(() => decodeCursor(`${forged}.${signature}`, secret, sortKey)).toThrow(InvalidCursorError);
+  });
+
+  it('should reject cursors signed with another secret', () => {
+    expect(() => decodeCursor(cursor, 'another-secret-that-is-32-chars-long', sortKey)).toThrow('Invalid cursor');
+  });
+
+  it('should reject cursors issued for another sort or listing', () => {
+    expect(() => decodeCursor(cursor, secret, { ...sortKey, sortOrder: 'asc' })).toThrow(/different listing or sort/);
+    expect(() => decodeCursor(cursor, secret, { ...sortKey, scope: 'orders' })).toThrow(/different listing or sort/);
+  });
+
+  it('should reject input that is not a cursor at all', () => {
+    expect(() => decodeCursor('not-a-cursor', secret, sortKey)).toThrow(InvalidCursorError);
+  });
+});
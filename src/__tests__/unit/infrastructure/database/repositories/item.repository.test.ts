@@ -0,0 +1,72 @@
+import 'reflect-metadata';
+import { describe, it, expect } from 'vitest';
+import { getTableColumns } from 'drizzle-orm';
+import { ItemEntity } from '../../../../../domain/entities/item';
+import { ConflictError } from '../../../../../domain/errors';
+import { Money } from '../../../../../domain/vo/Money';
+import { TaxCategory } from '../../../../../domain/vo/TaxCategory';
+import { ItemRepository } from '../../../../../infrastructure/database/repositories/ItemRepository';
+import { itemsTable } from '../../../../../infrastructure/database/schema/items';
+
+/**
+ * Holds one row of the items table the way Postgres would: numeric columns
+ * keep only the scale the schema gives them and come back as strings padded
+ * to it.
+ */
+const fakeItemsDatabase = () => {
+  let stored: Record<string, unknown> | undefined;
+  const numericScales = Object.entries(getTableColumns(itemsTable))
+    .filter(([, column]) => column.columnType === 'PgNumeric')
+    .map(([key, column]) => [key, (column as unknown as { scale: number }).scale] as const);
+
+  const store = (values: Record<string, unknown>) => {
+    stored = { ...values };
+    for (const [key, scale] of numericScales) {
+      stored[key] = Number(stored[key]).toFixed(scale);
+    }
+  };
+
+  return {
+    insert: () => ({ values: (values: Record<string, unknown>) => ({ onConflictDoUpdate: async () => store(values) }) }),
+    select: () => ({ from: () => ({ where: () => ({ limit: async () => (stored ? [stored] : []) }) }) })
+  };
+};
+
+const itemPricedAt = (price: Money) =>
+  ItemEntity.create('Dates, 1 kg', price, null, null, TaxCategory.STANDARD, null);
+
+describe('ItemRepository', () => {
+  it.each([
+    ['KWD', '1.234'],
+    ['USD', '19.99'],
+    ['JPY', '1500']
+  ])('should read back a %s price of %s exactly', async (currency, amount) => {
+    // Arrange
+    const repository = new ItemRepository(fakeItemsDatabase() as any);
+    const item = itemPricedAt(Money.fromDecimal(amount, currency));
+
+    // Act
+    await repository.save(item);
+    const found = await repository.findById(item.id);
+
+    // Assert
+    expect(found!.price.equals(item.price)).toBe(true);
+    expect(found!.price.toDecimalString()).toBe(amount);
+  });
+
+  it('should answer a conflict when a discount rule still points at the item', async () => {
+    // Arrange
+    const cause = { code: '23503', constraint: 'discount_rules_product_id_items_id_fk' };
+    const database = {
+      delete: () => ({
+        where: async () => {
+          throw Object.assign(new Error('Failed query: delete from "items"'), { cause });
+        }
+      })
+    };
+    const repository = new ItemRepository(database as any);
+
+    // Act & Assert
+    await expect(repository.delete('item-1')).rejects.toThrow(ConflictError);
+  });
+});
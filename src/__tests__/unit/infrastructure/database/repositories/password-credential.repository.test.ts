@@ -0,0 +1,25 @@
+import 'reflect-metadata';
+import { describe, it, expect } from 'vitest';
+import { PasswordCredentialEntity } from '../../../../../domain/entities/password-credential';
+import { UserEntity } from '../../../../../domain/entities/user';
+import { ConflictError } from '../../../../../domain/errors';
+import { PasswordCredentialRepository } from '../../../../../infrastructure/database/repositories/PasswordCredentialRepository';
+
+describe('PasswordCredentialRepository', () => {
+  it('should answer a conflict when a concurrent registration took the email', async () => {
+    // Arrange
+    const cause = { code: '23505', constraint: 'users_email_unique' };
+    const database = {
+      transaction: async () => {
+        throw Object.assign(new Error('Failed query: insert into "users"'), { cause });
+      }
+    };
+    const repository = new PasswordCredentialRepository(database as any);
+    const user = UserEntity.create('racer@example.com', 'Racer', 'user-1');
+
+    // Act & Assert
+    await expect(
+      repository.saveWithUser(user, PasswordCredentialEntity.create(user.id, 'hash'))
+    ).rejects.toThrow(ConflictError);
+  });
+});
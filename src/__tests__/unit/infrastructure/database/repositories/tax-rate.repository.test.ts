@@ -0,0 +1,42 @@
+import 'reflect-metadata';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { TaxRateEntity } from '../../../../../domain/entities/tax-rate';
+import { ConflictError } from '../../../../../domain/errors';
+import { TaxCategory } from '../../../../../domain/vo/TaxCategory';
+import { TaxRateRepository } from '../../../../../infrastructure/database/repositories/TaxRateRepository';
+
+// Fails every insert with the error Drizzle raises for the given driver error
+const failingDatabase = (cause: { code: string }) => ({
+  insert: () => ({
+    values: () => ({
+      onConflictDoUpdate: async () => {
+        throw Object.assign(new Error('Failed query: insert into "tax_rates"'), { cause });
+      }
+    })
+  })
+});
+
+const texasRate = () => TaxRateEntity.create({ country: 'US', state: 'TX' }, TaxCategory.STANDARD, 0.0625, '2024-01-01');
+
+describe('TaxRateRepository', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should answer a conflict when the overlap constraint refuses the rate', async () => {
+    // Arrange
+    const repository = new TaxRateRepository(failingDatabase({ code: '23P01' }) as any);
+
+    // Act & Assert
+    await expect(repository.save(texasRate())).rejects.toThrow(ConflictError);
+  });
+
+  it('should keep other database failures generic', async () => {
+    // Arrange
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repository = new TaxRateRepository(failingDatabase({ code: '08006' }) as any);
+
+    // Act & Assert
+    await expect(repository.save(texasRate())).rejects.toThrow('Failed to save tax rate to database');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expectedColumns,
+  findSchemaDrift,
+  normalizeType,
+  type ColumnShape,
+} from '../../../../infrastructure/database/schema-check';
+
+describe('schema check', () => {
+  describe('normalizeType', () => {
+    it('should translate drizzle type names to postgres ones', () => {
+      expect(normalizeType('varchar(255)')).toBe('character varying(255)');
+      expect(normalizeType('numeric(10, 2)')).toBe('numeric(10,2)');
+      expect(normalizeType('timestamp')).toBe('timestamp without time zone');
+      expect(normalizeType('timestamp with time zone')).toBe('timestamp with time zone');
+      expect(normalizeType('jsonb')).toBe('jsonb');
+    });
+  });
+
+  describe('expectedColumns', () => {
+    it('should describe every column declared on the orders table', () => {
+      // Act
+      const columns = expectedColumns().filter((c) => c.table === 'orders');
+
+      // Assert
+      expect(columns.map((c) => c.column)).toContain('tax_total');
+      expect(columns.map((c) => c.column)).not.toContain('item_id');
+      expect(columns.find((c) => c.column === 'status')).toEqual({
+        table: 'orders',
+        column: 'status',
+        type: 'character varying(50)',
+        nullable: false,
+      });
+    });
+
+    it('should include the order_items table', () => {
+      // Act
+      const columns = expectedColumns().filter((c) => c.table === 'order_items');
+
+      // Assert
+      expect(columns.find((c) => c.column === 'unit_price')).toEqual({
+        table: 'order_items',
+        column: 'unit_price',
+        type: 'numeric(12,3)',
+        nullable: false,
+      });
+    });
+  });
+
+  describe('findSchemaDrift', () => {
+    const declared: ColumnShape[] = [
+      { table: 'orders', column: 'id', type: 'character varying(255)', nullable: false },
+      { table: 'orders', column: 'items', type: 'jsonb', nullable: false },
+      { table: 'tax_rates', column: 'id', type: 'character varying(255)', nullable: false },
+    ];
+
+    it('should report nothing when the database matches', () => {
+      // Act
+      const drift = findSchemaDrift(declared, [...declared]);
+
+      // Assert
+      expect(drift).toEqual([]);
+    });
+
+    it('should report missing tables and columns', () => {
+      // Arrange
+      const live = [declared[0]];
+
+      // Act
+      const drift = findSchemaDrift(declared, live);
+
+      // Assert
+      expect(drift).toEqual([
+        'Table tax_rates is missing',
+        'Column orders.items is missing',
+      ]);
+    });
+
+    it('should report legacy columns, type and nullability mismatches', () => {
+      // Arrange
+      const live: ColumnShape[] = [
+        { table: 'orders', column: 'id', type: 'character varying(36)', nullable: false },
+        { table: 'orders', column: 'items', type: 'jsonb', nullable: true },
+        { table: 'orders', column: 'item_id', type: 'character varying(255)', nullable: false },
+        { table: 'tax_rates', column: 'id', type: 'character varying(255)', nullable: false },
+        { table: '__unrelated', column: 'id', type: 'integer', nullable: false },
+      ];
+
+      // Act
+      const drift = findSchemaDrift(declared, live);
+
+      // Assert
+      expect(drift).toEqual([
+        'Column orders.id is character varying(36), expected character varying(255)',
+        'Column orders.items is nullable, expected not null',
+        'Column orders.item_id is not declared in the schema',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi } from 'vitest';
+import { activeDatabase, UnitOfWork } from '../../../../infrastructure/database/unit-of-work';
+import { AuditLogRepository } from '../../../../infrastructure/database/repositories/AuditLogRepository';
+import { AuditEntryEntity } from '../../../../domain/entities/audit-entry';
+import { ConflictError } from '../../../../domain/errors';
+
+// Stands in for a Drizzle database whose transactions commit or roll back with the callback
+const fakeDatabase = (name: string) => {
+  const outcomes: string[] = [];
+  const values = vi.fn();
+  const database: any = {
+    name,
+    insert: () => ({ values: (row: unknown) => values(name, row) }),
+    transaction: vi.fn(async (callback: (tx: any) => Promise<unknown>) => {
+      const tx = { ...database, name: `${name}-tx`, insert: () => ({ values: (row: unknown) => values(`${name}-tx`, row) }) };
+      try {
+        const result = await callback(tx);
+        outcomes.push('commit');
+        return result;
+      } catch (error) {
+        outcomes.push('rollback');
+        throw error;
+      }
+    })
+  };
+  return { database, outcomes, values };
+};
+
+// Which of the fakes a repository would query right now
+const active = (database: any): string => (activeDatabase(database) as any).name;
+
+describe('UnitOfWork', () => {
+  it('should hand repositories its transaction while the work runs', async () => {
+    // Arrange
+    const { database, outcomes } = fakeDatabase('db');
+    const unitOfWork = new UnitOfWork(database);
+
+    // Act
+    const inside = await unitOfWork.run(async () => {
+      await Promise.resolve();
+      return active(database);
+    });
+
+    // Assert
+    expect(inside).toBe('db-tx');
+    expect(active(database)).toBe('db');
+    expect(outcomes).toEqual(['commit']);
+  });
+
+  it('should let nested work join the outer transaction', async () => {
+    // Arrange
+    const { database, outcomes } = fakeDatabase('db');
+    const unitOfWork = new UnitOfWork(database);
+
+    // Act
+    const nested = await unitOfWork.run(() => unitOfWork.run(async () => active(database)));
+
+    // Assert
+    expect(nested).toBe('db-tx');
+    expect(database.transaction).toHaveBeenCalledTimes(1);
+    expect(outcomes).toEqual(['commit']);
+  });
+
+  it('should roll back and rethrow when the work fails with a domain error', async () => {
+    // Arrange
+    const { database, outcomes } = fakeDatabase('db');
+    const unitOfWork = new UnitOfWork(database);
+
+    // Act & Assert
+    await expect(
+      unitOfWork.run(async () => {
+        throw new ConflictError('Taken');
+      })
+    ).rejects.toThrow(ConflictError);
+    expect(outcomes).toEqual(['rollback']);
+  });
+
+  it('should keep concurrent units of work apart', async () => {
+    // Arrange
+    const { database } = fakeDatabase('db');
+    let calls = 0;
+    database.transaction = async (callback: (tx: any) => Promise<unknown>) => callback({ name: `tx-${++calls}` });
+    const unitOfWork = new UnitOfWork(database);
+    const seen = () =>
+      unitOfWork.run(async () => {
+        const before = active(database);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return [before, active(database)];
+      });
+
+    // Act
+    const [first, second] = await Promise.all([seen(), seen()]);
+
+    // Assert
+    expect(first).toEqual(['tx-1', 'tx-1']);
+    expect(second).toEqual(['tx-2', 'tx-2']);
+  });
+
+  it('should only join repositories of the same database', async () => {
+    // Arrange
+    const { database, values } = fakeDatabase('db');
+    const other = fakeDatabase('other');
+    const entry = AuditEntryEntity.record('system', 'user.purged', 'user', 'user-1');
+
+    // Act
+    await new UnitOfWork(database).run(async () => {
+      await new AuditLogRepository(database).record(entry);
+      await new AuditLogRepository(other.database).record(entry);
+    });
+
+    // Assert
+    expect(values).toHaveBeenCalledWith('db-tx', expect.objectContaining({ id: entry.id }));
+    expect(other.values).toHaveBeenCalledWith('other', expect.objectContaining({ id: entry.id }));
+    expect(other.database.transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { OutboxMailer } from '../../../../infrastructure/email/outbox-mailer';
+import { renderTemplate } from '../../../../infrastructure/email/templates';
+
+const message = {
+  to: 'jane@example.com',
+  ...renderTemplate('verify-email', {
+    name: '<Jane>',
+    email: 'jane@example.com',
+    link: 'https://shop.example.com/verify-email?token=abc',
+    expiresIn: '48 hours'
+  })
+};
+
+describe('OutboxMailer', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('should write each message to the outbox as an .eml file', async () => {
+    // Arrange
+    directory = await mkdtemp(join(tmpdir(), 'outbox-'));
+    const outbox = join(directory, 'mail');
+
+    // Act
+    await new OutboxMailer('Tax Finch <no-reply@example.com>', outbox).send(message);
+
+    // Assert
+    const [file, ...others] = await readdir(outbox);
+    expect(others).toEqual([]);
+    expect(file).toMatch(/\.eml$/);
+    const eml = await readFile(join(outbox, file), 'utf8');
+    expect(eml).toContain('From: Tax Finch <no-reply@example.com>\r\n');
+    expect(eml).toContain('Subject: Confirm your email address\r\n');
+    expect(eml).toContain('Content-Type: multipart/alternative');
+  });
+
+  it('should log messages when no outbox directory is configured', async () => {
+    // Arrange
+    const consoleInfo = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+    // Act
+    await new OutboxMailer('no-reply@example.com', null).send(message);
+
+    // Assert
+    expect(consoleInfo).toHaveBeenCalledWith(expect.stringContaining('https://shop.example.com/verify-email?token=abc'));
+    consoleInfo.mockRestore();
+  });
+
+  it('should escape values in the HTML version only', () => {
+    expect(message.text).toContain('Hi <Jane>,');
+    expect(message.html).toContain('Hi &#60;Jane&#62;,');
+  });
+
+  it('should refuse header values that would add headers of their own', async () => {
+    await expect(
+      new OutboxMailer('no-reply@example.com', tmpdir()).send({ ...message, subject: 'Hi\r\nBcc: someone@example.com' })
+    ).rejects.toThrow('line breaks');
+  });
+});
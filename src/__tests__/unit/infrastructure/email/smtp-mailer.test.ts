@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer } from 'node:net';
+import type { AddressInfo, Server } from 'node:net';
+import { SmtpMailer } from '../../../../infrastructure/email/smtp-mailer';
+
+const message = {
+  to: 'Jane <jane@example.com>',
+  subject: 'Grüße',
+  text: 'Hello\n.\nBye',
+  html: '<p>Hello</p>'
+};
+
+/**
+ * A scripted SMTP server: answers each command with the reply the script
+ * holds for its verb and records what the client sent.
+ */
+const startServer = (replies: Record<string, string> = {}) =>
+  new Promise<{ server: Server; port: number; commands: string[]; data: () => string }>((resolve) => {
+    const commands: string[] = [];
+    let data = '';
+    const server = createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 stub.example.com ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        let end: number;
+        while ((end = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 Queued\r\n');
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+
+          commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (replies[verb]) {
+            socket.write(`${replies[verb]}\r\n`);
+          } else if (verb === 'EHLO') {
+            socket.write('250-stub.example.com\r\n250 8BITMIME\r\n');
+          } else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 Go ahead\r\n');
+          } else if (verb === 'QUIT') {
+            socket.end('221 Bye\r\n');
+          } else {
+            socket.write('250 OK\r\n');
+          }
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () =>
+      resolve({ server, port: (server.address() as AddressInfo).port, commands, data: () => data })
+    );
+  });
+
+const mailerFor = (port: number, auth: { user: string; password: string } | null = null) =>
+  new SmtpMailer({ host: '127.0.0.1', port, secure: false, auth }, 'Tax Finch <no-reply@example.com>');
+
+describe('SmtpMailer', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  it('should hand the message over with the envelope addresses', async () => {
+    // Arrange
+    const stub = await startServer();
+    server = stub.server;
+
+    // Act
+    await mailerFor(stub.port).send(message);
+
+    // Assert
+    expect(stub.commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      'MAIL FROM:<no-reply@example.com>',
+      'RCPT TO:<jane@example.com>',
+      'DATA',
+      'QUIT'
+    ]);
+    expect(stub.data()).toContain('To: Jane <jane@example.com>\r\n');
+    expect(stub.data()).toContain(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=\r\n`);
+    expect(stub.data()).toContain(Buffer.from('Hello\n.\nBye').toString('base64'));
+  });
+
+  it('should report replies the server rejects', async () => {
+    // Arrange
+    const stub = await startServer({ RCPT: '550 5.1.1 No such user' });
+    server = stub.server;
+
+    // Act & Assert
+    await expect(mailerFor(stub.port).send(message)).rejects.toThrow('SMTP RCPT TO failed: 550 5.1.1 No such user');
+  });
+
+  it('should refuse to send credentials when the server offers no STARTTLS', async () => {
+    // Arrange
+    const stub = await startServer();
+    server = stub.server;
+
+    // Act & Assert
+    await expect(mailerFor(stub.port, { user: 'mailer', password: 'secret' }).send(message)).rejects.toThrow(
+      /refusing to send credentials/
+    );
+    expect(stub.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should fail when nothing listens on the port', async () => {
+    // Arrange
+    const stub = await startServer();
+    await new Promise((resolve) => stub.server.close(resolve));
+
+    // Act & Assert
+    await expect(mailerFor(stub.port).send(message)).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
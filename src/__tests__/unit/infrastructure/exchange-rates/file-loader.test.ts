@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseExchangeRates } from '../../../../infrastructure/exchange-rates/file-loader';
+
+describe('parseExchangeRates', () => {
+  it('should read CSV rows by header name', () => {
+    // Arrange
+    const csv = [
+      '# ECB reference rates',
+      'base,quote,date,rate',
+      'eur,usd,2024-01-02,1.0956',
+      'EUR,JPY,2024-01-02,155.72',
+    ].join('\n');
+
+    // Act
+    const rates = parseExchangeRates(csv, 'csv');
+
+    // Assert
+    expect(rates.map((rate) => [rate.baseCurrency, rate.quoteCurrency, rate.rate, rate.effectiveDate])).toEqual([
+      ['EUR', 'USD', 1.0956, '2024-01-02'],
+      ['EUR', 'JPY', 155.72, '2024-01-02'],
+    ]);
+  });
+
+  it('should read a JSON array and keep the last rate for a repeated pair and date', () => {
+    // Arrange
+    const json = JSON.stringify([
+      { date: '2024-01-02', base: 'GBP', quote: 'USD', rate: '1.27' },
+      { date: '2024-01-02', base: 'GBP', quote: 'USD', rate: 1.2712 },
+    ]);
+
+    // Act
+    const rates = parseExchangeRates(json, 'json');
+
+    // Assert
+    expect(rates).toHaveLength(1);
+    expect(rates[0].rate).toBe(1.2712);
+  });
+
+  it('should report the record that failed validation', () => {
+    // Arrange
+    const csv = 'date,base,quote,rate\n2024-01-02,EUR,USD,1.09\n2024-13-40,EUR,USD,1.1';
+
+    // Act & Assert
+    expect(() => parseExchangeRates(csv, 'csv')).toThrow('Invalid exchange rate at record 2');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'node:zlib';
+import { crc32, createZip } from '../../../../infrastructure/export/zip';
+
+// Reads the archive back through its central directory, the way unzip tools do
+const readZip = (archive: Buffer) => {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const files: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(crc);
+    files[name] = data.toString('utf8');
+    position += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('createZip', () => {
+  it('should pack entries that read back unchanged', () => {
+    // Arrange
+    const entries = [
+      { name: 'profile.json', content: JSON.stringify({ name: 'Zoë' }) },
+      { name: 'notes/readme.txt', content: Buffer.from('line\n'.repeat(100)) }
+    ];
+
+    // Act
+    const files = readZip(createZip(entries));
+
+    // Assert
+    expect(files).toEqual({ 'profile.json': '{"name":"Zoë"}', 'notes/readme.txt': 'line\n'.repeat(100) });
+  });
+
+  it('should write an empty but valid archive for no entries', () => {
+    expect(readZip(createZip([]))).toEqual({});
+  });
+
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,126 @@
+import 'reflect-metadata';
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebhookSender, signWebhook } from '../../../../infrastructure/webhooks/sender';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * A stub receiver: records every request and answers with the status and
+ * headers given, or not at all when status is null.
+ */
+const startReceiver = (status: number | null = 200, headers: Record<string, string> = {}, body = '') =>
+  new Promise<{ server: Server; url: string; received: Received[] }>((resolve) => {
+    const received: Received[] = [];
+    const server = createServer((req, res) => {
+      let data = '';
+      req.setEncoding('utf8');
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body: data });
+        if (status !== null) {
+          res.writeHead(status, headers).end(body);
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () =>
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`, received })
+    );
+  });
+
+const request = (url: string) => ({
+  url,
+  secret: 'whsec_test',
+  eventId: 'event-1',
+  eventType: 'order.shipped',
+  body: JSON.stringify({ id: 'event-1', type: 'order.shipped', data: { orderId: 'order-1' } })
+});
+
+describe('WebhookSender', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    server?.closeAllConnections();
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  it('should post the body signed with the secret over the timestamp and body', async () => {
+    // Arrange
+    const receiver = await startReceiver(204);
+    server = receiver.server;
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    // Act
+    const attempt = await new WebhookSender({ timeoutSeconds: 5 }).send(request(receiver.url), now);
+
+    // Assert
+    expect(attempt).toMatchObject({ attemptedAt: now, statusCode: 204, error: null });
+    const [{ headers, body }] = receiver.received;
+    expect(body).toBe(request(receiver.url).body);
+    expect(headers['content-type']).toBe('application/json');
+    expect(headers['webhook-id']).toBe('event-1');
+    expect(headers['webhook-event']).toBe('order.shipped');
+    expect(headers['webhook-timestamp']).toBe(String(now.getTime() / 1000));
+    expect(headers['webhook-signature']).toBe(`sha256=${signWebhook('whsec_test', now.getTime() / 1000, body)}`);
+  });
+
+  it('should report a non-2xx answer with its status and body', async () => {
+    // Arrange
+    const receiver = await startReceiver(503, {}, 'Down for maintenance');
+    server = receiver.server;
+
+    // Act
+    const attempt = await new WebhookSender({ timeoutSeconds: 5 }).send(request(receiver.url));
+
+    // Assert
+    expect(attempt.statusCode).toBe(503);
+    expect(attempt.error).toBe('HTTP 503: Down for maintenance');
+  });
+
+  it('should not follow redirects', async () => {
+    // Arrange
+    const receiver = await startReceiver(301, { Location: 'http://127.0.0.1:1/elsewhere' });
+    server = receiver.server;
+
+    // Act
+    const attempt = await new WebhookSender({ timeoutSeconds: 5 }).send(request(receiver.url));
+
+    // Assert
+    expect(attempt.statusCode).toBe(301);
+    expect(attempt.error).toBe('HTTP 301');
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  it('should give up on a receiver that does not answer in time', async () => {
+    // Arrange
+    const receiver = await startReceiver(null);
+    server = receiver.server;
+
+    // Act
+    const attempt = await new WebhookSender({ timeoutSeconds: 0.2 }).send(request(receiver.url));
+
+    // Assert
+    expect(attempt.statusCode).toBeNull();
+    expect(attempt.error).toBe('No answer within 0.2 seconds');
+  });
+
+  it('should report a receiver that cannot be reached', async () => {
+    // Arrange
+    const receiver = await startReceiver();
+    const { url } = receiver;
+    await new Promise((resolve) => receiver.server.close(resolve));
+
+    // Act
+    const attempt = await new WebhookSender({ timeoutSeconds: 5 }).send(request(url));
+
+    // Assert
+    expect(attempt.statusCode).toBeNull();
+    expect(attempt.error).toMatch(/ECONNREFUSED/);
+  });
+});
@@ -0,0 +1,48 @@
+import type { Context } from "hono";
+import { AccountService } from "../service/account.service";
+import { inject, injectable } from "tsyringe";
+
+// Requests answer 202 whatever the email, so they cannot be used to find accounts
+const EMAIL_ON_ITS_WAY = "If an account uses this email, a message is on its way";
+
+@injectable()
+export class AccountController {
+  constructor(@inject(AccountService) private accountService: AccountService) {}
+
+  async requestVerification(c: Context) {
+    const { email } = c.req.valid("json" as never);
+    await this.accountService.requestVerification(email);
+    return c.json({ message: EMAIL_ON_ITS_WAY }, 202);
+  }
+
+  async verifyEmail(c: Context) {
+    const { token } = c.req.valid("json" as never);
+    const user = await this.accountService.verifyEmail(token);
+    return c.json({ message: "Email verified", user });
+  }
+
+  async requestPasswordReset(c: Context) {
+    const { email } = c.req.valid("json" as never);
+    await this.accountService.requestPasswordReset(email);
+    return c.json({ message: EMAIL_ON_ITS_WAY }, 202);
+  }
+
+  async requestEmailChange(c: Context) {
+    const id = c.req.param("id")!;
+    const { email } = c.req.valid("json" as never);
+    await this.accountService.requestEmailChange(id, email, c.get("principal"));
+    return c.json({ message: "Confirmation sent to the new address" }, 202);
+  }
+
+  async confirmEmailChange(c: Context) {
+    const { token } = c.req.valid("json" as never);
+    const user = await this.accountService.confirmEmailChange(token);
+    return c.json({ message: "Email changed", user });
+  }
+
+  async resetPassword(c: Context) {
+    const { token, password } = c.req.valid("json" as never);
+    await this.accountService.resetPassword(token, password);
+    return c.json({ message: "Password changed, sign in again" });
+  }
+}
@@ -0,0 +1,38 @@
+import type { Context } from "hono";
+import { DiscountRuleService } from "../service/discount-rule.service";
+import { inject, injectable } from "tsyringe";
+
+@injectable()
+export class DiscountRuleController {
+  constructor(@inject(DiscountRuleService) private discountRuleService: DiscountRuleService) {}
+
+  async getAll(c: Context) {
+    const discountRules = await this.discountRuleService.getAllDiscountRules(c.get("principal"));
+    return c.json({ discountRules });
+  }
+
+  async create(c: Context) {
+    const body = c.req.valid("json" as never);
+    const discountRule = await this.discountRuleService.createDiscountRule(body, c.get("principal"));
+    return c.json({ message: "Discount rule created", discountRule }, 201);
+  }
+
+  async getById(c: Context) {
+    const id = c.req.param("id")!;
+    const discountRule = await this.discountRuleService.getDiscountRuleById(id, c.get("principal"));
+    return c.json({ discountRule });
+  }
+
+  async update(c: Context) {
+    const id = c.req.param("id")!;
+    const body = c.req.valid("json" as never);
+    const discountRule = await this.discountRuleService.updateDiscountRule(id, body, c.get("principal"));
+    return c.json({ message: "Discount rule updated", discountRule });
+  }
+
+  async delete(c: Context) {
+    const id = c.req.param("id")!;
+    await this.discountRuleService.deleteDiscountRule(id, c.get("principal"));
+    return c.json({ message: "Discount rule deleted" });
+  }
+}
@@ -0,0 +1,15 @@
+import type { Context } from "hono";
+import { ExchangeRateService } from "../service/exchange-rate.service";
+import { inject, injectable } from "tsyringe";
+
+@injectable()
+export class ExchangeRateController {
+  constructor(
+    @inject(ExchangeRateService) private exchangeRateService: ExchangeRateService,
+  ) {}
+
+  async getAll(c: Context) {
+    const exchangeRates = await this.exchangeRateService.getAllRates();
+    return c.json({ exchangeRates });
+  }
+}
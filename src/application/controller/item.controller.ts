@@ -0,0 +1,38 @@
+import type { Context } from "hono";
+import { ItemService } from "../service/item.service";
+import { inject, injectable } from "tsyringe";
+
+@injectable()
+export class ItemController {
+  constructor(@inject(ItemService) private itemService: ItemService) {}
+
+  async getAll(c: Context) {
+    const items = await this.itemService.getAllItems();
+    return c.json({ items });
+  }
+
+  async create(c: Context) {
+    const body = c.req.valid("json" as never);
+    const item = await this.itemService.createItem(body, c.get("principal"));
+    return c.json({ message: "Item created", item }, 201);
+  }
+
+  async getById(c: Context) {
+    const id = c.req.param("id")!;
+    const item = await this.itemService.getItemById(id);
+    return c.json({ item });
+  }
+
+  async update(c: Context) {
+    const id = c.req.param("id")!;
+    const body = c.req.valid("json" as never);
+    const item = await this.itemService.updateItem(id, body, c.get("principal"));
+    return c.json({ message: "Item updated", item });
+  }
+
+  async delete(c: Context) {
+    const id = c.req.param("id")!;
+    await this.itemService.deleteItem(id, c.get("principal"));
+    return c.json({ message: "Item deleted" });
+  }
+}
@@ -0,0 +1,103 @@
+import type { Context } from "hono";
+import { OrderService } from "../service/order.service";
+import { etagOf, ifMatchVersion } from "../middleware/etag";
+import { inject, injectable } from "tsyringe";
+
+@injectable()
+export class OrderController {
+  constructor(@inject(OrderService) private orderService: OrderService) {}
+
+  async create(c: Context) {
+    const body = c.req.valid("json" as never);
+    const order = await this.orderService.createOrder(body, c.get("principal"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ message: "Order created", order }, 201);
+  }
+
+  async getById(c: Context) {
+    const id = c.req.param("id")!;
+    const order = await this.orderService.getOrderById(id, c.get("principal"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ order });
+  }
+
+  async confirm(c: Context) {
+    const id = c.req.param("id")!;
+    const order = await this.orderService.confirmOrder(id, c.get("principal"), ifMatchVersion(c, "Order"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ message: "Order confirmed", order });
+  }
+
+  async process(c: Context) {
+    const id = c.req.param("id")!;
+    const order = await this.orderService.processOrder(id, c.get("principal"), ifMatchVersion(c, "Order"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ message: "Order processing", order });
+  }
+
+  async ship(c: Context) {
+    const id = c.req.param("id")!;
+    const order = await this.orderService.shipOrder(id, c.get("principal"), ifMatchVersion(c, "Order"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ message: "Order shipped", order });
+  }
+
+  async deliver(c: Context) {
+    const id = c.req.param("id")!;
+    const order = await this.orderService.deliverOrder(id, c.get("principal"), ifMatchVersion(c, "Order"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ message: "Order delivered", order });
+  }
+
+  async complete(c: Context) {
+    const id = c.req.param("id")!;
+    const order = await this.orderService.completeOrder(id, c.get("principal"), ifMatchVersion(c, "Order"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ message: "Order completed", order });
+  }
+
+  async cancel(c: Context) {
+    const id = c.req.param("id")!;
+    const body = c.req.valid("json" as never);
+    const order = await this.orderService.cancelOrder(id, body, c.get("principal"), ifMatchVersion(c, "Order"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ message: "Order cancelled", order });
+  }
+
+  async refund(c: Context) {
+    const id = c.req.param("id")!;
+    const body = c.req.valid("json" as never);
+    const order = await this.orderService.refundOrder(id, body, c.get("principal"), ifMatchVersion(c, "Order"));
+    c.header("ETag", etagOf(order.version));
+    return c.json({ message: "Order refunded", order });
+  }
+
+  async getHistory(c: Context) {
+    const id = c.req.param("id")!;
+    const history = await this.orderService.getOrderHistory(id, c.get("principal"));
+    return c.json({ history });
+  }
+
+  async getAll(c: Context) {
+    const query = c.req.valid("query" as never);
+    const { data: orders, ...pagination } = await this.orderService.listOrders(query, c.get("principal"));
+    return c.json({ orders, pagination });
+  }
+
+  async getByUserId(c: Context) {
+    const userId = c.req.param("id")!;
+    const query = c.req.valid("query" as never);
+    const { data: orders, ...pagination } = await this.orderService.getUserOrders(
+      userId,
+      query,
+      c.get("principal"),
+    );
+    return c.json({ orders, pagination });
+  }
+
+  async getPricing(c: Context) {
+    const id = c.req.param("id")!;
+    const pricing = await this.orderService.getOrderWithDiscount(id, c.get("principal"));
+    return c.json(pricing);
+  }
+}
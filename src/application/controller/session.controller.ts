@@ -0,0 +1,32 @@
+import type { Context } from "hono";
+import { SessionService } from "../service/session.service";
+import { inject, injectable } from "tsyringe";
+
+@injectable()
+export class SessionController {
+  constructor(@inject(SessionService) private sessionService: SessionService) {}
+
+  async register(c: Context) {
+    const body = c.req.valid("json" as never);
+    const { user, session } = await this.sessionService.register(body);
+    return c.json({ message: "User registered", user, ...session }, 201);
+  }
+
+  async login(c: Context) {
+    const body = c.req.valid("json" as never);
+    const session = await this.sessionService.login(body);
+    return c.json(session);
+  }
+
+  async refresh(c: Context) {
+    const { refreshToken } = c.req.valid("json" as never);
+    const session = await this.sessionService.refresh(refreshToken);
+    return c.json(session);
+  }
+
+  async logout(c: Context) {
+    const { refreshToken } = c.req.valid("json" as never);
+    await this.sessionService.logout(refreshToken);
+    return c.json({ message: "Logged out" });
+  }
+}
@@ -0,0 +1,38 @@
+import type { Context } from "hono";
+import { TaxRateService } from "../service/tax-rate.service";
+import { inject, injectable } from "tsyringe";
+
+@injectable()
+export class TaxRateController {
+  constructor(@inject(TaxRateService) private taxRateService: TaxRateService) {}
+
+  async getAll(c: Context) {
+    const taxRates = await this.taxRateService.getAllTaxRates();
+    return c.json({ taxRates });
+  }
+
+  async create(c: Context) {
+    const body = c.req.valid("json" as never);
+    const taxRate = await this.taxRateService.createTaxRate(body, c.get("principal"));
+    return c.json({ message: "Tax rate created", taxRate }, 201);
+  }
+
+  async getById(c: Context) {
+    const id = c.req.param("id")!;
+    const taxRate = await this.taxRateService.getTaxRateById(id);
+    return c.json({ taxRate });
+  }
+
+  async update(c: Context) {
+    const id = c.req.param("id")!;
+    const body = c.req.valid("json" as never);
+    const taxRate = await this.taxRateService.updateTaxRate(id, body, c.get("principal"));
+    return c.json({ message: "Tax rate updated", taxRate });
+  }
+
+  async delete(c: Context) {
+    const id = c.req.param("id")!;
+    await this.taxRateService.deleteTaxRate(id, c.get("principal"));
+    return c.json({ message: "Tax rate deleted" });
+  }
+}
@@ -1,71 +1,73 @@
 import type { Context } from "hono";
 import { UserService } from "../service/user.service";
+import { UserDataService, userDataArchive } from "../service/user-data.service";
+import type { ExportUserQueryType } from "../dto";
+import { etagOf, ifMatchVersion } from "../middleware/etag";
 import { inject, injectable } from "tsyringe";
 
 @injectable() 
 export class UserController {
-  constructor(@inject(UserService) private userService: UserService){}
+  constructor(
+    @inject(UserService) private userService: UserService,
+    @inject(UserDataService) private userDataService: UserDataService,
+  ) {}
 
   async getAll(c: Context) {
-    try {
-      const users = await this.userService.getAllUsers();
-      return c.json({ users });
-    } catch (error) {
-      return c.json({ error: "Failed to fetch users" }, 500);
-    }
+    const query = c.req.valid("query" as never);
+    const { data: users, ...pagination } = await this.userService.listUsers(query, c.get("principal"));
+    return c.json({ users, pagination });
   }
 
   async create(c: Context) {
-    console.log("create");
-    try {
-      const body = await c.req.json();
-      const user = await this.userService.createUser(body);
-      return c.json({ message: "User created", user }, 201);
-    } catch (error) {
-      if (error instanceof Error) {
-        return c.json({ error: error.message }, 400);
-      }
-      return c.json({ error: "Failed to create user" }, 500);
-    }
+    const body = c.req.valid("json" as never);
+    const user = await this.userService.createUser(body, c.get("principal"));
+    c.header("ETag", etagOf(user.version));
+    return c.json({ message: "User created", user }, 201);
   }
 
   async getById(c: Context) {
-    try {
-      const id = c.req.param("id");
-      const user = await this.userService.getUserById(id);
-      return c.json({ user });
-    } catch (error) {
-      if (error instanceof Error) {
-        return c.json({ error: error.message }, 404);
-      }
-      return c.json({ error: "Failed to fetch user" }, 500);
-    }
+    const id = c.req.param("id")!;
+    const user = await this.userService.getUserById(id, c.get("principal"));
+    c.header("ETag", etagOf(user.version));
+    return c.json({ user });
   }
 
   async update(c: Context) {
-    try {
-      const id = c.req.param("id");
-      const body = await c.req.json();
-      const user = await this.userService.updateUser(id, body);
-      return c.json({ message: "User updated", user });
-    } catch (error) {
-      if (error instanceof Error) {
-        return c.json({ error: error.message }, 400);
-      }
-      return c.json({ error: "Failed to update user" }, 500);
-    }
+    const id = c.req.param("id")!;
+    const body = c.req.valid("json" as never);
+    const user = await this.userService.updateUser(id, body, c.get("principal"), ifMatchVersion(c, "User"));
+    c.header("ETag", etagOf(user.version));
+    return c.json({ message: "User updated", user });
   }
 
   async delete(c: Context) {
-    try {
-      const id = c.req.param("id");
-      await this.userService.deleteUser(id);
-      return c.json({ message: "User deleted" });
-    } catch (error) {
-      if (error instanceof Error) {
-        return c.json({ error: error.message }, 404);
-      }
-      return c.json({ error: "Failed to delete user" }, 500);
+    const id = c.req.param("id")!;
+    await this.userService.deleteUser(id, c.get("principal"), ifMatchVersion(c, "User"));
+    return c.json({ message: "User deleted" });
+  }
+
+  async restore(c: Context) {
+    const id = c.req.param("id")!;
+    const user = await this.userService.restoreUser(id, c.get("principal"), ifMatchVersion(c, "User"));
+    c.header("ETag", etagOf(user.version));
+    return c.json({ message: "User restored", user });
+  }
+
+  async export(c: Context) {
+    const id = c.req.param("id")!;
+    const { format }: ExportUserQueryType = c.req.valid("query" as never);
+    const data = await this.userDataService.exportUser(id, c.get("principal"));
+
+    c.header("Content-Disposition", `attachment; filename="user-${id}-export.${format}"`);
+    if (format === "zip") {
+      return c.body(new Uint8Array(userDataArchive(data)), 200, { "Content-Type": "application/zip" });
     }
+    return c.json(data);
+  }
+
+  async erase(c: Context) {
+    const id = c.req.param("id")!;
+    const user = await this.userDataService.eraseUser(id, c.get("principal"));
+    return c.json({ message: "User erased", user });
   }
 }
@@ -0,0 +1,45 @@
+import type { Context } from "hono";
+import { WebhookService } from "../service/webhook.service";
+import { inject, injectable } from "tsyringe";
+
+@injectable()
+export class WebhookController {
+  constructor(@inject(WebhookService) private webhookService: WebhookService) {}
+
+  async getAll(c: Context) {
+    const webhooks = await this.webhookService.listWebhooks(c.get("principal"));
+    return c.json({ webhooks });
+  }
+
+  async create(c: Context) {
+    const body = c.req.valid("json" as never);
+    const { webhook, secret } = await this.webhookService.createWebhook(body, c.get("principal"));
+    return c.json({ message: "Webhook created", webhook, secret }, 201);
+  }
+
+  async getById(c: Context) {
+    const id = c.req.param("id")!;
+    const webhook = await this.webhookService.getWebhook(id, c.get("principal"));
+    return c.json({ webhook });
+  }
+
+  async delete(c: Context) {
+    const id = c.req.param("id")!;
+    await this.webhookService.deleteWebhook(id, c.get("principal"));
+    return c.json({ message: "Webhook deleted" });
+  }
+
+  async getDeliveries(c: Context) {
+    const id = c.req.param("id")!;
+    const query = c.req.valid("query" as never);
+    const { data: deliveries, ...pagination } = await this.webhookService.listDeliveries(id, query, c.get("principal"));
+    return c.json({ deliveries, pagination });
+  }
+
+  async redeliver(c: Context) {
+    const id = c.req.param("id")!;
+    const deliveryId = c.req.param("deliveryId")!;
+    const delivery = await this.webhookService.redeliver(id, deliveryId, c.get("principal"));
+    return c.json({ message: "Delivery queued", delivery });
+  }
+}
@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// Body of the requests for a verification or password reset email
+export const AccountEmailDTO = z.object({
+  email: z.email("Invalid email format"),
+});
+
+export type AccountEmailDTOType = z.infer<typeof AccountEmailDTO>;
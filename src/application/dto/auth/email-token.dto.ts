@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// Body of the routes that take the token from an emailed link
+export const EmailTokenDTO = z.object({
+  token: z.string().min(1, "Token is required").max(255),
+});
+
+export type EmailTokenDTOType = z.infer<typeof EmailTokenDTO>;
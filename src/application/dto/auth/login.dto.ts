@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+export const LoginDTO = z.object({
+  email: z.email("Invalid email format"),
+  password: z.string().min(1, "Password is required").max(128, "Password too long"),
+});
+
+export type LoginDTOType = z.infer<typeof LoginDTO>;
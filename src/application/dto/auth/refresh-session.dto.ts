@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// Body of both /auth/refresh and /auth/logout
+export const RefreshSessionDTO = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required").max(255),
+});
+
+export type RefreshSessionDTOType = z.infer<typeof RefreshSessionDTO>;
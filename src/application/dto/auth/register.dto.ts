@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { CreateUserDTO } from "../user/create-user.dto";
+
+// Length over composition rules, as NIST 800-63B recommends
+export const Password = z
+  .string()
+  .min(12, "Password must be at least 12 characters")
+  .max(128, "Password too long");
+
+export const RegisterDTO = CreateUserDTO.extend({
+  password: Password,
+});
+
+export type RegisterDTOType = z.infer<typeof RegisterDTO>;
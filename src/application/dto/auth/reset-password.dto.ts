@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { Password } from "./register.dto";
+
+export const ResetPasswordDTO = z.object({
+  token: z.string().min(1, "Token is required").max(255),
+  password: Password,
+});
+
+export type ResetPasswordDTOType = z.infer<typeof ResetPasswordDTO>;
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+// Accepts 12.5 or "12.50" and keeps it as a string so it reaches Money without a float round-trip
+export const DecimalAmount = z
+  .union([z.string().trim(), z.number()])
+  .transform(String)
+  .pipe(z.string().regex(/^\d+(\.\d+)?$/, "Amount must be a non-negative decimal number"));
+
+export const CurrencyCode = z
+  .string()
+  .length(3, "Currency must be an ISO 4217 code")
+  .toUpperCase();
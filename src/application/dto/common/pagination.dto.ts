@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+// Query string fields shared by every cursor-paginated list route
+export const PaginationQuery = z.object({
+  limit: z.coerce.number().int("Limit must be a whole number").min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+  direction: z.enum(["forward", "backward"]).default("forward"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
+
+// Accepts a date (start of day, UTC) or a full ISO timestamp
+export const DateBoundary = z
+  .union([z.iso.datetime({ offset: true }), z.iso.date()], "Must be an ISO date or timestamp")
+  .transform((value) => new Date(value));
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { DiscountType } from "../../../domain/vo/DiscountType";
+import { CurrencyCode, DecimalAmount } from "../common/money.dto";
+
+// Which fields a rule type needs is checked by DiscountRuleEntity
+export const DiscountRuleFields = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255, "Name too long"),
+  type: z.enum(DiscountType),
+  percentage: z.number().gt(0, "Percentage must be positive").max(100, "Percentage cannot exceed 100").nullable(),
+  amount: DecimalAmount.nullable(),
+  currency: CurrencyCode.nullable(),
+  buyQuantity: z.number().int().positive().nullable(),
+  getQuantity: z.number().int().positive().nullable(),
+  productId: z.string().uuid("Invalid product ID").nullable(),
+  category: z.string().trim().min(1).max(100, "Category too long").toLowerCase().nullable(),
+  minimumTotal: DecimalAmount.nullable(),
+  couponCode: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9_-]{3,50}$/, "Coupon codes are 3-50 letters, digits, - or _")
+    .toUpperCase()
+    .nullable(),
+  validFrom: z.iso.datetime("Valid from must be an ISO timestamp").nullable(),
+  validTo: z.iso.datetime("Valid to must be an ISO timestamp").nullable(),
+  priority: z.number().int("Priority must be a whole number"),
+  stackable: z.boolean(),
+  active: z.boolean(),
+});
+
+export const CreateDiscountRuleDTO = DiscountRuleFields.extend({
+  percentage: DiscountRuleFields.shape.percentage.default(null),
+  amount: DiscountRuleFields.shape.amount.default(null),
+  currency: DiscountRuleFields.shape.currency.default(null),
+  buyQuantity: DiscountRuleFields.shape.buyQuantity.default(null),
+  getQuantity: DiscountRuleFields.shape.getQuantity.default(null),
+  productId: DiscountRuleFields.shape.productId.default(null),
+  category: DiscountRuleFields.shape.category.default(null),
+  minimumTotal: DiscountRuleFields.shape.minimumTotal.default(null),
+  couponCode: DiscountRuleFields.shape.couponCode.default(null),
+  validFrom: DiscountRuleFields.shape.validFrom.default(null),
+  validTo: DiscountRuleFields.shape.validTo.default(null),
+  priority: DiscountRuleFields.shape.priority.default(0),
+  stackable: DiscountRuleFields.shape.stackable.default(false),
+  active: DiscountRuleFields.shape.active.default(true),
+}).refine((dto) => (dto.amount === null && dto.minimumTotal === null) || dto.currency !== null, {
+  message: "Currency is required with an amount or minimum total",
+  path: ["currency"],
+});
+
+export type CreateDiscountRuleDTOType = z.infer<typeof CreateDiscountRuleDTO>;
@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { DiscountRuleFields } from "./create-discount-rule.dto";
+
+export const UpdateDiscountRuleDTO = DiscountRuleFields.partial().refine(
+  (dto) => Object.keys(dto).length > 0,
+  { message: "At least one field is required" },
+);
+
+export type UpdateDiscountRuleDTOType = z.infer<typeof UpdateDiscountRuleDTO>;
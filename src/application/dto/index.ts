@@ -1,3 +1,25 @@
+export * from "./common/money.dto";
+export * from "./common/pagination.dto";
 export * from "./user/create-user.dto";
 export * from "./user/update-user.dto";
+export * from "./user/list-users.dto";
+export * from "./user/change-email.dto";
+export * from "./user/export-user.dto";
+export * from "./item/create-item.dto";
+export * from "./item/update-item.dto";
 export * from "./order/create-order.dto";
+export * from "./order/cancel-order.dto";
+export * from "./order/refund-order.dto";
+export * from "./order/list-orders.dto";
+export * from "./tax-rate/create-tax-rate.dto";
+export * from "./tax-rate/update-tax-rate.dto";
+export * from "./discount-rule/create-discount-rule.dto";
+export * from "./discount-rule/update-discount-rule.dto";
+export * from "./auth/register.dto";
+export * from "./auth/login.dto";
+export * from "./auth/refresh-session.dto";
+export * from "./auth/account-email.dto";
+export * from "./auth/email-token.dto";
+export * from "./auth/reset-password.dto";
+export * from "./webhook/create-webhook.dto";
+export * from "./webhook/list-webhook-deliveries.dto";
@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { TaxCategory } from "../../../domain/vo/TaxCategory";
+import { CurrencyCode, DecimalAmount } from "../common/money.dto";
+
+export const CreateItemDTO = z.object({
+  name: z.string().min(1, "Name is required").max(255, "Name too long"),
+  description: z.string().max(2000, "Description too long").nullable().default(null),
+  price: DecimalAmount,
+  currency: CurrencyCode.default("USD"),
+  sku: z.string().min(1).max(100, "SKU too long").nullable().default(null),
+  taxCategory: z.enum(TaxCategory).default(TaxCategory.STANDARD),
+  category: z.string().trim().min(1).max(100, "Category too long").toLowerCase().nullable().default(null),
+});
+
+export type CreateItemDTOType = z.infer<typeof CreateItemDTO>;
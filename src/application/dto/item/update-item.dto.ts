@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { TaxCategory } from "../../../domain/vo/TaxCategory";
+import { CurrencyCode, DecimalAmount } from "../common/money.dto";
+
+export const UpdateItemDTO = z
+  .object({
+    name: z.string().min(1, "Name is required").max(255, "Name too long"),
+    description: z.string().max(2000, "Description too long").nullable(),
+    price: DecimalAmount,
+    currency: CurrencyCode,
+    sku: z.string().min(1).max(100, "SKU too long").nullable(),
+    taxCategory: z.enum(TaxCategory),
+    category: z.string().trim().min(1).max(100, "Category too long").toLowerCase().nullable(),
+  })
+  .partial()
+  .refine((dto) => Object.keys(dto).length > 0, {
+    message: "At least one field is required",
+  });
+
+export type UpdateItemDTOType = z.infer<typeof UpdateItemDTO>;
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const CancelOrderDTO = z.object({
+  reason: z.string().trim().min(1, "Cancellation reason is required").max(500, "Reason too long"),
+});
+
+export type CancelOrderDTOType = z.infer<typeof CancelOrderDTO>;
@@ -1,17 +1,33 @@
 import { z } from "zod";
+import { PricingMode } from "../../../domain/vo/PricingMode";
+import { CurrencyCode } from "../common/money.dto";
 
 export const CreateOrderDTO = z.object({
-  userId: z.string().uuid("Invalid user ID"),
+  userId: z.string().min(1, "User ID is required"),
   items: z
     .array(
+      // Name, price and tax category come from the catalog, never from the client
       z.object({
         productId: z.string().uuid("Invalid product ID"),
-        productName: z.string().min(1, "Product name is required"),
-        quantity: z.number().positive("Quantity must be positive"),
-        price: z.number().positive("Price must be positive"),
+        quantity: z.number().int("Quantity must be a whole number").positive("Quantity must be positive"),
       }),
     )
     .min(1, "At least one item is required"),
+  jurisdiction: z.object({
+    country: z
+      .string()
+      .length(2, "Country must be an ISO 3166-1 alpha-2 code")
+      .toUpperCase(),
+    state: z.string().min(1).optional(),
+    city: z.string().min(1).optional(),
+  }),
+  pricingMode: z.enum(PricingMode).default(PricingMode.TAX_EXCLUSIVE),
+  // Defaults to the catalog currency of the first item
+  currency: CurrencyCode.optional(),
+  couponCodes: z
+    .array(z.string().trim().min(1).toUpperCase())
+    .max(5, "At most 5 coupon codes per order")
+    .default([]),
 });
 
 export type CreateOrderDTOType = z.infer<typeof CreateOrderDTO>;
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { OrderStatus } from "../../../domain/vo/OrderStatus";
+import { DateBoundary, PaginationQuery } from "../common/pagination.dto";
+
+const OrderListFields = PaginationQuery.extend({
+  sortBy: z.enum(["createdAt", "updatedAt", "total"]).default("createdAt"),
+  // Comma separated, e.g. status=pending,confirmed
+  status: z
+    .string()
+    .transform((value) => value.split(",").map((status) => status.trim()))
+    .pipe(z.array(z.enum(OrderStatus)))
+    .optional(),
+  createdFrom: DateBoundary.optional(),
+  createdTo: DateBoundary.optional(),
+});
+
+const validRange = (query: { createdFrom?: Date; createdTo?: Date }) =>
+  !query.createdFrom || !query.createdTo || query.createdFrom < query.createdTo;
+const rangeError = { message: "createdTo must be after createdFrom", path: ["createdTo"] };
+
+// GET /users/:id/orders takes the user from the path
+export const ListUserOrdersQuery = OrderListFields.refine(validRange, rangeError);
+
+export const ListOrdersQuery = OrderListFields.extend({
+  userId: z.string().min(1).optional(),
+}).refine(validRange, rangeError);
+
+export type ListUserOrdersQueryType = z.infer<typeof ListUserOrdersQuery>;
+export type ListOrdersQueryType = z.infer<typeof ListOrdersQuery>;
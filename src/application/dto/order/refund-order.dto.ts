@@ -0,0 +1,8 @@
+import { z } from "zod";
+import { DecimalAmount } from "../common/money.dto";
+
+export const RefundOrderDTO = z.object({
+  amount: DecimalAmount, // In the order's currency
+});
+
+export type RefundOrderDTOType = z.infer<typeof RefundOrderDTO>;
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { TaxCategory } from "../../../domain/vo/TaxCategory";
+
+export const CreateTaxRateDTO = z
+  .object({
+    jurisdiction: z.object({
+      country: z
+        .string()
+        .length(2, "Country must be an ISO 3166-1 alpha-2 code")
+        .toUpperCase(),
+      state: z.string().min(1).optional(),
+      city: z.string().min(1).optional(),
+    }),
+    category: z.enum(TaxCategory),
+    rate: z
+      .number()
+      .min(0, "Rate cannot be negative")
+      .lt(1, "Rate must be a fraction, e.g. 0.2 for 20%"),
+    effectiveFrom: z.iso.date("Effective from must be a YYYY-MM-DD date"),
+    effectiveTo: z.iso.date("Effective to must be a YYYY-MM-DD date").nullable().default(null),
+  })
+  .refine((dto) => !dto.jurisdiction.city || dto.jurisdiction.state, {
+    message: "A city rate must also name its state",
+    path: ["jurisdiction", "state"],
+  });
+
+export type CreateTaxRateDTOType = z.infer<typeof CreateTaxRateDTO>;
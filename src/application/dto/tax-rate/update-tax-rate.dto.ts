@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const UpdateTaxRateDTO = z.object({
+  rate: z
+    .number()
+    .min(0, "Rate cannot be negative")
+    .lt(1, "Rate must be a fraction, e.g. 0.2 for 20%"),
+  effectiveFrom: z.iso.date("Effective from must be a YYYY-MM-DD date"),
+  effectiveTo: z.iso.date("Effective to must be a YYYY-MM-DD date").nullable().default(null),
+});
+
+export type UpdateTaxRateDTOType = z.infer<typeof UpdateTaxRateDTO>;
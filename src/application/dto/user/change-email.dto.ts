@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const ChangeEmailDTO = z.object({
+  email: z.email("Invalid email format"),
+});
+
+export type ChangeEmailDTOType = z.infer<typeof ChangeEmailDTO>;
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const ExportUserQuery = z.object({
+  format: z.enum(["json", "zip"]).default("json"),
+});
+
+export type ExportUserQueryType = z.infer<typeof ExportUserQuery>;
@@ -0,0 +1,11 @@
+import { z } from "zod";
+import { PaginationQuery } from "../common/pagination.dto";
+
+export const ListUsersQuery = PaginationQuery.extend({
+  sortBy: z.enum(["createdAt", "email", "name"]).default("createdAt"),
+  emailPrefix: z.string().trim().min(1).max(255).optional(),
+  // Lists soft-deleted users, the ones that can still be restored
+  deleted: z.stringbool().default(false),
+});
+
+export type ListUsersQueryType = z.infer<typeof ListUsersQuery>;
@@ -1,7 +1,13 @@
 import { z } from "zod";
+import { Role } from "../../../domain/vo/Role";
 
-export const UpdateUserDTO = z.object({
-  name: z.string().min(1, "Name is required").max(100, "Name too long"),
-});
+export const UpdateUserDTO = z
+  .object({
+    name: z.string().min(1, "Name is required").max(100, "Name too long").optional(),
+    role: z.enum(Role).optional(), // Only admins may change roles
+  })
+  .refine((dto) => dto.name !== undefined || dto.role !== undefined, {
+    message: "Nothing to update",
+  });
 
 export type UpdateUserDTOType = z.infer<typeof UpdateUserDTO>;
@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { DomainEventType } from "../../../domain/events/domain-event";
+
+// Whether the URL is usable is checked by WebhookSubscriptionEntity
+export const CreateWebhookDTO = z.object({
+  url: z.string().trim().min(1, "URL is required").max(2048, "URL too long"),
+  eventTypes: z.array(z.enum(DomainEventType)).min(1, "At least one event type is required"),
+});
+
+export type CreateWebhookDTOType = z.infer<typeof CreateWebhookDTO>;
@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { WebhookDeliveryStatus } from "../../../domain/vo/WebhookDelivery";
+import { PaginationQuery } from "../common/pagination.dto";
+
+export const ListWebhookDeliveriesQuery = PaginationQuery.extend({
+  sortBy: z.enum(["createdAt"]).default("createdAt"),
+  status: z.enum(WebhookDeliveryStatus).optional(),
+});
+
+export type ListWebhookDeliveriesQueryType = z.infer<typeof ListWebhookDeliveriesQuery>;
@@ -0,0 +1,25 @@
+import { createMiddleware } from "hono/factory";
+import { container } from "tsyringe";
+import type { Principal } from "../../domain/vo/Principal";
+import { AuthService } from "../service/auth.service";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    principal: Principal;
+  }
+}
+
+/**
+ * Requires a Bearer JWT or an X-API-Key header and puts whoever it identifies
+ * on the context as `principal`. Failures throw, and the error handler answers
+ * them with 401.
+ */
+export const authenticate = createMiddleware(async (c, next) => {
+  const principal = await container.resolve(AuthService).authenticate({
+    authorization: c.req.header("Authorization"),
+    apiKey: c.req.header("X-API-Key"),
+  });
+
+  c.set("principal", principal);
+  await next();
+});
@@ -0,0 +1,23 @@
+import type { Context } from "hono";
+import { PreconditionFailedError } from "../../domain/errors";
+
+// Strong ETags carrying the record's version, which every save moves on
+export const etagOf = (version: number): string => `"${version}"`;
+
+/**
+ * The version an If-Match header makes the request conditional on, or
+ * undefined without one or for "*". Anything other than a single ETag this
+ * API hands out can never match, so the precondition fails straight away.
+ */
+export function ifMatchVersion(c: Context, resource: string): number | undefined {
+  const header = c.req.header("If-Match")?.trim();
+  if (!header || header === "*") {
+    return undefined;
+  }
+
+  const match = /^"(\d+)"$/.exec(header);
+  if (!match) {
+    throw new PreconditionFailedError(resource);
+  }
+  return Number(match[1]);
+}
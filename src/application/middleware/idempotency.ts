@@ -0,0 +1,66 @@
+import { createHash } from "node:crypto";
+import { createMiddleware } from "hono/factory";
+import { container } from "tsyringe";
+import { ValidationFailedError } from "../../domain/errors";
+import { principalLabel } from "../../domain/vo/Principal";
+import { IdempotencyService } from "../service/idempotency.service";
+
+const MAX_KEY_LENGTH = 255;
+
+// Headers that describe the response itself; the rest are set afresh for each one
+const STORED_HEADERS = ["Content-Type", "ETag", "Location"];
+
+/**
+ * Makes a route safe to retry with an Idempotency-Key header. The first
+ * request with a key runs as usual and, if it succeeds, its response is
+ * stored; retries with the same key and body get that response back, marked
+ * with `Idempotent-Replayed: true`, instead of running again. Requests
+ * without the header are left alone. Goes after authenticate, since keys
+ * belong to the caller.
+ */
+export const idempotent = createMiddleware(async (c, next) => {
+  const key = c.req.header("Idempotency-Key");
+  if (key === undefined) {
+    await next();
+    return;
+  }
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    const message = `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`;
+    throw new ValidationFailedError(message, [{ path: "Idempotency-Key", message }]);
+  }
+
+  const body = await c.req.text();
+  const requestHash = createHash("sha256").update(`${c.req.method} ${c.req.path}\n${body}`).digest("hex");
+  const idempotency = container.resolve(IdempotencyService);
+  const record = await idempotency.begin(principalLabel(c.get("principal")), key, requestHash);
+
+  if (record.response) {
+    const { status, headers, body: stored } = record.response;
+    return new Response(stored, { status, headers: { ...headers, "Idempotent-Replayed": "true" } });
+  }
+
+  try {
+    await next();
+  } catch (error) {
+    await idempotency.release(record);
+    throw error;
+  }
+
+  // Errors the handler threw have already become the problem response here
+  if (!c.res.ok) {
+    await idempotency.release(record);
+    return;
+  }
+  const headers = Object.fromEntries(
+    STORED_HEADERS.flatMap((name) => {
+      const value = c.res.headers.get(name);
+      return value === null ? [] : [[name, value]];
+    }),
+  );
+  try {
+    await idempotency.complete(record, { status: c.res.status, headers, body: await c.res.clone().text() });
+  } catch (error) {
+    // The request took effect, so the caller still gets its answer; retries run again once the claim lapses
+    console.error(`Failed to store the response for Idempotency-Key ${key}:`, error);
+  }
+});
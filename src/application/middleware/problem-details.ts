@@ -0,0 +1,136 @@
+import type { Context } from "hono";
+import { HTTPException } from "hono/http-exception";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+  AccountLockedError,
+  ConflictError,
+  DomainError,
+  ForbiddenError,
+  IdempotencyKeyReusedError,
+  InvalidStateTransitionError,
+  NotFoundError,
+  PreconditionFailedError,
+  UnauthenticatedError,
+  ValidationFailedError,
+  VersionConflictError,
+} from "../../domain/errors";
+import { etagOf } from "./etag";
+
+// RFC 7807 body; code names the same problem as type, for clients that prefer a plain string
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: string;
+  [extension: string]: unknown;
+}
+
+const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+// Titles stay fixed per status, the detail carries the specifics
+const TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  409: "Conflict",
+  412: "Precondition Failed",
+  422: "Unprocessable Content",
+  423: "Locked",
+  500: "Internal Server Error",
+};
+
+// Validation failures and any other domain rule the request broke are the caller's to fix
+function statusOf(error: DomainError): ContentfulStatusCode {
+  if (error instanceof UnauthenticatedError) return 401;
+  if (error instanceof ForbiddenError) return 403;
+  if (error instanceof AccountLockedError) return 423;
+  if (error instanceof NotFoundError) return 404;
+  if (error instanceof ConflictError || error instanceof InvalidStateTransitionError) return 409;
+  if (error instanceof PreconditionFailedError) return 412;
+  if (error instanceof IdempotencyKeyReusedError) return 422;
+  return 400;
+}
+
+// Fields beyond the message that help a client act on the error
+function extensionsOf(error: DomainError): Record<string, unknown> {
+  if (error instanceof ValidationFailedError && error.issues.length > 0) {
+    return { errors: error.issues };
+  }
+  if (error instanceof InvalidStateTransitionError) {
+    return { from: error.from, to: error.to };
+  }
+  if (error instanceof ForbiddenError) {
+    return { permission: error.permission };
+  }
+  if (error instanceof AccountLockedError) {
+    return { lockedUntil: error.lockedUntil.toISOString() };
+  }
+  if (error instanceof NotFoundError) {
+    return { resource: error.resource, ...(error.id ? { id: error.id } : {}) };
+  }
+  if (error instanceof VersionConflictError) {
+    return { resource: error.resource, id: error.id };
+  }
+  if (error instanceof PreconditionFailedError) {
+    return { resource: error.resource };
+  }
+  return {};
+}
+
+export function problem(
+  c: Context,
+  status: ContentfulStatusCode,
+  code: string,
+  detail: string,
+  extensions: Record<string, unknown> = {},
+): Response {
+  const body: ProblemDetails = {
+    type: `/problems/${code.replace(/_/g, "-")}`,
+    title: TITLES[status] ?? "Error",
+    status,
+    detail,
+    instance: c.req.path,
+    code,
+    ...extensions,
+  };
+  return c.body(JSON.stringify(body), status, { "Content-Type": PROBLEM_CONTENT_TYPE });
+}
+
+/**
+ * Global error handler. Domain errors become problem responses with their own
+ * status and code; anything else is logged and answered with a generic 500 so
+ * database and programming errors never reach the client.
+ */
+export function handleError(error: Error, c: Context): Response {
+  if (error instanceof DomainError) {
+    if (error instanceof UnauthenticatedError) {
+      c.header("WWW-Authenticate", 'Bearer realm="api"');
+    }
+    // Saves the client a read before trying again
+    if (error instanceof PreconditionFailedError && error.currentVersion !== null) {
+      c.header("ETag", etagOf(error.currentVersion));
+    }
+    if (error instanceof AccountLockedError) {
+      const seconds = Math.ceil((error.lockedUntil.getTime() - Date.now()) / 1000);
+      c.header("Retry-After", String(Math.max(seconds, 1)));
+    }
+    return problem(c, statusOf(error), error.code, error.message, extensionsOf(error));
+  }
+
+  // Raised by Hono itself, e.g. for a request body that is not JSON
+  if (error instanceof HTTPException) {
+    const status = error.status as ContentfulStatusCode;
+    return problem(c, status, status === 400 ? "bad_request" : "http_error", error.message || TITLES[status] || "Error");
+  }
+
+  console.error(`Unhandled error on ${c.req.method} ${c.req.path}:`, error);
+  return problem(c, 500, "internal_error", "An unexpected error occurred");
+}
+
+export function handleNotFound(c: Context): Response {
+  return problem(c, 404, "route_not_found", `No route for ${c.req.method} ${c.req.path}`);
+}
@@ -0,0 +1,21 @@
+import { zValidator } from "@hono/zod-validator";
+import type { ValidationTargets } from "hono";
+import type { ZodType } from "zod";
+import { ValidationFailedError } from "../../domain/errors";
+
+// zValidator that reports failures through the global error handler as problem responses
+export const validate = <Target extends keyof ValidationTargets, Schema extends ZodType>(
+  target: Target,
+  schema: Schema,
+) =>
+  zValidator(target, schema, (result) => {
+    if (!result.success) {
+      throw new ValidationFailedError(
+        "Request validation failed",
+        result.error.issues.map((issue) => ({
+          path: issue.path.map(String).join("."),
+          message: issue.message,
+        })),
+      );
+    }
+  });
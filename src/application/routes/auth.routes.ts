@@ -0,0 +1,63 @@
+import { Hono } from "hono";
+import { AccountController } from "../controller/account.controller";
+import { SessionController } from "../controller/session.controller";
+import {
+  AccountEmailDTO,
+  EmailTokenDTO,
+  LoginDTO,
+  RefreshSessionDTO,
+  RegisterDTO,
+  ResetPasswordDTO,
+} from "../dto";
+import { validate } from "../middleware/validate";
+import { container } from "tsyringe";
+
+// Public on purpose: these are how callers get credentials in the first place
+const authRoutes = new Hono();
+
+// POST /auth/register - Sign up as a customer and start a session
+authRoutes.post("/register", validate("json", RegisterDTO), (c) => {
+  return container.resolve(SessionController).register(c);
+});
+
+// POST /auth/login - Exchange email and password for an access and refresh token
+authRoutes.post("/login", validate("json", LoginDTO), (c) => {
+  return container.resolve(SessionController).login(c);
+});
+
+// POST /auth/refresh - Swap a refresh token for a new token pair
+authRoutes.post("/refresh", validate("json", RefreshSessionDTO), (c) => {
+  return container.resolve(SessionController).refresh(c);
+});
+
+// POST /auth/logout - End the session a refresh token belongs to
+authRoutes.post("/logout", validate("json", RefreshSessionDTO), (c) => {
+  return container.resolve(SessionController).logout(c);
+});
+
+// POST /auth/verify-email/request - Email a new verification link
+authRoutes.post("/verify-email/request", validate("json", AccountEmailDTO), (c) => {
+  return container.resolve(AccountController).requestVerification(c);
+});
+
+// POST /auth/verify-email - Confirm an email address with the token from the link
+authRoutes.post("/verify-email", validate("json", EmailTokenDTO), (c) => {
+  return container.resolve(AccountController).verifyEmail(c);
+});
+
+// POST /auth/password-reset/request - Email a password reset link
+authRoutes.post("/password-reset/request", validate("json", AccountEmailDTO), (c) => {
+  return container.resolve(AccountController).requestPasswordReset(c);
+});
+
+// POST /auth/password-reset - Set a new password with the token from the link
+authRoutes.post("/password-reset", validate("json", ResetPasswordDTO), (c) => {
+  return container.resolve(AccountController).resetPassword(c);
+});
+
+// POST /auth/email-change/confirm - Move an account to the new address the link was sent to
+authRoutes.post("/email-change/confirm", validate("json", EmailTokenDTO), (c) => {
+  return container.resolve(AccountController).confirmEmailChange(c);
+});
+
+export default authRoutes;
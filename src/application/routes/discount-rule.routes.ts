@@ -0,0 +1,42 @@
+import { Hono } from "hono";
+import { DiscountRuleController } from "../controller/discount-rule.controller";
+import { CreateDiscountRuleDTO, UpdateDiscountRuleDTO } from "../dto";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/authenticate";
+import { container } from "tsyringe";
+
+const discountRuleRoutes = new Hono();
+
+// Every discount rule route needs a JWT or API key
+discountRuleRoutes.use("*", authenticate);
+
+// GET /discount-rules - Get every discount rule
+discountRuleRoutes.get("/", (c) => {
+  const discountRuleController = container.resolve(DiscountRuleController);
+  return discountRuleController.getAll(c);
+});
+
+// POST /discount-rules - Create a discount rule
+discountRuleRoutes.post("/", validate("json", CreateDiscountRuleDTO), (c) => {
+  return container.resolve(DiscountRuleController).create(c);
+});
+
+// GET /discount-rules/:id - Get discount rule by ID
+discountRuleRoutes.get("/:id", (c) => {
+  const discountRuleController = container.resolve(DiscountRuleController);
+  return discountRuleController.getById(c);
+});
+
+// PUT /discount-rules/:id - Update discount rule
+discountRuleRoutes.put("/:id", validate("json", UpdateDiscountRuleDTO), (c) => {
+  const discountRuleController = container.resolve(DiscountRuleController);
+  return discountRuleController.update(c);
+});
+
+// DELETE /discount-rules/:id - Delete discount rule
+discountRuleRoutes.delete("/:id", (c) => {
+  const discountRuleController = container.resolve(DiscountRuleController);
+  return discountRuleController.delete(c);
+});
+
+export default discountRuleRoutes;
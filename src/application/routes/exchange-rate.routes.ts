@@ -0,0 +1,17 @@
+import { Hono } from "hono";
+import { ExchangeRateController } from "../controller/exchange-rate.controller";
+import { authenticate } from "../middleware/authenticate";
+import { container } from "tsyringe";
+
+const exchangeRateRoutes = new Hono();
+
+// Every exchange rate route needs a JWT or API key
+exchangeRateRoutes.use("*", authenticate);
+
+// GET /exchange-rates - Get every stored exchange rate
+exchangeRateRoutes.get("/", (c) => {
+  const exchangeRateController = container.resolve(ExchangeRateController);
+  return exchangeRateController.getAll(c);
+});
+
+export default exchangeRateRoutes;
@@ -1,8 +1,22 @@
 import { Hono } from "hono";
 import userRoutes from "./user.routes";
+import orderRoutes from "./order.routes";
+import itemRoutes from "./item.routes";
+import taxRateRoutes from "./tax-rate.routes";
+import exchangeRateRoutes from "./exchange-rate.routes";
+import discountRuleRoutes from "./discount-rule.routes";
+import authRoutes from "./auth.routes";
+import webhookRoutes from "./webhook.routes";
 
 const routes = new Hono();
 
+routes.route("/auth", authRoutes);
 routes.route("/users", userRoutes);
+routes.route("/orders", orderRoutes);
+routes.route("/items", itemRoutes);
+routes.route("/tax-rates", taxRateRoutes);
+routes.route("/exchange-rates", exchangeRateRoutes);
+routes.route("/discount-rules", discountRuleRoutes);
+routes.route("/webhooks", webhookRoutes);
 
 export default routes;
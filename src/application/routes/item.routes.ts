@@ -0,0 +1,42 @@
+import { Hono } from "hono";
+import { ItemController } from "../controller/item.controller";
+import { CreateItemDTO, UpdateItemDTO } from "../dto";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/authenticate";
+import { container } from "tsyringe";
+
+const itemRoutes = new Hono();
+
+// Every catalog route needs a JWT or API key
+itemRoutes.use("*", authenticate);
+
+// GET /items - Get the product catalog
+itemRoutes.get("/", (c) => {
+  const itemController = container.resolve(ItemController);
+  return itemController.getAll(c);
+});
+
+// POST /items - Add a product to the catalog
+itemRoutes.post("/", validate("json", CreateItemDTO), (c) => {
+  return container.resolve(ItemController).create(c);
+});
+
+// GET /items/:id - Get item by ID
+itemRoutes.get("/:id", (c) => {
+  const itemController = container.resolve(ItemController);
+  return itemController.getById(c);
+});
+
+// PUT /items/:id - Update item
+itemRoutes.put("/:id", validate("json", UpdateItemDTO), (c) => {
+  const itemController = container.resolve(ItemController);
+  return itemController.update(c);
+});
+
+// DELETE /items/:id - Delete item
+itemRoutes.delete("/:id", (c) => {
+  const itemController = container.resolve(ItemController);
+  return itemController.delete(c);
+});
+
+export default itemRoutes;
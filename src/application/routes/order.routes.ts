@@ -0,0 +1,82 @@
+import { Hono } from "hono";
+import { OrderController } from "../controller/order.controller";
+import { CancelOrderDTO, CreateOrderDTO, ListOrdersQuery, RefundOrderDTO } from "../dto";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/authenticate";
+import { idempotent } from "../middleware/idempotency";
+import { container } from "tsyringe";
+
+const orderRoutes = new Hono();
+
+// Every order route needs a JWT or API key
+orderRoutes.use("*", authenticate);
+
+// GET /orders - List orders a page at a time, filtered by status, user and date
+orderRoutes.get("/", validate("query", ListOrdersQuery), (c) => {
+  return container.resolve(OrderController).getAll(c);
+});
+
+// POST /orders - Create a new order
+orderRoutes.post("/", idempotent, validate("json", CreateOrderDTO), (c) => {
+  return container.resolve(OrderController).create(c);
+});
+
+// GET /orders/:id - Get order by ID
+orderRoutes.get("/:id", (c) => {
+  const orderController = container.resolve(OrderController);
+  return orderController.getById(c);
+});
+
+// POST /orders/:id/confirm - Confirm a pending order
+orderRoutes.post("/:id/confirm", idempotent, (c) => {
+  const orderController = container.resolve(OrderController);
+  return orderController.confirm(c);
+});
+
+// POST /orders/:id/process - Start processing a confirmed order
+orderRoutes.post("/:id/process", idempotent, (c) => {
+  const orderController = container.resolve(OrderController);
+  return orderController.process(c);
+});
+
+// POST /orders/:id/ship - Ship a confirmed or processing order
+orderRoutes.post("/:id/ship", idempotent, (c) => {
+  const orderController = container.resolve(OrderController);
+  return orderController.ship(c);
+});
+
+// POST /orders/:id/deliver - Mark a shipped order as delivered
+orderRoutes.post("/:id/deliver", idempotent, (c) => {
+  const orderController = container.resolve(OrderController);
+  return orderController.deliver(c);
+});
+
+// POST /orders/:id/complete - Complete a delivered order
+orderRoutes.post("/:id/complete", idempotent, (c) => {
+  const orderController = container.resolve(OrderController);
+  return orderController.complete(c);
+});
+
+// POST /orders/:id/cancel - Cancel an order that has not shipped
+orderRoutes.post("/:id/cancel", idempotent, validate("json", CancelOrderDTO), (c) => {
+  return container.resolve(OrderController).cancel(c);
+});
+
+// POST /orders/:id/refund - Refund a delivered or completed order
+orderRoutes.post("/:id/refund", idempotent, validate("json", RefundOrderDTO), (c) => {
+  return container.resolve(OrderController).refund(c);
+});
+
+// GET /orders/:id/history - Get the order's status timeline
+orderRoutes.get("/:id/history", (c) => {
+  const orderController = container.resolve(OrderController);
+  return orderController.getHistory(c);
+});
+
+// GET /orders/:id/pricing - Get order total with applicable discount
+orderRoutes.get("/:id/pricing", (c) => {
+  const orderController = container.resolve(OrderController);
+  return orderController.getPricing(c);
+});
+
+export default orderRoutes;
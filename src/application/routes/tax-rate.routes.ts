@@ -0,0 +1,42 @@
+import { Hono } from "hono";
+import { TaxRateController } from "../controller/tax-rate.controller";
+import { CreateTaxRateDTO, UpdateTaxRateDTO } from "../dto";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/authenticate";
+import { container } from "tsyringe";
+
+const taxRateRoutes = new Hono();
+
+// Every tax rate route needs a JWT or API key
+taxRateRoutes.use("*", authenticate);
+
+// GET /tax-rates - Get every tax rate version
+taxRateRoutes.get("/", (c) => {
+  const taxRateController = container.resolve(TaxRateController);
+  return taxRateController.getAll(c);
+});
+
+// POST /tax-rates - Create a tax rate version
+taxRateRoutes.post("/", validate("json", CreateTaxRateDTO), (c) => {
+  return container.resolve(TaxRateController).create(c);
+});
+
+// GET /tax-rates/:id - Get tax rate by ID
+taxRateRoutes.get("/:id", (c) => {
+  const taxRateController = container.resolve(TaxRateController);
+  return taxRateController.getById(c);
+});
+
+// PUT /tax-rates/:id - Update rate or effective dates
+taxRateRoutes.put("/:id", validate("json", UpdateTaxRateDTO), (c) => {
+  const taxRateController = container.resolve(TaxRateController);
+  return taxRateController.update(c);
+});
+
+// DELETE /tax-rates/:id - Delete tax rate
+taxRateRoutes.delete("/:id", (c) => {
+  const taxRateController = container.resolve(TaxRateController);
+  return taxRateController.delete(c);
+});
+
+export default taxRateRoutes;
@@ -1,19 +1,31 @@
 import { Hono } from "hono";
 import { UserController } from "../controller/user.controller";
-import { CreateUserDTO, UpdateUserDTO } from "../dto";
-import { zValidator } from "@hono/zod-validator";
+import { OrderController } from "../controller/order.controller";
+import { AccountController } from "../controller/account.controller";
+import {
+  ChangeEmailDTO,
+  CreateUserDTO,
+  ExportUserQuery,
+  ListUserOrdersQuery,
+  ListUsersQuery,
+  UpdateUserDTO,
+} from "../dto";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/authenticate";
 import { container } from "tsyringe";
 
 const userRoutes = new Hono();
 
-// GET /users - Get all users with pagination
-userRoutes.get("/", (c) => {
-  const userController = container.resolve(UserController);
-  return userController.getAll(c);
+// Every user route needs a JWT or API key
+userRoutes.use("*", authenticate);
+
+// GET /users - List users a page at a time, optionally by email prefix or only deleted ones
+userRoutes.get("/", validate("query", ListUsersQuery), (c) => {
+  return container.resolve(UserController).getAll(c);
 });
 
 // POST /users - Create a new user
-userRoutes.post("/", zValidator("json", CreateUserDTO), (c) => {
+userRoutes.post("/", validate("json", CreateUserDTO), (c) => {
   return container.resolve(UserController).create(c);
 });
 
@@ -24,15 +36,40 @@ userRoutes.get("/:id", (c) => {
 });
 
 // PUT /users/:id - Update user
-userRoutes.put("/:id", zValidator("json", UpdateUserDTO), (c) => {
+userRoutes.put("/:id", validate("json", UpdateUserDTO), (c) => {
   const userController = container.resolve(UserController);
   return userController.update(c);
 });
 
-// DELETE /users/:id - Delete user
+// POST /users/:id/email - Ask to move the account to a new address, confirmed from that address
+userRoutes.post("/:id/email", validate("json", ChangeEmailDTO), (c) => {
+  return container.resolve(AccountController).requestEmailChange(c);
+});
+
+// DELETE /users/:id - Soft-delete user, who can be restored until purged
 userRoutes.delete("/:id", (c) => {
   const userController = container.resolve(UserController);
   return userController.delete(c);
 });
 
+// POST /users/:id/restore - Bring back a deleted user
+userRoutes.post("/:id/restore", (c) => {
+  return container.resolve(UserController).restore(c);
+});
+
+// GET /users/:id/export - Download everything held about a user, as JSON or a ZIP of JSON files
+userRoutes.get("/:id/export", validate("query", ExportUserQuery), (c) => {
+  return container.resolve(UserController).export(c);
+});
+
+// POST /users/:id/erase - Pseudonymize a user's personal data, keeping their orders
+userRoutes.post("/:id/erase", (c) => {
+  return container.resolve(UserController).erase(c);
+});
+
+// GET /users/:id/orders - List orders placed by a user a page at a time
+userRoutes.get("/:id/orders", validate("query", ListUserOrdersQuery), (c) => {
+  return container.resolve(OrderController).getByUserId(c);
+});
+
 export default userRoutes;
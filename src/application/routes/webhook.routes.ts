@@ -0,0 +1,43 @@
+import { Hono } from "hono";
+import { WebhookController } from "../controller/webhook.controller";
+import { CreateWebhookDTO, ListWebhookDeliveriesQuery } from "../dto";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/authenticate";
+import { container } from "tsyringe";
+
+const webhookRoutes = new Hono();
+
+// Every webhook route needs a JWT or API key, and callers only see their own webhooks
+webhookRoutes.use("*", authenticate);
+
+// GET /webhooks - List the caller's webhooks
+webhookRoutes.get("/", (c) => {
+  return container.resolve(WebhookController).getAll(c);
+});
+
+// POST /webhooks - Subscribe a URL to events; the signing secret is only shown here
+webhookRoutes.post("/", validate("json", CreateWebhookDTO), (c) => {
+  return container.resolve(WebhookController).create(c);
+});
+
+// GET /webhooks/:id - Get webhook by ID
+webhookRoutes.get("/:id", (c) => {
+  return container.resolve(WebhookController).getById(c);
+});
+
+// DELETE /webhooks/:id - Delete a webhook along with its deliveries
+webhookRoutes.delete("/:id", (c) => {
+  return container.resolve(WebhookController).delete(c);
+});
+
+// GET /webhooks/:id/deliveries - List a webhook's deliveries and their attempts a page at a time
+webhookRoutes.get("/:id/deliveries", validate("query", ListWebhookDeliveriesQuery), (c) => {
+  return container.resolve(WebhookController).getDeliveries(c);
+});
+
+// POST /webhooks/:id/deliveries/:deliveryId/redeliver - Try a dead delivery once more
+webhookRoutes.post("/:id/deliveries/:deliveryId/redeliver", (c) => {
+  return container.resolve(WebhookController).redeliver(c);
+});
+
+export default webhookRoutes;
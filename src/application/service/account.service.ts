@@ -0,0 +1,255 @@
+import { createHash, randomBytes } from "node:crypto";
+import { AuditEntryEntity } from "../../domain/entities/audit-entry";
+import { PasswordCredentialEntity } from "../../domain/entities/password-credential";
+import type { UserEntity } from "../../domain/entities/user";
+import { UserTokenEntity } from "../../domain/entities/user-token";
+import { ConflictError, NotFoundError, ValidationFailedError } from "../../domain/errors";
+import type { IAuditLogRepository } from "../../domain/repositories/iaudit-log.repository";
+import type { IPasswordCredentialRepository } from "../../domain/repositories/ipassword-credential.repository";
+import type { IRefreshTokenRepository } from "../../domain/repositories/irefresh-token.repository";
+import type { IUnitOfWork } from "../../domain/repositories/iunit-of-work";
+import type { IUserRepository } from "../../domain/repositories/iuser.repository";
+import type { IUserTokenRepository } from "../../domain/repositories/iuser-token.repository";
+import type { Principal } from "../../domain/vo/Principal";
+import { principalLabel } from "../../domain/vo/Principal";
+import { UserTokenPurpose } from "../../domain/vo/UserTokenPurpose";
+import { AccessPolicy } from "../../domain/services/access-policy.domainservice";
+import { inject, injectable } from "tsyringe";
+import { AUTH_CONFIG_TOKEN } from "../../infrastructure/auth/config";
+import type { AuthConfig } from "../../infrastructure/auth/config";
+import { PasswordHasher } from "../../infrastructure/auth/password";
+import { MAIL_CONFIG_TOKEN } from "../../infrastructure/email/config";
+import type { MailConfig } from "../../infrastructure/email/config";
+import { MAILER_TOKEN } from "../../infrastructure/email/mailer";
+import type { IMailer } from "../../infrastructure/email/mailer";
+import { renderTemplate } from "../../infrastructure/email/templates";
+import type { TemplateName } from "../../infrastructure/email/templates";
+import { AuditLogRepository } from "../../infrastructure/database/repositories/AuditLogRepository";
+import { PasswordCredentialRepository } from "../../infrastructure/database/repositories/PasswordCredentialRepository";
+import { RefreshTokenRepository } from "../../infrastructure/database/repositories/RefreshTokenRepository";
+import { UserRepository } from "../../infrastructure/database/repositories/UserRepository";
+import { UserTokenRepository } from "../../infrastructure/database/repositories/UserTokenRepository";
+import { UnitOfWork } from "../../infrastructure/database/unit-of-work";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const hashUserToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+const duration = (amount: number, unit: string) => `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+
+// Unknown, used and expired tokens get the same answer
+const invalidToken = () =>
+  new ValidationFailedError("Invalid or expired token", [{ path: "token", message: "Invalid or expired token" }]);
+
+/**
+ * Email verification, password reset and email changes: each emails a link
+ * holding a single-use token, of which only a SHA-256 hash is stored. Asking
+ * for a new link invalidates the previous ones.
+ */
+@injectable()
+export class AccountService {
+  constructor(
+    @inject(UserRepository) private userRepository: IUserRepository,
+    @inject(UserTokenRepository) private userTokenRepository: IUserTokenRepository,
+    @inject(PasswordCredentialRepository) private credentialRepository: IPasswordCredentialRepository,
+    @inject(RefreshTokenRepository) private refreshTokenRepository: IRefreshTokenRepository,
+    @inject(PasswordHasher) private passwordHasher: Pick<PasswordHasher, "hash">,
+    @inject(MAILER_TOKEN) private mailer: IMailer,
+    @inject(MAIL_CONFIG_TOKEN) private mailConfig: Pick<MailConfig, "appUrl">,
+    @inject(AUTH_CONFIG_TOKEN) private authConfig: Pick<AuthConfig, "tokens">,
+    @inject(AuditLogRepository) private auditLogRepository: IAuditLogRepository,
+    @inject(UnitOfWork) private unitOfWork: IUnitOfWork,
+  ) {}
+
+  async sendVerification(user: UserEntity): Promise<void> {
+    if (user.emailVerifiedAt) {
+      return;
+    }
+
+    const hours = this.authConfig.tokens.emailVerificationTtlHours;
+    const token = await this.issue(user.id, UserTokenPurpose.EMAIL_VERIFICATION, hours * HOUR_MS);
+    await this.mail(user, "verify-email", {
+      link: this.link("/verify-email", token),
+      expiresIn: duration(hours, "hour"),
+    });
+  }
+
+  // Answers the same whether or not the email belongs to an unverified account
+  async requestVerification(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (user) {
+      await this.sendVerification(user);
+    }
+  }
+
+  async verifyEmail(token: string): Promise<UserEntity> {
+    const used = await this.consume(UserTokenPurpose.EMAIL_VERIFICATION, token);
+    const user = await this.userRepository.findById(used.userId);
+    if (!user) {
+      throw invalidToken();
+    }
+
+    const verified = user.verifyEmail();
+    return verified === user ? user : await this.userRepository.save(verified);
+  }
+
+  // Answers the same whether or not the email belongs to an account
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const minutes = this.authConfig.tokens.passwordResetTtlMinutes;
+    const token = await this.issue(user.id, UserTokenPurpose.PASSWORD_RESET, minutes * MINUTE_MS);
+    await this.mail(user, "reset-password", {
+      link: this.link("/reset-password", token),
+      expiresIn: duration(minutes, "minute"),
+    });
+  }
+
+  /**
+   * Sets a new password, which also lifts any lockout and gives accounts
+   * created without one their first. Every session is signed out, and since
+   * the link arrived by email the address counts as verified.
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    // Hashed up front, scrypt is too slow to hold a transaction open for
+    const passwordHash = await this.passwordHasher.hash(password);
+
+    await this.unitOfWork.run(async () => {
+      const used = await this.consume(UserTokenPurpose.PASSWORD_RESET, token);
+      const user = await this.userRepository.findById(used.userId);
+      if (!user) {
+        throw invalidToken();
+      }
+
+      const now = new Date();
+      const credential = await this.credentialRepository.findByUserId(user.id);
+      await this.credentialRepository.save(
+        credential ? credential.changePassword(passwordHash, now) : PasswordCredentialEntity.create(user.id, passwordHash),
+      );
+      await this.refreshTokenRepository.revokeAllForUser(user.id, now);
+
+      const verified = user.verifyEmail(now);
+      if (verified !== user) {
+        await this.userRepository.save(verified);
+      }
+    });
+  }
+
+  /**
+   * Starts moving the account to a new address. The current one keeps working
+   * until a link mailed to the new address confirms it, so a typo cannot lock
+   * anyone out.
+   */
+  async requestEmailChange(userId: string, newEmail: string, principal: Principal): Promise<void> {
+    AccessPolicy.assertCan(principal, "users:update", userId);
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError("User");
+    }
+    if (user.email === newEmail) {
+      throw new ValidationFailedError("This is already the account's email", [
+        { path: "email", message: "This is already the account's email" },
+      ]);
+    }
+    await this.assertEmailAvailable(newEmail);
+
+    const hours = this.authConfig.tokens.emailVerificationTtlHours;
+    const token = await this.issue(user.id, UserTokenPurpose.EMAIL_CHANGE, hours * HOUR_MS, newEmail);
+    await this.auditLogRepository.record(
+      AuditEntryEntity.record(principalLabel(principal), "user.email_change_requested", "user", user.id, { newEmail }),
+    );
+    await this.mail(
+      user,
+      "confirm-email-change",
+      { link: this.link("/confirm-email-change", token), expiresIn: duration(hours, "hour") },
+      newEmail,
+    );
+  }
+
+  // Moves the account to the address the link was sent to and tells the old address
+  async confirmEmailChange(token: string): Promise<UserEntity> {
+    const { user, changed } = await this.unitOfWork.run(async () => {
+      const used = await this.consume(UserTokenPurpose.EMAIL_CHANGE, token);
+      const user = await this.userRepository.findById(used.userId);
+      if (!user || !used.newEmail) {
+        throw invalidToken();
+      }
+      // Someone may have registered the address since the change was requested
+      await this.assertEmailAvailable(used.newEmail);
+
+      const now = new Date();
+      const changed = await this.userRepository.changeEmail(
+        user.changeEmail(used.newEmail, now),
+        AuditEntryEntity.record(`user:${user.id}`, "user.email_changed", "user", user.id, {
+          from: user.email,
+          to: used.newEmail,
+        }),
+      );
+      // Links mailed to the old address must not work on the account any more
+      await this.userTokenRepository.invalidate(user.id, UserTokenPurpose.EMAIL_VERIFICATION, now);
+      await this.userTokenRepository.invalidate(user.id, UserTokenPurpose.PASSWORD_RESET, now);
+      return { user, changed };
+    });
+
+    await this.mail(user, "email-changed", { newEmail: changed.email });
+    return changed;
+  }
+
+  private async assertEmailAvailable(email: string): Promise<void> {
+    if (await this.userRepository.findByEmail(email, { includeDeleted: true })) {
+      throw new ConflictError("User with this email already exists");
+    }
+  }
+
+  private async issue(
+    userId: string,
+    purpose: UserTokenPurpose,
+    ttlMs: number,
+    newEmail: string | null = null,
+  ): Promise<string> {
+    const token = randomBytes(32).toString("base64url");
+    await this.userTokenRepository.invalidate(userId, purpose, new Date());
+    await this.userTokenRepository.save(
+      UserTokenEntity.issue(userId, purpose, hashUserToken(token), ttlMs, newEmail),
+    );
+    return token;
+  }
+
+  private link(path: string, token: string): string {
+    return `${this.mailConfig.appUrl}${path}?token=${token}`;
+  }
+
+  private async consume(purpose: UserTokenPurpose, token: string): Promise<UserTokenEntity> {
+    const found = await this.userTokenRepository.findByHash(purpose, hashUserToken(token));
+    const now = new Date();
+    if (!found || found.isUsed || found.isExpired(now)) {
+      throw invalidToken();
+    }
+    // Only one of two concurrent requests with the same token gets to use it
+    if (!(await this.userTokenRepository.consume(found.id, now))) {
+      throw invalidToken();
+    }
+    return found;
+  }
+
+  // A message that cannot be sent is logged, not reported, so callers cannot tell accounts apart
+  private async mail(
+    user: UserEntity,
+    template: TemplateName,
+    values: Record<string, string>,
+    to: string = user.email,
+  ): Promise<void> {
+    const message = renderTemplate(template, { name: user.name, email: to, ...values });
+
+    try {
+      await this.mailer.send({ to, ...message });
+    } catch (error) {
+      console.error(`Failed to send ${template} email to user ${user.id}:`, error);
+    }
+  }
+}
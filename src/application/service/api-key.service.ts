@@ -0,0 +1,59 @@
+import { createHash, randomBytes } from "node:crypto";
+import { ApiKeyEntity } from "../../domain/entities/api-key";
+import { NotFoundError } from "../../domain/errors";
+import type { IApiKeyRepository } from "../../domain/repositories/iapi-key.repository";
+import type { Role } from "../../domain/vo/Role";
+import { inject, injectable } from "tsyringe";
+import { ApiKeyRepository } from "../../infrastructure/database/repositories/ApiKeyRepository";
+
+// Marks the string as one of ours, which also helps secret scanners spot leaked keys
+const KEY_PREFIX = "tf_";
+
+export const hashApiKey = (key: string): string =>
+  createHash("sha256").update(key).digest("hex");
+
+@injectable()
+export class ApiKeyService {
+  constructor(
+    @inject(ApiKeyRepository) private apiKeyRepository: IApiKeyRepository,
+  ) {}
+
+  async listKeys(): Promise<ApiKeyEntity[]> {
+    return await this.apiKeyRepository.findAll();
+  }
+
+  // The plaintext key is returned here and nowhere else, only its hash is stored
+  async mintKey(name: string, role: Role): Promise<{ apiKey: ApiKeyEntity; key: string }> {
+    const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const apiKey = ApiKeyEntity.create(name, role, key.slice(0, KEY_PREFIX.length + 6), hashApiKey(key));
+
+    await this.apiKeyRepository.save(apiKey);
+    return { apiKey, key };
+  }
+
+  async revokeKey(id: string): Promise<ApiKeyEntity> {
+    const apiKey = await this.apiKeyRepository.findById(id);
+    if (!apiKey) {
+      throw new NotFoundError("API key", id);
+    }
+
+    const revoked = apiKey.revoke();
+    await this.apiKeyRepository.save(revoked);
+    return revoked;
+  }
+
+  // Looks the key up by its hash, so the key itself is never compared or stored
+  async authenticate(key: string): Promise<ApiKeyEntity | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.findByHash(hashApiKey(key));
+    if (!apiKey || !apiKey.isActive) {
+      return null;
+    }
+
+    await this.apiKeyRepository.markUsed(apiKey.id, new Date());
+    return apiKey;
+  }
+}
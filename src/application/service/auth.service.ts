@@ -0,0 +1,79 @@
+import { verify } from "hono/jwt";
+import { UnauthenticatedError } from "../../domain/errors";
+import type { IRoleRepository } from "../../domain/repositories/irole.repository";
+import type { IUserRepository } from "../../domain/repositories/iuser.repository";
+import type { Principal } from "../../domain/vo/Principal";
+import type { Role } from "../../domain/vo/Role";
+import { inject, injectable } from "tsyringe";
+import { AUTH_CONFIG_TOKEN } from "../../infrastructure/auth/config";
+import type { AuthConfig } from "../../infrastructure/auth/config";
+import { RoleRepository } from "../../infrastructure/database/repositories/RoleRepository";
+import { UserRepository } from "../../infrastructure/database/repositories/UserRepository";
+import { ApiKeyService } from "./api-key.service";
+
+// Credentials as they arrived on the request
+export interface Credentials {
+  authorization?: string;
+  apiKey?: string;
+}
+
+@injectable()
+export class AuthService {
+  constructor(
+    @inject(ApiKeyService) private apiKeyService: ApiKeyService,
+    @inject(UserRepository) private userRepository: IUserRepository,
+    @inject(RoleRepository) private roleRepository: IRoleRepository,
+    @inject(AUTH_CONFIG_TOKEN) private config: AuthConfig,
+  ) {}
+
+  async authenticate(credentials: Credentials): Promise<Principal> {
+    if (credentials.apiKey) {
+      return await this.authenticateApiKey(credentials.apiKey);
+    }
+
+    const [scheme, token] = credentials.authorization?.split(" ") ?? [];
+    if (scheme?.toLowerCase() === "bearer" && token) {
+      return await this.authenticateToken(token);
+    }
+
+    throw new UnauthenticatedError();
+  }
+
+  private async authenticateApiKey(key: string): Promise<Principal> {
+    const apiKey = await this.apiKeyService.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthenticatedError("Invalid or revoked API key");
+    }
+    return await this.principal("api_key", apiKey.id, apiKey.role);
+  }
+
+  // Signature, expiry and the configured issuer and audience are all checked before the subject is trusted
+  private async authenticateToken(token: string): Promise<Principal> {
+    const jwt = this.config.jwt;
+    if (!jwt) {
+      throw new UnauthenticatedError("Bearer tokens are not accepted");
+    }
+
+    let payload: Awaited<ReturnType<typeof verify>>;
+    try {
+      payload = await verify(token, jwt.key, { alg: jwt.algorithm, iss: jwt.issuer, aud: jwt.audience });
+    } catch {
+      throw new UnauthenticatedError("Invalid or expired token");
+    }
+
+    if (typeof payload.sub !== "string" || !payload.sub) {
+      throw new UnauthenticatedError("Token has no subject");
+    }
+
+    // The role is read on every request, so role changes apply to tokens already issued
+    const user = await this.userRepository.findById(payload.sub);
+    if (!user) {
+      throw new UnauthenticatedError("Token subject is not a known user");
+    }
+    return await this.principal("user", user.id, user.role);
+  }
+
+  private async principal(type: Principal["type"], id: string, role: Role): Promise<Principal> {
+    return { type, id, role, permissions: await this.roleRepository.findPermissions(role) };
+  }
+}
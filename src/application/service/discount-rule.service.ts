@@ -0,0 +1,107 @@
+import { DiscountRuleEntity } from "../../domain/entities/discount-rule";
+import type { DiscountRuleProps } from "../../domain/entities/discount-rule";
+import { ConflictError, NotFoundError, ValidationFailedError } from "../../domain/errors";
+import type { IDiscountRuleRepository } from "../../domain/repositories/idiscount-rule.repository";
+import type { IItemRepository } from "../../domain/repositories/iitem.repository";
+import { Money } from "../../domain/vo/Money";
+import { Permission } from "../../domain/vo/Permission";
+import type { Principal } from "../../domain/vo/Principal";
+import { AccessPolicy } from "../../domain/services/access-policy.domainservice";
+import type { CreateDiscountRuleDTOType, UpdateDiscountRuleDTOType } from "../dto";
+import { inject, injectable } from "tsyringe";
+import { DiscountRuleRepository } from "../../infrastructure/database/repositories/DiscountRuleRepository";
+import { ItemRepository } from "../../infrastructure/database/repositories/ItemRepository";
+
+@injectable()
+export class DiscountRuleService {
+  constructor(
+    @inject(DiscountRuleRepository) private discountRuleRepository: IDiscountRuleRepository,
+    @inject(ItemRepository) private itemRepository: IItemRepository,
+  ) {}
+
+  async createDiscountRule(dto: CreateDiscountRuleDTOType, principal: Principal): Promise<DiscountRuleEntity> {
+    AccessPolicy.assert(principal, Permission.DISCOUNTS_MANAGE);
+    const rule = DiscountRuleEntity.create(this.toProps(dto) as DiscountRuleProps);
+
+    await this.assertReferencesValid(rule);
+    await this.discountRuleRepository.save(rule);
+    return rule;
+  }
+
+  async getDiscountRuleById(id: string, principal: Principal): Promise<DiscountRuleEntity> {
+    AccessPolicy.assert(principal, Permission.DISCOUNTS_MANAGE);
+    const rule = await this.discountRuleRepository.findById(id);
+    if (!rule) {
+      throw new NotFoundError("Discount rule");
+    }
+    return rule;
+  }
+
+  async getAllDiscountRules(principal: Principal): Promise<DiscountRuleEntity[]> {
+    AccessPolicy.assert(principal, Permission.DISCOUNTS_MANAGE);
+    return await this.discountRuleRepository.findAll();
+  }
+
+  async updateDiscountRule(
+    id: string,
+    dto: UpdateDiscountRuleDTOType,
+    principal: Principal,
+  ): Promise<DiscountRuleEntity> {
+    const rule = await this.getDiscountRuleById(id, principal);
+    const updatedRule = rule.update(this.toProps(dto, rule));
+
+    await this.assertReferencesValid(updatedRule);
+    await this.discountRuleRepository.save(updatedRule);
+    return updatedRule;
+  }
+
+  async deleteDiscountRule(id: string, principal: Principal): Promise<void> {
+    const rule = await this.getDiscountRuleById(id, principal);
+    await this.discountRuleRepository.delete(rule.id);
+  }
+
+  // Money fields share the rule's currency, a new currency re-labels amounts that are kept
+  private toProps(
+    dto: UpdateDiscountRuleDTOType,
+    current?: DiscountRuleEntity,
+  ): Partial<DiscountRuleProps> {
+    const { amount, currency, minimumTotal, validFrom, validTo, ...fields } = dto;
+    const ruleCurrency = currency !== undefined ? currency : (current?.currency ?? null);
+
+    const money = (value: string | null | undefined, existing: Money | null | undefined) => {
+      const decimal = value !== undefined ? value : (existing?.toDecimalString() ?? null);
+      if (decimal === null) {
+        return null;
+      }
+      if (!ruleCurrency) {
+        throw new ValidationFailedError("Currency is required with an amount or minimum total");
+      }
+      return Money.fromDecimal(decimal, ruleCurrency);
+    };
+
+    return {
+      ...fields,
+      ...(amount !== undefined || currency !== undefined
+        ? { amount: money(amount, current?.amount) }
+        : {}),
+      ...(minimumTotal !== undefined || currency !== undefined
+        ? { minimumTotal: money(minimumTotal, current?.minimumTotal) }
+        : {}),
+      ...(validFrom !== undefined ? { validFrom: validFrom ? new Date(validFrom) : null } : {}),
+      ...(validTo !== undefined ? { validTo: validTo ? new Date(validTo) : null } : {}),
+    };
+  }
+
+  private async assertReferencesValid(rule: DiscountRuleEntity): Promise<void> {
+    if (rule.couponCode) {
+      const existingRule = await this.discountRuleRepository.findByCouponCode(rule.couponCode);
+      if (existingRule && existingRule.id !== rule.id) {
+        throw new ConflictError("Discount rule with this coupon code already exists");
+      }
+    }
+
+    if (rule.productId && !(await this.itemRepository.findById(rule.productId))) {
+      throw new ValidationFailedError(`Product ${rule.productId} not found`);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import type { DomainEvent, DomainEventType } from "../../domain/events/domain-event";
+import { singleton } from "tsyringe";
+
+export type EventHandler = (event: DomainEvent) => Promise<void> | void;
+
+/**
+ * In-process subscribers to domain events, which the outbox dispatcher hands
+ * every stored event to. Delivery is at least once: when any handler throws,
+ * the event is retried for all of them, so handlers must cope with seeing an
+ * event again, e.g. by remembering its id.
+ */
+@singleton()
+export class EventBus {
+  private handlers = new Map<DomainEventType, EventHandler[]>();
+
+  subscribe(type: DomainEventType, handler: EventHandler): void {
+    this.handlers.set(type, [...(this.handlers.get(type) ?? []), handler]);
+  }
+
+  async publish(event: DomainEvent): Promise<void> {
+    for (const handler of this.handlers.get(event.type) ?? []) {
+      await handler(event);
+    }
+  }
+}
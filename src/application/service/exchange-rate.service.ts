@@ -0,0 +1,37 @@
+import { ExchangeRateEntity } from "../../domain/entities/exchange-rate";
+import { ValidationFailedError } from "../../domain/errors";
+import type { IExchangeRateRepository } from "../../domain/repositories/iexchange-rate.repository";
+import type { Money } from "../../domain/vo/Money";
+import { inject, injectable } from "tsyringe";
+import { ExchangeRateRepository } from "../../infrastructure/database/repositories/ExchangeRateRepository";
+
+@injectable()
+export class ExchangeRateService {
+  constructor(
+    @inject(ExchangeRateRepository) private exchangeRateRepository: IExchangeRateRepository,
+  ) {}
+
+  async getAllRates(): Promise<ExchangeRateEntity[]> {
+    return await this.exchangeRateRepository.findAll();
+  }
+
+  async importRates(rates: ExchangeRateEntity[]): Promise<number> {
+    await this.exchangeRateRepository.saveMany(rates);
+    return rates.length;
+  }
+
+  // Converts with the latest rate published on or before the date
+  async convert(amount: Money, currency: string, date: Date): Promise<Money> {
+    if (amount.currency === currency) {
+      return amount;
+    }
+
+    const rate = await this.exchangeRateRepository.findEffective(amount.currency, currency, date);
+    if (!rate) {
+      throw new ValidationFailedError(
+        `No ${amount.currency}/${currency} exchange rate on or before ${date.toISOString().slice(0, 10)}`,
+      );
+    }
+    return rate.convert(amount);
+  }
+}
@@ -0,0 +1,62 @@
+import { IdempotencyKeyEntity } from "../../domain/entities/idempotency-key";
+import { IdempotencyKeyInUseError, IdempotencyKeyReusedError } from "../../domain/errors";
+import type { IIdempotencyKeyRepository } from "../../domain/repositories/iidempotency-key.repository";
+import type { StoredResponse } from "../../domain/vo/StoredResponse";
+import { inject, injectable } from "tsyringe";
+import { IdempotencyKeyRepository } from "../../infrastructure/database/repositories/IdempotencyKeyRepository";
+import { IDEMPOTENCY_CONFIG_TOKEN } from "../../infrastructure/idempotency/config";
+import type { IdempotencyConfig } from "../../infrastructure/idempotency/config";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A first request still running after this long is taken to have died, and a retry may run it again
+const LOCK_MS = 60 * 1000;
+
+/**
+ * Lets callers retry a request under the same Idempotency-Key without it
+ * taking effect twice. The first request claims the key; once it succeeds its
+ * response is stored and every retry is answered with it instead.
+ */
+@injectable()
+export class IdempotencyService {
+  constructor(
+    @inject(IdempotencyKeyRepository) private idempotencyKeyRepository: IIdempotencyKeyRepository,
+    @inject(IDEMPOTENCY_CONFIG_TOKEN) private config: Pick<IdempotencyConfig, "ttlHours">,
+  ) {}
+
+  /**
+   * Claims the key for the request. Answers the new claim when the request
+   * should go ahead, or the completed record of an earlier run of the same
+   * request, whose response is to be replayed. Throws when the key belongs to
+   * another request or its first run has not finished.
+   */
+  async begin(principal: string, key: string, requestHash: string): Promise<IdempotencyKeyEntity> {
+    const claim = IdempotencyKeyEntity.claim(principal, key, requestHash, LOCK_MS);
+    if (await this.idempotencyKeyRepository.claim(claim)) {
+      return claim;
+    }
+
+    // Gone again only if it expired in between, which a retry sorts out
+    const held = await this.idempotencyKeyRepository.findByKey(principal, key);
+    if (held && held.requestHash !== requestHash) {
+      throw new IdempotencyKeyReusedError();
+    }
+    if (!held?.isComplete) {
+      throw new IdempotencyKeyInUseError();
+    }
+    return held;
+  }
+
+  async complete(claim: IdempotencyKeyEntity, response: StoredResponse): Promise<void> {
+    await this.idempotencyKeyRepository.complete(claim.complete(response, this.config.ttlHours * HOUR_MS));
+  }
+
+  // Failed requests are not stored, so the caller can fix the request or try again under the same key
+  async release(claim: IdempotencyKeyEntity): Promise<void> {
+    await this.idempotencyKeyRepository.release(claim.principal, claim.key);
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    return await this.idempotencyKeyRepository.deleteExpired(now);
+  }
+}
@@ -0,0 +1,91 @@
+import { ItemEntity } from "../../domain/entities/item";
+import { ConflictError, NotFoundError } from "../../domain/errors";
+import type { IItemRepository } from "../../domain/repositories/iitem.repository";
+import type { IOrderRepository } from "../../domain/repositories/iorder.repository";
+import { Money } from "../../domain/vo/Money";
+import { Permission } from "../../domain/vo/Permission";
+import type { Principal } from "../../domain/vo/Principal";
+import { AccessPolicy } from "../../domain/services/access-policy.domainservice";
+import type { CreateItemDTOType, UpdateItemDTOType } from "../dto";
+import { inject, injectable } from "tsyringe";
+import { ItemRepository } from "../../infrastructure/database/repositories/ItemRepository";
+import { OrderRepository } from "../../infrastructure/database/repositories/OrderRepository";
+
+@injectable()
+export class ItemService {
+  constructor(
+    @inject(ItemRepository) private itemRepository: IItemRepository,
+    @inject(OrderRepository) private orderRepository: Pick<IOrderRepository, "existsForItem">,
+  ) {}
+
+  async createItem(dto: CreateItemDTOType, principal: Principal): Promise<ItemEntity> {
+    AccessPolicy.assert(principal, Permission.CATALOG_MANAGE);
+    if (dto.sku) {
+      await this.assertSkuAvailable(dto.sku);
+    }
+
+    const item = ItemEntity.create(
+      dto.name,
+      Money.fromDecimal(dto.price, dto.currency),
+      dto.description,
+      dto.sku,
+      dto.taxCategory,
+      dto.category,
+    );
+    await this.itemRepository.save(item);
+    return item;
+  }
+
+  async getItemById(id: string): Promise<ItemEntity> {
+    const item = await this.itemRepository.findById(id);
+    if (!item) {
+      throw new NotFoundError("Item");
+    }
+    return item;
+  }
+
+  async getAllItems(): Promise<ItemEntity[]> {
+    return await this.itemRepository.findAll();
+  }
+
+  async updateItem(id: string, dto: UpdateItemDTOType, principal: Principal): Promise<ItemEntity> {
+    AccessPolicy.assert(principal, Permission.CATALOG_MANAGE);
+    const item = await this.getItemById(id);
+    if (dto.sku && dto.sku !== item.sku) {
+      await this.assertSkuAvailable(dto.sku);
+    }
+
+    const { price, currency, ...changes } = dto;
+    const updatedItem = item.update({
+      ...changes,
+      // A currency change alone re-labels the existing amount
+      ...(price !== undefined || currency !== undefined
+        ? {
+            price: Money.fromDecimal(
+              price ?? item.price.toDecimalString(),
+              currency ?? item.price.currency,
+            ),
+          }
+        : {}),
+    });
+    await this.itemRepository.save(updatedItem);
+    return updatedItem;
+  }
+
+  async deleteItem(id: string, principal: Principal): Promise<void> {
+    AccessPolicy.assert(principal, Permission.CATALOG_MANAGE);
+    const item = await this.getItemById(id);
+    // Order lines keep pointing at the items they were placed for
+    if (await this.orderRepository.existsForItem(item.id)) {
+      throw new ConflictError("Item has been ordered and cannot be deleted");
+    }
+    await this.itemRepository.delete(item.id);
+  }
+
+  private async assertSkuAvailable(sku: string): Promise<void> {
+    const existingItem = await this.itemRepository.findBySku(sku);
+    if (existingItem) {
+      throw new ConflictError("Item with this SKU already exists");
+    }
+  }
+}
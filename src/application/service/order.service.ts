@@ -1,73 +1,297 @@
 import { OrderEntity } from "../../domain/entities/order";
+import { ForbiddenError, NotFoundError, PreconditionFailedError, ValidationFailedError } from "../../domain/errors";
 import type { IOrderRepository } from "../../domain/repositories/iorder.repository";
 import type { IUserRepository } from "../../domain/repositories/iuser.repository";
+import type { IItemRepository } from "../../domain/repositories/iitem.repository";
+import type { ITaxRateRepository } from "../../domain/repositories/itax-rate.repository";
+import type { IDiscountRuleRepository } from "../../domain/repositories/idiscount-rule.repository";
+import type { IUnitOfWork } from "../../domain/repositories/iunit-of-work";
+import { AccessPolicy } from "../../domain/services/access-policy.domainservice";
+import { DiscountDomainService } from "../../domain/services/discount.domainservice";
 import { OrderDomainService } from "../../domain/services/order.domainservice";
-import type { CreateOrderDTOType } from "../dto";
+import { TaxDomainService } from "../../domain/services/tax.domainservice";
+import { Money } from "../../domain/vo/Money";
+import type { OrderItem } from "../../domain/vo/OrderItem";
+import type { AppliedDiscount } from "../../domain/vo/AppliedDiscount";
+import type { TaxBreakdown } from "../../domain/vo/TaxBreakdown";
+import type { OrderStatusChange } from "../../domain/vo/OrderStatusChange";
+import type { Page } from "../../domain/vo/Page";
+import { Permission } from "../../domain/vo/Permission";
+import { principalLabel } from "../../domain/vo/Principal";
+import type { Principal } from "../../domain/vo/Principal";
+import type {
+  CancelOrderDTOType,
+  CreateOrderDTOType,
+  ListOrdersQueryType,
+  ListUserOrdersQueryType,
+  RefundOrderDTOType,
+} from "../dto";
+import { inject, injectable } from "tsyringe";
+import { OrderRepository } from "../../infrastructure/database/repositories/OrderRepository";
+import { UserRepository } from "../../infrastructure/database/repositories/UserRepository";
+import { ItemRepository } from "../../infrastructure/database/repositories/ItemRepository";
+import { TaxRateRepository } from "../../infrastructure/database/repositories/TaxRateRepository";
+import { DiscountRuleRepository } from "../../infrastructure/database/repositories/DiscountRuleRepository";
+import { UnitOfWork } from "../../infrastructure/database/unit-of-work";
+import { REPORTING_CURRENCY_TOKEN } from "../../infrastructure/exchange-rates/config";
+import { ExchangeRateService } from "./exchange-rate.service";
 
+@injectable()
 export class OrderService {
   constructor(
-    private orderRepository: IOrderRepository,
-    private userRepository: IUserRepository,
+    @inject(OrderRepository) private orderRepository: IOrderRepository,
+    @inject(UserRepository) private userRepository: IUserRepository,
+    @inject(TaxRateRepository) private taxRateRepository: ITaxRateRepository,
+    @inject(ItemRepository) private itemRepository: IItemRepository,
+    @inject(DiscountRuleRepository) private discountRuleRepository: IDiscountRuleRepository,
+    @inject(ExchangeRateService) private exchangeRateService: ExchangeRateService,
+    @inject(REPORTING_CURRENCY_TOKEN) private reportingCurrency: string,
+    @inject(UnitOfWork) private unitOfWork: IUnitOfWork,
   ) {}
 
-  async createOrder(dto: CreateOrderDTOType): Promise<OrderEntity> {
-    // Verify user exists
-    const user = await this.userRepository.findById(dto.userId);
-    if (!user) {
-      throw new Error("User not found");
-    }
+  async createOrder(
+    dto: CreateOrderDTOType,
+    principal: Principal,
+  ): Promise<OrderEntity> {
+    AccessPolicy.assertCan(principal, "orders:create", dto.userId);
 
-    // Validate order items using domain service
-    if (!OrderDomainService.validateOrderItems(dto.items)) {
-      throw new Error("Invalid order items");
-    }
+    return await this.unitOfWork.run(async () => {
+      // The lock keeps the user from being deleted before the order is in
+      const user = await this.userRepository.findById(dto.userId, { lock: "share" });
+      if (!user) {
+        throw new ValidationFailedError("User not found");
+      }
 
-    const order = OrderEntity.create(dto.userId, dto.items);
-    await this.orderRepository.save(order);
-    return order;
+      // Tax and exchange rates are versioned, use the ones in effect on the order date
+      const orderDate = new Date();
+      await this.assertCouponsValid(dto.couponCodes, orderDate);
+      const items = await this.resolveItems(dto.items, dto.currency, orderDate);
+
+      // Validate order items using domain service
+      if (!OrderDomainService.validateOrderItems(items)) {
+        throw new ValidationFailedError("Invalid order items");
+      }
+
+      const rates = await this.taxRateRepository.findEffective(
+        dto.jurisdiction,
+        orderDate,
+      );
+      const tax = TaxDomainService.calculateOrderTax(
+        items,
+        dto.jurisdiction,
+        rates.map((rate) => rate.toTaxRate()),
+        dto.pricingMode,
+      );
+
+      const reportingTotal = await this.exchangeRateService.convert(
+        tax.grossTotal,
+        this.reportingCurrency,
+        orderDate,
+      );
+
+      const order = OrderEntity.create(
+        dto.userId,
+        items,
+        tax,
+        reportingTotal,
+        dto.couponCodes,
+      );
+      // Priced now and stored with the order, so later rule changes don't reprice it
+      const rules = await this.discountRuleRepository.findActive();
+      const { discounts } = DiscountDomainService.applyRules(order, rules, orderDate);
+      return await this.orderRepository.save(order.withDiscounts(discounts), {
+        actor: principalLabel(principal),
+      });
+    });
   }
 
-  async getOrderById(id: string): Promise<OrderEntity> {
-    const order = await this.orderRepository.findById(id);
-    if (!order) {
-      throw new Error("Order not found");
-    }
-    return order;
+  async getOrderById(id: string, principal: Principal): Promise<OrderEntity> {
+    return await this.findOrder(id, undefined, AccessPolicy.listScope(principal, "orders:read"));
   }
 
-  async confirmOrder(id: string): Promise<OrderEntity> {
-    const order = await this.getOrderById(id);
+  async confirmOrder(id: string, principal: Principal, expectedVersion?: number): Promise<OrderEntity> {
+    AccessPolicy.assert(principal, Permission.ORDERS_CONFIRM);
+    const order = await this.findOrder(id, expectedVersion);
     const confirmedOrder = order.confirm();
-    await this.orderRepository.save(confirmedOrder);
-    return confirmedOrder;
+    return await this.orderRepository.save(confirmedOrder, { actor: principalLabel(principal) });
   }
 
-  async shipOrder(id: string): Promise<OrderEntity> {
-    const order = await this.getOrderById(id);
+  async shipOrder(id: string, principal: Principal, expectedVersion?: number): Promise<OrderEntity> {
+    AccessPolicy.assert(principal, Permission.ORDERS_SHIP);
+    const order = await this.findOrder(id, expectedVersion);
     const shippedOrder = order.ship();
-    await this.orderRepository.save(shippedOrder);
-    return shippedOrder;
+    return await this.orderRepository.save(shippedOrder, { actor: principalLabel(principal) });
+  }
+
+  async processOrder(id: string, principal: Principal, expectedVersion?: number): Promise<OrderEntity> {
+    AccessPolicy.assert(principal, Permission.ORDERS_PROCESS);
+    const order = await this.findOrder(id, expectedVersion);
+    const processingOrder = order.startProcessing();
+    return await this.orderRepository.save(processingOrder, { actor: principalLabel(principal) });
+  }
+
+  async deliverOrder(id: string, principal: Principal, expectedVersion?: number): Promise<OrderEntity> {
+    AccessPolicy.assert(principal, Permission.ORDERS_DELIVER);
+    const order = await this.findOrder(id, expectedVersion);
+    const deliveredOrder = order.deliver();
+    return await this.orderRepository.save(deliveredOrder, { actor: principalLabel(principal) });
+  }
+
+  async completeOrder(id: string, principal: Principal, expectedVersion?: number): Promise<OrderEntity> {
+    AccessPolicy.assert(principal, Permission.ORDERS_COMPLETE);
+    const order = await this.findOrder(id, expectedVersion);
+    const completedOrder = order.complete();
+    return await this.orderRepository.save(completedOrder, { actor: principalLabel(principal) });
+  }
+
+  async cancelOrder(
+    id: string,
+    dto: CancelOrderDTOType,
+    principal: Principal,
+    expectedVersion?: number,
+  ): Promise<OrderEntity> {
+    const order = await this.findOrder(id, expectedVersion, AccessPolicy.listScope(principal, "orders:cancel"));
+    const cancelledOrder = order.cancel(dto.reason);
+    return await this.orderRepository.save(cancelledOrder, {
+      actor: principalLabel(principal),
+      reason: dto.reason,
+    });
+  }
+
+  async refundOrder(
+    id: string,
+    dto: RefundOrderDTOType,
+    principal: Principal,
+    expectedVersion?: number,
+  ): Promise<OrderEntity> {
+    AccessPolicy.assert(principal, Permission.ORDERS_REFUND);
+    const order = await this.findOrder(id, expectedVersion);
+    const amount = Money.fromDecimal(dto.amount, order.total.currency);
+    const refundedOrder = order.refund(amount);
+    return await this.orderRepository.save(refundedOrder, {
+      actor: principalLabel(principal),
+      reason: `Refunded ${amount}`,
+    });
   }
 
-  async getUserOrders(userId: string): Promise<OrderEntity[]> {
-    return await this.orderRepository.findByUserId(userId);
+  async getOrderHistory(id: string, principal: Principal): Promise<OrderStatusChange[]> {
+    const order = await this.getOrderById(id, principal);
+    return await this.orderRepository.findStatusHistory(order.id);
   }
 
-  async getAllOrders(): Promise<OrderEntity[]> {
-    return await this.orderRepository.findAll();
+  async getUserOrders(
+    userId: string,
+    query: ListUserOrdersQueryType,
+    principal: Principal,
+  ): Promise<Page<OrderEntity>> {
+    AccessPolicy.assertCan(principal, "orders:read", userId);
+    const { status, createdFrom, createdTo, ...page } = query;
+    return await this.orderRepository.findPage({ status, userId, createdFrom, createdTo }, page);
+  }
+
+  // Customers only ever see their own orders, whatever userId they ask for
+  async listOrders(query: ListOrdersQueryType, principal: Principal): Promise<Page<OrderEntity>> {
+    const { status, userId, createdFrom, createdTo, ...page } = query;
+    const ownerId = AccessPolicy.listScope(principal, "orders:read");
+    if (ownerId && userId && userId !== ownerId) {
+      throw new ForbiddenError("orders:read:any", "You can only list your own orders");
+    }
+    return await this.orderRepository.findPage(
+      { status, userId: ownerId ?? userId, createdFrom, createdTo },
+      page,
+    );
   }
 
   async getOrderWithDiscount(
     id: string,
-  ): Promise<{ order: OrderEntity; discount: number; finalTotal: number }> {
-    const order = await this.getOrderById(id);
-    const discount = OrderDomainService.calculateDiscount(order);
-    const finalTotal = OrderDomainService.calculateTotalWithDiscount(order);
+    principal: Principal,
+  ): Promise<{
+    order: OrderEntity;
+    tax: TaxBreakdown;
+    discounts: AppliedDiscount[];
+    totalDiscount: Money;
+    finalTotal: Money;
+    reporting: { total: Money; finalTotal: Money };
+  }> {
+    const order = await this.getOrderById(id, principal);
+    // The discounts the order was placed with, whatever the rules say today
+    const { discounts, totalDiscount, finalTotal } = order;
+
+    // Converted like the order total was: into its reporting currency at the order date
+    const reportingFinalTotal = await this.exchangeRateService.convert(
+      finalTotal,
+      order.reportingTotal.currency,
+      order.createdAt,
+    );
 
     return {
       order,
-      discount,
+      tax: order.tax,
+      discounts,
+      totalDiscount,
       finalTotal,
+      reporting: {
+        total: order.reportingTotal,
+        finalTotal: reportingFinalTotal,
+      },
     };
   }
+
+  /**
+   * An expected version comes from If-Match, and must be the one stored. With
+   * an owner id, someone else's order answers like a missing one, so order ids
+   * cannot be probed; that is checked before the version, which would tell too.
+   */
+  private async findOrder(id: string, expectedVersion?: number, ownerId?: string): Promise<OrderEntity> {
+    const order = await this.orderRepository.findById(id);
+    if (!order || (ownerId !== undefined && order.userId !== ownerId)) {
+      throw new NotFoundError("Order");
+    }
+    if (expectedVersion !== undefined && expectedVersion !== order.version) {
+      throw new PreconditionFailedError("Order", order.version);
+    }
+    return order;
+  }
+
+  private async assertCouponsValid(codes: string[], orderDate: Date): Promise<void> {
+    for (const code of codes) {
+      const rule = await this.discountRuleRepository.findByCouponCode(code);
+      if (!rule || !rule.isValidAt(orderDate)) {
+        throw new ValidationFailedError(`Coupon ${code} is not valid`);
+      }
+    }
+  }
+
+  // Prices the requested lines from the catalog so clients cannot set their own prices
+  private async resolveItems(
+    lines: CreateOrderDTOType["items"],
+    currency: string | undefined,
+    orderDate: Date,
+  ): Promise<OrderItem[]> {
+    const catalog = await this.itemRepository.findByIds(
+      [...new Set(lines.map((line) => line.productId))],
+    );
+    const itemsById = new Map(catalog.map((item) => [item.id, item]));
+
+    const products = lines.map((line) => {
+      const item = itemsById.get(line.productId);
+      if (!item) {
+        throw new ValidationFailedError(`Product ${line.productId} not found`);
+      }
+      return { item, quantity: line.quantity };
+    });
+
+    // Catalog prices in another currency are converted at the order date's rate
+    const orderCurrency = currency ?? products[0].item.price.currency;
+    return await Promise.all(
+      products.map(async ({ item, quantity }) => ({
+        productId: item.id,
+        productName: item.name,
+        quantity,
+        price: await this.exchangeRateService.convert(item.price, orderCurrency, orderDate),
+        taxCategory: item.taxCategory,
+        category: item.category,
+      })),
+    );
+  }
 }
@@ -0,0 +1,53 @@
+import type { IOutboxRepository } from "../../domain/repositories/ioutbox.repository";
+import { inject, injectable } from "tsyringe";
+import { OutboxRepository } from "../../infrastructure/database/repositories/OutboxRepository";
+import { OUTBOX_CONFIG_TOKEN } from "../../infrastructure/outbox/config";
+import type { OutboxConfig } from "../../infrastructure/outbox/config";
+import { EventBus } from "./event-bus";
+
+// Long enough for a batch to go through the subscribers; a dispatcher that dies frees its events after this
+const LEASE_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Doubles from a second after each failed attempt, up to an hour
+export const retryDelayMs = (attempts: number): number => Math.min(1000 * 2 ** attempts, MAX_RETRY_DELAY_MS);
+
+export interface DispatchResult {
+  dispatched: number;
+  failed: number;
+}
+
+/**
+ * Delivers the events waiting in the outbox to the in-process subscribers,
+ * oldest first. An event is only marked dispatched once every subscriber took
+ * it, so a crash in between delivers it again; failures are retried with
+ * backoff until they succeed.
+ */
+@injectable()
+export class OutboxDispatcher {
+  constructor(
+    @inject(OutboxRepository) private outboxRepository: IOutboxRepository,
+    @inject(EventBus) private eventBus: EventBus,
+    @inject(OUTBOX_CONFIG_TOKEN) private config: Pick<OutboxConfig, "batchSize">,
+  ) {}
+
+  async dispatchPending(now: Date = new Date()): Promise<DispatchResult> {
+    const result: DispatchResult = { dispatched: 0, failed: 0 };
+
+    for (const { event, attempts } of await this.outboxRepository.claimPending(this.config.batchSize, now, LEASE_MS)) {
+      try {
+        await this.eventBus.publish(event);
+      } catch (error) {
+        console.error(`Failed to dispatch ${event.type} event ${event.id}:`, error);
+        const retryAt = new Date(Date.now() + retryDelayMs(attempts));
+        await this.outboxRepository.markFailed(event.id, error instanceof Error ? error.message : String(error), retryAt);
+        result.failed++;
+        continue;
+      }
+      await this.outboxRepository.markDispatched(event.id, new Date());
+      result.dispatched++;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,188 @@
+import { createHash, randomBytes } from "node:crypto";
+import { sign } from "hono/jwt";
+import { PasswordCredentialEntity } from "../../domain/entities/password-credential";
+import { RefreshTokenEntity } from "../../domain/entities/refresh-token";
+import { UserEntity } from "../../domain/entities/user";
+import { AccountLockedError, ConflictError, UnauthenticatedError } from "../../domain/errors";
+import type { IPasswordCredentialRepository } from "../../domain/repositories/ipassword-credential.repository";
+import type { IRefreshTokenRepository } from "../../domain/repositories/irefresh-token.repository";
+import type { IUserRepository } from "../../domain/repositories/iuser.repository";
+import type { LoginDTOType, RegisterDTOType } from "../dto";
+import { nanoid } from "nanoid";
+import { inject, injectable } from "tsyringe";
+import { AUTH_CONFIG_TOKEN } from "../../infrastructure/auth/config";
+import type { AuthConfig } from "../../infrastructure/auth/config";
+import { PasswordHasher } from "../../infrastructure/auth/password";
+import { PasswordCredentialRepository } from "../../infrastructure/database/repositories/PasswordCredentialRepository";
+import { RefreshTokenRepository } from "../../infrastructure/database/repositories/RefreshTokenRepository";
+import { UserRepository } from "../../infrastructure/database/repositories/UserRepository";
+import { AccountService } from "./account.service";
+
+// What a client holds for a login: a short-lived JWT and the refresh token that renews it
+export interface Session {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: "Bearer";
+  expiresIn: number; // Seconds until the access token expires
+}
+
+const REFRESH_TOKEN_PREFIX = "rt_";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The same answer for unknown emails and wrong passwords, so logins cannot probe for accounts
+const INVALID_LOGIN = "Invalid email or password";
+
+const hashRefreshToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+@injectable()
+export class SessionService {
+  // Checked against for unknown emails, so they take as long to refuse as wrong passwords
+  private dummyHash?: Promise<string>;
+
+  constructor(
+    @inject(UserRepository) private userRepository: IUserRepository,
+    @inject(PasswordCredentialRepository) private credentialRepository: IPasswordCredentialRepository,
+    @inject(RefreshTokenRepository) private refreshTokenRepository: IRefreshTokenRepository,
+    @inject(PasswordHasher) private passwordHasher: Pick<PasswordHasher, "hash" | "verify">,
+    @inject(AUTH_CONFIG_TOKEN) private config: AuthConfig,
+    @inject(AccountService) private accountService: Pick<AccountService, "sendVerification">,
+  ) {}
+
+  async register(dto: RegisterDTOType): Promise<{ user: UserEntity; session: Session }> {
+    // Checked up front so a misconfigured server does not create accounts it cannot sign in
+    this.signingKey();
+    const existingUser = await this.userRepository.findByEmail(dto.email, { includeDeleted: true });
+    if (existingUser) {
+      throw new ConflictError("User with this email already exists");
+    }
+
+    const user = UserEntity.create(dto.email, dto.name, nanoid());
+    const credential = PasswordCredentialEntity.create(user.id, await this.passwordHasher.hash(dto.password));
+    await this.credentialRepository.saveWithUser(user, credential);
+    await this.accountService.sendVerification(user);
+
+    return { user, session: await this.startSession(user.id, null) };
+  }
+
+  async login(dto: LoginDTOType): Promise<Session> {
+    const user = await this.userRepository.findByEmail(dto.email);
+    const credential = user ? await this.credentialRepository.findByUserId(user.id) : null;
+    if (!user || !credential) {
+      this.dummyHash ??= this.passwordHasher.hash(randomBytes(16).toString("hex"));
+      await this.passwordHasher.verify(dto.password, await this.dummyHash);
+      throw new UnauthenticatedError(INVALID_LOGIN);
+    }
+
+    // A locked account is refused before the password is checked, so guessing cannot go on
+    if (credential.isLocked()) {
+      throw new AccountLockedError(credential.lockedUntil!);
+    }
+
+    // The credential may have changed while scrypt ran, so the count is kept in the database, not from this read
+    if (!(await this.passwordHasher.verify(dto.password, credential.passwordHash))) {
+      const { maxFailedLogins, lockoutMinutes } = this.config.sessions;
+      const failed = await this.credentialRepository.recordFailure(
+        user.id,
+        maxFailedLogins,
+        lockoutMinutes * 60 * 1000,
+        new Date(),
+      );
+      if (failed?.isLocked()) {
+        throw new AccountLockedError(failed.lockedUntil!);
+      }
+      throw new UnauthenticatedError(INVALID_LOGIN);
+    }
+
+    if (credential.failedAttempts > 0) {
+      await this.credentialRepository.clearFailures(user.id, new Date());
+    }
+    return await this.startSession(user.id, null);
+  }
+
+  /**
+   * Swaps a refresh token for a new pair. Each token works once: presenting a
+   * token that was already swapped means it was copied, so the whole session
+   * is revoked and both holders have to sign in again.
+   */
+  async refresh(refreshToken: string): Promise<Session> {
+    const current = await this.refreshTokenRepository.findByHash(hashRefreshToken(refreshToken));
+    if (!current) {
+      throw new UnauthenticatedError("Invalid refresh token");
+    }
+
+    const now = new Date();
+    if (current.isRevoked) {
+      await this.refreshTokenRepository.revokeFamily(current.familyId, now);
+      throw new UnauthenticatedError("Refresh token was already used, sign in again");
+    }
+    if (current.isExpired(now)) {
+      throw new UnauthenticatedError("Refresh token has expired");
+    }
+
+    const { token, session } = await this.issueTokens(current.userId, current.familyId);
+    // Only one of two concurrent refreshes with the same token can win the swap
+    if (!(await this.refreshTokenRepository.revoke(current.id, token.id, now))) {
+      await this.refreshTokenRepository.revokeFamily(current.familyId, now);
+      throw new UnauthenticatedError("Refresh token was already used, sign in again");
+    }
+    await this.refreshTokenRepository.save(token);
+    return session;
+  }
+
+  // Ends the session the token belongs to; unknown tokens are ignored so logging out twice is harmless
+  async logout(refreshToken: string): Promise<void> {
+    const current = await this.refreshTokenRepository.findByHash(hashRefreshToken(refreshToken));
+    if (current) {
+      await this.refreshTokenRepository.revokeFamily(current.familyId, new Date());
+    }
+  }
+
+  private signingKey(): string {
+    const signingKey = this.config.jwt?.signingKey;
+    if (!signingKey) {
+      throw new Error("Logins need a JWT signing key, set AUTH_JWT_SECRET or AUTH_JWT_PRIVATE_KEY");
+    }
+    return signingKey;
+  }
+
+  private async startSession(userId: string, familyId: string | null): Promise<Session> {
+    const { token, session } = await this.issueTokens(userId, familyId);
+    await this.refreshTokenRepository.save(token);
+    return session;
+  }
+
+  private async issueTokens(
+    userId: string,
+    familyId: string | null,
+  ): Promise<{ token: RefreshTokenEntity; session: Session }> {
+    const signingKey = this.signingKey();
+    const jwt = this.config.jwt!;
+    const { accessTokenTtlSeconds, refreshTokenTtlDays } = this.config.sessions;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const accessToken = await sign(
+      {
+        sub: userId,
+        iat: issuedAt,
+        exp: issuedAt + accessTokenTtlSeconds,
+        ...(jwt.issuer ? { iss: jwt.issuer } : {}),
+        ...(jwt.audience ? { aud: jwt.audience } : {}),
+      },
+      signingKey,
+      jwt.algorithm,
+    );
+
+    const refreshToken = `${REFRESH_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const token = RefreshTokenEntity.issue(
+      userId,
+      familyId,
+      hashRefreshToken(refreshToken),
+      refreshTokenTtlDays * DAY_MS,
+    );
+
+    return {
+      token,
+      session: { accessToken, refreshToken, tokenType: "Bearer", expiresIn: accessTokenTtlSeconds },
+    };
+  }
+}
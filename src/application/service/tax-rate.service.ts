@@ -0,0 +1,81 @@
+import { TaxRateEntity } from "../../domain/entities/tax-rate";
+import { ConflictError, NotFoundError } from "../../domain/errors";
+import type { ITaxRateRepository } from "../../domain/repositories/itax-rate.repository";
+import { Permission } from "../../domain/vo/Permission";
+import type { Principal } from "../../domain/vo/Principal";
+import { AccessPolicy } from "../../domain/services/access-policy.domainservice";
+import type { CreateTaxRateDTOType, UpdateTaxRateDTOType } from "../dto";
+import { inject, injectable } from "tsyringe";
+import { TaxRateRepository } from "../../infrastructure/database/repositories/TaxRateRepository";
+
+@injectable()
+export class TaxRateService {
+  constructor(
+    @inject(TaxRateRepository) private taxRateRepository: ITaxRateRepository,
+  ) {}
+
+  async createTaxRate(dto: CreateTaxRateDTOType, principal: Principal): Promise<TaxRateEntity> {
+    AccessPolicy.assert(principal, Permission.TAX_RATES_MANAGE);
+    const taxRate = TaxRateEntity.create(
+      dto.jurisdiction,
+      dto.category,
+      dto.rate,
+      dto.effectiveFrom,
+      dto.effectiveTo,
+    );
+
+    await this.assertNoOverlap(taxRate);
+    await this.taxRateRepository.save(taxRate);
+    return taxRate;
+  }
+
+  async getTaxRateById(id: string): Promise<TaxRateEntity> {
+    const taxRate = await this.taxRateRepository.findById(id);
+    if (!taxRate) {
+      throw new NotFoundError("Tax rate");
+    }
+    return taxRate;
+  }
+
+  async getAllTaxRates(): Promise<TaxRateEntity[]> {
+    return await this.taxRateRepository.findAll();
+  }
+
+  async updateTaxRate(
+    id: string,
+    dto: UpdateTaxRateDTOType,
+    principal: Principal,
+  ): Promise<TaxRateEntity> {
+    AccessPolicy.assert(principal, Permission.TAX_RATES_MANAGE);
+    const taxRate = await this.getTaxRateById(id);
+    const updatedTaxRate = taxRate.update(
+      dto.rate,
+      dto.effectiveFrom,
+      dto.effectiveTo,
+    );
+
+    await this.assertNoOverlap(updatedTaxRate);
+    await this.taxRateRepository.save(updatedTaxRate);
+    return updatedTaxRate;
+  }
+
+  async deleteTaxRate(id: string, principal: Principal): Promise<void> {
+    AccessPolicy.assert(principal, Permission.TAX_RATES_MANAGE);
+    const taxRate = await this.getTaxRateById(id);
+    await this.taxRateRepository.delete(taxRate.id);
+  }
+
+  private async assertNoOverlap(taxRate: TaxRateEntity): Promise<void> {
+    const versions = await this.taxRateRepository.findByKey(
+      taxRate.jurisdiction,
+      taxRate.category,
+    );
+
+    const conflict = versions.find((version) => taxRate.overlaps(version));
+    if (conflict) {
+      throw new ConflictError(
+        `Tax rate overlaps existing rate ${conflict.id} effective from ${conflict.effectiveFrom}`,
+      );
+    }
+  }
+}
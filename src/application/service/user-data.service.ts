@@ -0,0 +1,108 @@
+import { AuditEntryEntity } from "../../domain/entities/audit-entry";
+import type { OrderEntity } from "../../domain/entities/order";
+import type { UserEntity } from "../../domain/entities/user";
+import { NotFoundError } from "../../domain/errors";
+import type { IAuditLogRepository } from "../../domain/repositories/iaudit-log.repository";
+import type { IOrderRepository } from "../../domain/repositories/iorder.repository";
+import type { IUserRepository } from "../../domain/repositories/iuser.repository";
+import type { OrderStatusChange } from "../../domain/vo/OrderStatusChange";
+import { Permission } from "../../domain/vo/Permission";
+import type { Principal } from "../../domain/vo/Principal";
+import { principalLabel } from "../../domain/vo/Principal";
+import { AccessPolicy } from "../../domain/services/access-policy.domainservice";
+import { inject, injectable } from "tsyringe";
+import { AuditLogRepository } from "../../infrastructure/database/repositories/AuditLogRepository";
+import { OrderRepository } from "../../infrastructure/database/repositories/OrderRepository";
+import { UserRepository } from "../../infrastructure/database/repositories/UserRepository";
+import { createZip } from "../../infrastructure/export/zip";
+
+// Everything held about a user, as handed out for a subject access request
+export interface UserDataExport {
+  exportedAt: Date;
+  profile: UserEntity;
+  orders: OrderEntity[];
+  orderStatusHistory: (OrderStatusChange & { orderId: string })[];
+  auditLog: AuditEntryEntity[];
+}
+
+// The file in the archive holding each section of the export
+const ARCHIVE_FILES = {
+  profile: "profile.json",
+  orders: "orders.json",
+  orderStatusHistory: "order-status-history.json",
+  auditLog: "audit-log.json",
+} as const;
+
+export function userDataArchive(data: UserDataExport): Buffer {
+  const readme = `Data held about user ${data.profile.id}, exported ${data.exportedAt.toISOString()}.\n`;
+  return createZip(
+    [
+      { name: "README.txt", content: readme },
+      ...Object.entries(ARCHIVE_FILES).map(([section, name]) => ({
+        name,
+        content: JSON.stringify(data[section as keyof typeof ARCHIVE_FILES], null, 2),
+      })),
+    ],
+    data.exportedAt,
+  );
+}
+
+/**
+ * Answers data subject requests: exports everything held about a user, and
+ * erases their personal data while keeping the orders and their tax records,
+ * which have to be retained, pointing at a pseudonymous account.
+ */
+@injectable()
+export class UserDataService {
+  constructor(
+    @inject(UserRepository) private userRepository: IUserRepository,
+    @inject(OrderRepository) private orderRepository: IOrderRepository,
+    @inject(AuditLogRepository) private auditLogRepository: IAuditLogRepository,
+  ) {}
+
+  async exportUser(id: string, principal: Principal): Promise<UserDataExport> {
+    AccessPolicy.assertCan(principal, "users:export", id);
+    const user = await this.findUser(id);
+
+    const orders = await this.orderRepository.findByUserId(user.id);
+    const orderStatusHistory = [];
+    for (const order of orders) {
+      const changes = await this.orderRepository.findStatusHistory(order.id);
+      orderStatusHistory.push(...changes.map((change) => ({ orderId: order.id, ...change })));
+    }
+
+    return {
+      exportedAt: new Date(),
+      profile: user,
+      orders,
+      orderStatusHistory,
+      auditLog: await this.auditLogRepository.findByEntity("user", user.id),
+    };
+  }
+
+  /**
+   * Replaces the name and email with placeholders and deletes the account, if
+   * it was not already. The account cannot sign in again, and the purge
+   * removes it like any deleted user once no orders need it.
+   */
+  async eraseUser(id: string, principal: Principal): Promise<UserEntity> {
+    AccessPolicy.assert(principal, Permission.USERS_ERASE);
+    const user = await this.findUser(id);
+
+    const erased = user.anonymize();
+    await this.userRepository.erase(
+      erased,
+      AuditEntryEntity.record(principalLabel(principal), "user.erased", "user", user.id),
+    );
+    return erased;
+  }
+
+  // Deleted users still have data to export or erase
+  private async findUser(id: string): Promise<UserEntity> {
+    const user = await this.userRepository.findById(id, { includeDeleted: true });
+    if (!user) {
+      throw new NotFoundError("User");
+    }
+    return user;
+  }
+}
@@ -0,0 +1,77 @@
+import { AuditEntryEntity } from "../../domain/entities/audit-entry";
+import type { IAuditLogRepository } from "../../domain/repositories/iaudit-log.repository";
+import type { IOrderRepository } from "../../domain/repositories/iorder.repository";
+import type { IUnitOfWork } from "../../domain/repositories/iunit-of-work";
+import type { IUserRepository } from "../../domain/repositories/iuser.repository";
+import { DeletedUserOrderPolicy } from "../../domain/vo/DeletedUserOrderPolicy";
+import { inject, injectable } from "tsyringe";
+import { AuditLogRepository } from "../../infrastructure/database/repositories/AuditLogRepository";
+import { OrderRepository } from "../../infrastructure/database/repositories/OrderRepository";
+import { UserRepository } from "../../infrastructure/database/repositories/UserRepository";
+import { UnitOfWork } from "../../infrastructure/database/unit-of-work";
+import { USER_LIFECYCLE_CONFIG_TOKEN } from "../../infrastructure/users/config";
+import type { UserLifecycleConfig } from "../../infrastructure/users/config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeResult {
+  removed: number;
+  anonymized: number;
+  kept: number;
+}
+
+/**
+ * Finishes off users deleted longer ago than the restore window. Those without
+ * orders are removed for good; those with orders are anonymized or kept as
+ * they are, depending on the order policy, since the orders still point at them.
+ */
+@injectable()
+export class UserPurgeService {
+  constructor(
+    @inject(UserRepository) private userRepository: IUserRepository,
+    @inject(OrderRepository) private orderRepository: Pick<IOrderRepository, "existsForUser">,
+    @inject(AuditLogRepository) private auditLogRepository: IAuditLogRepository,
+    @inject(USER_LIFECYCLE_CONFIG_TOKEN) private lifecycle: Pick<UserLifecycleConfig, "orderPolicy" | "purgeAfterDays">,
+    @inject(UnitOfWork) private unitOfWork: IUnitOfWork,
+  ) {}
+
+  async purge(now: Date = new Date()): Promise<PurgeResult> {
+    const cutoff = new Date(now.getTime() - this.lifecycle.purgeAfterDays * DAY_MS);
+    const result: PurgeResult = { removed: 0, anonymized: 0, kept: 0 };
+
+    for (const { id } of await this.userRepository.findDeletedBefore(cutoff)) {
+      const outcome = await this.unitOfWork.run(() => this.purgeUser(id, now));
+      if (outcome) {
+        result[outcome]++;
+      }
+    }
+
+    return result;
+  }
+
+  // Null when the user was restored since the listing
+  private async purgeUser(id: string, now: Date): Promise<keyof PurgeResult | null> {
+    const user = await this.userRepository.findById(id, { includeDeleted: true, lock: "update" });
+    if (!user?.isDeleted) {
+      return null;
+    }
+
+    if (!(await this.orderRepository.existsForUser(user.id))) {
+      await this.userRepository.delete(user.id);
+      await this.auditLogRepository.record(AuditEntryEntity.record("system", "user.purged", "user", user.id));
+      return "removed";
+    }
+
+    // Anonymized users stay deleted, so later runs find them again and leave them be
+    const anonymized = user.anonymize(now);
+    if (this.lifecycle.orderPolicy !== DeletedUserOrderPolicy.ANONYMIZE || anonymized.email === user.email) {
+      return "kept";
+    }
+    // Erased like on request, so the password, tokens and old addresses in the audit log go too
+    await this.userRepository.erase(
+      anonymized,
+      AuditEntryEntity.record("system", "user.anonymized", "user", user.id),
+    );
+    return "anonymized";
+  }
+}
@@ -1,57 +1,141 @@
 import { use } from "hono/jsx";
+import { AuditEntryEntity } from "../../domain/entities/audit-entry";
 import { UserEntity } from "../../domain/entities/user";
-import type { IUserRepository } from "../../domain/repositories/iuser.repository";
-import type { CreateUserDTOType, UpdateUserDTOType } from "../dto";
+import { ConflictError, NotFoundError, PreconditionFailedError } from "../../domain/errors";
+import type { IAuditLogRepository } from "../../domain/repositories/iaudit-log.repository";
+import type { IOrderRepository } from "../../domain/repositories/iorder.repository";
+import type { IRefreshTokenRepository } from "../../domain/repositories/irefresh-token.repository";
+import type { IUnitOfWork } from "../../domain/repositories/iunit-of-work";
+import type { IUserRepository, UserLookupOptions } from "../../domain/repositories/iuser.repository";
+import { DeletedUserOrderPolicy } from "../../domain/vo/DeletedUserOrderPolicy";
+import type { Page } from "../../domain/vo/Page";
+import { Permission } from "../../domain/vo/Permission";
+import type { Principal } from "../../domain/vo/Principal";
+import { principalLabel } from "../../domain/vo/Principal";
+import { AccessPolicy } from "../../domain/services/access-policy.domainservice";
+import type { CreateUserDTOType, ListUsersQueryType, UpdateUserDTOType } from "../dto";
 import { nanoid } from "nanoid";
 import { inject, injectable } from "tsyringe";
-import { UserRepository } from "infrastructure/database/repositories/UserRepository";
+import { AuditLogRepository } from "../../infrastructure/database/repositories/AuditLogRepository";
+import { OrderRepository } from "../../infrastructure/database/repositories/OrderRepository";
+import { RefreshTokenRepository } from "../../infrastructure/database/repositories/RefreshTokenRepository";
+import { UserRepository } from "../../infrastructure/database/repositories/UserRepository";
+import { UnitOfWork } from "../../infrastructure/database/unit-of-work";
+import { USER_LIFECYCLE_CONFIG_TOKEN } from "../../infrastructure/users/config";
+import type { UserLifecycleConfig } from "../../infrastructure/users/config";
 
 @injectable()
 export class UserService {
 
-  constructor(@inject(UserRepository) private userRepository: UserRepository) {}
+  constructor(
+    @inject(UserRepository) private userRepository: IUserRepository,
+    @inject(OrderRepository) private orderRepository: Pick<IOrderRepository, "existsForUser">,
+    @inject(RefreshTokenRepository) private refreshTokenRepository: IRefreshTokenRepository,
+    @inject(AuditLogRepository) private auditLogRepository: IAuditLogRepository,
+    @inject(USER_LIFECYCLE_CONFIG_TOKEN) private lifecycle: Pick<UserLifecycleConfig, "orderPolicy">,
+    @inject(UnitOfWork) private unitOfWork: IUnitOfWork,
+  ) {}
 
-  async createUser(dto: CreateUserDTOType): Promise<UserEntity> {
-    const existingUser = await this.userRepository.findByEmail(dto.email);
+  async createUser(dto: CreateUserDTOType, principal: Principal): Promise<UserEntity> {
+    AccessPolicy.assert(principal, Permission.USERS_CREATE);
+
+    const existingUser = await this.userRepository.findByEmail(dto.email, { includeDeleted: true });
     if (existingUser) {
-      throw new Error("User with this email already exists");
+      throw new ConflictError("User with this email already exists");
     }
 
-    const userId = nanoid();
-    const userData = UserEntity.create(dto.email, dto.name, userId);
-    // Generate a new ID for the user
-    const user = new UserEntity(
-      userId,
-      userData.email,
-      userData.name,
-      userData.createdAt,
-      userData.updatedAt
-    );
-    await this.userRepository.save(user);
-    return user;
+    return await this.userRepository.save(UserEntity.create(dto.email, dto.name, nanoid()));
   }
 
-  async getUserById(id: string): Promise<UserEntity> {
-    const user = await this.userRepository.findById(id);
-    if (!user) {
-      throw new Error("User not found");
+  async getUserById(id: string, principal: Principal): Promise<UserEntity> {
+    AccessPolicy.assertCan(principal, "users:read", id);
+    return await this.findUser(id);
+  }
+
+  async updateUser(
+    id: string,
+    dto: UpdateUserDTOType,
+    principal: Principal,
+    expectedVersion?: number,
+  ): Promise<UserEntity> {
+    AccessPolicy.assertCan(principal, "users:update", id);
+    if (dto.role !== undefined) {
+      AccessPolicy.assert(principal, Permission.USERS_ASSIGN_ROLE);
     }
-    return user;
+
+    let updatedUser = await this.findUser(id, {}, expectedVersion);
+    if (dto.name !== undefined) {
+      updatedUser = updatedUser.updateName(dto.name);
+    }
+    if (dto.role !== undefined) {
+      updatedUser = updatedUser.assignRole(dto.role);
+    }
+    return await this.userRepository.save(updatedUser);
+  }
+
+  /**
+   * Soft-deletes the user and signs them out. They can be restored until the
+   * purge removes them; what happens to their orders then is up to the
+   * configured policy, and under `block` users with orders stay.
+   */
+  async deleteUser(id: string, principal: Principal, expectedVersion?: number): Promise<void> {
+    AccessPolicy.assert(principal, Permission.USERS_DELETE);
+
+    await this.unitOfWork.run(async () => {
+      // Orders placed meanwhile wait for the lock, so none slips past the policy
+      const user = await this.findUser(id, { lock: "update" }, expectedVersion);
+      if (
+        this.lifecycle.orderPolicy === DeletedUserOrderPolicy.BLOCK &&
+        (await this.orderRepository.existsForUser(user.id))
+      ) {
+        throw new ConflictError("User has orders and cannot be deleted");
+      }
+
+      const now = new Date();
+      await this.userRepository.save(user.softDelete(now));
+      await this.refreshTokenRepository.revokeAllForUser(user.id, now);
+      await this.auditLogRepository.record(
+        AuditEntryEntity.record(principalLabel(principal), "user.deleted", "user", user.id),
+      );
+    });
   }
 
-  async updateUser(id: string, dto: UpdateUserDTOType): Promise<UserEntity> {
-    const user = await this.getUserById(id);
-    const updatedUser = user.updateName(dto.name);
-    await this.userRepository.save(updatedUser);
-    return updatedUser;
+  async restoreUser(id: string, principal: Principal, expectedVersion?: number): Promise<UserEntity> {
+    AccessPolicy.assert(principal, Permission.USERS_DELETE);
+
+    return await this.unitOfWork.run(async () => {
+      const user = await this.findUser(id, { includeDeleted: true, lock: "update" }, expectedVersion);
+      if (!user.isDeleted) {
+        throw new ConflictError("User is not deleted");
+      }
+
+      const restored = await this.userRepository.save(user.restore());
+      await this.auditLogRepository.record(
+        AuditEntryEntity.record(principalLabel(principal), "user.restored", "user", user.id),
+      );
+      return restored;
+    });
   }
 
-  async deleteUser(id: string): Promise<void> {
-    const user = await this.getUserById(id);
-    await this.userRepository.delete(user.id);
+  async listUsers(query: ListUsersQueryType, principal: Principal): Promise<Page<UserEntity>> {
+    AccessPolicy.assert(principal, Permission.USERS_READ_ANY);
+    // Deleted users are only of interest to whoever may restore them
+    if (query.deleted) {
+      AccessPolicy.assert(principal, Permission.USERS_DELETE);
+    }
+    const { emailPrefix, deleted, ...page } = query;
+    return await this.userRepository.findPage({ emailPrefix, deleted }, page);
   }
 
-  async getAllUsers(): Promise<UserEntity[]> {
-    return await this.userRepository.findAll();
+  // An expected version comes from If-Match, and must be the one stored
+  private async findUser(id: string, options?: UserLookupOptions, expectedVersion?: number): Promise<UserEntity> {
+    const user = await this.userRepository.findById(id, options);
+    if (!user) {
+      throw new NotFoundError("User");
+    }
+    if (expectedVersion !== undefined && expectedVersion !== user.version) {
+      throw new PreconditionFailedError("User", user.version);
+    }
+    return user;
   }
 }
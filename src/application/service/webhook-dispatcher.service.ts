@@ -0,0 +1,81 @@
+import type { WebhookSubscriptionEntity } from "../../domain/entities/webhook-subscription";
+import type { IWebhookDeliveryRepository } from "../../domain/repositories/iwebhook-delivery.repository";
+import type { IWebhookSubscriptionRepository } from "../../domain/repositories/iwebhook-subscription.repository";
+import { WebhookDeliveryStatus } from "../../domain/vo/WebhookDelivery";
+import { inject, injectable } from "tsyringe";
+import { WebhookDeliveryRepository } from "../../infrastructure/database/repositories/WebhookDeliveryRepository";
+import { WebhookSubscriptionRepository } from "../../infrastructure/database/repositories/WebhookSubscriptionRepository";
+import { WEBHOOK_CONFIG_TOKEN } from "../../infrastructure/webhooks/config";
+import type { WebhookConfig } from "../../infrastructure/webhooks/config";
+import { WebhookSender } from "../../infrastructure/webhooks/sender";
+
+const BATCH_SIZE = 50;
+// Long enough for a batch of subscribers that all time out; a dispatcher that dies frees its deliveries after this
+const LEASE_MS = 15 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Doubles from 30 seconds after each failed attempt, up to six hours
+export const webhookRetryDelayMs = (attempts: number): number =>
+  Math.min(30_000 * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+export interface WebhookDeliveryResult {
+  delivered: number;
+  retrying: number;
+  dead: number;
+}
+
+/**
+ * Posts the deliveries that are due to their subscribers. Failed ones are
+ * retried with backoff until WEBHOOK_MAX_ATTEMPTS, then left dead for the
+ * subscriber to look into and redeliver.
+ */
+@injectable()
+export class WebhookDispatcher {
+  constructor(
+    @inject(WebhookDeliveryRepository) private deliveryRepository: IWebhookDeliveryRepository,
+    @inject(WebhookSubscriptionRepository) private subscriptionRepository: IWebhookSubscriptionRepository,
+    @inject(WebhookSender) private sender: Pick<WebhookSender, "send">,
+    @inject(WEBHOOK_CONFIG_TOKEN) private config: Pick<WebhookConfig, "maxAttempts">,
+  ) {}
+
+  async deliverDue(now: Date = new Date()): Promise<WebhookDeliveryResult> {
+    const result: WebhookDeliveryResult = { delivered: 0, retrying: 0, dead: 0 };
+    const subscriptions = new Map<string, WebhookSubscriptionEntity | null>();
+
+    for (const delivery of await this.deliveryRepository.claimDue(BATCH_SIZE, now, LEASE_MS)) {
+      if (!subscriptions.has(delivery.subscriptionId)) {
+        subscriptions.set(delivery.subscriptionId, await this.subscriptionRepository.findById(delivery.subscriptionId));
+      }
+      // Deleted since the delivery was claimed, which took the delivery with it
+      const subscription = subscriptions.get(delivery.subscriptionId);
+      if (!subscription) {
+        continue;
+      }
+
+      const attempt = await this.sender.send({
+        url: subscription.url,
+        secret: subscription.secret,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        body: JSON.stringify(delivery.payload),
+      });
+      const attempts = delivery.attempts.length + 1;
+      const retryAt =
+        attempts < this.config.maxAttempts ? new Date(Date.now() + webhookRetryDelayMs(attempts)) : null;
+
+      const settled = delivery.recordAttempt(attempt, retryAt);
+      await this.deliveryRepository.save(settled);
+
+      if (settled.status === WebhookDeliveryStatus.DELIVERED) {
+        result.delivered++;
+      } else if (settled.status === WebhookDeliveryStatus.DEAD) {
+        console.error(`Webhook delivery ${delivery.id} to ${subscription.url} is dead after ${attempts} attempts`);
+        result.dead++;
+      } else {
+        result.retrying++;
+      }
+    }
+
+    return result;
+  }
+}
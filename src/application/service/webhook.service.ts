@@ -0,0 +1,113 @@
+import { randomBytes } from "node:crypto";
+import { WebhookDeliveryEntity } from "../../domain/entities/webhook-delivery";
+import { WebhookSubscriptionEntity } from "../../domain/entities/webhook-subscription";
+import { NotFoundError } from "../../domain/errors";
+import type { DomainEvent } from "../../domain/events/domain-event";
+import type { IWebhookDeliveryRepository } from "../../domain/repositories/iwebhook-delivery.repository";
+import type { IWebhookSubscriptionRepository } from "../../domain/repositories/iwebhook-subscription.repository";
+import type { Page } from "../../domain/vo/Page";
+import type { Principal } from "../../domain/vo/Principal";
+import { principalLabel } from "../../domain/vo/Principal";
+import { AccessPolicy } from "../../domain/services/access-policy.domainservice";
+import type { CreateWebhookDTOType, ListWebhookDeliveriesQueryType } from "../dto";
+import { inject, injectable } from "tsyringe";
+import { WebhookDeliveryRepository } from "../../infrastructure/database/repositories/WebhookDeliveryRepository";
+import { WebhookSubscriptionRepository } from "../../infrastructure/database/repositories/WebhookSubscriptionRepository";
+import { WEBHOOK_CONFIG_TOKEN } from "../../infrastructure/webhooks/config";
+import type { WebhookConfig } from "../../infrastructure/webhooks/config";
+
+// Marks the string as a webhook secret, which also helps secret scanners spot leaked ones
+const SECRET_PREFIX = "whsec_";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Webhook subscriptions and their deliveries. Each subscription belongs to
+ * whoever created it, a user or an API key, and is invisible to everyone
+ * else; someone else's subscription answers as not found. With
+ * webhooks:manage:own a user's subscriptions only receive events about their
+ * own account and orders, webhooks:manage:any receives them all.
+ */
+@injectable()
+export class WebhookService {
+  constructor(
+    @inject(WebhookSubscriptionRepository) private subscriptionRepository: IWebhookSubscriptionRepository,
+    @inject(WebhookDeliveryRepository) private deliveryRepository: IWebhookDeliveryRepository,
+    @inject(WEBHOOK_CONFIG_TOKEN) private config: Pick<WebhookConfig, "deliveryRetentionDays">,
+  ) {}
+
+  async listWebhooks(principal: Principal): Promise<WebhookSubscriptionEntity[]> {
+    this.receivesFor(principal);
+    return await this.subscriptionRepository.findByOwner(principalLabel(principal));
+  }
+
+  // The secret is returned here and nowhere else
+  async createWebhook(
+    dto: CreateWebhookDTOType,
+    principal: Principal,
+  ): Promise<{ webhook: WebhookSubscriptionEntity; secret: string }> {
+    const userId = this.receivesFor(principal);
+    const secret = `${SECRET_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const webhook = WebhookSubscriptionEntity.create(principalLabel(principal), userId, dto.url, dto.eventTypes, secret);
+
+    await this.subscriptionRepository.save(webhook);
+    return { webhook, secret };
+  }
+
+  async getWebhook(id: string, principal: Principal): Promise<WebhookSubscriptionEntity> {
+    this.receivesFor(principal);
+    const webhook = await this.subscriptionRepository.findById(id);
+    if (!webhook || webhook.owner !== principalLabel(principal)) {
+      throw new NotFoundError("Webhook", id);
+    }
+    return webhook;
+  }
+
+  async deleteWebhook(id: string, principal: Principal): Promise<void> {
+    const webhook = await this.getWebhook(id, principal);
+    await this.subscriptionRepository.delete(webhook.id);
+  }
+
+  async listDeliveries(
+    id: string,
+    query: ListWebhookDeliveriesQueryType,
+    principal: Principal,
+  ): Promise<Page<WebhookDeliveryEntity>> {
+    const webhook = await this.getWebhook(id, principal);
+    const { status, ...page } = query;
+    return await this.deliveryRepository.findPage({ subscriptionId: webhook.id, status }, page);
+  }
+
+  // Gives a dead delivery one more attempt, for once the subscriber is fixed
+  async redeliver(id: string, deliveryId: string, principal: Principal): Promise<WebhookDeliveryEntity> {
+    const webhook = await this.getWebhook(id, principal);
+    const delivery = await this.deliveryRepository.findById(deliveryId);
+    if (!delivery || delivery.subscriptionId !== webhook.id) {
+      throw new NotFoundError("Webhook delivery", deliveryId);
+    }
+
+    const pending = delivery.redeliver();
+    await this.deliveryRepository.save(pending);
+    return pending;
+  }
+
+  // Subscribed to the event bus: queues the event for every webhook that wants it and may see it
+  async schedule(event: DomainEvent): Promise<void> {
+    const userId = typeof event.payload.userId === "string" ? event.payload.userId : null;
+    const subscriptions = await this.subscriptionRepository.findForEvent(event.type, userId);
+    await this.deliveryRepository.schedule(
+      subscriptions.map((subscription) => WebhookDeliveryEntity.schedule(subscription.id, event)),
+    );
+  }
+
+  // Pending deliveries stay however old they are, they still have attempts to make
+  async purgeSettledDeliveries(now: Date = new Date()): Promise<number> {
+    return await this.deliveryRepository.deleteSettledBefore(
+      new Date(now.getTime() - this.config.deliveryRetentionDays * DAY_MS),
+    );
+  }
+
+  // Whose events the caller's webhooks receive, null for everyone's; callers without either grant are refused
+  private receivesFor(principal: Principal): string | null {
+    return AccessPolicy.listScope(principal, "webhooks:manage") ?? null;
+  }
+}
@@ -0,0 +1,45 @@
+import "reflect-metadata";
+import "dotenv/config";
+import { DatabaseConnection } from "../infrastructure/database/connection";
+import { ApiKeyRepository } from "../infrastructure/database/repositories/ApiKeyRepository";
+import { ApiKeyService } from "../application/service/api-key.service";
+import { Role } from "../domain/vo/Role";
+
+const USAGE = "Usage: npm run auth:keys -- create <name> [customer|staff|admin] | list | revoke <id>";
+
+const [command, arg, roleArg = Role.STAFF] = process.argv.slice(2);
+const role = Object.values(Role).find((value) => value === roleArg);
+if (!["create", "list", "revoke"].includes(command) || (command !== "list" && !arg) || !role) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const connection = new DatabaseConnection();
+
+try {
+  const service = new ApiKeyService(new ApiKeyRepository(connection.getDatabase()));
+
+  if (command === "create") {
+    const { apiKey, key } = await service.mintKey(arg, role);
+    console.log(`Created ${apiKey.role} API key ${apiKey.id} (${apiKey.name})`);
+    console.log("Store this key now, it cannot be shown again:");
+    console.log(key);
+  } else if (command === "list") {
+    const keys = await service.listKeys();
+    keys.forEach((apiKey) => {
+      const state = apiKey.isActive ? "active" : `revoked ${apiKey.revokedAt!.toISOString()}`;
+      console.log(`${apiKey.id}  ${apiKey.prefix}…  ${apiKey.role}  ${apiKey.name}  ${state}`);
+    });
+    if (keys.length === 0) {
+      console.log("No API keys");
+    }
+  } else {
+    const apiKey = await service.revokeKey(arg);
+    console.log(`Revoked API key ${apiKey.id} (${apiKey.name})`);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await connection.disconnect();
+}
@@ -0,0 +1,20 @@
+import "reflect-metadata";
+import "dotenv/config";
+import { DatabaseConnection } from "../infrastructure/database/connection";
+import { checkSchema } from "../infrastructure/database/schema-check";
+
+// Usage: npm run db:check
+const connection = new DatabaseConnection();
+
+try {
+  const drift = await checkSchema(connection.getDatabase());
+  if (drift.length > 0) {
+    console.error("Database schema has drifted from the code:");
+    drift.forEach((line) => console.error(`  - ${line}`));
+    process.exitCode = 1;
+  } else {
+    console.log("Database schema matches the code");
+  }
+} finally {
+  await connection.disconnect();
+}
@@ -0,0 +1,27 @@
+import "reflect-metadata";
+import "dotenv/config";
+import { DatabaseConnection } from "../infrastructure/database/connection";
+import { ExchangeRateRepository } from "../infrastructure/database/repositories/ExchangeRateRepository";
+import { readExchangeRateFile } from "../infrastructure/exchange-rates/file-loader";
+import { ExchangeRateService } from "../application/service/exchange-rate.service";
+
+// Usage: npm run rates:load -- <rates.csv|rates.json>
+const [path] = process.argv.slice(2);
+if (!path) {
+  console.error("Usage: npm run rates:load -- <rates.csv|rates.json>");
+  process.exit(1);
+}
+
+const connection = new DatabaseConnection();
+
+try {
+  const rates = await readExchangeRateFile(path);
+  const service = new ExchangeRateService(new ExchangeRateRepository(connection.getDatabase()));
+  const count = await service.importRates(rates);
+  console.log(`Loaded ${count} exchange rates from ${path}`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await connection.disconnect();
+}
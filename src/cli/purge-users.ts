@@ -0,0 +1,32 @@
+import "reflect-metadata";
+import "dotenv/config";
+import { DatabaseConnection } from "../infrastructure/database/connection";
+import { AuditLogRepository } from "../infrastructure/database/repositories/AuditLogRepository";
+import { OrderRepository } from "../infrastructure/database/repositories/OrderRepository";
+import { UserRepository } from "../infrastructure/database/repositories/UserRepository";
+import { UnitOfWork } from "../infrastructure/database/unit-of-work";
+import { loadCursorSecret } from "../infrastructure/database/utils/cursor";
+import { loadUserLifecycleConfig } from "../infrastructure/users/config";
+import { UserPurgeService } from "../application/service/user-purge.service";
+
+// Usage: npm run users:purge
+const connection = new DatabaseConnection();
+
+try {
+  const db = connection.getDatabase();
+  const cursorSecret = loadCursorSecret();
+  const service = new UserPurgeService(
+    new UserRepository(db, cursorSecret),
+    new OrderRepository(db, cursorSecret),
+    new AuditLogRepository(db),
+    loadUserLifecycleConfig(),
+    new UnitOfWork(db),
+  );
+  const { removed, anonymized, kept } = await service.purge();
+  console.log(`Purged deleted users: ${removed} removed, ${anonymized} anonymized, ${kept} kept for their orders`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await connection.disconnect();
+}
@@ -0,0 +1,66 @@
+import { ValidationFailedError } from "../errors";
+import type { Role } from "../vo/Role";
+
+// Only a hash of the key is kept; the key itself is shown once, when it is minted
+export class ApiKeyEntity {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly role: Role,
+    public readonly prefix: string, // First characters of the key, to tell keys apart in listings
+    public readonly keyHash: string,
+    public readonly createdAt: Date,
+    public readonly lastUsedAt: Date | null,
+    public readonly revokedAt: Date | null,
+  ) {}
+
+  static create(name: string, role: Role, prefix: string, keyHash: string): ApiKeyEntity {
+    if (!name.trim()) {
+      throw new ValidationFailedError("API key name cannot be empty");
+    }
+
+    return new ApiKeyEntity(
+      crypto.randomUUID(),
+      name.trim(),
+      role,
+      prefix,
+      keyHash,
+      new Date(),
+      null,
+      null,
+    );
+  }
+
+  get isActive(): boolean {
+    return this.revokedAt === null;
+  }
+
+  revoke(): ApiKeyEntity {
+    if (!this.isActive) {
+      return this;
+    }
+    return new ApiKeyEntity(
+      this.id,
+      this.name,
+      this.role,
+      this.prefix,
+      this.keyHash,
+      this.createdAt,
+      this.lastUsedAt,
+      new Date(),
+    );
+  }
+
+  // The hash stays out of listings
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      role: this.role,
+      prefix: this.prefix,
+      createdAt: this.createdAt,
+      lastUsedAt: this.lastUsedAt,
+      revokedAt: this.revokedAt,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+// One line of the audit log: who did what to which record, and the specifics
+export class AuditEntryEntity {
+  constructor(
+    public readonly id: string,
+    public readonly actor: string, // Principal label, e.g. "user:abc" or "api-key:def"
+    public readonly action: string, // e.g. "user.email_changed"
+    public readonly entityType: string,
+    public readonly entityId: string,
+    public readonly details: Record<string, unknown>,
+    public readonly createdAt: Date,
+  ) {}
+
+  static record(
+    actor: string,
+    action: string,
+    entityType: string,
+    entityId: string,
+    details: Record<string, unknown> = {},
+  ): AuditEntryEntity {
+    return new AuditEntryEntity(crypto.randomUUID(), actor, action, entityType, entityId, details, new Date());
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      actor: this.actor,
+      action: this.action,
+      entityType: this.entityType,
+      entityId: this.entityId,
+      details: this.details,
+      createdAt: this.createdAt,
+    };
+  }
+}
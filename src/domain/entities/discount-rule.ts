@@ -0,0 +1,172 @@
+import { DiscountType } from "vo";
+import type { Money } from "vo";
+import { ValidationFailedError } from "../errors";
+
+export interface DiscountRuleProps {
+  name: string;
+  type: DiscountType;
+  percentage: number | null; // 0-100, for percentage and category rules
+  amount: Money | null; // For fixed amount rules
+  buyQuantity: number | null; // For buy-X-get-Y rules
+  getQuantity: number | null;
+  productId: string | null; // Limits a buy-X-get-Y rule to one product
+  category: string | null; // For category rules
+  minimumTotal: Money | null; // Order total needed before the rule applies
+  couponCode: string | null; // Only applies to orders presenting this code
+  validFrom: Date | null;
+  validTo: Date | null;
+  priority: number; // Higher priority rules are applied first
+  stackable: boolean; // Non-stackable rules never combine with other rules
+  active: boolean;
+}
+
+export class DiscountRuleEntity {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly type: DiscountType,
+    public readonly percentage: number | null,
+    public readonly amount: Money | null,
+    public readonly buyQuantity: number | null,
+    public readonly getQuantity: number | null,
+    public readonly productId: string | null,
+    public readonly category: string | null,
+    public readonly minimumTotal: Money | null,
+    public readonly couponCode: string | null,
+    public readonly validFrom: Date | null,
+    public readonly validTo: Date | null,
+    public readonly priority: number,
+    public readonly stackable: boolean,
+    public readonly active: boolean,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+  ) {}
+
+  static create(props: DiscountRuleProps): DiscountRuleEntity {
+    return DiscountRuleEntity.fromProps(crypto.randomUUID(), props, new Date(), new Date());
+  }
+
+  private static fromProps(
+    id: string,
+    props: DiscountRuleProps,
+    createdAt: Date,
+    updatedAt: Date,
+  ): DiscountRuleEntity {
+    DiscountRuleEntity.validate(props);
+
+    return new DiscountRuleEntity(
+      id,
+      props.name.trim(),
+      props.type,
+      props.percentage,
+      props.amount,
+      props.buyQuantity,
+      props.getQuantity,
+      props.productId,
+      props.category?.toLowerCase() ?? null,
+      props.minimumTotal,
+      props.couponCode?.toUpperCase() ?? null,
+      props.validFrom,
+      props.validTo,
+      props.priority,
+      props.stackable,
+      props.active,
+      createdAt,
+      updatedAt,
+    );
+  }
+
+  private static validate(props: DiscountRuleProps): void {
+    if (!props.name.trim()) {
+      throw new ValidationFailedError("Discount rule name cannot be empty");
+    }
+
+    switch (props.type) {
+      case DiscountType.CATEGORY:
+        if (!props.category) {
+          throw new ValidationFailedError("Category discounts need a category");
+        }
+      // falls through
+      case DiscountType.PERCENTAGE:
+        if (props.percentage === null || props.percentage <= 0 || props.percentage > 100) {
+          throw new ValidationFailedError("Discount percentage must be between 0 and 100");
+        }
+        break;
+      case DiscountType.FIXED_AMOUNT:
+        if (!props.amount?.isPositive()) {
+          throw new ValidationFailedError("Fixed discounts need a positive amount");
+        }
+        break;
+      case DiscountType.BUY_X_GET_Y:
+        if (!DiscountRuleEntity.isCount(props.buyQuantity) || !DiscountRuleEntity.isCount(props.getQuantity)) {
+          throw new ValidationFailedError("Buy-X-get-Y discounts need positive whole buy and get quantities");
+        }
+        break;
+    }
+
+    if (props.amount && props.minimumTotal && props.amount.currency !== props.minimumTotal.currency) {
+      throw new ValidationFailedError("Discount amount and minimum total must share a currency");
+    }
+    if (props.validFrom && props.validTo && props.validTo <= props.validFrom) {
+      throw new ValidationFailedError("Discount validity must end after it starts");
+    }
+    if (!Number.isInteger(props.priority)) {
+      throw new ValidationFailedError("Discount priority must be a whole number");
+    }
+  }
+
+  private static isCount(value: number | null): boolean {
+    return value !== null && Number.isInteger(value) && value > 0;
+  }
+
+  // Rules with money terms only apply to orders in that currency
+  get currency(): string | null {
+    return this.amount?.currency ?? this.minimumTotal?.currency ?? null;
+  }
+
+  isValidAt(date: Date): boolean {
+    return (
+      this.active &&
+      (!this.validFrom || this.validFrom <= date) &&
+      (!this.validTo || date < this.validTo)
+    );
+  }
+
+  update(changes: Partial<DiscountRuleProps>): DiscountRuleEntity {
+    return DiscountRuleEntity.fromProps(
+      this.id,
+      { ...this.toProps(), ...changes },
+      this.createdAt,
+      new Date(),
+    );
+  }
+
+  private toProps(): DiscountRuleProps {
+    return {
+      name: this.name,
+      type: this.type,
+      percentage: this.percentage,
+      amount: this.amount,
+      buyQuantity: this.buyQuantity,
+      getQuantity: this.getQuantity,
+      productId: this.productId,
+      category: this.category,
+      minimumTotal: this.minimumTotal,
+      couponCode: this.couponCode,
+      validFrom: this.validFrom,
+      validTo: this.validTo,
+      priority: this.priority,
+      stackable: this.stackable,
+      active: this.active,
+    };
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      ...this.toProps(),
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
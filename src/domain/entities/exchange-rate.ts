@@ -0,0 +1,71 @@
+import { RoundingMode } from "vo";
+import type { Money } from "vo";
+import { ValidationFailedError } from "../errors";
+
+// One unit of baseCurrency buys `rate` units of quoteCurrency from effectiveDate (YYYY-MM-DD) on
+export class ExchangeRateEntity {
+  constructor(
+    public readonly id: string,
+    public readonly baseCurrency: string,
+    public readonly quoteCurrency: string,
+    public readonly rate: number,
+    public readonly effectiveDate: string,
+    public readonly createdAt: Date,
+  ) {}
+
+  static create(
+    baseCurrency: string,
+    quoteCurrency: string,
+    rate: number,
+    effectiveDate: string,
+  ): ExchangeRateEntity {
+    const base = baseCurrency.trim().toUpperCase();
+    const quote = quoteCurrency.trim().toUpperCase();
+
+    if (!/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote)) {
+      throw new ValidationFailedError("Exchange rate currencies must be ISO 4217 codes");
+    }
+    if (base === quote) {
+      throw new ValidationFailedError("Exchange rate currencies must differ");
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new ValidationFailedError("Exchange rate must be positive");
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)) {
+      throw new ValidationFailedError("Effective date must be an ISO date (YYYY-MM-DD)");
+    }
+
+    return new ExchangeRateEntity(
+      crypto.randomUUID(),
+      base,
+      quote,
+      rate,
+      effectiveDate,
+      new Date(),
+    );
+  }
+
+  // Converts an amount in either currency of the pair into the other one
+  convert(amount: Money, rounding: RoundingMode = RoundingMode.HALF_UP): Money {
+    if (amount.currency === this.baseCurrency) {
+      return amount.convert(this.quoteCurrency, this.rate, rounding);
+    }
+    if (amount.currency === this.quoteCurrency) {
+      return amount.convert(this.baseCurrency, 1 / this.rate, rounding);
+    }
+    throw new Error(
+      `Rate ${this.baseCurrency}/${this.quoteCurrency} cannot convert ${amount.currency}`,
+    );
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      baseCurrency: this.baseCurrency,
+      quoteCurrency: this.quoteCurrency,
+      rate: this.rate,
+      effectiveDate: this.effectiveDate,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import type { StoredResponse } from "../vo/StoredResponse";
+
+/**
+ * An Idempotency-Key a caller sent with a request, keyed by the caller so
+ * nobody can replay someone else's. The first request holds the key for a
+ * short while; once it succeeds its response is stored and handed to every
+ * retry until the record expires.
+ */
+export class IdempotencyKeyEntity {
+  constructor(
+    public readonly principal: string, // principalLabel of the caller
+    public readonly key: string,
+    public readonly requestHash: string, // SHA-256 hex of the method, path and body
+    public readonly response: StoredResponse | null, // Null while the first request runs
+    public readonly createdAt: Date,
+    public readonly expiresAt: Date,
+  ) {}
+
+  static claim(principal: string, key: string, requestHash: string, lockMs: number): IdempotencyKeyEntity {
+    const now = new Date();
+    return new IdempotencyKeyEntity(principal, key, requestHash, null, now, new Date(now.getTime() + lockMs));
+  }
+
+  complete(response: StoredResponse, ttlMs: number, at: Date = new Date()): IdempotencyKeyEntity {
+    return new IdempotencyKeyEntity(
+      this.principal,
+      this.key,
+      this.requestHash,
+      response,
+      this.createdAt,
+      new Date(at.getTime() + ttlMs),
+    );
+  }
+
+  get isComplete(): boolean {
+    return this.response !== null;
+  }
+}
@@ -1,2 +1,14 @@
+export * from "./api-key";
+export * from "./audit-entry";
+export * from "./discount-rule";
+export * from "./exchange-rate";
+export * from "./idempotency-key";
+export * from "./item";
 export * from "./order";
+export * from "./password-credential";
+export * from "./refresh-token";
+export * from "./tax-rate";
 export * from "./user";
+export * from "./user-token";
+export * from "./webhook-delivery";
+export * from "./webhook-subscription";
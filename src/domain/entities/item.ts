@@ -0,0 +1,85 @@
+import { TaxCategory } from "vo";
+import type { Money } from "vo";
+import { ValidationFailedError } from "../errors";
+
+export class ItemEntity {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly description: string | null,
+    public readonly price: Money,
+    public readonly sku: string | null,
+    public readonly taxCategory: TaxCategory,
+    public readonly category: string | null, // Merchandising category, e.g. "books"
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+  ) {}
+
+  static create(
+    name: string,
+    price: Money,
+    description: string | null = null,
+    sku: string | null = null,
+    taxCategory: TaxCategory = TaxCategory.STANDARD,
+    category: string | null = null,
+  ): ItemEntity {
+    ItemEntity.validate(name, price);
+
+    return new ItemEntity(
+      crypto.randomUUID(),
+      name,
+      description,
+      price,
+      sku,
+      taxCategory,
+      category,
+      new Date(),
+      new Date(),
+    );
+  }
+
+  private static validate(name: string, price: Money): void {
+    if (!name.trim()) {
+      throw new ValidationFailedError("Item name cannot be empty");
+    }
+    if (!price.isPositive()) {
+      throw new ValidationFailedError("Item price must be positive");
+    }
+  }
+
+  update(
+    changes: Partial<
+      Pick<ItemEntity, "name" | "description" | "price" | "sku" | "taxCategory" | "category">
+    >,
+  ): ItemEntity {
+    const name = changes.name ?? this.name;
+    const price = changes.price ?? this.price;
+    ItemEntity.validate(name, price);
+
+    return new ItemEntity(
+      this.id,
+      name,
+      changes.description !== undefined ? changes.description : this.description,
+      price,
+      changes.sku !== undefined ? changes.sku : this.sku,
+      changes.taxCategory ?? this.taxCategory,
+      changes.category !== undefined ? changes.category : this.category,
+      this.createdAt,
+      new Date(),
+    );
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      price: this.price,
+      sku: this.sku,
+      taxCategory: this.taxCategory,
+      category: this.category,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
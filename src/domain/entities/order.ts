@@ -1,5 +1,8 @@
-import type { OrderItem } from "vo";
-import { OrderStatus } from "vo";
+import type { AppliedDiscount, OrderItem, TaxBreakdown } from "vo";
+import { Money, OrderStatus, canTransition } from "vo";
+import { InvalidStateTransitionError, ValidationFailedError } from "../errors";
+import { DomainEventType, domainEvent } from "../events/domain-event";
+import type { DomainEvent } from "../events/domain-event";
 
 export class OrderEntity {
   constructor(
@@ -7,20 +10,40 @@ export class OrderEntity {
     public readonly userId: string,
     public readonly items: OrderItem[],
     public readonly status: OrderStatus,
-    public readonly total: number,
+    public readonly total: Money,
+    public readonly tax: TaxBreakdown,
+    public readonly reportingTotal: Money, // total in the reporting currency on the order date
+    public readonly couponCodes: string[],
+    public readonly discounts: AppliedDiscount[], // As priced when the order was placed, in the order they were applied
+    public readonly cancellationReason: string | null,
+    public readonly refundedAmount: Money,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
+    public readonly version: number = 0, // As last stored, 0 until the order is first saved
+    public readonly events: readonly DomainEvent[] = [], // Recorded since then, stored by the next save
   ) {}
 
-  static create(userId: string, items: OrderItem[]): OrderEntity {
+  static create(
+    userId: string,
+    items: OrderItem[],
+    tax: TaxBreakdown,
+    reportingTotal: Money,
+    couponCodes: string[] = [],
+  ): OrderEntity {
     if (!items.length) {
-      throw new Error("Order must have at least one item");
+      throw new ValidationFailedError("Order must have at least one item");
     }
 
-    const total = items.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0,
-    );
+    if (tax.lines.length !== items.length) {
+      throw new ValidationFailedError("Tax breakdown must cover every order item");
+    }
+
+    // The amount payable is the tax-inclusive total
+    const total = tax.grossTotal;
+
+    if (items.some((item) => item.price.currency !== total.currency)) {
+      throw new ValidationFailedError("Order items must be priced in the order currency");
+    }
 
     return new OrderEntity(
       crypto.randomUUID(),
@@ -28,40 +51,149 @@ export class OrderEntity {
       items,
       OrderStatus.PENDING,
       total,
+      tax,
+      reportingTotal,
+      [...new Set(couponCodes.map((code) => code.toUpperCase()))],
+      [],
+      null,
+      Money.zero(total.currency),
       new Date(),
       new Date(),
     );
   }
 
-  confirm(): OrderEntity {
-    if (this.status !== OrderStatus.PENDING) {
-      throw new Error("Only pending orders can be confirmed");
+  // Discounts are priced once, when the order is placed; later rule changes leave it alone
+  withDiscounts(discounts: AppliedDiscount[]): OrderEntity {
+    if (this.version !== 0) {
+      throw new ValidationFailedError("Discounts can only be applied to a new order");
+    }
+    if (discounts.some((discount) => discount.amount.currency !== this.currency)) {
+      throw new ValidationFailedError("Discounts must be in the order currency");
     }
 
     return new OrderEntity(
       this.id,
       this.userId,
       this.items,
-      OrderStatus.CONFIRMED,
+      this.status,
       this.total,
+      this.tax,
+      this.reportingTotal,
+      this.couponCodes,
+      discounts,
+      this.cancellationReason,
+      this.refundedAmount,
       this.createdAt,
-      new Date(),
+      this.updatedAt,
+      this.version,
+      this.events,
     );
   }
 
+  confirm(): OrderEntity {
+    return this.transitionTo(OrderStatus.CONFIRMED, {}, DomainEventType.ORDER_CONFIRMED);
+  }
+
+  startProcessing(): OrderEntity {
+    return this.transitionTo(OrderStatus.PROCESSING);
+  }
+
   ship(): OrderEntity {
-    if (this.status !== OrderStatus.CONFIRMED) {
-      throw new Error("Only confirmed orders can be shipped");
+    return this.transitionTo(OrderStatus.SHIPPED, {}, DomainEventType.ORDER_SHIPPED);
+  }
+
+  deliver(): OrderEntity {
+    return this.transitionTo(OrderStatus.DELIVERED);
+  }
+
+  complete(): OrderEntity {
+    return this.transitionTo(OrderStatus.COMPLETED);
+  }
+
+  cancel(reason: string): OrderEntity {
+    if (!reason.trim()) {
+      throw new ValidationFailedError("Cancellation reason is required");
+    }
+
+    return this.transitionTo(OrderStatus.CANCELLED, { cancellationReason: reason });
+  }
+
+  refund(amount: Money): OrderEntity {
+    if (!amount.isPositive()) {
+      throw new ValidationFailedError("Refund amount must be positive");
     }
+    // Only what the customer paid can go back, which is the total less its discounts
+    if (amount.greaterThan(this.finalTotal)) {
+      throw new ValidationFailedError("Refund amount cannot exceed the order total");
+    }
+
+    return this.transitionTo(OrderStatus.REFUNDED, { refundedAmount: amount });
+  }
+
+  get currency(): string {
+    return this.total.currency;
+  }
+
+  get totalDiscount(): Money {
+    return Money.sum(this.discounts.map((discount) => discount.amount), this.currency);
+  }
+
+  // What the customer pays once the discounts are off
+  get finalTotal(): Money {
+    return this.total.subtract(this.totalDiscount);
+  }
 
+  canTransitionTo(status: OrderStatus): boolean {
+    return canTransition(this.status, status);
+  }
+
+  private transitionTo(
+    status: OrderStatus,
+    changes: Partial<Pick<OrderEntity, "cancellationReason" | "refundedAmount">> = {},
+    event?: DomainEventType,
+  ): OrderEntity {
+    if (!this.canTransitionTo(status)) {
+      throw new InvalidStateTransitionError("order", this.status, status);
+    }
+
+    const now = new Date();
+    const payload = { orderId: this.id, userId: this.userId, status, total: this.total.toJSON() };
     return new OrderEntity(
       this.id,
       this.userId,
       this.items,
-      OrderStatus.SHIPPED,
+      status,
       this.total,
+      this.tax,
+      this.reportingTotal,
+      this.couponCodes,
+      this.discounts,
+      changes.cancellationReason ?? this.cancellationReason,
+      changes.refundedAmount ?? this.refundedAmount,
       this.createdAt,
-      new Date(),
+      now,
+      this.version,
+      event ? [...this.events, domainEvent(event, "order", this.id, payload, now)] : this.events,
+    );
+  }
+
+  // The same order as the repository stored it, under its new version and with its events stored too
+  withVersion(version: number): OrderEntity {
+    return new OrderEntity(
+      this.id,
+      this.userId,
+      this.items,
+      this.status,
+      this.total,
+      this.tax,
+      this.reportingTotal,
+      this.couponCodes,
+      this.discounts,
+      this.cancellationReason,
+      this.refundedAmount,
+      this.createdAt,
+      this.updatedAt,
+      version,
     );
   }
 
@@ -71,9 +203,17 @@ export class OrderEntity {
       userId: this.userId,
       items: this.items,
       status: this.status,
+      currency: this.currency,
       total: this.total,
+      reportingTotal: this.reportingTotal,
+      tax: this.tax,
+      couponCodes: this.couponCodes,
+      discounts: this.discounts,
+      cancellationReason: this.cancellationReason,
+      refundedAmount: this.refundedAmount,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      version: this.version,
     };
   }
 }
@@ -0,0 +1,22 @@
+// A user's password hash and the failed login count that locks the account out
+export class PasswordCredentialEntity {
+  constructor(
+    public readonly userId: string,
+    public readonly passwordHash: string,
+    public readonly failedAttempts: number,
+    public readonly lockedUntil: Date | null,
+    public readonly updatedAt: Date,
+  ) {}
+
+  static create(userId: string, passwordHash: string): PasswordCredentialEntity {
+    return new PasswordCredentialEntity(userId, passwordHash, 0, null, new Date());
+  }
+
+  isLocked(now: Date = new Date()): boolean {
+    return this.lockedUntil !== null && this.lockedUntil > now;
+  }
+
+  changePassword(passwordHash: string, now: Date = new Date()): PasswordCredentialEntity {
+    return new PasswordCredentialEntity(this.userId, passwordHash, 0, null, now);
+  }
+}
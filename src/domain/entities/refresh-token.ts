@@ -0,0 +1,37 @@
+// One refresh token of a login session. Every refresh replaces the token with a
+// new one in the same family, so a replaced token showing up again means it leaked.
+export class RefreshTokenEntity {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly familyId: string, // Shared by every token of one login session
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date,
+    public readonly revokedAt: Date | null,
+    public readonly replacedBy: string | null,
+  ) {}
+
+  static issue(userId: string, familyId: string | null, tokenHash: string, ttlMs: number): RefreshTokenEntity {
+    const now = new Date();
+    const id = crypto.randomUUID();
+    return new RefreshTokenEntity(
+      id,
+      userId,
+      familyId ?? id,
+      tokenHash,
+      new Date(now.getTime() + ttlMs),
+      now,
+      null,
+      null,
+    );
+  }
+
+  get isRevoked(): boolean {
+    return this.revokedAt !== null;
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt <= now;
+  }
+}
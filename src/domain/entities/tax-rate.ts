@@ -0,0 +1,130 @@
+import type { TaxCategory, TaxJurisdiction, TaxRate } from "vo";
+import { ValidationFailedError } from "../errors";
+
+// Effective dates are calendar days in ISO format (YYYY-MM-DD), both ends inclusive
+export class TaxRateEntity {
+  constructor(
+    public readonly id: string,
+    public readonly jurisdiction: TaxJurisdiction,
+    public readonly category: TaxCategory,
+    public readonly rate: number,
+    public readonly effectiveFrom: string,
+    public readonly effectiveTo: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+  ) {}
+
+  static create(
+    jurisdiction: TaxJurisdiction,
+    category: TaxCategory,
+    rate: number,
+    effectiveFrom: string,
+    effectiveTo: string | null = null,
+  ): TaxRateEntity {
+    TaxRateEntity.validate(rate, effectiveFrom, effectiveTo);
+
+    return new TaxRateEntity(
+      crypto.randomUUID(),
+      {
+        country: jurisdiction.country.toUpperCase(),
+        ...(jurisdiction.state ? { state: jurisdiction.state } : {}),
+        ...(jurisdiction.city ? { city: jurisdiction.city } : {}),
+      },
+      category,
+      rate,
+      effectiveFrom,
+      effectiveTo,
+      new Date(),
+      new Date(),
+    );
+  }
+
+  static toISODate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static validate(
+    rate: number,
+    effectiveFrom: string,
+    effectiveTo: string | null,
+  ): void {
+    if (rate < 0 || rate >= 1) {
+      throw new ValidationFailedError("Tax rate must be a fraction between 0 and 1");
+    }
+    if (effectiveTo !== null && effectiveTo < effectiveFrom) {
+      throw new ValidationFailedError("Effective end date cannot be before the start date");
+    }
+  }
+
+  update(
+    rate: number,
+    effectiveFrom: string,
+    effectiveTo: string | null,
+  ): TaxRateEntity {
+    TaxRateEntity.validate(rate, effectiveFrom, effectiveTo);
+
+    return new TaxRateEntity(
+      this.id,
+      this.jurisdiction,
+      this.category,
+      rate,
+      effectiveFrom,
+      effectiveTo,
+      this.createdAt,
+      new Date(),
+    );
+  }
+
+  isEffectiveOn(date: Date): boolean {
+    const day = TaxRateEntity.toISODate(date);
+    return (
+      this.effectiveFrom <= day &&
+      (this.effectiveTo === null || day <= this.effectiveTo)
+    );
+  }
+
+  // Same jurisdiction and category, i.e. the rows that must not overlap in time
+  hasSameKey(other: TaxRateEntity): boolean {
+    const same = (a?: string, b?: string) =>
+      (a ?? "").toLowerCase() === (b ?? "").toLowerCase();
+
+    return (
+      same(this.jurisdiction.country, other.jurisdiction.country) &&
+      same(this.jurisdiction.state, other.jurisdiction.state) &&
+      same(this.jurisdiction.city, other.jurisdiction.city) &&
+      this.category === other.category
+    );
+  }
+
+  overlaps(other: TaxRateEntity): boolean {
+    if (this.id === other.id || !this.hasSameKey(other)) return false;
+
+    const startsBeforeOtherEnds =
+      other.effectiveTo === null || this.effectiveFrom <= other.effectiveTo;
+    const endsAfterOtherStarts =
+      this.effectiveTo === null || other.effectiveFrom <= this.effectiveTo;
+
+    return startsBeforeOtherEnds && endsAfterOtherStarts;
+  }
+
+  toTaxRate(): TaxRate {
+    return {
+      jurisdiction: this.jurisdiction,
+      category: this.category,
+      rate: this.rate,
+    };
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      jurisdiction: this.jurisdiction,
+      category: this.category,
+      rate: this.rate,
+      effectiveFrom: this.effectiveFrom,
+      effectiveTo: this.effectiveTo,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { UserTokenPurpose } from "../vo/UserTokenPurpose";
+
+// A single-use token emailed to a user, stored only as a hash
+export class UserTokenEntity {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly purpose: UserTokenPurpose,
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date,
+    public readonly usedAt: Date | null,
+    public readonly newEmail: string | null = null, // The address an email change moves to
+  ) {}
+
+  static issue(
+    userId: string,
+    purpose: UserTokenPurpose,
+    tokenHash: string,
+    ttlMs: number,
+    newEmail: string | null = null,
+  ): UserTokenEntity {
+    const now = new Date();
+    return new UserTokenEntity(
+      crypto.randomUUID(),
+      userId,
+      purpose,
+      tokenHash,
+      new Date(now.getTime() + ttlMs),
+      now,
+      null,
+      newEmail,
+    );
+  }
+
+  get isUsed(): boolean {
+    return this.usedAt !== null;
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt <= now;
+  }
+}
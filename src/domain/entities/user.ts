@@ -1,3 +1,8 @@
+import { ValidationFailedError } from "../errors";
+import { DomainEventType, domainEvent } from "../events/domain-event";
+import type { DomainEvent } from "../events/domain-event";
+import { Role } from "../vo/Role";
+
 export class UserEntity {
   constructor(
     public readonly id: string,
@@ -5,31 +10,158 @@ export class UserEntity {
     public readonly name: string,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
+    public readonly role: Role = Role.CUSTOMER,
+    public readonly emailVerifiedAt: Date | null = null,
+    public readonly deletedAt: Date | null = null,
+    public readonly version: number = 0, // As last stored, 0 until the user is first saved
+    public readonly events: readonly DomainEvent[] = [], // Recorded since then, stored by the next save
   ) {}
 
+  static create(email: string, name: string, id: string): UserEntity {
+    const now = new Date();
+    // Events outlive erasure in the outbox and webhook logs, so they carry no personal data
+    return new UserEntity(id, email, name, now, now, Role.CUSTOMER, null, null, 0, [
+      domainEvent(DomainEventType.USER_REGISTERED, "user", id, { userId: id }, now),
+    ]);
+  }
 
+  updateName(newName: string): UserEntity {
+    if (!newName.trim()) {
+      throw new ValidationFailedError("Name cannot be empty");
+    }
+    return new UserEntity(
+      this.id,
+      this.email,
+      newName,
+      this.createdAt,
+      new Date(),
+      this.role,
+      this.emailVerifiedAt,
+      this.deletedAt,
+      this.version,
+      this.events,
+    );
+  }
 
-
-  static create(email: string, name: string, id: string): Omit<UserEntity, 'id'>  {
+  assignRole(role: Role): UserEntity {
     return new UserEntity(
-      id,
-      email,
-      name,
+      this.id,
+      this.email,
+      this.name,
+      this.createdAt,
       new Date(),
-      new Date()
+      role,
+      this.emailVerifiedAt,
+      this.deletedAt,
+      this.version,
+      this.events,
     );
   }
 
-  updateName(newName: string): UserEntity {
-    if (!newName.trim()) {
-      throw new Error("Name cannot be empty");
+  // Only once the new address is confirmed, which also counts as verifying it
+  changeEmail(newEmail: string, at: Date = new Date()): UserEntity {
+    if (!newEmail.trim()) {
+      throw new ValidationFailedError("Email cannot be empty");
+    }
+    return new UserEntity(
+      this.id,
+      newEmail,
+      this.name,
+      this.createdAt,
+      at,
+      this.role,
+      at,
+      this.deletedAt,
+      this.version,
+      this.events,
+    );
+  }
+
+  // Verifying again keeps the first date
+  verifyEmail(at: Date = new Date()): UserEntity {
+    if (this.emailVerifiedAt) {
+      return this;
     }
     return new UserEntity(
       this.id,
       this.email,
-      newName,
+      this.name,
       this.createdAt,
-      new Date(),
+      at,
+      this.role,
+      at,
+      this.deletedAt,
+      this.version,
+      this.events,
+    );
+  }
+
+  get isDeleted(): boolean {
+    return this.deletedAt !== null;
+  }
+
+  softDelete(at: Date = new Date()): UserEntity {
+    return new UserEntity(
+      this.id,
+      this.email,
+      this.name,
+      this.createdAt,
+      at,
+      this.role,
+      this.emailVerifiedAt,
+      at,
+      this.version,
+      this.events,
+    );
+  }
+
+  restore(at: Date = new Date()): UserEntity {
+    return new UserEntity(
+      this.id,
+      this.email,
+      this.name,
+      this.createdAt,
+      at,
+      this.role,
+      this.emailVerifiedAt,
+      null,
+      this.version,
+      this.events,
+    );
+  }
+
+  /**
+   * Replaces everything that identifies the person, keeping the row and id
+   * that orders point at. The reserved .invalid domain keeps the email unique
+   * and undeliverable.
+   */
+  anonymize(at: Date = new Date()): UserEntity {
+    return new UserEntity(
+      this.id,
+      `${this.id}@deleted.invalid`,
+      "Deleted user",
+      this.createdAt,
+      at,
+      this.role,
+      null,
+      this.deletedAt ?? at,
+      this.version,
+      this.events,
+    );
+  }
+
+  // The same user as the repository stored it, under its new version and with its events stored too
+  withVersion(version: number): UserEntity {
+    return new UserEntity(
+      this.id,
+      this.email,
+      this.name,
+      this.createdAt,
+      this.updatedAt,
+      this.role,
+      this.emailVerifiedAt,
+      this.deletedAt,
+      version,
     );
   }
 
@@ -38,8 +170,12 @@ export class UserEntity {
       id: this.id,
       email: this.email,
       name: this.name,
+      role: this.role,
+      emailVerifiedAt: this.emailVerifiedAt,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      deletedAt: this.deletedAt,
+      version: this.version,
     };
   }
 }
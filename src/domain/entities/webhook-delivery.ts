@@ -0,0 +1,81 @@
+import { InvalidStateTransitionError } from "../errors";
+import type { DomainEvent, DomainEventType } from "../events/domain-event";
+import { WebhookDeliveryStatus } from "../vo/WebhookDelivery";
+import type { WebhookAttempt } from "../vo/WebhookDelivery";
+
+/**
+ * One domain event on its way to one webhook subscription, along with every
+ * attempt made at posting it. The payload is fixed when the delivery is
+ * scheduled, so retries send exactly the same body.
+ */
+export class WebhookDeliveryEntity {
+  constructor(
+    public readonly id: string,
+    public readonly subscriptionId: string,
+    public readonly eventId: string,
+    public readonly eventType: DomainEventType,
+    public readonly payload: Record<string, unknown>, // The JSON body posted to the subscriber
+    public readonly status: WebhookDeliveryStatus,
+    public readonly attempts: readonly WebhookAttempt[],
+    public readonly nextAttemptAt: Date | null, // Null once delivered or dead
+    public readonly createdAt: Date,
+  ) {}
+
+  static schedule(subscriptionId: string, event: DomainEvent, now: Date = new Date()): WebhookDeliveryEntity {
+    return new WebhookDeliveryEntity(
+      crypto.randomUUID(),
+      subscriptionId,
+      event.id,
+      event.type,
+      { id: event.id, type: event.type, occurredAt: event.occurredAt.toISOString(), data: event.payload },
+      WebhookDeliveryStatus.PENDING,
+      [],
+      now,
+      now,
+    );
+  }
+
+  get isPending(): boolean {
+    return this.status === WebhookDeliveryStatus.PENDING;
+  }
+
+  // Settles a pending delivery; a failed attempt is retried at retryAt, or goes dead without one
+  recordAttempt(attempt: WebhookAttempt, retryAt: Date | null): WebhookDeliveryEntity {
+    if (!this.isPending) {
+      throw new InvalidStateTransitionError("webhook delivery", this.status, "attempted");
+    }
+
+    if (attempt.error === null) {
+      return this.with(WebhookDeliveryStatus.DELIVERED, [...this.attempts, attempt], null);
+    }
+    return retryAt
+      ? this.with(WebhookDeliveryStatus.PENDING, [...this.attempts, attempt], retryAt)
+      : this.with(WebhookDeliveryStatus.DEAD, [...this.attempts, attempt], null);
+  }
+
+  // Gives a dead delivery one more attempt, right away; failing that it is dead again
+  redeliver(now: Date = new Date()): WebhookDeliveryEntity {
+    if (this.status !== WebhookDeliveryStatus.DEAD) {
+      throw new InvalidStateTransitionError("webhook delivery", this.status, WebhookDeliveryStatus.PENDING);
+    }
+    return this.with(WebhookDeliveryStatus.PENDING, this.attempts, now);
+  }
+
+  private with(
+    status: WebhookDeliveryStatus,
+    attempts: readonly WebhookAttempt[],
+    nextAttemptAt: Date | null,
+  ): WebhookDeliveryEntity {
+    return new WebhookDeliveryEntity(
+      this.id,
+      this.subscriptionId,
+      this.eventId,
+      this.eventType,
+      this.payload,
+      status,
+      attempts,
+      nextAttemptAt,
+      this.createdAt,
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { ValidationFailedError } from "../errors";
+import type { DomainEventType } from "../events/domain-event";
+
+/**
+ * A URL that wants to hear about some domain events. It belongs to whoever
+ * created it, and only they see it. A subscription scoped to a user only
+ * hears about that user's account and orders. The secret signs every
+ * delivery; it is shown once, on creation, and kept out of listings after that.
+ */
+export class WebhookSubscriptionEntity {
+  constructor(
+    public readonly id: string,
+    public readonly owner: string, // principalLabel of the creator
+    public readonly userId: string | null, // Whose events it receives, null for everyone's
+    public readonly url: string,
+    public readonly eventTypes: readonly DomainEventType[],
+    public readonly secret: string,
+    public readonly createdAt: Date,
+  ) {}
+
+  static create(
+    owner: string,
+    userId: string | null,
+    url: string,
+    eventTypes: DomainEventType[],
+    secret: string,
+  ): WebhookSubscriptionEntity {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new ValidationFailedError("Webhook URL is not a valid URL", [{ path: "url", message: "Invalid URL" }]);
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      throw new ValidationFailedError("Webhook URL must use http or https", [
+        { path: "url", message: "Must use http or https" },
+      ]);
+    }
+    if (eventTypes.length === 0) {
+      throw new ValidationFailedError("Webhook must subscribe to at least one event type", [
+        { path: "eventTypes", message: "At least one event type is required" },
+      ]);
+    }
+
+    return new WebhookSubscriptionEntity(
+      crypto.randomUUID(),
+      owner,
+      userId,
+      parsed.toString(),
+      [...new Set(eventTypes)],
+      secret,
+      new Date(),
+    );
+  }
+
+  subscribesTo(type: DomainEventType): boolean {
+    return this.eventTypes.includes(type);
+  }
+
+  // The secret stays out of listings
+  toJSON() {
+    return {
+      id: this.id,
+      url: this.url,
+      eventTypes: this.eventTypes,
+      createdAt: this.createdAt,
+    };
+  }
+}
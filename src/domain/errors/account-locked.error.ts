@@ -0,0 +1,10 @@
+import { DomainError } from "./domain.error";
+
+// Too many wrong passwords in a row; logins are refused until the lock expires
+export class AccountLockedError extends DomainError {
+  readonly code: string = "account_locked";
+
+  constructor(public readonly lockedUntil: Date) {
+    super("Account is temporarily locked after too many failed logins");
+  }
+}
@@ -0,0 +1,6 @@
+import { DomainError } from "./domain.error";
+
+// The request is valid but clashes with data that already exists
+export class ConflictError extends DomainError {
+  readonly code: string = "conflict";
+}
@@ -0,0 +1,10 @@
+// Base of every error the API may show to callers; anything else is reported as an internal error
+export abstract class DomainError extends Error {
+  // Stable identifier clients can branch on, unlike the message
+  abstract readonly code: string;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,13 @@
+import { DomainError } from "./domain.error";
+
+// The caller is authenticated but their role does not allow the action
+export class ForbiddenError extends DomainError {
+  readonly code: string = "forbidden";
+
+  constructor(
+    public readonly permission: string,
+    message = "You do not have permission to perform this action",
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,10 @@
+import { ConflictError } from "./conflict.error";
+
+// A retry arrived while the first request with its Idempotency-Key was still running
+export class IdempotencyKeyInUseError extends ConflictError {
+  readonly code: string = "idempotency_key_in_use";
+
+  constructor() {
+    super("A request with this Idempotency-Key is still being processed, try again shortly");
+  }
+}
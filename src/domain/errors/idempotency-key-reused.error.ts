@@ -0,0 +1,10 @@
+import { DomainError } from "./domain.error";
+
+// The Idempotency-Key was already used for a different request
+export class IdempotencyKeyReusedError extends DomainError {
+  readonly code: string = "idempotency_key_reused";
+
+  constructor() {
+    super("This Idempotency-Key was already used for a different request");
+  }
+}
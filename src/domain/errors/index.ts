@@ -0,0 +1,12 @@
+export * from "./domain.error";
+export * from "./not-found.error";
+export * from "./conflict.error";
+export * from "./validation-failed.error";
+export * from "./invalid-state-transition.error";
+export * from "./unauthenticated.error";
+export * from "./forbidden.error";
+export * from "./account-locked.error";
+export * from "./version-conflict.error";
+export * from "./precondition-failed.error";
+export * from "./idempotency-key-in-use.error";
+export * from "./idempotency-key-reused.error";
@@ -0,0 +1,13 @@
+import { DomainError } from "./domain.error";
+
+export class InvalidStateTransitionError extends DomainError {
+  readonly code: string = "invalid_state_transition";
+
+  constructor(
+    public readonly entity: string,
+    public readonly from: string,
+    public readonly to: string,
+  ) {
+    super(`Cannot move ${entity} from ${from} to ${to}`);
+  }
+}
@@ -0,0 +1,12 @@
+import { DomainError } from "./domain.error";
+
+export class NotFoundError extends DomainError {
+  readonly code: string = "not_found";
+
+  constructor(
+    public readonly resource: string,
+    public readonly id?: string,
+  ) {
+    super(id ? `${resource} ${id} not found` : `${resource} not found`);
+  }
+}
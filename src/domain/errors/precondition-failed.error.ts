@@ -0,0 +1,13 @@
+import { DomainError } from "./domain.error";
+
+// The caller made the change conditional on a version the record is no longer at
+export class PreconditionFailedError extends DomainError {
+  readonly code: string = "precondition_failed";
+
+  constructor(
+    public readonly resource: string,
+    public readonly currentVersion: number | null = null,
+  ) {
+    super(`${resource} has changed since it was read, reload it and try again`);
+  }
+}
@@ -0,0 +1,10 @@
+import { DomainError } from "./domain.error";
+
+// The request carried no credentials, or ones that could not be verified
+export class UnauthenticatedError extends DomainError {
+  readonly code: string = "unauthenticated";
+
+  constructor(message = "Authentication required") {
+    super(message);
+  }
+}
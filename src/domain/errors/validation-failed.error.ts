@@ -0,0 +1,17 @@
+import { DomainError } from "./domain.error";
+
+export interface ValidationIssue {
+  path: string; // Dotted path of the offending field, empty for the whole input
+  message: string;
+}
+
+export class ValidationFailedError extends DomainError {
+  readonly code: string = "validation_failed";
+
+  constructor(
+    message: string,
+    public readonly issues: ValidationIssue[] = [],
+  ) {
+    super(message);
+  }
+}
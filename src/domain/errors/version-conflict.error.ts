@@ -0,0 +1,13 @@
+import { ConflictError } from "./conflict.error";
+
+// Someone else saved the record between reading it and writing it back
+export class VersionConflictError extends ConflictError {
+  readonly code: string = "version_conflict";
+
+  constructor(
+    public readonly resource: string,
+    public readonly id: string,
+  ) {
+    super(`${resource} ${id} was changed by someone else, reload it and try again`);
+  }
+}
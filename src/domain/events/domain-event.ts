@@ -0,0 +1,30 @@
+export enum DomainEventType {
+  USER_REGISTERED = "user.registered",
+  ORDER_CONFIRMED = "order.confirmed",
+  ORDER_SHIPPED = "order.shipped",
+}
+
+/**
+ * Something that happened to an aggregate. Entities record events as they
+ * change, and the repository writes them to the outbox in the same
+ * transaction as the aggregate, so an event is stored exactly when its change
+ * is. Payloads hold plain JSON, they are read back from the outbox as such.
+ */
+export interface DomainEvent {
+  id: string;
+  type: DomainEventType;
+  aggregateType: string;
+  aggregateId: string;
+  occurredAt: Date;
+  payload: Record<string, unknown>;
+}
+
+export function domainEvent(
+  type: DomainEventType,
+  aggregateType: string,
+  aggregateId: string,
+  payload: Record<string, unknown>,
+  occurredAt: Date = new Date(),
+): DomainEvent {
+  return { id: crypto.randomUUID(), type, aggregateType, aggregateId, occurredAt, payload };
+}
@@ -0,0 +1,11 @@
+import { ApiKeyEntity } from "../entities/api-key";
+
+export interface IApiKeyRepository {
+  findById(id: string): Promise<ApiKeyEntity | null>;
+  findByHash(keyHash: string): Promise<ApiKeyEntity | null>;
+  findAll(): Promise<ApiKeyEntity[]>;
+  save(apiKey: ApiKeyEntity): Promise<void>;
+  markUsed(id: string, at: Date): Promise<void>;
+}
+
+export const IApiKeyRepository = Symbol("IApiKeyRepository");
@@ -0,0 +1,9 @@
+import { AuditEntryEntity } from "../entities/audit-entry";
+
+export interface IAuditLogRepository {
+  record(entry: AuditEntryEntity): Promise<void>;
+  // Oldest first
+  findByEntity(entityType: string, entityId: string): Promise<AuditEntryEntity[]>;
+}
+
+export const IAuditLogRepository = Symbol("IAuditLogRepository");
@@ -0,0 +1,13 @@
+import { DiscountRuleEntity } from "../entities/discount-rule";
+
+export interface IDiscountRuleRepository {
+  findById(id: string): Promise<DiscountRuleEntity | null>;
+  findAll(): Promise<DiscountRuleEntity[]>;
+  // Active rules, whatever their validity window
+  findActive(): Promise<DiscountRuleEntity[]>;
+  findByCouponCode(code: string): Promise<DiscountRuleEntity | null>;
+  save(rule: DiscountRuleEntity): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export const IDiscountRuleRepository = Symbol("IDiscountRuleRepository");
@@ -0,0 +1,11 @@
+import { ExchangeRateEntity } from "../entities/exchange-rate";
+
+export interface IExchangeRateRepository {
+  findAll(): Promise<ExchangeRateEntity[]>;
+  // Latest rate for the pair, in either direction, published on or before the date
+  findEffective(from: string, to: string, date: Date): Promise<ExchangeRateEntity | null>;
+  // Replaces any rate already stored for the same pair and date
+  saveMany(rates: ExchangeRateEntity[]): Promise<void>;
+}
+
+export const IExchangeRateRepository = Symbol("IExchangeRateRepository");
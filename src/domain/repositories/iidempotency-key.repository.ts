@@ -0,0 +1,14 @@
+import { IdempotencyKeyEntity } from "../entities/idempotency-key";
+
+export interface IIdempotencyKeyRepository {
+  // Stores the record unless an unexpired one holds its key; false when one does
+  claim(record: IdempotencyKeyEntity): Promise<boolean>;
+  findByKey(principal: string, key: string): Promise<IdempotencyKeyEntity | null>;
+  // Stores the response and the new expiry of a claimed record
+  complete(record: IdempotencyKeyEntity): Promise<void>;
+  // Gives the key up so a retry can run the request again
+  release(principal: string, key: string): Promise<void>;
+  deleteExpired(now: Date): Promise<number>;
+}
+
+export const IIdempotencyKeyRepository = Symbol("IIdempotencyKeyRepository");
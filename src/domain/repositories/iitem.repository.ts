@@ -0,0 +1,12 @@
+import { ItemEntity } from "../entities/item";
+
+export interface IItemRepository {
+  findById(id: string): Promise<ItemEntity | null>;
+  findByIds(ids: string[]): Promise<ItemEntity[]>;
+  findBySku(sku: string): Promise<ItemEntity | null>;
+  save(item: ItemEntity): Promise<void>;
+  delete(id: string): Promise<void>;
+  findAll(): Promise<ItemEntity[]>;
+}
+
+export const IItemRepository = Symbol("IItemRepository");
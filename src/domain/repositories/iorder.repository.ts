@@ -1,9 +1,34 @@
 import { OrderEntity } from "../entities/order";
+import type {
+  OrderStatus,
+  OrderStatusChange,
+  Page,
+  PageRequest,
+  StatusChangeContext,
+} from "../vo";
+
+// Total sorts by the reporting currency total, the one amount all orders share a currency for
+export type OrderSortField = "createdAt" | "updatedAt" | "total";
+
+export interface OrderListFilter {
+  status?: OrderStatus[];
+  userId?: string;
+  createdFrom?: Date; // Inclusive
+  createdTo?: Date; // Exclusive
+}
 
 export interface IOrderRepository {
   findById(id: string): Promise<OrderEntity | null>;
   findByUserId(userId: string): Promise<OrderEntity[]>;
-  save(order: OrderEntity): Promise<void>;
+  existsForUser(userId: string): Promise<boolean>;
+  // Whether any order has a line for the catalog item
+  existsForItem(itemId: string): Promise<boolean>;
+  // Records a status history entry when the status differs from the stored one. Answers the
+  // order under its new version; VersionConflictError when the stored one moved on since it was read
+  save(order: OrderEntity, context?: StatusChangeContext): Promise<OrderEntity>;
   delete(id: string): Promise<void>;
-  findAll(): Promise<OrderEntity[]>;
+  findPage(filter: OrderListFilter, page: PageRequest<OrderSortField>): Promise<Page<OrderEntity>>;
+  findStatusHistory(orderId: string): Promise<OrderStatusChange[]>;
 }
+
+export const IOrderRepository = Symbol("IOrderRepository");
@@ -0,0 +1,21 @@
+import type { DomainEvent } from "../events/domain-event";
+
+// An event the dispatcher took from the outbox, with the deliveries tried before
+export interface PendingEvent {
+  event: DomainEvent;
+  attempts: number;
+}
+
+export interface IOutboxRepository {
+  /**
+   * Takes up to `limit` undelivered events that are due, oldest first, and
+   * holds them for `leaseMs` so other dispatchers pass them over. Events
+   * whose dispatcher died become due again once the lease runs out.
+   */
+  claimPending(limit: number, now: Date, leaseMs: number): Promise<PendingEvent[]>;
+  markDispatched(id: string, at: Date): Promise<void>;
+  // Counts the failed attempt and leaves the event for a retry at `retryAt`
+  markFailed(id: string, error: string, retryAt: Date): Promise<void>;
+}
+
+export const IOutboxRepository = Symbol("IOutboxRepository");
@@ -0,0 +1,25 @@
+import { PasswordCredentialEntity } from "../entities/password-credential";
+import { UserEntity } from "../entities/user";
+
+export interface IPasswordCredentialRepository {
+  findByUserId(userId: string): Promise<PasswordCredentialEntity | null>;
+  save(credential: PasswordCredentialEntity): Promise<void>;
+  /**
+   * Counts a wrong password in one statement, so concurrent failures all count
+   * and a password set in the meantime is left alone. Reaching the limit locks
+   * the account for the lockout duration and starts the count again for when
+   * it ends. Answers the credential as it now stands.
+   */
+  recordFailure(
+    userId: string,
+    maxAttempts: number,
+    lockoutMs: number,
+    now: Date,
+  ): Promise<PasswordCredentialEntity | null>;
+  // Clears the failure count and any lock, also without touching the password
+  clearFailures(userId: string, now: Date): Promise<void>;
+  // Inserts the user and their password together, so no user is left without one; ConflictError when the email is taken
+  saveWithUser(user: UserEntity, credential: PasswordCredentialEntity): Promise<void>;
+}
+
+export const IPasswordCredentialRepository = Symbol("IPasswordCredentialRepository");
@@ -0,0 +1,13 @@
+import { RefreshTokenEntity } from "../entities/refresh-token";
+
+export interface IRefreshTokenRepository {
+  findByHash(tokenHash: string): Promise<RefreshTokenEntity | null>;
+  save(token: RefreshTokenEntity): Promise<void>;
+  // Revokes the token unless it already was; false means another request got there first
+  revoke(id: string, replacedBy: string | null, at: Date): Promise<boolean>;
+  revokeFamily(familyId: string, at: Date): Promise<void>;
+  // Ends every session of the user
+  revokeAllForUser(userId: string, at: Date): Promise<void>;
+}
+
+export const IRefreshTokenRepository = Symbol("IRefreshTokenRepository");
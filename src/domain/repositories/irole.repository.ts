@@ -0,0 +1,8 @@
+import type { Permission } from "../vo/Permission";
+import type { Role } from "../vo/Role";
+
+export interface IRoleRepository {
+  findPermissions(role: Role): Promise<Permission[]>;
+}
+
+export const IRoleRepository = Symbol("IRoleRepository");
@@ -0,0 +1,15 @@
+import { TaxRateEntity } from "../entities/tax-rate";
+import type { TaxCategory, TaxJurisdiction } from "../vo";
+
+export interface ITaxRateRepository {
+  findById(id: string): Promise<TaxRateEntity | null>;
+  findAll(): Promise<TaxRateEntity[]>;
+  // Rates of every jurisdiction level matching the given one, in effect on the date
+  findEffective(jurisdiction: TaxJurisdiction, date: Date): Promise<TaxRateEntity[]>;
+  // All versions for one jurisdiction and category, used for overlap checks
+  findByKey(jurisdiction: TaxJurisdiction, category: TaxCategory): Promise<TaxRateEntity[]>;
+  save(taxRate: TaxRateEntity): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export const ITaxRateRepository = Symbol("ITaxRateRepository");
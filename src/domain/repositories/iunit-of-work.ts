@@ -0,0 +1,9 @@
+/**
+ * Runs several repository calls atomically: every call made while the work
+ * runs joins one transaction, which commits when the work resolves and rolls
+ * back when it throws, domain errors included. Runs nested inside another
+ * join the outer one.
+ */
+export interface IUnitOfWork {
+  run<T>(work: () => Promise<T>): Promise<T>;
+}
@@ -0,0 +1,13 @@
+import { UserTokenEntity } from "../entities/user-token";
+import { UserTokenPurpose } from "../vo/UserTokenPurpose";
+
+export interface IUserTokenRepository {
+  findByHash(purpose: UserTokenPurpose, tokenHash: string): Promise<UserTokenEntity | null>;
+  save(token: UserTokenEntity): Promise<void>;
+  // Marks the token used unless it already was; false means another request got there first
+  consume(id: string, at: Date): Promise<boolean>;
+  // Marks every unused token of the user for the purpose as used, so only a newer one works
+  invalidate(userId: string, purpose: UserTokenPurpose, at: Date): Promise<void>;
+}
+
+export const IUserTokenRepository = Symbol("IUserTokenRepository");
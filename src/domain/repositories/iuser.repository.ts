@@ -1,11 +1,42 @@
+import { AuditEntryEntity } from "../entities/audit-entry";
 import { UserEntity } from "../entities/user";
+import type { Page, PageRequest } from "../vo";
+
+export type UserSortField = "createdAt" | "email" | "name";
+
+export interface UserListFilter {
+  emailPrefix?: string; // Case-insensitive
+  deleted?: boolean; // Lists the soft-deleted users instead of the active ones
+}
+
+// Soft-deleted users are left out of lookups unless asked for
+export interface UserLookupOptions {
+  includeDeleted?: boolean;
+  // Locks the row until the unit of work ends: "share" stops others changing it, "update" stops them locking it too
+  lock?: "share" | "update";
+}
 
 export interface IUserRepository {
-  findById(id: string): Promise<UserEntity | null>;
-  findByEmail(email: string): Promise<UserEntity | null>;
-  save(user: UserEntity): Promise<void>;
+  findById(id: string, options?: UserLookupOptions): Promise<UserEntity | null>;
+  // Pass includeDeleted to check uniqueness, deleted users keep their address until purged
+  findByEmail(email: string, options?: UserLookupOptions): Promise<UserEntity | null>;
+  /**
+   * Inserts new users and updates stored ones, never changing the email, which
+   * only changeEmail does. Answers the user under its new version, and throws
+   * VersionConflictError when the stored one moved on since the user was read.
+   */
+  save(user: UserEntity): Promise<UserEntity>;
+  // Stores the new email together with its audit entry; ConflictError when another user took it or the version is stale
+  changeEmail(user: UserEntity, audit: AuditEntryEntity): Promise<UserEntity>;
+  /**
+   * Stores the pseudonymized user and, together with the audit entry, drops
+   * their password, sessions and emailed tokens and empties the details of the
+   * audit entries about them. Orders are left alone.
+   */
+  erase(user: UserEntity, audit: AuditEntryEntity): Promise<void>;
   delete(id: string): Promise<void>;
-  findAll(): Promise<UserEntity[]>;
+  findDeletedBefore(cutoff: Date): Promise<UserEntity[]>;
+  findPage(filter: UserListFilter, page: PageRequest<UserSortField>): Promise<Page<UserEntity>>;
 }
 
 export const IUserRepository = Symbol("IUserRepository");
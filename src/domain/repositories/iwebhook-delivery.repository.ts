@@ -0,0 +1,29 @@
+import { WebhookDeliveryEntity } from "../entities/webhook-delivery";
+import type { Page, PageRequest, WebhookDeliveryStatus } from "../vo";
+
+export type WebhookDeliverySortField = "createdAt";
+
+export interface WebhookDeliveryListFilter {
+  subscriptionId: string;
+  status?: WebhookDeliveryStatus;
+}
+
+export interface IWebhookDeliveryRepository {
+  findById(id: string): Promise<WebhookDeliveryEntity | null>;
+  findPage(
+    filter: WebhookDeliveryListFilter,
+    page: PageRequest<WebhookDeliverySortField>,
+  ): Promise<Page<WebhookDeliveryEntity>>;
+  // Skips deliveries already scheduled for the same subscription and event, so a redelivered event is sent once
+  schedule(deliveries: WebhookDeliveryEntity[]): Promise<void>;
+  /**
+   * Takes up to `limit` pending deliveries that are due, oldest first, and
+   * holds them for `leaseMs` so other dispatchers pass them over.
+   */
+  claimDue(limit: number, now: Date, leaseMs: number): Promise<WebhookDeliveryEntity[]>;
+  save(delivery: WebhookDeliveryEntity): Promise<void>;
+  // Removes delivered and dead deliveries scheduled before `before`, answering how many
+  deleteSettledBefore(before: Date): Promise<number>;
+}
+
+export const IWebhookDeliveryRepository = Symbol("IWebhookDeliveryRepository");
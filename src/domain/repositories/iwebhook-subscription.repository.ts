@@ -0,0 +1,14 @@
+import { WebhookSubscriptionEntity } from "../entities/webhook-subscription";
+import type { DomainEventType } from "../events/domain-event";
+
+export interface IWebhookSubscriptionRepository {
+  findById(id: string): Promise<WebhookSubscriptionEntity | null>;
+  findByOwner(owner: string): Promise<WebhookSubscriptionEntity[]>;
+  // Subscriptions to the event type that receive events about the user: theirs and the unscoped ones
+  findForEvent(type: DomainEventType, userId: string | null): Promise<WebhookSubscriptionEntity[]>;
+  save(subscription: WebhookSubscriptionEntity): Promise<void>;
+  // Takes the subscription's deliveries with it
+  delete(id: string): Promise<void>;
+}
+
+export const IWebhookSubscriptionRepository = Symbol("IWebhookSubscriptionRepository");
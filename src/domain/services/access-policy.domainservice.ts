@@ -0,0 +1,46 @@
+import type { OwnedAction, Principal } from "vo";
+import { Permission } from "vo";
+import { ForbiddenError } from "../errors";
+
+export class AccessPolicy {
+  static has(principal: Principal, permission: Permission): boolean {
+    return principal.permissions.includes(permission);
+  }
+
+  /**
+   * Owned actions are allowed with the ":any" grant, or with ":own" when the
+   * principal is the user owning the resource. API keys never own anything.
+   */
+  static can(principal: Principal, action: OwnedAction, ownerId: string): boolean {
+    if (this.has(principal, `${action}:any` as Permission)) return true;
+    return (
+      this.has(principal, `${action}:own` as Permission) &&
+      principal.type === "user" &&
+      principal.id === ownerId
+    );
+  }
+
+  static assert(principal: Principal, permission: Permission): void {
+    if (!this.has(principal, permission)) {
+      throw new ForbiddenError(permission);
+    }
+  }
+
+  static assertCan(principal: Principal, action: OwnedAction, ownerId: string): void {
+    if (!this.can(principal, action, ownerId)) {
+      throw new ForbiddenError(action);
+    }
+  }
+
+  /**
+   * Whose resources a listing may show: undefined for everyone's, or the
+   * principal's own id when they may only see their own.
+   */
+  static listScope(principal: Principal, action: OwnedAction): string | undefined {
+    if (this.has(principal, `${action}:any` as Permission)) return undefined;
+    if (this.has(principal, `${action}:own` as Permission) && principal.type === "user") {
+      return principal.id;
+    }
+    throw new ForbiddenError(action);
+  }
+}
@@ -0,0 +1,100 @@
+import type { DiscountRuleEntity, OrderEntity } from "entities";
+import { DiscountType, Money } from "vo";
+import type { AppliedDiscount, DiscountResult } from "vo";
+
+export class DiscountDomainService {
+  /**
+   * Tries rules from the highest priority down. The first rule that fires always
+   * applies; later rules only join it while every rule involved is stackable.
+   * Each discount comes off what the earlier ones left, so the total never goes
+   * below zero.
+   */
+  static applyRules(
+    order: OrderEntity,
+    rules: DiscountRuleEntity[],
+    at: Date = order.createdAt,
+  ): DiscountResult {
+    const ordered = [...rules].sort(
+      (a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+
+    const discounts: AppliedDiscount[] = [];
+    const applied: DiscountRuleEntity[] = [];
+    let remaining = order.total;
+
+    for (const rule of ordered) {
+      if (!this.isEligible(rule, order, at)) continue;
+      if (applied.length > 0 && (!rule.stackable || !applied.every((r) => r.stackable))) continue;
+
+      const amount = this.cap(this.calculateAmount(rule, order, remaining), remaining);
+      if (amount.isZero()) continue;
+
+      applied.push(rule);
+      discounts.push({
+        ruleId: rule.id,
+        name: rule.name,
+        type: rule.type,
+        couponCode: rule.couponCode,
+        amount,
+      });
+      remaining = remaining.subtract(amount);
+    }
+
+    return {
+      discounts,
+      totalDiscount: order.total.subtract(remaining),
+      finalTotal: remaining,
+    };
+  }
+
+  static isEligible(rule: DiscountRuleEntity, order: OrderEntity, at: Date): boolean {
+    if (!rule.isValidAt(at)) return false;
+    if (rule.currency && rule.currency !== order.currency) return false;
+    if (rule.couponCode && !order.couponCodes.includes(rule.couponCode)) return false;
+    if (rule.minimumTotal && order.total.lessThan(rule.minimumTotal)) return false;
+    return true;
+  }
+
+  // Amounts are worked out on tax-inclusive line totals, like the order total
+  static calculateAmount(
+    rule: DiscountRuleEntity,
+    order: OrderEntity,
+    remaining: Money,
+  ): Money {
+    const zero = Money.zero(order.currency);
+
+    switch (rule.type) {
+      case DiscountType.PERCENTAGE:
+        return remaining.percentage(rule.percentage!);
+
+      case DiscountType.FIXED_AMOUNT:
+        return rule.amount!;
+
+      case DiscountType.CATEGORY: {
+        const categoryTotal = Money.sum(
+          order.items.map((item, i) =>
+            item.category === rule.category ? order.tax.lines[i].grossAmount : zero,
+          ),
+          order.currency,
+        );
+        return categoryTotal.percentage(rule.percentage!);
+      }
+
+      case DiscountType.BUY_X_GET_Y: {
+        const bundle = rule.buyQuantity! + rule.getQuantity!;
+        return Money.sum(
+          order.items.map((item, i) => {
+            if (rule.productId && item.productId !== rule.productId) return zero;
+            const freeUnits = Math.floor(item.quantity / bundle) * rule.getQuantity!;
+            return order.tax.lines[i].grossAmount.multiply(freeUnits).divide(item.quantity);
+          }),
+          order.currency,
+        );
+      }
+    }
+  }
+
+  private static cap(amount: Money, remaining: Money): Money {
+    return amount.greaterThan(remaining) ? remaining : amount;
+  }
+}
@@ -0,0 +1,104 @@
+import type {
+  OrderItem,
+  TaxBreakdown,
+  TaxJurisdiction,
+  TaxLine,
+  TaxRate,
+} from "vo";
+import { Money, PricingMode, TaxCategory } from "vo";
+import { ValidationFailedError } from "../errors";
+
+export class TaxDomainService {
+  /**
+   * A rate applies when every level it names (country, state, city) matches
+   * the jurisdiction. Levels the rate leaves out act as wildcards.
+   */
+  static appliesTo(rate: TaxRate, jurisdiction: TaxJurisdiction): boolean {
+    const same = (a?: string, b?: string) =>
+      a?.trim().toLowerCase() === b?.trim().toLowerCase();
+
+    if (!same(rate.jurisdiction.country, jurisdiction.country)) return false;
+    if (rate.jurisdiction.state && !same(rate.jurisdiction.state, jurisdiction.state)) return false;
+    if (rate.jurisdiction.city && !same(rate.jurisdiction.city, jurisdiction.city)) return false;
+    return true;
+  }
+
+  /**
+   * Combined rate for a category: country, state and city rates stack, so a
+   * US city sales tax is added on top of the state rate.
+   */
+  static resolveRate(
+    category: TaxCategory,
+    jurisdiction: TaxJurisdiction,
+    rates: TaxRate[],
+  ): number {
+    if (category === TaxCategory.EXEMPT) return 0;
+
+    const combined = rates
+      .filter((rate) => rate.category === category && this.appliesTo(rate, jurisdiction))
+      .reduce((sum, rate) => sum + rate.rate, 0);
+
+    return Math.round(combined * 1e6) / 1e6;
+  }
+
+  static calculateLineTax(
+    item: OrderItem,
+    rate: number,
+    pricingMode: PricingMode,
+  ): TaxLine {
+    // Tax is rounded half up per line, totals are the sum of rounded lines
+    const lineAmount = item.price.multiply(item.quantity);
+    const taxCategory = item.taxCategory ?? TaxCategory.STANDARD;
+
+    if (pricingMode === PricingMode.TAX_INCLUSIVE) {
+      const netAmount = lineAmount.divide(1 + rate);
+      return {
+        productId: item.productId,
+        taxCategory,
+        rate,
+        netAmount,
+        taxAmount: lineAmount.subtract(netAmount),
+        grossAmount: lineAmount,
+      };
+    }
+
+    const taxAmount = lineAmount.multiply(rate);
+    return {
+      productId: item.productId,
+      taxCategory,
+      rate,
+      netAmount: lineAmount,
+      taxAmount,
+      grossAmount: lineAmount.add(taxAmount),
+    };
+  }
+
+  static calculateOrderTax(
+    items: OrderItem[],
+    jurisdiction: TaxJurisdiction,
+    rates: TaxRate[],
+    pricingMode: PricingMode = PricingMode.TAX_EXCLUSIVE,
+  ): TaxBreakdown {
+    if (!items.length) {
+      throw new ValidationFailedError("Cannot calculate tax for an order without items");
+    }
+
+    const currency = items[0].price.currency;
+    const lines = items.map((item) =>
+      this.calculateLineTax(
+        item,
+        this.resolveRate(item.taxCategory ?? TaxCategory.STANDARD, jurisdiction, rates),
+        pricingMode,
+      ),
+    );
+
+    return {
+      jurisdiction,
+      pricingMode,
+      lines,
+      netTotal: Money.sum(lines.map((line) => line.netAmount), currency),
+      taxTotal: Money.sum(lines.map((line) => line.taxAmount), currency),
+      grossTotal: Money.sum(lines.map((line) => line.grossAmount), currency),
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import type { DiscountType } from "./DiscountType.ts";
+import type { Money } from "./Money.ts";
+
+export interface AppliedDiscount {
+  ruleId: string;
+  name: string;
+  type: DiscountType;
+  couponCode: string | null;
+  amount: Money; // What the rule saved
+}
+
+export interface DiscountResult {
+  discounts: AppliedDiscount[]; // In the order the rules were applied
+  totalDiscount: Money;
+  finalTotal: Money;
+}
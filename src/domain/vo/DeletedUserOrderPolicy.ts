@@ -0,0 +1,6 @@
+// What deleting a user means for the orders they placed
+export enum DeletedUserOrderPolicy {
+  BLOCK = "block", // Users with orders cannot be deleted
+  ANONYMIZE = "anonymize", // Purging keeps the orders and strips the user down to an anonymous id
+  KEEP = "keep", // Purging skips users with orders, who stay soft-deleted with their data
+}
@@ -0,0 +1,6 @@
+export enum DiscountType {
+  PERCENTAGE = "percentage", // Percentage off the order
+  FIXED_AMOUNT = "fixed_amount", // Fixed amount off the order
+  BUY_X_GET_Y = "buy_x_get_y", // Every buy + get units of a product, get units are free
+  CATEGORY = "category", // Percentage off items of one catalog category
+}
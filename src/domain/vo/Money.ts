@@ -0,0 +1,286 @@
+import { RoundingMode } from "./RoundingMode.ts";
+import { ValidationFailedError } from "../errors/index.ts";
+
+// ISO 4217 currencies whose minor unit is not the cent
+const MINOR_UNIT_DIGITS: Record<string, number> = {
+  BHD: 3,
+  CLP: 0,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  UGX: 0,
+  VND: 0,
+};
+
+/**
+ * An amount of money held as an integer count of the currency's minor unit
+ * (cents for USD), so arithmetic never drifts the way binary floats do.
+ * Operations that can produce fractions of a minor unit take a rounding mode.
+ */
+export class Money {
+  private constructor(
+    public readonly minorUnits: number,
+    public readonly currency: string,
+  ) {}
+
+  static of(minorUnits: number, currency: string): Money {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new Error("Money must be a whole number of minor units");
+    }
+    return new Money(minorUnits, Money.normalizeCurrency(currency));
+  }
+
+  static zero(currency: string): Money {
+    return Money.of(0, currency);
+  }
+
+  /**
+   * Parses a decimal amount such as "12.34". Amounts finer than the currency's
+   * minor unit are rejected unless a rounding mode is given.
+   */
+  static fromDecimal(
+    amount: string | number,
+    currency: string,
+    rounding?: RoundingMode,
+  ): Money {
+    const code = Money.normalizeCurrency(currency);
+    const [numerator, denominator] = toFraction(amount);
+    const scaled = numerator * 10n ** BigInt(Money.minorDigits(code));
+
+    if (scaled % denominator !== 0n && !rounding) {
+      throw new ValidationFailedError(`Amount ${amount} is more precise than ${code} allows`);
+    }
+
+    return Money.of(
+      Number(divide(scaled, denominator, rounding ?? RoundingMode.HALF_UP)),
+      code,
+    );
+  }
+
+  static sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.zero(currency));
+  }
+
+  static minorDigits(currency: string): number {
+    return MINOR_UNIT_DIGITS[currency.toUpperCase()] ?? 2;
+  }
+
+  private static normalizeCurrency(currency: string): string {
+    const code = currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new ValidationFailedError(`Invalid currency code: ${currency}`);
+    }
+    return code;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.minorUnits - other.minorUnits, this.currency);
+  }
+
+  multiply(factor: number, rounding: RoundingMode = RoundingMode.HALF_UP): Money {
+    const [numerator, denominator] = toFraction(factor);
+    return Money.of(
+      Number(divide(BigInt(this.minorUnits) * numerator, denominator, rounding)),
+      this.currency,
+    );
+  }
+
+  divide(divisor: number, rounding: RoundingMode = RoundingMode.HALF_UP): Money {
+    const [numerator, denominator] = toFraction(divisor);
+    if (numerator === 0n) {
+      throw new Error("Cannot divide money by zero");
+    }
+    return Money.of(
+      Number(divide(BigInt(this.minorUnits) * denominator, numerator, rounding)),
+      this.currency,
+    );
+  }
+
+  // percentage(12.5) is 12.5% of this amount
+  percentage(percent: number, rounding: RoundingMode = RoundingMode.HALF_UP): Money {
+    const [numerator, denominator] = toFraction(percent);
+    return Money.of(
+      Number(divide(BigInt(this.minorUnits) * numerator, denominator * 100n, rounding)),
+      this.currency,
+    );
+  }
+
+  /**
+   * Converts into another currency at `rate` units of it per unit of this one,
+   * accounting for currencies with a different number of minor digits.
+   */
+  convert(currency: string, rate: number, rounding: RoundingMode = RoundingMode.HALF_UP): Money {
+    const target = Money.normalizeCurrency(currency);
+    if (rate <= 0) {
+      throw new ValidationFailedError("Exchange rate must be positive");
+    }
+
+    const [numerator, denominator] = toFraction(rate);
+    const shift = Money.minorDigits(target) - Money.minorDigits(this.currency);
+    const scaled = BigInt(this.minorUnits) * numerator * 10n ** BigInt(Math.max(shift, 0));
+    const divisor = denominator * 10n ** BigInt(Math.max(-shift, 0));
+    return Money.of(Number(divide(scaled, divisor, rounding)), target);
+  }
+
+  /**
+   * Splits the amount in proportion to the ratios without losing a minor unit:
+   * leftover units go to the shares with the largest remainders, earliest first.
+   */
+  allocate(ratios: number[]): Money[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (ratios.length === 0 || ratios.some((ratio) => ratio < 0) || total <= 0) {
+      throw new Error("Allocation ratios must be non-negative and not all zero");
+    }
+
+    const exact = ratios.map((ratio) => (this.minorUnits * ratio) / total);
+    const shares = exact.map((share) => Math.trunc(share));
+    let remainder = this.minorUnits - shares.reduce((sum, share) => sum + share, 0);
+    const step = Math.sign(remainder);
+
+    const byRemainder = exact
+      .map((share, index) => ({ index, fraction: Math.abs(share - shares[index]) }))
+      .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+    for (const { index } of byRemainder) {
+      if (remainder === 0) break;
+      shares[index] += step;
+      remainder -= step;
+    }
+
+    return shares.map((share) => Money.of(share, this.currency));
+  }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return Math.sign(this.minorUnits - other.minorUnits);
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  toDecimalString(): string {
+    const digits = Money.minorDigits(this.currency);
+    const sign = this.minorUnits < 0 ? "-" : "";
+    const units = Math.abs(this.minorUnits).toString().padStart(digits + 1, "0");
+    if (digits === 0) {
+      return `${sign}${units}`;
+    }
+    return `${sign}${units.slice(0, -digits)}.${units.slice(-digits)}`;
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  // Amounts go over the wire as strings so clients never parse them into floats
+  toJSON() {
+    return {
+      amount: this.toDecimalString(),
+      currency: this.currency,
+    };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Cannot combine ${this.currency} and ${other.currency} amounts`);
+    }
+  }
+}
+
+// Exact numerator/denominator for a decimal such as "12.34", 0.0725 or 1e-7
+function toFraction(value: string | number): [bigint, bigint] {
+  const text = typeof value === "number" ? value.toString() : value.trim();
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (!match[2] && !match[3]) || (typeof value === "number" && !Number.isFinite(value))) {
+    throw new ValidationFailedError(`Invalid amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = "", exponent = "0"] = match;
+  let numerator = BigInt(`${whole || "0"}${fraction}`);
+  let denominator = 10n ** BigInt(fraction.length);
+  const shift = Number(exponent);
+  if (shift >= 0) {
+    numerator *= 10n ** BigInt(shift);
+  } else {
+    denominator *= 10n ** BigInt(-shift);
+  }
+
+  return [sign === "-" ? -numerator : numerator, denominator];
+}
+
+function divide(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+  if (denominator < 0n) {
+    return divide(-numerator, -denominator, rounding);
+  }
+
+  const negative = numerator < 0n;
+  const magnitude = negative ? -numerator : numerator;
+  const quotient = magnitude / denominator;
+  const remainder = magnitude % denominator;
+
+  if (remainder === 0n) {
+    return negative ? -quotient : quotient;
+  }
+
+  const twice = remainder * 2n;
+  let awayFromZero: boolean;
+  switch (rounding) {
+    case RoundingMode.UP:
+      awayFromZero = true;
+      break;
+    case RoundingMode.DOWN:
+      awayFromZero = false;
+      break;
+    case RoundingMode.CEILING:
+      awayFromZero = !negative;
+      break;
+    case RoundingMode.FLOOR:
+      awayFromZero = negative;
+      break;
+    case RoundingMode.HALF_UP:
+      awayFromZero = twice >= denominator;
+      break;
+    case RoundingMode.HALF_DOWN:
+      awayFromZero = twice > denominator;
+      break;
+    case RoundingMode.HALF_EVEN:
+      awayFromZero = twice > denominator || (twice === denominator && quotient % 2n === 1n);
+      break;
+  }
+
+  const rounded = awayFromZero ? quotient + 1n : quotient;
+  return negative ? -rounded : rounded;
+}
@@ -1,6 +1,11 @@
+import type { Money } from "./Money.ts";
+import type { TaxCategory } from "./TaxCategory.ts";
+
 export interface OrderItem {
   productId: string;
   productName: string;
   quantity: number;
-  price: number;
+  price: Money; // Unit price
+  taxCategory?: TaxCategory; // Defaults to TaxCategory.STANDARD
+  category?: string | null; // Catalog category, used by category discounts
 }
@@ -0,0 +1,15 @@
+import type { OrderStatus } from "./OrderStatus.ts";
+
+export interface OrderStatusChange {
+  fromStatus: OrderStatus | null; // Null when the order was created
+  toStatus: OrderStatus;
+  changedAt: Date;
+  actor: string;
+  reason: string | null;
+}
+
+// Who made a change and why, supplied by the caller of a save
+export interface StatusChangeContext {
+  actor: string;
+  reason?: string;
+}
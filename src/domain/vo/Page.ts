@@ -0,0 +1,21 @@
+export type SortOrder = "asc" | "desc";
+
+// Forward follows nextCursor, backward follows prevCursor
+export type PageDirection = "forward" | "backward";
+
+export interface PageRequest<TSort extends string = string> {
+  limit: number;
+  cursor?: string; // Opaque, as returned in a previous page
+  direction: PageDirection;
+  sortBy: TSort;
+  sortOrder: SortOrder;
+}
+
+export interface Page<T> {
+  data: T[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
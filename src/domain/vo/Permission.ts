@@ -0,0 +1,43 @@
+// Actions that apply to a resource someone owns; each is granted as ":own" or ":any"
+export type OwnedAction =
+  | "users:read"
+  | "users:update"
+  | "users:export"
+  | "orders:read"
+  | "orders:create"
+  | "orders:cancel"
+  | "webhooks:manage";
+
+export enum Permission {
+  USERS_CREATE = "users:create",
+  USERS_READ_OWN = "users:read:own",
+  USERS_READ_ANY = "users:read:any",
+  USERS_UPDATE_OWN = "users:update:own",
+  USERS_UPDATE_ANY = "users:update:any",
+  USERS_DELETE = "users:delete",
+  USERS_EXPORT_OWN = "users:export:own",
+  USERS_EXPORT_ANY = "users:export:any",
+  USERS_ERASE = "users:erase",
+  USERS_ASSIGN_ROLE = "users:assign-role",
+  ORDERS_CREATE_OWN = "orders:create:own",
+  ORDERS_CREATE_ANY = "orders:create:any",
+  ORDERS_READ_OWN = "orders:read:own",
+  ORDERS_READ_ANY = "orders:read:any",
+  ORDERS_CANCEL_OWN = "orders:cancel:own",
+  ORDERS_CANCEL_ANY = "orders:cancel:any",
+  ORDERS_CONFIRM = "orders:confirm",
+  ORDERS_PROCESS = "orders:process",
+  ORDERS_SHIP = "orders:ship",
+  ORDERS_DELIVER = "orders:deliver",
+  ORDERS_COMPLETE = "orders:complete",
+  ORDERS_REFUND = "orders:refund",
+  WEBHOOKS_MANAGE_OWN = "webhooks:manage:own",
+  WEBHOOKS_MANAGE_ANY = "webhooks:manage:any",
+  CATALOG_MANAGE = "catalog:manage",
+  TAX_RATES_MANAGE = "tax-rates:manage",
+  DISCOUNTS_MANAGE = "discounts:manage",
+}
+
+const PERMISSIONS = new Set<string>(Object.values(Permission));
+
+export const isPermission = (value: string): value is Permission => PERMISSIONS.has(value);
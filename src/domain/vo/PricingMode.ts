@@ -0,0 +1,4 @@
+export enum PricingMode {
+  TAX_EXCLUSIVE = "exclusive", // Item prices are net, tax is added on top
+  TAX_INCLUSIVE = "inclusive", // Item prices already contain tax
+}
@@ -0,0 +1,14 @@
+import type { Permission } from "./Permission.ts";
+import type { Role } from "./Role.ts";
+
+// Who a request was authenticated as, and what their role lets them do
+export interface Principal {
+  type: "user" | "api_key";
+  id: string; // User id or API key id
+  role: Role;
+  permissions: readonly Permission[];
+}
+
+// How the principal appears in audit trails such as the order status history
+export const principalLabel = (principal: Pick<Principal, "type" | "id">): string =>
+  `${principal.type}:${principal.id}`;
@@ -0,0 +1,5 @@
+export enum Role {
+  CUSTOMER = "customer",
+  STAFF = "staff",
+  ADMIN = "admin",
+}
@@ -0,0 +1,9 @@
+export enum RoundingMode {
+  UP = "up", // Away from zero
+  DOWN = "down", // Towards zero
+  CEILING = "ceiling",
+  FLOOR = "floor",
+  HALF_UP = "half_up",
+  HALF_DOWN = "half_down",
+  HALF_EVEN = "half_even", // Banker's rounding
+}
@@ -0,0 +1,6 @@
+// A response kept for an idempotent request, so retries get the same answer
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
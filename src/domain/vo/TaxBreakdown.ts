@@ -0,0 +1,22 @@
+import type { Money } from "./Money.ts";
+import type { PricingMode } from "./PricingMode.ts";
+import type { TaxCategory } from "./TaxCategory.ts";
+import type { TaxJurisdiction } from "./TaxJurisdiction.ts";
+
+export interface TaxLine {
+  productId: string;
+  taxCategory: TaxCategory;
+  rate: number; // Combined rate of every matching jurisdiction level
+  netAmount: Money;
+  taxAmount: Money;
+  grossAmount: Money;
+}
+
+export interface TaxBreakdown {
+  jurisdiction: TaxJurisdiction;
+  pricingMode: PricingMode;
+  lines: TaxLine[];
+  netTotal: Money;
+  taxTotal: Money;
+  grossTotal: Money;
+}
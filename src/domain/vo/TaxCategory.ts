@@ -0,0 +1,6 @@
+export enum TaxCategory {
+  STANDARD = "standard",
+  REDUCED = "reduced",
+  ZERO = "zero",
+  EXEMPT = "exempt",
+}
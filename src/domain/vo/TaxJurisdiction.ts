@@ -0,0 +1,5 @@
+export interface TaxJurisdiction {
+  country: string; // ISO 3166-1 alpha-2 code
+  state?: string;
+  city?: string;
+}
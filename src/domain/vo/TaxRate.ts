@@ -0,0 +1,8 @@
+import type { TaxCategory } from "./TaxCategory.ts";
+import type { TaxJurisdiction } from "./TaxJurisdiction.ts";
+
+export interface TaxRate {
+  jurisdiction: TaxJurisdiction; // Omitted state/city means the rate applies at country/state level
+  category: TaxCategory;
+  rate: number; // Fraction, e.g. 0.2 for 20%
+}
@@ -0,0 +1,6 @@
+// What a one-time token emailed to a user lets its holder do
+export enum UserTokenPurpose {
+  EMAIL_VERIFICATION = "email_verification",
+  PASSWORD_RESET = "password_reset",
+  EMAIL_CHANGE = "email_change",
+}
@@ -0,0 +1,14 @@
+// Pending deliveries are retried until they succeed or run out of attempts and go dead
+export enum WebhookDeliveryStatus {
+  PENDING = "pending",
+  DELIVERED = "delivered",
+  DEAD = "dead",
+}
+
+// One try at posting a delivery to its subscriber
+export interface WebhookAttempt {
+  attemptedAt: Date;
+  statusCode: number | null; // Null when no response came back
+  error: string | null; // Why the attempt failed, null when it succeeded
+  durationMs: number;
+}
@@ -1,2 +1,20 @@
+export * from "./AppliedDiscount.ts";
+export * from "./DeletedUserOrderPolicy.ts";
+export * from "./DiscountType.ts";
+export * from "./Money.ts";
 export * from "./OrderItem.ts";
 export * from "./OrderStatus.ts";
+export * from "./OrderStatusChange.ts";
+export * from "./Page.ts";
+export * from "./Permission.ts";
+export * from "./PricingMode.ts";
+export * from "./Principal.ts";
+export * from "./Role.ts";
+export * from "./RoundingMode.ts";
+export * from "./StoredResponse.ts";
+export * from "./TaxBreakdown.ts";
+export * from "./TaxCategory.ts";
+export * from "./TaxJurisdiction.ts";
+export * from "./TaxRate.ts";
+export * from "./UserTokenPurpose.ts";
+export * from "./WebhookDelivery.ts";
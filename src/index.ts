@@ -1,8 +1,26 @@
 import "reflect-metadata";
 import { serve } from "@hono/node-server";
 import { Hono } from "hono";
+import { container } from "tsyringe";
 import routes from "./application/routes";
+import { handleError, handleNotFound } from "./application/middleware/problem-details";
 import "./infrastructure/database/container";
+import { DATABASE_TOKEN } from "./infrastructure/database/connection";
+import { checkSchema } from "./infrastructure/database/schema-check";
+import type { Database } from "./infrastructure/database/schema";
+import { USER_LIFECYCLE_CONFIG_TOKEN } from "./infrastructure/users/config";
+import type { UserLifecycleConfig } from "./infrastructure/users/config";
+import { UserPurgeService } from "./application/service/user-purge.service";
+import { IdempotencyService } from "./application/service/idempotency.service";
+import { OutboxDispatcher } from "./application/service/outbox-dispatcher.service";
+import { OUTBOX_CONFIG_TOKEN } from "./infrastructure/outbox/config";
+import type { OutboxConfig } from "./infrastructure/outbox/config";
+import { EventBus } from "./application/service/event-bus";
+import { WebhookService } from "./application/service/webhook.service";
+import { WebhookDispatcher } from "./application/service/webhook-dispatcher.service";
+import { WEBHOOK_CONFIG_TOKEN } from "./infrastructure/webhooks/config";
+import type { WebhookConfig } from "./infrastructure/webhooks/config";
+import { DomainEventType } from "./domain/events/domain-event";
 
 // Export database types and schema for use throughout the application
 export { schema } from "./infrastructure/database/schema";
@@ -15,6 +33,86 @@ app.get("/", (c) => {
 });
 
 app.route("/api", routes);
+
+// Errors thrown anywhere below become application/problem+json responses
+app.onError(handleError);
+app.notFound(handleNotFound);
+
+// Refuse to serve against a database the repositories cannot read
+const drift = await checkSchema(container.resolve<Database>(DATABASE_TOKEN));
+if (drift.length > 0) {
+  console.error("Database schema has drifted from the code, run `npm run db:migrate`:");
+  drift.forEach((line) => console.error(`  - ${line}`));
+  process.exit(1);
+}
+
+// Purge deleted users past their restore window now and then, unless a scheduler runs `npm run users:purge`
+const { purgeIntervalHours } = container.resolve<UserLifecycleConfig>(USER_LIFECYCLE_CONFIG_TOKEN);
+if (purgeIntervalHours > 0) {
+  setInterval(() => {
+    container
+      .resolve(UserPurgeService)
+      .purge()
+      .catch((error) => console.error("Failed to purge deleted users:", error));
+  }, purgeIntervalHours * 60 * 60 * 1000).unref();
+}
+
+// Expired keys are taken over on reuse anyway, this only keeps the table small
+setInterval(() => {
+  container
+    .resolve(IdempotencyService)
+    .purgeExpired()
+    .catch((error) => console.error("Failed to delete expired idempotency keys:", error));
+}, 60 * 60 * 1000).unref();
+
+// Runs the task every intervalSeconds; a run still going when the next is due skips it
+const poll = (intervalSeconds: number, task: () => Promise<unknown>, failure: string) => {
+  let running = false;
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    task()
+      .catch((error) => console.error(failure, error))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalSeconds * 1000).unref();
+};
+
+// Every domain event may have webhooks waiting for it
+const eventBus = container.resolve(EventBus);
+for (const type of Object.values(DomainEventType)) {
+  eventBus.subscribe(type, (event) => container.resolve(WebhookService).schedule(event));
+}
+
+// Hand stored domain events to their subscribers
+const { pollIntervalSeconds } = container.resolve<OutboxConfig>(OUTBOX_CONFIG_TOKEN);
+if (pollIntervalSeconds > 0) {
+  poll(
+    pollIntervalSeconds,
+    () => container.resolve(OutboxDispatcher).dispatchPending(),
+    "Failed to dispatch outbox events:",
+  );
+}
+
+// Post webhook deliveries that are due
+const webhookConfig = container.resolve<WebhookConfig>(WEBHOOK_CONFIG_TOKEN);
+if (webhookConfig.pollIntervalSeconds > 0) {
+  poll(
+    webhookConfig.pollIntervalSeconds,
+    () => container.resolve(WebhookDispatcher).deliverDue(),
+    "Failed to deliver webhooks:",
+  );
+}
+
+// The delivery log only goes back WEBHOOK_DELIVERY_RETENTION_DAYS
+setInterval(() => {
+  container
+    .resolve(WebhookService)
+    .purgeSettledDeliveries()
+    .catch((error) => console.error("Failed to delete old webhook deliveries:", error));
+}, 60 * 60 * 1000).unref();
+
 serve(
   {
     fetch: app.fetch,
@@ -0,0 +1,112 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+// Token for dependency injection
+export const AUTH_CONFIG_TOKEN = "AuthConfig";
+
+// Compose files pass unset variables through as empty strings
+const setting = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+
+const AuthConfigSchema = z
+  .object({
+    AUTH_JWT_ALGORITHM: z.enum(["HS256", "RS256"]).default("HS256"),
+    // Shared secret for HS256
+    AUTH_JWT_SECRET: setting(z.string().min(32, "AUTH_JWT_SECRET must be at least 32 characters")),
+    // PEM public key for RS256, inline or read from a file
+    AUTH_JWT_PUBLIC_KEY: setting(z.string()),
+    AUTH_JWT_PUBLIC_KEY_FILE: setting(z.string()),
+    // PEM private key for RS256, needed only to issue tokens at login
+    AUTH_JWT_PRIVATE_KEY: setting(z.string()),
+    AUTH_JWT_PRIVATE_KEY_FILE: setting(z.string()),
+    AUTH_JWT_ISSUER: setting(z.string()),
+    AUTH_JWT_AUDIENCE: setting(z.string()),
+    AUTH_ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(900),
+    AUTH_REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().positive().default(30),
+    // Wrong passwords in a row before the account is locked, and for how long
+    AUTH_MAX_FAILED_LOGINS: z.coerce.number().int().positive().default(5),
+    AUTH_LOCKOUT_MINUTES: z.coerce.number().int().positive().default(15),
+    // How long the links in verification and password reset emails work
+    AUTH_EMAIL_VERIFICATION_TTL_HOURS: z.coerce.number().int().positive().default(48),
+    AUTH_PASSWORD_RESET_TTL_MINUTES: z.coerce.number().int().positive().default(60),
+  })
+  .refine((env) => env.AUTH_JWT_ALGORITHM !== "RS256" || !env.AUTH_JWT_SECRET, {
+    message: "AUTH_JWT_SECRET is only used with HS256",
+    path: ["AUTH_JWT_SECRET"],
+  })
+  .refine(
+    (env) =>
+      env.AUTH_JWT_ALGORITHM !== "HS256" ||
+      [env.AUTH_JWT_PUBLIC_KEY, env.AUTH_JWT_PUBLIC_KEY_FILE, env.AUTH_JWT_PRIVATE_KEY, env.AUTH_JWT_PRIVATE_KEY_FILE]
+        .every((value) => value === undefined),
+    {
+      message: "AUTH_JWT_PUBLIC_KEY and AUTH_JWT_PRIVATE_KEY are only used with RS256",
+      path: ["AUTH_JWT_PUBLIC_KEY"],
+    },
+  );
+
+export interface AuthConfig {
+  jwt: {
+    algorithm: "HS256" | "RS256";
+    key: string; // Secret or PEM public key the signature is checked against
+    signingKey: string | null; // Secret or PEM private key tokens are issued with, null when logins are off
+    issuer?: string;
+    audience?: string;
+  } | null; // Bearer tokens are refused when no key is configured
+  sessions: {
+    accessTokenTtlSeconds: number;
+    refreshTokenTtlDays: number;
+    maxFailedLogins: number;
+    lockoutMinutes: number;
+  };
+  tokens: {
+    emailVerificationTtlHours: number;
+    passwordResetTtlMinutes: number;
+  };
+}
+
+const readKey = (inline?: string, file?: string) =>
+  inline ?? (file ? readFileSync(file, "utf8") : undefined);
+
+export function loadAuthConfig(): AuthConfig {
+  const config = AuthConfigSchema.safeParse(process.env);
+  if (!config.success) {
+    console.error("Invalid auth configuration:", config.error);
+    throw new Error("Failed to load auth configuration");
+  }
+
+  const env = config.data;
+  const sessions = {
+    accessTokenTtlSeconds: env.AUTH_ACCESS_TOKEN_TTL_SECONDS,
+    refreshTokenTtlDays: env.AUTH_REFRESH_TOKEN_TTL_DAYS,
+    maxFailedLogins: env.AUTH_MAX_FAILED_LOGINS,
+    lockoutMinutes: env.AUTH_LOCKOUT_MINUTES,
+  };
+  const tokens = {
+    emailVerificationTtlHours: env.AUTH_EMAIL_VERIFICATION_TTL_HOURS,
+    passwordResetTtlMinutes: env.AUTH_PASSWORD_RESET_TTL_MINUTES,
+  };
+  const hs256 = env.AUTH_JWT_ALGORITHM === "HS256";
+  const key = hs256 ? env.AUTH_JWT_SECRET : readKey(env.AUTH_JWT_PUBLIC_KEY, env.AUTH_JWT_PUBLIC_KEY_FILE);
+  const signingKey = hs256 ? key : readKey(env.AUTH_JWT_PRIVATE_KEY, env.AUTH_JWT_PRIVATE_KEY_FILE);
+
+  if (!key) {
+    console.warn("No JWT key is configured, only API keys will be accepted");
+    return { jwt: null, sessions, tokens };
+  }
+  if (!signingKey) {
+    console.warn("No JWT private key is configured, logins are disabled");
+  }
+
+  return {
+    jwt: {
+      algorithm: env.AUTH_JWT_ALGORITHM,
+      key,
+      signingKey: signingKey ?? null,
+      issuer: env.AUTH_JWT_ISSUER,
+      audience: env.AUTH_JWT_AUDIENCE,
+    },
+    sessions,
+    tokens,
+  };
+}
@@ -0,0 +1,42 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import type { ScryptOptions } from "node:crypto";
+import { injectable } from "tsyringe";
+
+// OWASP's scrypt baseline: N=2^17, r=8, p=1 costs about 128 MiB per hash
+const COST = { N: 2 ** 17, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const derive = (password: string, salt: Buffer, options: ScryptOptions, keyLength: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    // maxmem has to cover 128 * N * r bytes, Node's default only allows N up to 2^14
+    scrypt(password, salt, keyLength, { ...options, maxmem: 256 * options.N! * options.r! }, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+
+@injectable()
+export class PasswordHasher {
+  /**
+   * Hashes as `scrypt$N$r$p$salt$key` (salt and key base64url), so the cost
+   * can be raised later without losing the ability to check older hashes.
+   */
+  async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = await derive(password, salt, COST, KEY_LENGTH);
+    return ["scrypt", COST.N, COST.r, COST.p, salt.toString("base64url"), key.toString("base64url")].join("$");
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    const [scheme, ...fields] = hash.split("$");
+    const [N, r, p] = fields.slice(0, 3).map(Number);
+    const [salt, key] = fields.slice(3);
+    if (scheme !== "scrypt" || ![N, r, p].every(Number.isInteger) || !salt || !key) {
+      return false;
+    }
+
+    const expected = Buffer.from(key, "base64url");
+    const actual = await derive(password, Buffer.from(salt, "base64url"), { N, r, p }, expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+}
@@ -1,6 +1,20 @@
 import "reflect-metadata";
 import { container } from "tsyringe";
 import { DatabaseConnection, DATABASE_TOKEN } from "./connection";
+import {
+  loadCurrencyConfig,
+  REPORTING_CURRENCY_TOKEN,
+} from "../exchange-rates/config";
+import { CURSOR_SECRET_TOKEN, loadCursorSecret } from "./utils/cursor";
+import { AUTH_CONFIG_TOKEN, loadAuthConfig } from "../auth/config";
+import { loadMailConfig, MAIL_CONFIG_TOKEN } from "../email/config";
+import { MAILER_TOKEN } from "../email/mailer";
+import { OutboxMailer } from "../email/outbox-mailer";
+import { SmtpMailer } from "../email/smtp-mailer";
+import { loadUserLifecycleConfig, USER_LIFECYCLE_CONFIG_TOKEN } from "../users/config";
+import { IDEMPOTENCY_CONFIG_TOKEN, loadIdempotencyConfig } from "../idempotency/config";
+import { loadOutboxConfig, OUTBOX_CONFIG_TOKEN } from "../outbox/config";
+import { loadWebhookConfig, WEBHOOK_CONFIG_TOKEN } from "../webhooks/config";
 
 // Register the database connection as a singleton
 container.registerSingleton(DatabaseConnection);
@@ -8,3 +22,20 @@ container.registerSingleton(DatabaseConnection);
 // Create and register the Database instance directly
 const connection = new DatabaseConnection();
 container.registerInstance(DATABASE_TOKEN, connection.getDatabase());
+
+container.registerInstance(REPORTING_CURRENCY_TOKEN, loadCurrencyConfig().REPORTING_CURRENCY);
+container.registerInstance(CURSOR_SECRET_TOKEN, loadCursorSecret());
+container.registerInstance(AUTH_CONFIG_TOKEN, loadAuthConfig());
+container.registerInstance(USER_LIFECYCLE_CONFIG_TOKEN, loadUserLifecycleConfig());
+container.registerInstance(IDEMPOTENCY_CONFIG_TOKEN, loadIdempotencyConfig());
+container.registerInstance(OUTBOX_CONFIG_TOKEN, loadOutboxConfig());
+container.registerInstance(WEBHOOK_CONFIG_TOKEN, loadWebhookConfig());
+
+const mailConfig = loadMailConfig();
+container.registerInstance(MAIL_CONFIG_TOKEN, mailConfig);
+container.registerInstance(
+  MAILER_TOKEN,
+  mailConfig.transport.type === "smtp"
+    ? new SmtpMailer(mailConfig.transport.smtp, mailConfig.from)
+    : new OutboxMailer(mailConfig.from, mailConfig.transport.directory),
+);
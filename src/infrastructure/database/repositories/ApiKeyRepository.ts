@@ -0,0 +1,116 @@
+import { desc, eq } from "drizzle-orm";
+import { ApiKeyEntity } from "../../../domain/entities/api-key";
+import type { IApiKeyRepository } from "../../../domain/repositories/iapi-key.repository";
+import { apiKeysTable } from "../schema/api_keys";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class ApiKeyRepository implements IApiKeyRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findById(id: string): Promise<ApiKeyEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(apiKeysTable)
+        .where(eq(apiKeysTable.id, id))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find API key ${id}:`, error);
+      throw new Error("Failed to retrieve API key from database");
+    }
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(apiKeysTable)
+        .where(eq(apiKeysTable.keyHash, keyHash))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error("Failed to find API key by hash:", error);
+      throw new Error("Failed to retrieve API key from database");
+    }
+  }
+
+  async findAll(): Promise<ApiKeyEntity[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(apiKeysTable)
+        .orderBy(desc(apiKeysTable.createdAt));
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error("Failed to retrieve all API keys:", error);
+      throw new Error("Failed to retrieve API keys from database");
+    }
+  }
+
+  async save(apiKey: ApiKeyEntity): Promise<void> {
+    const values = this.fromDomain(apiKey);
+
+    try {
+      await this.db
+        .insert(apiKeysTable)
+        .values(values)
+        .onConflictDoUpdate({
+          target: apiKeysTable.id,
+          set: { name: values.name, role: values.role, lastUsedAt: values.lastUsedAt, revokedAt: values.revokedAt },
+        });
+    } catch (error) {
+      console.error(`Failed to save API key ${apiKey.id}:`, error);
+      throw new Error("Failed to save API key to database");
+    }
+  }
+
+  async markUsed(id: string, at: Date): Promise<void> {
+    try {
+      await this.db
+        .update(apiKeysTable)
+        .set({ lastUsedAt: at })
+        .where(eq(apiKeysTable.id, id));
+    } catch (error) {
+      console.error(`Failed to record use of API key ${id}:`, error);
+      throw new Error("Failed to update API key in database");
+    }
+  }
+
+  private toDomain(row: any): ApiKeyEntity {
+    return new ApiKeyEntity(
+      row.id,
+      row.name,
+      row.role,
+      row.prefix,
+      row.keyHash,
+      new Date(row.createdAt),
+      row.lastUsedAt ? new Date(row.lastUsedAt) : null,
+      row.revokedAt ? new Date(row.revokedAt) : null,
+    );
+  }
+
+  private fromDomain(apiKey: ApiKeyEntity) {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      role: apiKey.role,
+      prefix: apiKey.prefix,
+      keyHash: apiKey.keyHash,
+      createdAt: apiKey.createdAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+    };
+  }
+}
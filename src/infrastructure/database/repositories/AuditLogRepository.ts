@@ -0,0 +1,67 @@
+import { and, asc, eq } from "drizzle-orm";
+import { AuditEntryEntity } from "../../../domain/entities/audit-entry";
+import type { IAuditLogRepository } from "../../../domain/repositories/iaudit-log.repository";
+import { auditLogTable } from "../schema/audit_log";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class AuditLogRepository implements IAuditLogRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async record(entry: AuditEntryEntity): Promise<void> {
+    try {
+      await this.db.insert(auditLogTable).values(AuditLogRepository.fromDomain(entry));
+    } catch (error) {
+      console.error(`Failed to record audit entry ${entry.action} for ${entry.entityType} ${entry.entityId}:`, error);
+      throw new Error("Failed to save audit entry to database");
+    }
+  }
+
+  async findByEntity(entityType: string, entityId: string): Promise<AuditEntryEntity[]> {
+    try {
+      const result = await this.db
+        .select()
+        .from(auditLogTable)
+        .where(and(eq(auditLogTable.entityType, entityType), eq(auditLogTable.entityId, entityId)))
+        .orderBy(asc(auditLogTable.createdAt));
+
+      return result.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error(`Failed to find audit entries for ${entityType} ${entityId}:`, error);
+      throw new Error("Failed to retrieve audit entries from database");
+    }
+  }
+
+  // Shared with repositories that write an entry in the same transaction as the change
+  static fromDomain(entry: AuditEntryEntity) {
+    return {
+      id: entry.id,
+      actor: entry.actor,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      details: entry.details,
+      createdAt: entry.createdAt,
+    };
+  }
+
+  private toDomain(row: any): AuditEntryEntity {
+    return new AuditEntryEntity(
+      row.id,
+      row.actor,
+      row.action,
+      row.entityType,
+      row.entityId,
+      row.details ?? {},
+      new Date(row.createdAt),
+    );
+  }
+}
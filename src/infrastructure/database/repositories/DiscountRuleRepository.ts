@@ -0,0 +1,153 @@
+import { desc, eq } from "drizzle-orm";
+import { DiscountRuleEntity } from "../../../domain/entities/discount-rule";
+import type { IDiscountRuleRepository } from "../../../domain/repositories/idiscount-rule.repository";
+import type { DiscountType } from "../../../domain/vo/DiscountType";
+import { Money } from "../../../domain/vo/Money";
+import { discountRulesTable } from "../schema/discount_rules";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class DiscountRuleRepository implements IDiscountRuleRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findById(id: string): Promise<DiscountRuleEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(discountRulesTable)
+        .where(eq(discountRulesTable.id, id))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find discount rule by ID ${id}:`, error);
+      throw new Error("Failed to retrieve discount rule from database");
+    }
+  }
+
+  async findAll(): Promise<DiscountRuleEntity[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(discountRulesTable)
+        .orderBy(desc(discountRulesTable.priority), discountRulesTable.createdAt);
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error("Failed to retrieve all discount rules:", error);
+      throw new Error("Failed to retrieve discount rules from database");
+    }
+  }
+
+  async findActive(): Promise<DiscountRuleEntity[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(discountRulesTable)
+        .where(eq(discountRulesTable.active, true))
+        .orderBy(desc(discountRulesTable.priority), discountRulesTable.createdAt);
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error("Failed to retrieve active discount rules:", error);
+      throw new Error("Failed to retrieve discount rules from database");
+    }
+  }
+
+  async findByCouponCode(code: string): Promise<DiscountRuleEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(discountRulesTable)
+        .where(eq(discountRulesTable.couponCode, code.toUpperCase()))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find discount rule for coupon ${code}:`, error);
+      throw new Error("Failed to retrieve discount rule from database");
+    }
+  }
+
+  async save(rule: DiscountRuleEntity): Promise<void> {
+    const { id, createdAt, ...changes } = this.fromDomain(rule);
+
+    try {
+      await this.db
+        .insert(discountRulesTable)
+        .values(this.fromDomain(rule))
+        .onConflictDoUpdate({
+          target: discountRulesTable.id,
+          set: changes,
+        });
+    } catch (error) {
+      console.error(`Failed to save discount rule ${rule.id}:`, error);
+      throw new Error("Failed to save discount rule to database");
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.db.delete(discountRulesTable).where(eq(discountRulesTable.id, id));
+    } catch (error) {
+      console.error(`Failed to delete discount rule ${id}:`, error);
+      throw new Error("Failed to delete discount rule from database");
+    }
+  }
+
+  private toDomain(row: any): DiscountRuleEntity {
+    const money = (amount: string | null) =>
+      amount === null ? null : Money.fromDecimal(amount, row.currency);
+
+    return new DiscountRuleEntity(
+      row.id,
+      row.name,
+      row.type as DiscountType,
+      row.percentage === null ? null : parseFloat(row.percentage),
+      money(row.amount),
+      row.buyQuantity,
+      row.getQuantity,
+      row.productId,
+      row.category,
+      money(row.minimumTotal),
+      row.couponCode,
+      row.validFrom ? new Date(row.validFrom) : null,
+      row.validTo ? new Date(row.validTo) : null,
+      row.priority,
+      row.stackable,
+      row.active,
+      new Date(row.createdAt),
+      new Date(row.updatedAt),
+    );
+  }
+
+  private fromDomain(rule: DiscountRuleEntity) {
+    return {
+      id: rule.id,
+      name: rule.name,
+      type: rule.type,
+      percentage: rule.percentage?.toString() ?? null,
+      amount: rule.amount?.toDecimalString() ?? null,
+      currency: rule.currency,
+      buyQuantity: rule.buyQuantity,
+      getQuantity: rule.getQuantity,
+      productId: rule.productId,
+      category: rule.category,
+      minimumTotal: rule.minimumTotal?.toDecimalString() ?? null,
+      couponCode: rule.couponCode,
+      validFrom: rule.validFrom,
+      validTo: rule.validTo,
+      priority: rule.priority,
+      stackable: rule.stackable,
+      active: rule.active,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
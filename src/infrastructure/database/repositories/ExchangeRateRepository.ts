@@ -0,0 +1,114 @@
+import { and, desc, eq, lte, or, sql } from "drizzle-orm";
+import { ExchangeRateEntity } from "../../../domain/entities/exchange-rate";
+import type { IExchangeRateRepository } from "../../../domain/repositories/iexchange-rate.repository";
+import { exchangeRatesTable } from "../schema/exchange_rates";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class ExchangeRateRepository implements IExchangeRateRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findAll(): Promise<ExchangeRateEntity[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(exchangeRatesTable)
+        .orderBy(
+          exchangeRatesTable.baseCurrency,
+          exchangeRatesTable.quoteCurrency,
+          desc(exchangeRatesTable.effectiveDate),
+        );
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error("Failed to retrieve all exchange rates:", error);
+      throw new Error("Failed to retrieve exchange rates from database");
+    }
+  }
+
+  async findEffective(
+    from: string,
+    to: string,
+    date: Date,
+  ): Promise<ExchangeRateEntity | null> {
+    const day = date.toISOString().slice(0, 10);
+
+    try {
+      const result = await this.db
+        .select()
+        .from(exchangeRatesTable)
+        .where(
+          and(
+            or(
+              and(eq(exchangeRatesTable.baseCurrency, from), eq(exchangeRatesTable.quoteCurrency, to)),
+              and(eq(exchangeRatesTable.baseCurrency, to), eq(exchangeRatesTable.quoteCurrency, from)),
+            ),
+            lte(exchangeRatesTable.effectiveDate, day),
+          ),
+        )
+        // Prefer the quoted direction when both were published the same day
+        .orderBy(
+          desc(exchangeRatesTable.effectiveDate),
+          sql`${exchangeRatesTable.baseCurrency} = ${from} desc`,
+        )
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find exchange rate ${from}/${to} on ${day}:`, error);
+      throw new Error("Failed to retrieve exchange rate from database");
+    }
+  }
+
+  async saveMany(rates: ExchangeRateEntity[]): Promise<void> {
+    if (rates.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db
+        .insert(exchangeRatesTable)
+        .values(rates.map((rate) => this.fromDomain(rate)))
+        .onConflictDoUpdate({
+          target: [
+            exchangeRatesTable.baseCurrency,
+            exchangeRatesTable.quoteCurrency,
+            exchangeRatesTable.effectiveDate,
+          ],
+          set: { rate: sql`excluded.rate` },
+        });
+    } catch (error) {
+      console.error(`Failed to save ${rates.length} exchange rates:`, error);
+      throw new Error("Failed to save exchange rates to database");
+    }
+  }
+
+  private toDomain(row: any): ExchangeRateEntity {
+    return new ExchangeRateEntity(
+      row.id,
+      row.baseCurrency,
+      row.quoteCurrency,
+      parseFloat(row.rate),
+      row.effectiveDate,
+      new Date(row.createdAt),
+    );
+  }
+
+  private fromDomain(rate: ExchangeRateEntity) {
+    return {
+      id: rate.id,
+      baseCurrency: rate.baseCurrency,
+      quoteCurrency: rate.quoteCurrency,
+      rate: rate.rate.toString(),
+      effectiveDate: rate.effectiveDate,
+      createdAt: rate.createdAt,
+    };
+  }
+}
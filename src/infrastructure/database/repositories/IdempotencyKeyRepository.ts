@@ -0,0 +1,118 @@
+import { and, eq, lte } from "drizzle-orm";
+import { IdempotencyKeyEntity } from "../../../domain/entities/idempotency-key";
+import type { IIdempotencyKeyRepository } from "../../../domain/repositories/iidempotency-key.repository";
+import { idempotencyKeysTable } from "../schema/idempotency_keys";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class IdempotencyKeyRepository implements IIdempotencyKeyRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async claim(record: IdempotencyKeyEntity): Promise<boolean> {
+    const row = this.fromDomain(record);
+    try {
+      // An expired record is taken over in place, so two racing claims still get one winner
+      const claimed = await this.db
+        .insert(idempotencyKeysTable)
+        .values(row)
+        .onConflictDoUpdate({
+          target: [idempotencyKeysTable.principal, idempotencyKeysTable.key],
+          set: row,
+          setWhere: lte(idempotencyKeysTable.expiresAt, record.createdAt),
+        })
+        .returning({ key: idempotencyKeysTable.key });
+      return claimed.length > 0;
+    } catch (error) {
+      console.error(`Failed to claim idempotency key ${record.key} for ${record.principal}:`, error);
+      throw new Error("Failed to save idempotency key to database");
+    }
+  }
+
+  async findByKey(principal: string, key: string): Promise<IdempotencyKeyEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(idempotencyKeysTable)
+        .where(and(eq(idempotencyKeysTable.principal, principal), eq(idempotencyKeysTable.key, key)))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find idempotency key ${key} for ${principal}:`, error);
+      throw new Error("Failed to retrieve idempotency key from database");
+    }
+  }
+
+  async complete(record: IdempotencyKeyEntity): Promise<void> {
+    try {
+      const { responseStatus, responseHeaders, responseBody, expiresAt } = this.fromDomain(record);
+      await this.db
+        .update(idempotencyKeysTable)
+        .set({ responseStatus, responseHeaders, responseBody, expiresAt })
+        .where(
+          and(eq(idempotencyKeysTable.principal, record.principal), eq(idempotencyKeysTable.key, record.key)),
+        );
+    } catch (error) {
+      console.error(`Failed to complete idempotency key ${record.key} for ${record.principal}:`, error);
+      throw new Error("Failed to save idempotency key to database");
+    }
+  }
+
+  async release(principal: string, key: string): Promise<void> {
+    try {
+      await this.db
+        .delete(idempotencyKeysTable)
+        .where(and(eq(idempotencyKeysTable.principal, principal), eq(idempotencyKeysTable.key, key)));
+    } catch (error) {
+      console.error(`Failed to release idempotency key ${key} for ${principal}:`, error);
+      throw new Error("Failed to delete idempotency key from database");
+    }
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    try {
+      const deleted = await this.db
+        .delete(idempotencyKeysTable)
+        .where(lte(idempotencyKeysTable.expiresAt, now))
+        .returning({ key: idempotencyKeysTable.key });
+      return deleted.length;
+    } catch (error) {
+      console.error("Failed to delete expired idempotency keys:", error);
+      throw new Error("Failed to delete idempotency keys from database");
+    }
+  }
+
+  private toDomain(row: any): IdempotencyKeyEntity {
+    return new IdempotencyKeyEntity(
+      row.principal,
+      row.key,
+      row.requestHash,
+      row.responseStatus === null
+        ? null
+        : { status: row.responseStatus, headers: row.responseHeaders ?? {}, body: row.responseBody ?? "" },
+      new Date(row.createdAt),
+      new Date(row.expiresAt),
+    );
+  }
+
+  private fromDomain(record: IdempotencyKeyEntity) {
+    return {
+      principal: record.principal,
+      key: record.key,
+      requestHash: record.requestHash,
+      responseStatus: record.response?.status ?? null,
+      responseHeaders: record.response?.headers ?? null,
+      responseBody: record.response?.body ?? null,
+      createdAt: record.createdAt,
+      expiresAt: record.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { eq, inArray } from "drizzle-orm";
+import { ItemEntity } from "../../../domain/entities/item";
+import { ConflictError } from "../../../domain/errors";
+import type { IItemRepository } from "../../../domain/repositories/iitem.repository";
+import { Money } from "../../../domain/vo/Money";
+import type { TaxCategory } from "../../../domain/vo/TaxCategory";
+import { itemsTable } from "../schema/items";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+import { isForeignKeyViolation } from "../utils/errors";
+
+@injectable()
+export class ItemRepository implements IItemRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findById(id: string): Promise<ItemEntity | null> {
+    if (!id || id.trim() === '') {
+      throw new Error("Item ID is required");
+    }
+
+    try {
+      const result = await this.db
+        .select()
+        .from(itemsTable)
+        .where(eq(itemsTable.id, id))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find item by ID ${id}:`, error);
+      throw new Error("Failed to retrieve item from database");
+    }
+  }
+
+  async findByIds(ids: string[]): Promise<ItemEntity[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const results = await this.db
+        .select()
+        .from(itemsTable)
+        .where(inArray(itemsTable.id, ids));
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error(`Failed to find items ${ids.join(", ")}:`, error);
+      throw new Error("Failed to retrieve items from database");
+    }
+  }
+
+  async findBySku(sku: string): Promise<ItemEntity | null> {
+    if (!sku || sku.trim() === '') {
+      throw new Error("SKU is required");
+    }
+
+    try {
+      const result = await this.db
+        .select()
+        .from(itemsTable)
+        .where(eq(itemsTable.sku, sku))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find item by SKU ${sku}:`, error);
+      throw new Error("Failed to retrieve item from database");
+    }
+  }
+
+  async findAll(): Promise<ItemEntity[]> {
+    try {
+      const results = await this.db.select().from(itemsTable);
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error("Failed to retrieve all items:", error);
+      throw new Error("Failed to retrieve items from database");
+    }
+  }
+
+  async save(item: ItemEntity): Promise<void> {
+    if (!item) {
+      throw new Error("Item entity is required");
+    }
+
+    try {
+      await this.db
+        .insert(itemsTable)
+        .values(this.fromDomain(item))
+        .onConflictDoUpdate({
+          target: itemsTable.id,
+          set: {
+            name: item.name,
+            description: item.description,
+            price: item.price.toDecimalString(),
+            currency: item.price.currency,
+            sku: item.sku,
+            taxCategory: item.taxCategory,
+            category: item.category,
+            updatedAt: item.updatedAt,
+          },
+        });
+    } catch (error) {
+      console.error(`Failed to save item ${item.id}:`, error);
+      throw new Error("Failed to save item to database");
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!id || id.trim() === '') {
+      throw new Error("Item ID is required");
+    }
+
+    try {
+      await this.db.delete(itemsTable).where(eq(itemsTable.id, id));
+    } catch (error) {
+      // A discount rule points at it, or an order came in after the service checked
+      if (isForeignKeyViolation(error)) {
+        throw new ConflictError("Item is still used by orders or discount rules and cannot be deleted");
+      }
+      console.error(`Failed to delete item ${id}:`, error);
+      throw new Error("Failed to delete item from database");
+    }
+  }
+
+  private toDomain(row: any): ItemEntity {
+    return new ItemEntity(
+      row.id,
+      row.name,
+      row.description,
+      Money.fromDecimal(row.price, row.currency), // Parse the decimal string exactly
+      row.sku,
+      row.taxCategory as TaxCategory,
+      row.category,
+      new Date(row.createdAt),
+      new Date(row.updatedAt),
+    );
+  }
+
+  private fromDomain(item: ItemEntity) {
+    return {
+      id: item.id,
+      name: item.name,
+      description: item.description,
+      price: item.price.toDecimalString(),
+      currency: item.price.currency,
+      sku: item.sku,
+      taxCategory: item.taxCategory,
+      category: item.category,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+    };
+  }
+}
@@ -1,21 +1,60 @@
-import { eq } from "drizzle-orm";
+import { and, asc, eq, gte, inArray, lt } from "drizzle-orm";
 import { OrderEntity } from "../../../domain/entities/order";
-import type { IOrderRepository } from "../../../domain/repositories/iorder.repository";
+import { VersionConflictError } from "../../../domain/errors";
+import type {
+  IOrderRepository,
+  OrderListFilter,
+  OrderSortField,
+} from "../../../domain/repositories/iorder.repository";
 import { OrderStatus } from "../../../domain/vo/OrderStatus";
+import { Money } from "../../../domain/vo/Money";
+import type { Page, PageRequest } from "../../../domain/vo/Page";
+import type { OrderItem } from "../../../domain/vo/OrderItem";
+import type { AppliedDiscount } from "../../../domain/vo/AppliedDiscount";
+import type { DiscountType } from "../../../domain/vo/DiscountType";
+import type { PricingMode } from "../../../domain/vo/PricingMode";
+import type { TaxCategory } from "../../../domain/vo/TaxCategory";
+import type { TaxLine } from "../../../domain/vo/TaxBreakdown";
+import type {
+  OrderStatusChange,
+  StatusChangeContext,
+} from "../../../domain/vo/OrderStatusChange";
 import { ordersTable } from "../schema/orders";
+import { orderItemsTable } from "../schema/order_items";
+import { orderDiscountsTable } from "../schema/order_discounts";
+import { orderStatusHistoryTable } from "../schema/order_status_history";
+import { outboxTable } from "../schema/outbox";
+import { OutboxRepository } from "./OutboxRepository";
+import { paginateWithCursor } from "../utils/pagination";
+import { CURSOR_SECRET_TOKEN } from "../utils/cursor";
+import { injectable, inject } from "tsyringe";
 import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
 
+const SORT_COLUMNS = {
+  createdAt: ordersTable.createdAt,
+  updatedAt: ordersTable.updatedAt,
+  total: ordersTable.reportingTotal,
+};
+
+@injectable()
 export class OrderRepository implements IOrderRepository {
   constructor(
-    private db: Database,
+    @inject("Database") private database: Database,
+    @inject(CURSOR_SECRET_TOKEN) private cursorSecret: string,
   ) {}
 
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
   async findById(id: string): Promise<OrderEntity | null> {
     const result = await this.db
       .select()
       .from(ordersTable)
       .where(eq(ordersTable.id, id));
-    return result[0] ? this.toDomain(result[0]) : null;
+    const [order] = await this.withLines(result);
+    return order ?? null;
   }
 
   async findByUserId(userId: string): Promise<OrderEntity[]> {
@@ -23,42 +62,213 @@ export class OrderRepository implements IOrderRepository {
       .select()
       .from(ordersTable)
       .where(eq(ordersTable.userId, userId));
-    return results.map((row) => this.toDomain(row));
+    return this.withLines(results);
   }
 
-  async findAll(): Promise<OrderEntity[]> {
-    const results = await this.db.select().from(ordersTable);
-    return results.map((row) => this.toDomain(row));
+  async existsForUser(userId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ id: ordersTable.id })
+      .from(ordersTable)
+      .where(eq(ordersTable.userId, userId))
+      .limit(1);
+    return result.length > 0;
   }
 
-  async save(order: OrderEntity): Promise<void> {
-    await this.db
-      .insert(ordersTable)
-      .values(this.fromDomain(order))
-      .onConflictDoUpdate({
-        target: ordersTable.id,
-        set: {
-          items: order.items,
-          status: order.status,
-          total: order.total.toString(),
-          updatedAt: order.updatedAt,
-        },
-      });
+  async existsForItem(itemId: string): Promise<boolean> {
+    const result = await this.db
+      .select({ orderId: orderItemsTable.orderId })
+      .from(orderItemsTable)
+      .where(eq(orderItemsTable.itemId, itemId))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async findPage(
+    filter: OrderListFilter,
+    page: PageRequest<OrderSortField>,
+  ): Promise<Page<OrderEntity>> {
+    const result = await paginateWithCursor({
+      db: this.db,
+      table: ordersTable,
+      sortColumn: SORT_COLUMNS[page.sortBy],
+      idColumn: ordersTable.id,
+      where: and(
+        filter.status?.length ? inArray(ordersTable.status, filter.status) : undefined,
+        filter.userId ? eq(ordersTable.userId, filter.userId) : undefined,
+        filter.createdFrom ? gte(ordersTable.createdAt, filter.createdFrom) : undefined,
+        filter.createdTo ? lt(ordersTable.createdAt, filter.createdTo) : undefined,
+      ),
+      page,
+      scope: "orders",
+      secret: this.cursorSecret,
+    });
+    return { ...result, data: await this.withLines(result.data) };
+  }
+
+  async save(
+    order: OrderEntity,
+    context: StatusChangeContext = { actor: "system" },
+  ): Promise<OrderEntity> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the row so concurrent saves record history against the right previous status
+      const [current] = await tx
+        .select({ status: ordersTable.status, version: ordersTable.version })
+        .from(ordersTable)
+        .where(eq(ordersTable.id, order.id))
+        .for("update");
+
+      // Whoever saved since the order was read would otherwise be overwritten
+      if (current ? current.version !== order.version : order.version !== 0) {
+        throw new VersionConflictError("Order", order.id);
+      }
+
+      if (current) {
+        await tx
+          .update(ordersTable)
+          .set({
+            status: order.status,
+            subtotal: order.tax.netTotal.toDecimalString(),
+            taxTotal: order.tax.taxTotal.toDecimalString(),
+            total: order.total.toDecimalString(),
+            cancellationReason: order.cancellationReason,
+            refundedAmount: order.refundedAmount.toDecimalString(),
+            updatedAt: order.updatedAt,
+            version: order.version + 1,
+          })
+          .where(eq(ordersTable.id, order.id));
+      } else {
+        // Lines and discounts are fixed once the order is placed, only a new order writes them
+        await tx.insert(ordersTable).values(this.fromDomain(order));
+        await tx.insert(orderItemsTable).values(this.linesFromDomain(order));
+        if (order.discounts.length > 0) {
+          await tx.insert(orderDiscountsTable).values(this.discountsFromDomain(order));
+        }
+      }
+
+      if (current?.status !== order.status) {
+        await tx.insert(orderStatusHistoryTable).values({
+          id: crypto.randomUUID(),
+          orderId: order.id,
+          fromStatus: current?.status ?? null,
+          toStatus: order.status,
+          changedAt: order.updatedAt,
+          actor: context.actor,
+          reason: context.reason ?? null,
+        });
+      }
+      if (order.events.length > 0) {
+        await tx.insert(outboxTable).values(order.events.map(OutboxRepository.fromDomain));
+      }
+
+      return order.withVersion(order.version + 1);
+    });
+  }
+
+  async findStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+    const results = await this.db
+      .select()
+      .from(orderStatusHistoryTable)
+      .where(eq(orderStatusHistoryTable.orderId, orderId))
+      .orderBy(asc(orderStatusHistoryTable.changedAt));
+
+    return results.map((row) => ({
+      fromStatus: row.fromStatus as OrderStatus | null,
+      toStatus: row.toStatus as OrderStatus,
+      changedAt: new Date(row.changedAt),
+      actor: row.actor,
+      reason: row.reason,
+    }));
   }
 
   async delete(id: string): Promise<void> {
     await this.db.delete(ordersTable).where(eq(ordersTable.id, id));
   }
 
-  private toDomain(row: any): OrderEntity {
+  // Loads the lines and discounts of every order in one query each and attaches them in position order
+  private async withLines(rows: any[]): Promise<OrderEntity[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const orderIds = rows.map((row) => row.id);
+    const lines = await this.db
+      .select()
+      .from(orderItemsTable)
+      .where(inArray(orderItemsTable.orderId, orderIds))
+      .orderBy(asc(orderItemsTable.orderId), asc(orderItemsTable.position));
+    const discounts = await this.db
+      .select()
+      .from(orderDiscountsTable)
+      .where(inArray(orderDiscountsTable.orderId, orderIds))
+      .orderBy(asc(orderDiscountsTable.orderId), asc(orderDiscountsTable.position));
+
+    const linesByOrder = new Map<string, any[]>();
+    for (const line of lines) {
+      linesByOrder.set(line.orderId, [...(linesByOrder.get(line.orderId) ?? []), line]);
+    }
+    const discountsByOrder = new Map<string, any[]>();
+    for (const discount of discounts) {
+      discountsByOrder.set(discount.orderId, [...(discountsByOrder.get(discount.orderId) ?? []), discount]);
+    }
+
+    return rows.map((row) =>
+      this.toDomain(row, linesByOrder.get(row.id) ?? [], discountsByOrder.get(row.id) ?? []),
+    );
+  }
+
+  private toDomain(row: any, lines: any[], discountRows: any[]): OrderEntity {
+    // Decimal columns come back as strings and are parsed exactly
+    const money = (amount: string) => Money.fromDecimal(amount, row.currency);
+    const items: OrderItem[] = lines.map((line) => ({
+      productId: line.itemId,
+      productName: line.productName,
+      quantity: line.quantity,
+      price: money(line.unitPrice),
+      taxCategory: line.taxCategory as TaxCategory,
+      category: line.category,
+    }));
+    const taxLines: TaxLine[] = lines.map((line) => ({
+      productId: line.itemId,
+      taxCategory: line.taxCategory as TaxCategory,
+      rate: parseFloat(line.taxRate),
+      netAmount: money(line.netAmount),
+      taxAmount: money(line.taxAmount),
+      grossAmount: money(line.lineTotal),
+    }));
+    const discounts: AppliedDiscount[] = discountRows.map((discount) => ({
+      ruleId: discount.ruleId,
+      name: discount.name,
+      type: discount.type as DiscountType,
+      couponCode: discount.couponCode,
+      amount: money(discount.amount),
+    }));
+
     return new OrderEntity(
       row.id,
       row.userId,
-      row.items, // PostgreSQL JSONB returns parsed objects
+      items,
       row.status as OrderStatus,
-      parseFloat(row.total), // Convert decimal string back to number
+      money(row.total),
+      {
+        jurisdiction: {
+          country: row.taxCountry,
+          ...(row.taxState ? { state: row.taxState } : {}),
+          ...(row.taxCity ? { city: row.taxCity } : {}),
+        },
+        pricingMode: row.pricingMode as PricingMode,
+        lines: taxLines,
+        netTotal: money(row.subtotal),
+        taxTotal: money(row.taxTotal),
+        grossTotal: money(row.total),
+      },
+      Money.fromDecimal(row.reportingTotal, row.reportingCurrency),
+      row.couponCodes,
+      discounts,
+      row.cancellationReason,
+      money(row.refundedAmount),
       new Date(row.createdAt),
       new Date(row.updatedAt),
+      row.version,
     );
   }
 
@@ -66,11 +276,58 @@ export class OrderRepository implements IOrderRepository {
     return {
       id: order.id,
       userId: order.userId,
-      items: order.items, // PostgreSQL JSONB can handle objects directly
       status: order.status,
-      total: order.total.toString(), // Convert number to string for decimal field
+      taxCountry: order.tax.jurisdiction.country,
+      taxState: order.tax.jurisdiction.state ?? null,
+      taxCity: order.tax.jurisdiction.city ?? null,
+      pricingMode: order.tax.pricingMode,
+      currency: order.total.currency,
+      subtotal: order.tax.netTotal.toDecimalString(),
+      taxTotal: order.tax.taxTotal.toDecimalString(),
+      total: order.total.toDecimalString(),
+      reportingCurrency: order.reportingTotal.currency,
+      reportingTotal: order.reportingTotal.toDecimalString(),
+      couponCodes: order.couponCodes,
+      cancellationReason: order.cancellationReason,
+      refundedAmount: order.refundedAmount.toDecimalString(),
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
+      version: order.version + 1,
     };
   }
+
+  // Tax lines are calculated per item, so the two arrays share positions
+  private linesFromDomain(order: OrderEntity) {
+    return order.items.map((item, position) => {
+      const taxLine = order.tax.lines[position];
+      return {
+        id: crypto.randomUUID(),
+        orderId: order.id,
+        itemId: item.productId,
+        position,
+        productName: item.productName,
+        quantity: item.quantity,
+        unitPrice: item.price.toDecimalString(),
+        taxCategory: taxLine.taxCategory,
+        category: item.category ?? null,
+        taxRate: taxLine.rate.toString(),
+        netAmount: taxLine.netAmount.toDecimalString(),
+        taxAmount: taxLine.taxAmount.toDecimalString(),
+        lineTotal: taxLine.grossAmount.toDecimalString(),
+      };
+    });
+  }
+
+  private discountsFromDomain(order: OrderEntity) {
+    return order.discounts.map((discount, position) => ({
+      id: crypto.randomUUID(),
+      orderId: order.id,
+      position,
+      ruleId: discount.ruleId,
+      name: discount.name,
+      type: discount.type,
+      couponCode: discount.couponCode,
+      amount: discount.amount.toDecimalString(),
+    }));
+  }
 }
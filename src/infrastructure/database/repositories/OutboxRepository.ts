@@ -0,0 +1,91 @@
+import { and, asc, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import type { DomainEvent } from "../../../domain/events/domain-event";
+import type { IOutboxRepository, PendingEvent } from "../../../domain/repositories/ioutbox.repository";
+import { outboxTable } from "../schema/outbox";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class OutboxRepository implements IOutboxRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async claimPending(limit: number, now: Date, leaseMs: number): Promise<PendingEvent[]> {
+    try {
+      // SKIP LOCKED lets dispatchers running side by side claim different events
+      const due = this.db
+        .select({ id: outboxTable.id })
+        .from(outboxTable)
+        .where(and(isNull(outboxTable.dispatchedAt), lte(outboxTable.availableAt, now)))
+        .orderBy(asc(outboxTable.occurredAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      const claimed = await this.db
+        .update(outboxTable)
+        .set({ availableAt: new Date(now.getTime() + leaseMs) })
+        .where(inArray(outboxTable.id, due))
+        .returning();
+
+      return claimed
+        .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+        .map((row) => ({ event: this.toDomain(row), attempts: row.attempts }));
+    } catch (error) {
+      console.error("Failed to claim pending outbox events:", error);
+      throw new Error("Failed to retrieve outbox events from database");
+    }
+  }
+
+  async markDispatched(id: string, at: Date): Promise<void> {
+    try {
+      await this.db
+        .update(outboxTable)
+        .set({ dispatchedAt: at, attempts: sql`${outboxTable.attempts} + 1`, lastError: null })
+        .where(eq(outboxTable.id, id));
+    } catch (error) {
+      console.error(`Failed to mark outbox event ${id} dispatched:`, error);
+      throw new Error("Failed to update outbox event in database");
+    }
+  }
+
+  async markFailed(id: string, error: string, retryAt: Date): Promise<void> {
+    try {
+      await this.db
+        .update(outboxTable)
+        .set({ availableAt: retryAt, attempts: sql`${outboxTable.attempts} + 1`, lastError: error })
+        .where(eq(outboxTable.id, id));
+    } catch (cause) {
+      console.error(`Failed to record failed delivery of outbox event ${id}:`, cause);
+      throw new Error("Failed to update outbox event in database");
+    }
+  }
+
+  // For repositories writing events in their own transactions
+  static fromDomain(event: DomainEvent) {
+    return {
+      id: event.id,
+      type: event.type,
+      aggregateType: event.aggregateType,
+      aggregateId: event.aggregateId,
+      payload: event.payload,
+      occurredAt: event.occurredAt,
+    };
+  }
+
+  private toDomain(row: any): DomainEvent {
+    return {
+      id: row.id,
+      type: row.type,
+      aggregateType: row.aggregateType,
+      aggregateId: row.aggregateId,
+      occurredAt: new Date(row.occurredAt),
+      payload: row.payload,
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { eq, sql } from "drizzle-orm";
+import { PasswordCredentialEntity } from "../../../domain/entities/password-credential";
+import type { UserEntity } from "../../../domain/entities/user";
+import { ConflictError } from "../../../domain/errors";
+import type { IPasswordCredentialRepository } from "../../../domain/repositories/ipassword-credential.repository";
+import { passwordCredentialsTable } from "../schema/password_credentials";
+import { usersTable } from "../schema/users";
+import { outboxTable } from "../schema/outbox";
+import { OutboxRepository } from "./OutboxRepository";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+import { isUniqueViolation } from "../utils/errors";
+
+@injectable()
+export class PasswordCredentialRepository implements IPasswordCredentialRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findByUserId(userId: string): Promise<PasswordCredentialEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(passwordCredentialsTable)
+        .where(eq(passwordCredentialsTable.userId, userId))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find credentials of user ${userId}:`, error);
+      throw new Error("Failed to retrieve credentials from database");
+    }
+  }
+
+  async save(credential: PasswordCredentialEntity): Promise<void> {
+    const values = this.fromDomain(credential);
+
+    try {
+      await this.db
+        .insert(passwordCredentialsTable)
+        .values(values)
+        .onConflictDoUpdate({
+          target: passwordCredentialsTable.userId,
+          set: {
+            passwordHash: values.passwordHash,
+            failedAttempts: values.failedAttempts,
+            lockedUntil: values.lockedUntil,
+            updatedAt: values.updatedAt,
+          },
+        });
+    } catch (error) {
+      console.error(`Failed to save credentials of user ${credential.userId}:`, error);
+      throw new Error("Failed to save credentials to database");
+    }
+  }
+
+  async recordFailure(
+    userId: string,
+    maxAttempts: number,
+    lockoutMs: number,
+    now: Date,
+  ): Promise<PasswordCredentialEntity | null> {
+    const { failedAttempts, lockedUntil } = passwordCredentialsTable;
+    const reachesLimit = sql`${failedAttempts} + 1 >= ${maxAttempts}`;
+
+    try {
+      // Both CASEs read the count from before the update
+      const result = await this.db
+        .update(passwordCredentialsTable)
+        .set({
+          failedAttempts: sql`CASE WHEN ${reachesLimit} THEN 0 ELSE ${failedAttempts} + 1 END`,
+          lockedUntil: sql`CASE WHEN ${reachesLimit} THEN ${sql.param(new Date(now.getTime() + lockoutMs), lockedUntil)} ELSE ${lockedUntil} END`,
+          updatedAt: now,
+        })
+        .where(eq(passwordCredentialsTable.userId, userId))
+        .returning();
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to record failed login of user ${userId}:`, error);
+      throw new Error("Failed to save credentials to database");
+    }
+  }
+
+  async clearFailures(userId: string, now: Date): Promise<void> {
+    try {
+      await this.db
+        .update(passwordCredentialsTable)
+        .set({ failedAttempts: 0, lockedUntil: null, updatedAt: now })
+        .where(eq(passwordCredentialsTable.userId, userId));
+    } catch (error) {
+      console.error(`Failed to clear failed logins of user ${userId}:`, error);
+      throw new Error("Failed to save credentials to database");
+    }
+  }
+
+  async saveWithUser(user: UserEntity, credential: PasswordCredentialEntity): Promise<void> {
+    try {
+      await this.db.transaction(async (tx) => {
+        await tx.insert(usersTable).values({
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          emailVerifiedAt: user.emailVerifiedAt,
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt,
+        });
+        await tx.insert(passwordCredentialsTable).values(this.fromDomain(credential));
+        if (user.events.length > 0) {
+          await tx.insert(outboxTable).values(user.events.map(OutboxRepository.fromDomain));
+        }
+      });
+    } catch (error) {
+      // Another registration took the email after the service checked it
+      if (isUniqueViolation(error)) {
+        throw new ConflictError("User with this email already exists");
+      }
+      console.error(`Failed to register user ${user.id}:`, error);
+      throw new Error("Failed to save user to database");
+    }
+  }
+
+  private toDomain(row: any): PasswordCredentialEntity {
+    return new PasswordCredentialEntity(
+      row.userId,
+      row.passwordHash,
+      row.failedAttempts,
+      row.lockedUntil ? new Date(row.lockedUntil) : null,
+      new Date(row.updatedAt),
+    );
+  }
+
+  private fromDomain(credential: PasswordCredentialEntity) {
+    return {
+      userId: credential.userId,
+      passwordHash: credential.passwordHash,
+      failedAttempts: credential.failedAttempts,
+      lockedUntil: credential.lockedUntil,
+      updatedAt: credential.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { RefreshTokenEntity } from "../../../domain/entities/refresh-token";
+import type { IRefreshTokenRepository } from "../../../domain/repositories/irefresh-token.repository";
+import { refreshTokensTable } from "../schema/refresh_tokens";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class RefreshTokenRepository implements IRefreshTokenRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshTokenEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(refreshTokensTable)
+        .where(eq(refreshTokensTable.tokenHash, tokenHash))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error("Failed to find refresh token by hash:", error);
+      throw new Error("Failed to retrieve refresh token from database");
+    }
+  }
+
+  async save(token: RefreshTokenEntity): Promise<void> {
+    try {
+      await this.db.insert(refreshTokensTable).values(this.fromDomain(token));
+    } catch (error) {
+      console.error(`Failed to save refresh token ${token.id}:`, error);
+      throw new Error("Failed to save refresh token to database");
+    }
+  }
+
+  async revoke(id: string, replacedBy: string | null, at: Date): Promise<boolean> {
+    try {
+      const revoked = await this.db
+        .update(refreshTokensTable)
+        .set({ revokedAt: at, replacedBy })
+        .where(and(eq(refreshTokensTable.id, id), isNull(refreshTokensTable.revokedAt)))
+        .returning({ id: refreshTokensTable.id });
+      return revoked.length > 0;
+    } catch (error) {
+      console.error(`Failed to revoke refresh token ${id}:`, error);
+      throw new Error("Failed to update refresh token in database");
+    }
+  }
+
+  async revokeFamily(familyId: string, at: Date): Promise<void> {
+    try {
+      await this.db
+        .update(refreshTokensTable)
+        .set({ revokedAt: at })
+        .where(and(eq(refreshTokensTable.familyId, familyId), isNull(refreshTokensTable.revokedAt)));
+    } catch (error) {
+      console.error(`Failed to revoke refresh token family ${familyId}:`, error);
+      throw new Error("Failed to update refresh tokens in database");
+    }
+  }
+
+  async revokeAllForUser(userId: string, at: Date): Promise<void> {
+    try {
+      await this.db
+        .update(refreshTokensTable)
+        .set({ revokedAt: at })
+        .where(and(eq(refreshTokensTable.userId, userId), isNull(refreshTokensTable.revokedAt)));
+    } catch (error) {
+      console.error(`Failed to revoke refresh tokens of user ${userId}:`, error);
+      throw new Error("Failed to update refresh tokens in database");
+    }
+  }
+
+  private toDomain(row: any): RefreshTokenEntity {
+    return new RefreshTokenEntity(
+      row.id,
+      row.userId,
+      row.familyId,
+      row.tokenHash,
+      new Date(row.expiresAt),
+      new Date(row.createdAt),
+      row.revokedAt ? new Date(row.revokedAt) : null,
+      row.replacedBy,
+    );
+  }
+
+  private fromDomain(token: RefreshTokenEntity) {
+    return {
+      id: token.id,
+      userId: token.userId,
+      familyId: token.familyId,
+      tokenHash: token.tokenHash,
+      expiresAt: token.expiresAt,
+      createdAt: token.createdAt,
+      revokedAt: token.revokedAt,
+      replacedBy: token.replacedBy,
+    };
+  }
+}
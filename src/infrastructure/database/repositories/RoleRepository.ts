@@ -0,0 +1,35 @@
+import { eq } from "drizzle-orm";
+import type { IRoleRepository } from "../../../domain/repositories/irole.repository";
+import { isPermission } from "../../../domain/vo/Permission";
+import type { Permission } from "../../../domain/vo/Permission";
+import type { Role } from "../../../domain/vo/Role";
+import { rolePermissionsTable } from "../schema/roles";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class RoleRepository implements IRoleRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findPermissions(role: Role): Promise<Permission[]> {
+    try {
+      const results = await this.db
+        .select({ permission: rolePermissionsTable.permission })
+        .from(rolePermissionsTable)
+        .where(eq(rolePermissionsTable.role, role));
+
+      // Grants the code does not know about yet are ignored rather than trusted
+      return results.map((row) => row.permission).filter(isPermission);
+    } catch (error) {
+      console.error(`Failed to find permissions of role ${role}:`, error);
+      throw new Error("Failed to retrieve permissions from database");
+    }
+  }
+}
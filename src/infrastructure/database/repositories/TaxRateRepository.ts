@@ -0,0 +1,177 @@
+import { and, eq, gte, isNull, lte, or, sql } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { TaxRateEntity } from "../../../domain/entities/tax-rate";
+import { ConflictError } from "../../../domain/errors";
+import type { ITaxRateRepository } from "../../../domain/repositories/itax-rate.repository";
+import type { TaxCategory } from "../../../domain/vo/TaxCategory";
+import type { TaxJurisdiction } from "../../../domain/vo/TaxJurisdiction";
+import { taxRatesTable } from "../schema/tax_rates";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+import { isExclusionViolation } from "../utils/errors";
+
+// Case-insensitive match of an optional jurisdiction level
+const sameLevel = (column: AnyPgColumn, value?: string) =>
+  value ? sql`lower(${column}) = lower(${value})` : isNull(column);
+
+@injectable()
+export class TaxRateRepository implements ITaxRateRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findById(id: string): Promise<TaxRateEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(taxRatesTable)
+        .where(eq(taxRatesTable.id, id))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find tax rate by ID ${id}:`, error);
+      throw new Error("Failed to retrieve tax rate from database");
+    }
+  }
+
+  async findAll(): Promise<TaxRateEntity[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(taxRatesTable)
+        .orderBy(
+          taxRatesTable.country,
+          taxRatesTable.state,
+          taxRatesTable.city,
+          taxRatesTable.category,
+          taxRatesTable.effectiveFrom,
+        );
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error("Failed to retrieve all tax rates:", error);
+      throw new Error("Failed to retrieve tax rates from database");
+    }
+  }
+
+  async findEffective(
+    jurisdiction: TaxJurisdiction,
+    date: Date,
+  ): Promise<TaxRateEntity[]> {
+    const day = TaxRateEntity.toISODate(date);
+
+    try {
+      // A country-level rate applies to every state, a state-level one to every city
+      const results = await this.db
+        .select()
+        .from(taxRatesTable)
+        .where(
+          and(
+            eq(taxRatesTable.country, jurisdiction.country.toUpperCase()),
+            or(isNull(taxRatesTable.state), sameLevel(taxRatesTable.state, jurisdiction.state)),
+            or(isNull(taxRatesTable.city), sameLevel(taxRatesTable.city, jurisdiction.city)),
+            lte(taxRatesTable.effectiveFrom, day),
+            or(isNull(taxRatesTable.effectiveTo), gte(taxRatesTable.effectiveTo, day)),
+          ),
+        );
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error(`Failed to find tax rates for ${jurisdiction.country} on ${day}:`, error);
+      throw new Error("Failed to retrieve tax rates from database");
+    }
+  }
+
+  async findByKey(
+    jurisdiction: TaxJurisdiction,
+    category: TaxCategory,
+  ): Promise<TaxRateEntity[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(taxRatesTable)
+        .where(
+          and(
+            eq(taxRatesTable.country, jurisdiction.country.toUpperCase()),
+            sameLevel(taxRatesTable.state, jurisdiction.state),
+            sameLevel(taxRatesTable.city, jurisdiction.city),
+            eq(taxRatesTable.category, category),
+          ),
+        )
+        .orderBy(taxRatesTable.effectiveFrom);
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error(`Failed to find tax rates for ${jurisdiction.country}/${category}:`, error);
+      throw new Error("Failed to retrieve tax rates from database");
+    }
+  }
+
+  async save(taxRate: TaxRateEntity): Promise<void> {
+    try {
+      await this.db
+        .insert(taxRatesTable)
+        .values(this.fromDomain(taxRate))
+        .onConflictDoUpdate({
+          target: taxRatesTable.id,
+          set: {
+            rate: taxRate.rate.toString(),
+            effectiveFrom: taxRate.effectiveFrom,
+            effectiveTo: taxRate.effectiveTo,
+            updatedAt: taxRate.updatedAt,
+          },
+        });
+    } catch (error) {
+      // Another rate for the key was saved after the service checked for overlaps
+      if (isExclusionViolation(error)) {
+        throw new ConflictError("Tax rate overlaps an existing rate for the same jurisdiction and category");
+      }
+      console.error(`Failed to save tax rate ${taxRate.id}:`, error);
+      throw new Error("Failed to save tax rate to database");
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.db.delete(taxRatesTable).where(eq(taxRatesTable.id, id));
+    } catch (error) {
+      console.error(`Failed to delete tax rate ${id}:`, error);
+      throw new Error("Failed to delete tax rate from database");
+    }
+  }
+
+  private toDomain(row: any): TaxRateEntity {
+    return new TaxRateEntity(
+      row.id,
+      {
+        country: row.country,
+        ...(row.state ? { state: row.state } : {}),
+        ...(row.city ? { city: row.city } : {}),
+      },
+      row.category as TaxCategory,
+      parseFloat(row.rate),
+      row.effectiveFrom,
+      row.effectiveTo,
+      new Date(row.createdAt),
+      new Date(row.updatedAt),
+    );
+  }
+
+  private fromDomain(taxRate: TaxRateEntity) {
+    return {
+      id: taxRate.id,
+      country: taxRate.jurisdiction.country,
+      state: taxRate.jurisdiction.state ?? null,
+      city: taxRate.jurisdiction.city ?? null,
+      category: taxRate.category,
+      rate: taxRate.rate.toString(),
+      effectiveFrom: taxRate.effectiveFrom,
+      effectiveTo: taxRate.effectiveTo,
+      createdAt: taxRate.createdAt,
+      updatedAt: taxRate.updatedAt,
+    };
+  }
+}
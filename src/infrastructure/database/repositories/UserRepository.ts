@@ -1,28 +1,60 @@
-import { eq } from "drizzle-orm";
+import { and, eq, ilike, isNotNull, isNull, lt, sql } from "drizzle-orm";
+import type { AuditEntryEntity } from "../../../domain/entities/audit-entry";
 import { UserEntity } from "../../../domain/entities/user";
-import type { IUserRepository } from "../../../domain/repositories/iuser.repository";
+import { ConflictError, VersionConflictError } from "../../../domain/errors";
+import type {
+  IUserRepository,
+  UserListFilter,
+  UserLookupOptions,
+  UserSortField,
+} from "../../../domain/repositories/iuser.repository";
+import type { Page, PageRequest } from "../../../domain/vo/Page";
 import { usersTable } from "../schema/users";
+import { auditLogTable } from "../schema/audit_log";
+import { passwordCredentialsTable } from "../schema/password_credentials";
+import { refreshTokensTable } from "../schema/refresh_tokens";
+import { userTokensTable } from "../schema/user_tokens";
+import { outboxTable } from "../schema/outbox";
+import { AuditLogRepository } from "./AuditLogRepository";
+import { OutboxRepository } from "./OutboxRepository";
+import { isUniqueViolation } from "../utils/errors";
+import { paginateWithCursor } from "../utils/pagination";
+import { CURSOR_SECRET_TOKEN, InvalidCursorError } from "../utils/cursor";
+import { escapeLikePattern } from "../utils/like";
 import { injectable, inject } from "tsyringe";
 import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+const SORT_COLUMNS = {
+  createdAt: usersTable.createdAt,
+  email: usersTable.email,
+  name: usersTable.name,
+};
 
 @injectable()
 export class UserRepository implements IUserRepository {
   constructor(
-    @inject("Database") private db: Database
+    @inject("Database") private database: Database,
+    @inject(CURSOR_SECRET_TOKEN) private cursorSecret: string,
   ) {}
 
-  async findById(id: string): Promise<UserEntity | null> {
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findById(id: string, options: UserLookupOptions = {}): Promise<UserEntity | null> {
     if (!id || id.trim() === '') {
       throw new Error("User ID is required");
     }
 
     try {
-      const result = await this.db
+      const query = this.db
         .select()
         .from(usersTable)
-        .where(eq(usersTable.id, id))
+        .where(and(eq(usersTable.id, id), this.visible(options)))
         .limit(1);
-      
+      const result = await (options.lock ? query.for(options.lock) : query);
+
       return result.length > 0 ? this.toDomain(result[0]) : null;
     } catch (error) {
       console.error(`Failed to find user by ID ${id}:`, error);
@@ -30,7 +62,7 @@ export class UserRepository implements IUserRepository {
     }
   }
 
-  async findByEmail(email: string): Promise<UserEntity | null> {
+  async findByEmail(email: string, options: UserLookupOptions = {}): Promise<UserEntity | null> {
     if (!email || email.trim() === '') {
       throw new Error("Email is required");
     }
@@ -39,7 +71,7 @@ export class UserRepository implements IUserRepository {
       const result = await this.db
         .select()
         .from(usersTable)
-        .where(eq(usersTable.email, email)) // Fixed: was using .id instead of .email
+        .where(and(eq(usersTable.email, email), this.visible(options))) // Fixed: was using .id instead of .email
         .limit(1);
       
       return result.length > 0 ? this.toDomain(result[0]) : null;
@@ -49,38 +81,151 @@ export class UserRepository implements IUserRepository {
     }
   }
 
-  async findAll(): Promise<UserEntity[]> {
+  async findPage(
+    filter: UserListFilter,
+    page: PageRequest<UserSortField>,
+  ): Promise<Page<UserEntity>> {
     try {
-      const results = await this.db.select().from(usersTable);
-      return results.map((row: any) => this.toDomain(row));
+      const result = await paginateWithCursor({
+        db: this.db,
+        table: usersTable,
+        sortColumn: SORT_COLUMNS[page.sortBy],
+        idColumn: usersTable.id,
+        where: and(
+          filter.deleted ? isNotNull(usersTable.deletedAt) : isNull(usersTable.deletedAt),
+          filter.emailPrefix
+            ? ilike(usersTable.email, `${escapeLikePattern(filter.emailPrefix)}%`)
+            : undefined,
+        ),
+        page,
+        scope: "users",
+        secret: this.cursorSecret,
+      });
+      return { ...result, data: result.data.map((row) => this.toDomain(row)) };
     } catch (error) {
-      console.error("Failed to retrieve all users:", error);
+      if (error instanceof InvalidCursorError) {
+        throw error;
+      }
+      console.error("Failed to retrieve users page:", error);
       throw new Error("Failed to retrieve users from database");
     }
   }
 
-  async save(user: UserEntity): Promise<void> {
+  async save(user: UserEntity): Promise<UserEntity> {
     if (!user) {
       throw new Error("User entity is required");
     }
 
+    let stored: { id: string }[];
+    try {
+      stored = await this.db.transaction(async (tx) => {
+        const rows =
+          user.version === 0
+            ? await tx.insert(usersTable).values(this.fromDomain(user)).returning({ id: usersTable.id })
+            : await tx
+                .update(usersTable)
+                .set({
+                  name: user.name,
+                  role: user.role,
+                  emailVerifiedAt: user.emailVerifiedAt,
+                  deletedAt: user.deletedAt,
+                  updatedAt: user.updatedAt,
+                  version: user.version + 1,
+                })
+                .where(and(eq(usersTable.id, user.id), eq(usersTable.version, user.version)))
+                .returning({ id: usersTable.id });
+        // Events of a stale user never happened
+        if (rows.length > 0 && user.events.length > 0) {
+          await tx.insert(outboxTable).values(user.events.map(OutboxRepository.fromDomain));
+        }
+        return rows;
+      });
+    } catch (error) {
+      console.error(`Failed to save user ${user.id}:`, error);
+      throw new Error("Failed to save user to database");
+    }
+
+    if (stored.length === 0) {
+      throw new VersionConflictError("User", user.id);
+    }
+    return user.withVersion(user.version + 1);
+  }
+
+  async changeEmail(user: UserEntity, audit: AuditEntryEntity): Promise<UserEntity> {
     try {
-      await this.db
-        .insert(usersTable)
-        .values(this.fromDomain(user))
-        .onConflictDoUpdate({
-          target: usersTable.id,
-          set: {
+      await this.db.transaction(async (tx) => {
+        const stored = await tx
+          .update(usersTable)
+          .set({
+            email: user.email,
+            emailVerifiedAt: user.emailVerifiedAt,
+            updatedAt: user.updatedAt,
+            version: user.version + 1,
+          })
+          .where(and(eq(usersTable.id, user.id), eq(usersTable.version, user.version)))
+          .returning({ id: usersTable.id });
+        if (stored.length === 0) {
+          throw new VersionConflictError("User", user.id);
+        }
+        await tx.insert(auditLogTable).values(AuditLogRepository.fromDomain(audit));
+      });
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw new ConflictError("User with this email already exists");
+      }
+      console.error(`Failed to change email of user ${user.id}:`, error);
+      throw new Error("Failed to save user to database");
+    }
+    return user.withVersion(user.version + 1);
+  }
+
+  async erase(user: UserEntity, audit: AuditEntryEntity): Promise<void> {
+    try {
+      await this.db.transaction(async (tx) => {
+        await tx
+          .update(usersTable)
+          .set({
+            email: user.email,
             name: user.name,
+            emailVerifiedAt: user.emailVerifiedAt,
+            deletedAt: user.deletedAt,
             updatedAt: user.updatedAt,
-          },
-        });
+            version: sql`${usersTable.version} + 1`,
+          })
+          .where(eq(usersTable.id, user.id));
+        await tx.delete(passwordCredentialsTable).where(eq(passwordCredentialsTable.userId, user.id));
+        await tx.delete(refreshTokensTable).where(eq(refreshTokensTable.userId, user.id));
+        // Email change tokens hold the address the user was moving to
+        await tx.delete(userTokensTable).where(eq(userTokensTable.userId, user.id));
+        await tx
+          .update(auditLogTable)
+          .set({ details: {} })
+          .where(and(eq(auditLogTable.entityType, "user"), eq(auditLogTable.entityId, user.id)));
+        await tx.insert(auditLogTable).values(AuditLogRepository.fromDomain(audit));
+      });
     } catch (error) {
-      console.error(`Failed to save user ${user.id}:`, error);
+      console.error(`Failed to erase user ${user.id}:`, error);
       throw new Error("Failed to save user to database");
     }
   }
 
+  async findDeletedBefore(cutoff: Date): Promise<UserEntity[]> {
+    try {
+      const result = await this.db
+        .select()
+        .from(usersTable)
+        .where(lt(usersTable.deletedAt, cutoff));
+
+      return result.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error("Failed to find users deleted before", cutoff, error);
+      throw new Error("Failed to retrieve users from database");
+    }
+  }
+
   async delete(id: string): Promise<void> {
     if (!id || id.trim() === '') {
       throw new Error("User ID is required");
@@ -101,16 +246,28 @@ export class UserRepository implements IUserRepository {
       row.name,
       new Date(row.createdAt),
       new Date(row.updatedAt),
+      row.role,
+      row.emailVerifiedAt ? new Date(row.emailVerifiedAt) : null,
+      row.deletedAt ? new Date(row.deletedAt) : null,
+      row.version,
     );
   }
 
+  private visible(options: UserLookupOptions) {
+    return options.includeDeleted ? undefined : isNull(usersTable.deletedAt);
+  }
+
   private fromDomain(user: UserEntity) {
     return {
       id: user.id,
       email: user.email, // Fixed: was using user.name instead of user.email
       name: user.name,
+      role: user.role,
+      emailVerifiedAt: user.emailVerifiedAt,
+      deletedAt: user.deletedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
+      version: user.version + 1,
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { UserTokenEntity } from "../../../domain/entities/user-token";
+import type { IUserTokenRepository } from "../../../domain/repositories/iuser-token.repository";
+import type { UserTokenPurpose } from "../../../domain/vo/UserTokenPurpose";
+import { userTokensTable } from "../schema/user_tokens";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class UserTokenRepository implements IUserTokenRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findByHash(purpose: UserTokenPurpose, tokenHash: string): Promise<UserTokenEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(userTokensTable)
+        .where(and(eq(userTokensTable.tokenHash, tokenHash), eq(userTokensTable.purpose, purpose)))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find ${purpose} token by hash:`, error);
+      throw new Error("Failed to retrieve token from database");
+    }
+  }
+
+  async save(token: UserTokenEntity): Promise<void> {
+    try {
+      await this.db.insert(userTokensTable).values(this.fromDomain(token));
+    } catch (error) {
+      console.error(`Failed to save token ${token.id}:`, error);
+      throw new Error("Failed to save token to database");
+    }
+  }
+
+  async consume(id: string, at: Date): Promise<boolean> {
+    try {
+      const consumed = await this.db
+        .update(userTokensTable)
+        .set({ usedAt: at })
+        .where(and(eq(userTokensTable.id, id), isNull(userTokensTable.usedAt)))
+        .returning({ id: userTokensTable.id });
+      return consumed.length > 0;
+    } catch (error) {
+      console.error(`Failed to consume token ${id}:`, error);
+      throw new Error("Failed to update token in database");
+    }
+  }
+
+  async invalidate(userId: string, purpose: UserTokenPurpose, at: Date): Promise<void> {
+    try {
+      await this.db
+        .update(userTokensTable)
+        .set({ usedAt: at })
+        .where(
+          and(
+            eq(userTokensTable.userId, userId),
+            eq(userTokensTable.purpose, purpose),
+            isNull(userTokensTable.usedAt),
+          ),
+        );
+    } catch (error) {
+      console.error(`Failed to invalidate ${purpose} tokens of user ${userId}:`, error);
+      throw new Error("Failed to update tokens in database");
+    }
+  }
+
+  private toDomain(row: any): UserTokenEntity {
+    return new UserTokenEntity(
+      row.id,
+      row.userId,
+      row.purpose,
+      row.tokenHash,
+      new Date(row.expiresAt),
+      new Date(row.createdAt),
+      row.usedAt ? new Date(row.usedAt) : null,
+      row.newEmail,
+    );
+  }
+
+  private fromDomain(token: UserTokenEntity) {
+    return {
+      id: token.id,
+      userId: token.userId,
+      purpose: token.purpose,
+      tokenHash: token.tokenHash,
+      expiresAt: token.expiresAt,
+      createdAt: token.createdAt,
+      usedAt: token.usedAt,
+      newEmail: token.newEmail,
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import { and, asc, eq, inArray, lt, lte } from "drizzle-orm";
+import { WebhookDeliveryEntity } from "../../../domain/entities/webhook-delivery";
+import type {
+  IWebhookDeliveryRepository,
+  WebhookDeliveryListFilter,
+  WebhookDeliverySortField,
+} from "../../../domain/repositories/iwebhook-delivery.repository";
+import type { Page, PageRequest } from "../../../domain/vo/Page";
+import { WebhookDeliveryStatus } from "../../../domain/vo/WebhookDelivery";
+import type { WebhookAttempt } from "../../../domain/vo/WebhookDelivery";
+import { webhookDeliveriesTable } from "../schema/webhooks";
+import type { WebhookAttemptRow } from "../schema/webhooks";
+import { paginateWithCursor } from "../utils/pagination";
+import { CURSOR_SECRET_TOKEN } from "../utils/cursor";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class WebhookDeliveryRepository implements IWebhookDeliveryRepository {
+  constructor(
+    @inject("Database") private database: Database,
+    @inject(CURSOR_SECRET_TOKEN) private cursorSecret: string,
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findById(id: string): Promise<WebhookDeliveryEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(webhookDeliveriesTable)
+        .where(eq(webhookDeliveriesTable.id, id))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find webhook delivery ${id}:`, error);
+      throw new Error("Failed to retrieve webhook delivery from database");
+    }
+  }
+
+  async findPage(
+    filter: WebhookDeliveryListFilter,
+    page: PageRequest<WebhookDeliverySortField>,
+  ): Promise<Page<WebhookDeliveryEntity>> {
+    const result = await paginateWithCursor({
+      db: this.db,
+      table: webhookDeliveriesTable,
+      sortColumn: webhookDeliveriesTable.createdAt,
+      idColumn: webhookDeliveriesTable.id,
+      where: and(
+        eq(webhookDeliveriesTable.subscriptionId, filter.subscriptionId),
+        filter.status ? eq(webhookDeliveriesTable.status, filter.status) : undefined,
+      ),
+      page,
+      scope: `webhook-deliveries:${filter.subscriptionId}`,
+      secret: this.cursorSecret,
+    });
+    return { ...result, data: result.data.map((row) => this.toDomain(row)) };
+  }
+
+  async schedule(deliveries: WebhookDeliveryEntity[]): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db
+        .insert(webhookDeliveriesTable)
+        .values(deliveries.map((delivery) => this.fromDomain(delivery)))
+        .onConflictDoNothing({ target: [webhookDeliveriesTable.subscriptionId, webhookDeliveriesTable.eventId] });
+    } catch (error) {
+      console.error("Failed to schedule webhook deliveries:", error);
+      throw new Error("Failed to save webhook deliveries to database");
+    }
+  }
+
+  async claimDue(limit: number, now: Date, leaseMs: number): Promise<WebhookDeliveryEntity[]> {
+    try {
+      // SKIP LOCKED lets dispatchers running side by side claim different deliveries
+      const due = this.db
+        .select({ id: webhookDeliveriesTable.id })
+        .from(webhookDeliveriesTable)
+        .where(
+          and(
+            eq(webhookDeliveriesTable.status, WebhookDeliveryStatus.PENDING),
+            lte(webhookDeliveriesTable.nextAttemptAt, now),
+          ),
+        )
+        .orderBy(asc(webhookDeliveriesTable.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      const claimed = await this.db
+        .update(webhookDeliveriesTable)
+        .set({ nextAttemptAt: new Date(now.getTime() + leaseMs) })
+        .where(inArray(webhookDeliveriesTable.id, due))
+        .returning();
+
+      return claimed
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error("Failed to claim due webhook deliveries:", error);
+      throw new Error("Failed to retrieve webhook deliveries from database");
+    }
+  }
+
+  async save(delivery: WebhookDeliveryEntity): Promise<void> {
+    try {
+      await this.db
+        .update(webhookDeliveriesTable)
+        .set({
+          status: delivery.status,
+          attempts: delivery.attempts.map((attempt) => this.attemptFromDomain(attempt)),
+          nextAttemptAt: delivery.nextAttemptAt,
+        })
+        .where(eq(webhookDeliveriesTable.id, delivery.id));
+    } catch (error) {
+      console.error(`Failed to save webhook delivery ${delivery.id}:`, error);
+      throw new Error("Failed to save webhook delivery to database");
+    }
+  }
+
+  async deleteSettledBefore(before: Date): Promise<number> {
+    try {
+      const deleted = await this.db
+        .delete(webhookDeliveriesTable)
+        .where(
+          and(
+            inArray(webhookDeliveriesTable.status, [WebhookDeliveryStatus.DELIVERED, WebhookDeliveryStatus.DEAD]),
+            lt(webhookDeliveriesTable.createdAt, before),
+          ),
+        )
+        .returning({ id: webhookDeliveriesTable.id });
+      return deleted.length;
+    } catch (error) {
+      console.error("Failed to delete settled webhook deliveries:", error);
+      throw new Error("Failed to delete webhook deliveries from database");
+    }
+  }
+
+  private fromDomain(delivery: WebhookDeliveryEntity) {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts.map((attempt) => this.attemptFromDomain(attempt)),
+      nextAttemptAt: delivery.nextAttemptAt,
+      createdAt: delivery.createdAt,
+    };
+  }
+
+  private attemptFromDomain(attempt: WebhookAttempt): WebhookAttemptRow {
+    return { ...attempt, attemptedAt: attempt.attemptedAt.toISOString() };
+  }
+
+  private toDomain(row: any): WebhookDeliveryEntity {
+    return new WebhookDeliveryEntity(
+      row.id,
+      row.subscriptionId,
+      row.eventId,
+      row.eventType,
+      row.payload,
+      row.status,
+      (row.attempts as WebhookAttemptRow[]).map((attempt) => ({ ...attempt, attemptedAt: new Date(attempt.attemptedAt) })),
+      row.nextAttemptAt ? new Date(row.nextAttemptAt) : null,
+      new Date(row.createdAt),
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { and, arrayContains, asc, eq, isNull, or } from "drizzle-orm";
+import { WebhookSubscriptionEntity } from "../../../domain/entities/webhook-subscription";
+import type { DomainEventType } from "../../../domain/events/domain-event";
+import type { IWebhookSubscriptionRepository } from "../../../domain/repositories/iwebhook-subscription.repository";
+import { webhookSubscriptionsTable } from "../schema/webhooks";
+import { injectable, inject } from "tsyringe";
+import type { Database } from "../schema";
+import { activeDatabase } from "../unit-of-work";
+
+@injectable()
+export class WebhookSubscriptionRepository implements IWebhookSubscriptionRepository {
+  constructor(
+    @inject("Database") private database: Database
+  ) {}
+
+  private get db(): Database {
+    return activeDatabase(this.database);
+  }
+
+  async findById(id: string): Promise<WebhookSubscriptionEntity | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(webhookSubscriptionsTable)
+        .where(eq(webhookSubscriptionsTable.id, id))
+        .limit(1);
+
+      return result.length > 0 ? this.toDomain(result[0]) : null;
+    } catch (error) {
+      console.error(`Failed to find webhook subscription ${id}:`, error);
+      throw new Error("Failed to retrieve webhook subscription from database");
+    }
+  }
+
+  async findByOwner(owner: string): Promise<WebhookSubscriptionEntity[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(webhookSubscriptionsTable)
+        .where(eq(webhookSubscriptionsTable.owner, owner))
+        .orderBy(asc(webhookSubscriptionsTable.createdAt));
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error(`Failed to find webhook subscriptions of ${owner}:`, error);
+      throw new Error("Failed to retrieve webhook subscriptions from database");
+    }
+  }
+
+  async findForEvent(type: DomainEventType, userId: string | null): Promise<WebhookSubscriptionEntity[]> {
+    try {
+      const results = await this.db
+        .select()
+        .from(webhookSubscriptionsTable)
+        .where(
+          and(
+            arrayContains(webhookSubscriptionsTable.eventTypes, [type]),
+            or(
+              isNull(webhookSubscriptionsTable.userId),
+              userId ? eq(webhookSubscriptionsTable.userId, userId) : undefined,
+            ),
+          ),
+        );
+      return results.map((row) => this.toDomain(row));
+    } catch (error) {
+      console.error(`Failed to find webhook subscriptions to ${type}:`, error);
+      throw new Error("Failed to retrieve webhook subscriptions from database");
+    }
+  }
+
+  async save(subscription: WebhookSubscriptionEntity): Promise<void> {
+    try {
+      await this.db.insert(webhookSubscriptionsTable).values({
+        id: subscription.id,
+        owner: subscription.owner,
+        userId: subscription.userId,
+        url: subscription.url,
+        eventTypes: [...subscription.eventTypes],
+        secret: subscription.secret,
+        createdAt: subscription.createdAt,
+      });
+    } catch (error) {
+      console.error("Failed to save webhook subscription:", error);
+      throw new Error("Failed to save webhook subscription to database");
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.db.delete(webhookSubscriptionsTable).where(eq(webhookSubscriptionsTable.id, id));
+    } catch (error) {
+      console.error(`Failed to delete webhook subscription ${id}:`, error);
+      throw new Error("Failed to delete webhook subscription from database");
+    }
+  }
+
+  private toDomain(row: any): WebhookSubscriptionEntity {
+    return new WebhookSubscriptionEntity(
+      row.id,
+      row.owner,
+      row.userId,
+      row.url,
+      row.eventTypes,
+      row.secret,
+      new Date(row.createdAt),
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { is, sql } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import { schema } from "./schema";
+import type { Database } from "./schema";
+
+export interface ColumnShape {
+  table: string;
+  column: string;
+  type: string;
+  nullable: boolean;
+}
+
+// Drizzle spells some types differently from Postgres' format_type()
+const TYPE_ALIASES: Record<string, string> = {
+  varchar: "character varying",
+  char: "character",
+  timestamp: "timestamp without time zone",
+  serial: "integer",
+  bigserial: "bigint",
+  smallserial: "smallint",
+};
+
+export function normalizeType(type: string): string {
+  const normalized = type.toLowerCase().replace(/,\s+/g, ",").trim();
+  const match = normalized.match(/^([a-z]+)(.*)$/);
+  if (!match) {
+    return normalized;
+  }
+
+  const [, base, rest] = match;
+  if (base === "timestamp" && rest.includes("with time zone")) {
+    return `timestamp${rest.replace(" with time zone", "")} with time zone`;
+  }
+  if (base === "timestamp") {
+    return `timestamp${rest} without time zone`;
+  }
+  return `${TYPE_ALIASES[base] ?? base}${rest}`;
+}
+
+export function expectedColumns(tables: Record<string, unknown> = schema): ColumnShape[] {
+  return Object.values(tables)
+    .filter((table): table is PgTable => is(table, PgTable))
+    .flatMap((table) => {
+      const config = getTableConfig(table);
+      return config.columns.map((column) => ({
+        table: config.name,
+        column: column.name,
+        type: normalizeType(column.getSQLType()),
+        nullable: !column.notNull,
+      }));
+    });
+}
+
+// Lists every difference between what the code declares and what the database has
+export function findSchemaDrift(expected: ColumnShape[], actual: ColumnShape[]): string[] {
+  const key = (c: ColumnShape) => `${c.table}.${c.column}`;
+  const live = new Map(actual.map((c) => [key(c), c]));
+  const declaredTables = new Set(expected.map((c) => c.table));
+  const liveTables = new Set(actual.map((c) => c.table));
+  const drift: string[] = [];
+
+  for (const table of declaredTables) {
+    if (!liveTables.has(table)) {
+      drift.push(`Table ${table} is missing`);
+    }
+  }
+
+  for (const column of expected) {
+    if (!liveTables.has(column.table)) {
+      continue;
+    }
+
+    const found = live.get(key(column));
+    if (!found) {
+      drift.push(`Column ${key(column)} is missing`);
+      continue;
+    }
+    if (normalizeType(found.type) !== column.type) {
+      drift.push(`Column ${key(column)} is ${found.type}, expected ${column.type}`);
+    }
+    if (found.nullable !== column.nullable) {
+      drift.push(
+        `Column ${key(column)} is ${found.nullable ? "nullable" : "not null"}, expected ${column.nullable ? "nullable" : "not null"}`,
+      );
+    }
+  }
+
+  const declared = new Set(expected.map(key));
+  for (const column of actual) {
+    if (declaredTables.has(column.table) && !declared.has(key(column))) {
+      drift.push(`Column ${key(column)} is not declared in the schema`);
+    }
+  }
+
+  return drift;
+}
+
+export async function loadLiveColumns(db: Database): Promise<ColumnShape[]> {
+  const result = await db.execute<{
+    table_name: string;
+    column_name: string;
+    data_type: string;
+    nullable: boolean;
+  }>(sql`
+    SELECT c.relname AS table_name,
+           a.attname AS column_name,
+           format_type(a.atttypid, a.atttypmod) AS data_type,
+           NOT a.attnotnull AS nullable
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+      AND c.relkind = 'r'
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+  `);
+
+  return result.rows.map((row) => ({
+    table: row.table_name,
+    column: row.column_name,
+    type: row.data_type,
+    nullable: row.nullable,
+  }));
+}
+
+export async function checkSchema(db: Database): Promise<string[]> {
+  return findSchemaDrift(expectedColumns(), await loadLiveColumns(db));
+}
@@ -0,0 +1,15 @@
+import { pgTable, varchar, timestamp } from "drizzle-orm/pg-core";
+import { rolesTable } from "./roles";
+
+export const apiKeysTable = pgTable("api_keys", {
+  id: varchar("id", { length: 255 }).primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  role: varchar("role", { length: 50 })
+    .notNull()
+    .references(() => rolesTable.name),
+  prefix: varchar("prefix", { length: 16 }).notNull(),
+  keyHash: varchar("key_hash", { length: 64 }).notNull().unique(), // SHA-256 hex of the key
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
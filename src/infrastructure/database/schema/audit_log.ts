@@ -0,0 +1,16 @@
+import { pgTable, varchar, jsonb, timestamp, index } from "drizzle-orm/pg-core";
+
+// Append-only; rows outlive the records they describe, so there are no foreign keys
+export const auditLogTable = pgTable(
+  "audit_log",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    actor: varchar("actor", { length: 255 }).notNull(),
+    action: varchar("action", { length: 100 }).notNull(),
+    entityType: varchar("entity_type", { length: 50 }).notNull(),
+    entityId: varchar("entity_id", { length: 255 }).notNull(),
+    details: jsonb("details").$type<Record<string, unknown>>().notNull().default({}),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("audit_log_entity_idx").on(table.entityType, table.entityId, table.createdAt)],
+);
@@ -0,0 +1,28 @@
+import { pgTable, varchar, decimal, integer, boolean, timestamp, index } from "drizzle-orm/pg-core";
+import { itemsTable } from "./items";
+
+export const discountRulesTable = pgTable(
+  "discount_rules",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    name: varchar("name", { length: 255 }).notNull(),
+    type: varchar("type", { length: 20 }).notNull(), // DiscountType enum values
+    percentage: decimal("percentage", { precision: 5, scale: 2 }),
+    amount: decimal("amount", { precision: 12, scale: 3 }),
+    currency: varchar("currency", { length: 3 }), // Of amount and minimum_total
+    buyQuantity: integer("buy_quantity"),
+    getQuantity: integer("get_quantity"),
+    productId: varchar("product_id", { length: 255 }).references(() => itemsTable.id),
+    category: varchar("category", { length: 100 }),
+    minimumTotal: decimal("minimum_total", { precision: 12, scale: 3 }),
+    couponCode: varchar("coupon_code", { length: 50 }).unique(),
+    validFrom: timestamp("valid_from"),
+    validTo: timestamp("valid_to"),
+    priority: integer("priority").notNull().default(0),
+    stackable: boolean("stackable").notNull().default(false),
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("discount_rules_active_idx").on(table.active, table.priority)],
+);
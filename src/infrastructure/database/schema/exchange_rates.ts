@@ -0,0 +1,20 @@
+import { pgTable, varchar, decimal, date, timestamp, unique } from "drizzle-orm/pg-core";
+
+export const exchangeRatesTable = pgTable(
+  "exchange_rates",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    baseCurrency: varchar("base_currency", { length: 3 }).notNull(),
+    quoteCurrency: varchar("quote_currency", { length: 3 }).notNull(),
+    rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // Quote units per base unit
+    effectiveDate: date("effective_date").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("exchange_rates_pair_date_unique").on(
+      table.baseCurrency,
+      table.quoteCurrency,
+      table.effectiveDate,
+    ),
+  ],
+);
@@ -0,0 +1,20 @@
+import { pgTable, varchar, integer, jsonb, text, timestamp, index, primaryKey } from "drizzle-orm/pg-core";
+
+// Keys are only unique per caller; the response columns stay null while the first request runs
+export const idempotencyKeysTable = pgTable(
+  "idempotency_keys",
+  {
+    principal: varchar("principal", { length: 255 }).notNull(),
+    key: varchar("key", { length: 255 }).notNull(),
+    requestHash: varchar("request_hash", { length: 64 }).notNull(), // SHA-256 hex of the method, path and body
+    responseStatus: integer("response_status"),
+    responseHeaders: jsonb("response_headers").$type<Record<string, string>>(),
+    responseBody: text("response_body"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.principal, table.key] }),
+    index("idempotency_keys_expires_at_idx").on(table.expiresAt),
+  ],
+);
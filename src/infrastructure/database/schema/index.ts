@@ -1,14 +1,47 @@
 import { drizzle } from "drizzle-orm/node-postgres";
 import { usersTable } from "./users";
 import { ordersTable } from "./orders";
+import { orderItemsTable } from "./order_items";
+import { orderDiscountsTable } from "./order_discounts";
 import { orderStatusesTable } from "./order_statuses";
+import { orderStatusHistoryTable } from "./order_status_history";
 import { itemsTable } from "./items";
+import { taxRatesTable } from "./tax_rates";
+import { exchangeRatesTable } from "./exchange_rates";
+import { discountRulesTable } from "./discount_rules";
+import { apiKeysTable } from "./api_keys";
+import { rolesTable, permissionsTable, rolePermissionsTable } from "./roles";
+import { passwordCredentialsTable } from "./password_credentials";
+import { refreshTokensTable } from "./refresh_tokens";
+import { userTokensTable } from "./user_tokens";
+import { auditLogTable } from "./audit_log";
+import { idempotencyKeysTable } from "./idempotency_keys";
+import { outboxTable } from "./outbox";
+import { webhookSubscriptionsTable, webhookDeliveriesTable } from "./webhooks";
 
 export const schema = {
   users: usersTable,
   orders: ordersTable,
+  orderItems: orderItemsTable,
+  orderDiscounts: orderDiscountsTable,
   orderStatuses: orderStatusesTable,
+  orderStatusHistory: orderStatusHistoryTable,
   items: itemsTable,
+  taxRates: taxRatesTable,
+  exchangeRates: exchangeRatesTable,
+  discountRules: discountRulesTable,
+  apiKeys: apiKeysTable,
+  roles: rolesTable,
+  permissions: permissionsTable,
+  rolePermissions: rolePermissionsTable,
+  passwordCredentials: passwordCredentialsTable,
+  refreshTokens: refreshTokensTable,
+  userTokens: userTokensTable,
+  auditLog: auditLogTable,
+  idempotencyKeys: idempotencyKeysTable,
+  outbox: outboxTable,
+  webhookSubscriptions: webhookSubscriptionsTable,
+  webhookDeliveries: webhookDeliveriesTable,
 };
 
 // Define the Database type using Drizzle's infer functionality
@@ -4,8 +4,11 @@ export const itemsTable = pgTable("items", {
   id: varchar("id", { length: 255 }).primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
-  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  price: decimal("price", { precision: 12, scale: 3 }).notNull(), // Money columns keep three decimals, as KWD and BHD need
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"), // ISO 4217 code of the price
   sku: varchar("sku", { length: 100 }).unique(),
+  taxCategory: varchar("tax_category", { length: 20 }).notNull().default("standard"), // TaxCategory enum values
+  category: varchar("category", { length: 100 }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -0,0 +1,18 @@
+import { pgTable, varchar, integer, decimal, unique } from "drizzle-orm/pg-core";
+import { ordersTable } from "./orders";
+
+// The discounts an order was priced with, fixed when it is placed
+export const orderDiscountsTable = pgTable(
+  "order_discounts",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    orderId: varchar("order_id", { length: 255 }).notNull().references(() => ordersTable.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(), // Keeps discounts in the order they were applied
+    ruleId: varchar("rule_id", { length: 255 }).notNull(), // Not a reference, the rule may be deleted since
+    name: varchar("name", { length: 255 }).notNull(), // Rule name at order time
+    type: varchar("type", { length: 20 }).notNull(), // DiscountType enum values
+    couponCode: varchar("coupon_code", { length: 50 }),
+    amount: decimal("amount", { precision: 12, scale: 3 }).notNull(), // In the order currency
+  },
+  (table) => [unique("order_discounts_order_position_unique").on(table.orderId, table.position)],
+);
@@ -0,0 +1,26 @@
+import { pgTable, varchar, integer, decimal, index, unique } from "drizzle-orm/pg-core";
+import { ordersTable } from "./orders";
+import { itemsTable } from "./items";
+
+export const orderItemsTable = pgTable(
+  "order_items",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    orderId: varchar("order_id", { length: 255 }).notNull().references(() => ordersTable.id, { onDelete: "cascade" }),
+    itemId: varchar("item_id", { length: 255 }).notNull().references(() => itemsTable.id),
+    position: integer("position").notNull(), // Keeps lines in the order they were placed
+    productName: varchar("product_name", { length: 255 }).notNull(), // Catalog name at order time
+    quantity: integer("quantity").notNull(),
+    unitPrice: decimal("unit_price", { precision: 12, scale: 3 }).notNull(),
+    taxCategory: varchar("tax_category", { length: 20 }).notNull(), // TaxCategory enum values
+    category: varchar("category", { length: 100 }), // Catalog category at order time
+    taxRate: decimal("tax_rate", { precision: 7, scale: 6 }).notNull(),
+    netAmount: decimal("net_amount", { precision: 12, scale: 3 }).notNull(),
+    taxAmount: decimal("tax_amount", { precision: 12, scale: 3 }).notNull(),
+    lineTotal: decimal("line_total", { precision: 12, scale: 3 }).notNull(), // Gross of tax
+  },
+  (table) => [
+    unique("order_items_order_position_unique").on(table.orderId, table.position),
+    index("order_items_item_idx").on(table.itemId),
+  ],
+);
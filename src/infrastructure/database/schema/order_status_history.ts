@@ -0,0 +1,16 @@
+import { pgTable, varchar, timestamp, text, index } from "drizzle-orm/pg-core";
+import { ordersTable } from "./orders";
+
+export const orderStatusHistoryTable = pgTable(
+  "order_status_history",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    orderId: varchar("order_id", { length: 255 }).notNull().references(() => ordersTable.id),
+    fromStatus: varchar("from_status", { length: 50 }), // Null for the initial status
+    toStatus: varchar("to_status", { length: 50 }).notNull(),
+    changedAt: timestamp("changed_at").notNull().defaultNow(),
+    actor: varchar("actor", { length: 255 }).notNull(),
+    reason: text("reason"),
+  },
+  (table) => [index("order_status_history_order_idx").on(table.orderId, table.changedAt)],
+);
@@ -1,12 +1,33 @@
-import { pgTable, varchar, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { pgTable, varchar, timestamp, decimal, text, index, integer } from "drizzle-orm/pg-core";
 import { usersTable } from "./users";
 
-export const ordersTable = pgTable("orders", {
-  id: varchar("id", { length: 255 }).primaryKey(),
-  userId: varchar("user_id", { length: 255 }).notNull().references(() => usersTable.id),
-  items: jsonb("items").notNull(), // Array of OrderItem objects
-  status: varchar("status", { length: 50 }).notNull(), // OrderStatus enum values
-  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
-  createdAt: timestamp("created_at").notNull().defaultNow(),
-  updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+export const ordersTable = pgTable(
+  "orders",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    userId: varchar("user_id", { length: 255 }).notNull().references(() => usersTable.id),
+    status: varchar("status", { length: 50 }).notNull(), // OrderStatus enum values
+    taxCountry: varchar("tax_country", { length: 2 }).notNull(),
+    taxState: varchar("tax_state", { length: 100 }),
+    taxCity: varchar("tax_city", { length: 100 }),
+    pricingMode: varchar("pricing_mode", { length: 20 }).notNull(), // PricingMode enum values
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"), // ISO 4217 code of every amount on the order
+    subtotal: decimal("subtotal", { precision: 12, scale: 3 }).notNull(), // Net of tax
+    taxTotal: decimal("tax_total", { precision: 12, scale: 3 }).notNull(),
+    total: decimal("total", { precision: 12, scale: 3 }).notNull(),
+    reportingCurrency: varchar("reporting_currency", { length: 3 }).notNull(),
+    reportingTotal: decimal("reporting_total", { precision: 12, scale: 3 }).notNull(), // total converted on the order date
+    couponCodes: varchar("coupon_codes", { length: 50 }).array().notNull().default(sql`'{}'::varchar[]`),
+    cancellationReason: text("cancellation_reason"),
+    refundedAmount: decimal("refunded_amount", { precision: 12, scale: 3 }).notNull().default("0"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+    version: integer("version").notNull().default(1), // Moves on with every save, stale writes are refused
+  },
+  // Keyset pagination walks these, with the id breaking ties
+  (table) => [
+    index("orders_created_at_idx").on(table.createdAt, table.id),
+    index("orders_user_created_at_idx").on(table.userId, table.createdAt, table.id),
+  ],
+);
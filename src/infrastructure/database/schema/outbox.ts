@@ -0,0 +1,19 @@
+import { pgTable, varchar, jsonb, integer, text, timestamp, index } from "drizzle-orm/pg-core";
+
+// Domain events waiting for the dispatcher, written in the same transaction as their aggregate
+export const outboxTable = pgTable(
+  "outbox",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    type: varchar("type", { length: 100 }).notNull(), // DomainEventType values
+    aggregateType: varchar("aggregate_type", { length: 50 }).notNull(),
+    aggregateId: varchar("aggregate_id", { length: 255 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    occurredAt: timestamp("occurred_at").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    availableAt: timestamp("available_at").notNull().defaultNow(), // Not before, pushed on by leases and retries
+    dispatchedAt: timestamp("dispatched_at"),
+    lastError: text("last_error"),
+  },
+  (table) => [index("outbox_pending_idx").on(table.dispatchedAt, table.availableAt)],
+);
@@ -0,0 +1,12 @@
+import { pgTable, varchar, text, integer, timestamp } from "drizzle-orm/pg-core";
+import { usersTable } from "./users";
+
+export const passwordCredentialsTable = pgTable("password_credentials", {
+  userId: varchar("user_id", { length: 255 })
+    .primaryKey()
+    .references(() => usersTable.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(), // scrypt$N$r$p$salt$key
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
@@ -0,0 +1,19 @@
+import { pgTable, varchar, timestamp, index } from "drizzle-orm/pg-core";
+import { usersTable } from "./users";
+
+export const refreshTokensTable = pgTable(
+  "refresh_tokens",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    userId: varchar("user_id", { length: 255 })
+      .notNull()
+      .references(() => usersTable.id, { onDelete: "cascade" }),
+    familyId: varchar("family_id", { length: 255 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 hex of the token
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    revokedAt: timestamp("revoked_at"),
+    replacedBy: varchar("replaced_by", { length: 255 }),
+  },
+  (table) => [index("refresh_tokens_family_idx").on(table.familyId)],
+);
@@ -0,0 +1,25 @@
+import { pgTable, varchar, text, primaryKey } from "drizzle-orm/pg-core";
+
+export const rolesTable = pgTable("roles", {
+  name: varchar("name", { length: 50 }).primaryKey(), // Role enum values
+  description: text("description"),
+});
+
+export const permissionsTable = pgTable("permissions", {
+  name: varchar("name", { length: 100 }).primaryKey(), // Permission enum values
+  description: text("description"),
+});
+
+// Which permissions each role holds; editing these rows regrants without a deploy
+export const rolePermissionsTable = pgTable(
+  "role_permissions",
+  {
+    role: varchar("role", { length: 50 })
+      .notNull()
+      .references(() => rolesTable.name, { onDelete: "cascade" }),
+    permission: varchar("permission", { length: 100 })
+      .notNull()
+      .references(() => permissionsTable.name, { onDelete: "cascade" }),
+  },
+  (table) => [primaryKey({ columns: [table.role, table.permission] })],
+);
@@ -0,0 +1,22 @@
+import { pgTable, varchar, timestamp, decimal, date, index } from "drizzle-orm/pg-core";
+
+export const taxRatesTable = pgTable(
+  "tax_rates",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    country: varchar("country", { length: 2 }).notNull(),
+    state: varchar("state", { length: 100 }),
+    city: varchar("city", { length: 100 }),
+    category: varchar("category", { length: 20 }).notNull(), // TaxCategory enum values
+    rate: decimal("rate", { precision: 7, scale: 6 }).notNull(), // Fraction, e.g. 0.200000
+    effectiveFrom: date("effective_from").notNull(), // Inclusive
+    effectiveTo: date("effective_to"), // Inclusive, null while the rate is current
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  // Overlapping periods per jurisdiction and category are refused by tax_rates_no_overlap,
+  // an exclusion constraint drizzle cannot declare, see drizzle/0023_tax_rates_no_overlap.sql
+  (table) => [
+    index("tax_rates_lookup_idx").on(table.country, table.category, table.effectiveFrom),
+  ],
+);
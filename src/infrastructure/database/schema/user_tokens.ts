@@ -0,0 +1,19 @@
+import { pgTable, varchar, timestamp, index } from "drizzle-orm/pg-core";
+import { usersTable } from "./users";
+
+export const userTokensTable = pgTable(
+  "user_tokens",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    userId: varchar("user_id", { length: 255 })
+      .notNull()
+      .references(() => usersTable.id, { onDelete: "cascade" }),
+    purpose: varchar("purpose", { length: 50 }).notNull(), // email_verification or password_reset
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256 hex of the token
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    usedAt: timestamp("used_at"),
+    newEmail: varchar("new_email", { length: 255 }), // Only set for email changes
+  },
+  (table) => [index("user_tokens_user_purpose_idx").on(table.userId, table.purpose)],
+);
@@ -1,10 +1,25 @@
-import { pgTable, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, varchar, timestamp, index, integer } from "drizzle-orm/pg-core";
 import { nanoid } from "nanoid";
+import { rolesTable } from "./roles";
 
-export const usersTable = pgTable("users", {
-  id: varchar("id", { length: 255 }).primaryKey().$defaultFn(() => nanoid()),
-  email: varchar("email", { length: 255 }).notNull().unique(),
-  name: varchar("name", { length: 255 }).notNull(),
-  createdAt: timestamp("created_at").notNull().defaultNow(),
-  updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+export const usersTable = pgTable(
+  "users",
+  {
+    id: varchar("id", { length: 255 }).primaryKey().$defaultFn(() => nanoid()),
+    email: varchar("email", { length: 255 }).notNull().unique(),
+    name: varchar("name", { length: 255 }).notNull(),
+    role: varchar("role", { length: 50 })
+      .notNull()
+      .default("customer")
+      .references(() => rolesTable.name),
+    emailVerifiedAt: timestamp("email_verified_at"), // Null until the owner follows a verification link
+    deletedAt: timestamp("deleted_at"), // Soft delete; the purge removes the row some days later
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+    version: integer("version").notNull().default(1), // Moves on with every save, stale writes are refused
+  },
+  (table) => [
+    index("users_created_at_idx").on(table.createdAt, table.id),
+    index("users_deleted_at_idx").on(table.deletedAt),
+  ],
+);
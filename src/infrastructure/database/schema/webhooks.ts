@@ -0,0 +1,43 @@
+import { pgTable, varchar, text, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import type { WebhookAttempt } from "../../../domain/vo/WebhookDelivery";
+import { usersTable } from "./users";
+
+export const webhookSubscriptionsTable = pgTable(
+  "webhook_subscriptions",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    owner: varchar("owner", { length: 255 }).notNull(), // principalLabel of the creator
+    // Only events about this user are delivered; null, for webhooks:manage:any holders, means every event
+    userId: varchar("user_id", { length: 255 }).references(() => usersTable.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    eventTypes: varchar("event_types", { length: 100 }).array().notNull(), // DomainEventType values
+    secret: varchar("secret", { length: 255 }).notNull(), // Kept in plain text, deliveries are signed with it
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("webhook_subscriptions_owner_idx").on(table.owner)],
+);
+
+// Attempts are few and only ever read with their delivery, so they live on its row
+export const webhookDeliveriesTable = pgTable(
+  "webhook_deliveries",
+  {
+    id: varchar("id", { length: 255 }).primaryKey(),
+    subscriptionId: varchar("subscription_id", { length: 255 })
+      .notNull()
+      .references(() => webhookSubscriptionsTable.id, { onDelete: "cascade" }),
+    eventId: varchar("event_id", { length: 255 }).notNull(),
+    eventType: varchar("event_type", { length: 100 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: varchar("status", { length: 20 }).notNull(), // WebhookDeliveryStatus values
+    attempts: jsonb("attempts").$type<WebhookAttemptRow[]>().notNull().default([]),
+    nextAttemptAt: timestamp("next_attempt_at"), // Also pushed on by leases
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("webhook_deliveries_subscription_event_idx").on(table.subscriptionId, table.eventId),
+    index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  ],
+);
+
+// Dates come back from jsonb as ISO strings
+export type WebhookAttemptRow = Omit<WebhookAttempt, "attemptedAt"> & { attemptedAt: string };
@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { injectable, inject } from "tsyringe";
+import type { IUnitOfWork } from "../../domain/repositories/iunit-of-work";
+import type { Database } from "./schema";
+
+interface ActiveTransaction {
+  database: Database;
+  tx: Database;
+}
+
+// Follows the work through every await, so repositories find its transaction without it being passed around
+const transactions = new AsyncLocalStorage<ActiveTransaction>();
+
+/**
+ * What a repository should query: the transaction of the unit of work the call
+ * runs in, or the database itself outside of one.
+ */
+export function activeDatabase(database: Database): Database {
+  const active = transactions.getStore();
+  return active?.database === database ? active.tx : database;
+}
+
+@injectable()
+export class UnitOfWork implements IUnitOfWork {
+  constructor(@inject("Database") private database: Database) {}
+
+  async run<T>(work: () => Promise<T>): Promise<T> {
+    if (transactions.getStore()?.database === this.database) {
+      return await work();
+    }
+
+    return await this.database.transaction((tx) =>
+      // A transaction offers the same query builders as the database it came from
+      transactions.run({ database: this.database, tx: tx as unknown as Database }, work),
+    );
+  }
+}
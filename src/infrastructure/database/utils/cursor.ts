@@ -0,0 +1,109 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { ValidationFailedError } from "../../../domain/errors";
+import type { SortOrder } from "../../../domain/vo/Page";
+
+// Token for dependency injection
+export const CURSOR_SECRET_TOKEN = "CursorSecret";
+
+const CursorConfigSchema = z.object({
+  // Key the pagination cursors are signed with
+  CURSOR_SECRET: z.string().min(32, "CURSOR_SECRET must be at least 32 characters").optional(),
+  NODE_ENV: z.string().default("development"),
+});
+
+export function loadCursorSecret(): string {
+  const config = CursorConfigSchema.safeParse(process.env);
+  if (!config.success) {
+    console.error("Invalid cursor configuration:", config.error);
+    throw new Error("Failed to load cursor configuration");
+  }
+
+  if (config.data.CURSOR_SECRET) {
+    return config.data.CURSOR_SECRET;
+  }
+  if (config.data.NODE_ENV === "production") {
+    throw new Error("CURSOR_SECRET is required in production");
+  }
+
+  // Cursors handed out before a restart stop working, which is fine outside production
+  console.warn("CURSOR_SECRET is not set, signing cursors with a random key");
+  return randomBytes(32).toString("hex");
+}
+
+export class InvalidCursorError extends ValidationFailedError {
+  readonly code: string = "invalid_cursor";
+
+  constructor(message = "Invalid cursor") {
+    super(message, [{ path: "cursor", message }]);
+  }
+}
+
+// Where a page ended: the sort column value and the id that breaks ties on it
+export interface CursorPosition {
+  scope: string; // The listing the cursor belongs to
+  sortBy: string;
+  sortOrder: SortOrder;
+  value: string;
+  id: string;
+}
+
+const CursorPayload = z.object({
+  s: z.string(),
+  k: z.string(),
+  o: z.enum(["asc", "desc"]),
+  v: z.string(),
+  i: z.string(),
+});
+
+const sign = (payload: string, secret: string) =>
+  createHmac("sha256", secret).update(payload).digest();
+
+export function encodeCursor(position: CursorPosition, secret: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      s: position.scope,
+      k: position.sortBy,
+      o: position.sortOrder,
+      v: position.value,
+      i: position.id,
+    }),
+  ).toString("base64url");
+
+  return `${payload}.${sign(payload, secret).toString("base64url")}`;
+}
+
+/**
+ * Reads a cursor back, rejecting anything not signed with the secret and any
+ * cursor issued for another listing or sort, where its position would mean
+ * something else.
+ */
+export function decodeCursor(
+  cursor: string,
+  secret: string,
+  expected: Pick<CursorPosition, "scope" | "sortBy" | "sortOrder">,
+): CursorPosition {
+  const [payload, signature, ...rest] = cursor.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    throw new InvalidCursorError();
+  }
+
+  const given = Buffer.from(signature, "base64url");
+  const wanted = sign(payload, secret);
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    throw new InvalidCursorError();
+  }
+
+  let decoded: z.infer<typeof CursorPayload>;
+  try {
+    decoded = CursorPayload.parse(JSON.parse(Buffer.from(payload, "base64url").toString("utf8")));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (decoded.s !== expected.scope || decoded.k !== expected.sortBy || decoded.o !== expected.sortOrder) {
+    throw new InvalidCursorError("Cursor was issued for a different listing or sort");
+  }
+
+  return { scope: decoded.s, sortBy: decoded.k, sortOrder: decoded.o, value: decoded.v, id: decoded.i };
+}
@@ -0,0 +1,20 @@
+// Drizzle keeps the driver error, and with it the SQLSTATE, as the cause
+const hasCode = (error: unknown, code: string): boolean => {
+  const codeOf = (value: unknown) => (value as { code?: unknown } | null)?.code;
+  return codeOf(error) === code || codeOf((error as { cause?: unknown } | null)?.cause) === code;
+};
+
+// Postgres reports unique constraint violations as SQLSTATE 23505
+export function isUniqueViolation(error: unknown): boolean {
+  return hasCode(error, "23505");
+}
+
+// foreign key violations, such as deleting a row something still points at, as 23503
+export function isForeignKeyViolation(error: unknown): boolean {
+  return hasCode(error, "23503");
+}
+
+// and exclusion constraint violations as 23P01
+export function isExclusionViolation(error: unknown): boolean {
+  return hasCode(error, "23P01");
+}
@@ -0,0 +1,4 @@
+// Makes user input match literally inside a LIKE pattern
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
@@ -1,84 +1,80 @@
-import { asc, desc, gt, lt, sql, Table, Column } from "drizzle-orm"
+import { and, asc, desc, sql } from "drizzle-orm"
+import type { SQL } from "drizzle-orm"
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core"
+import type { Page, PageRequest } from "../../../domain/vo/Page"
+import type { Database } from "../schema"
+import { decodeCursor, encodeCursor } from "./cursor"
 
-type PaginatedResult<T> = {
-  data: T[]
-  limit: number
-  nextCursor: string | null
-  prevCursor: string | null
-  hasNextPage: boolean
-  hasPrevPage: boolean
-}
+export const MAX_PAGE_SIZE = 100
 
-export async function paginateWithCursor<T>({
+/**
+ * Keyset pagination over (sortColumn, idColumn). The id breaks ties, so rows
+ * sharing a sort value are neither repeated nor skipped between pages. Cursor
+ * values are read back as text and cast to the column type, which keeps them
+ * exact for timestamps and decimals.
+ */
+export async function paginateWithCursor<TTable extends PgTable>({
   db,
   table,
-  cursorColumn,
-  cursor,
-  limit,
-  direction = "forward",
+  sortColumn,
+  idColumn,
+  where,
+  page,
+  scope,
+  secret,
 }: {
-  db: any
-  table: Table
-  cursorColumn: Column
-  cursor?: string
-  limit: number
-  direction?: "forward" | "backward"
-}): Promise<PaginatedResult<T>> {
-  const safeLimit = Number.isFinite(limit) && limit > 0 ? Math.min(limit, 200) : 20
+  db: Database
+  table: TTable
+  sortColumn: PgColumn
+  idColumn: PgColumn
+  where?: SQL
+  page: PageRequest
+  scope: string // Names the listing so its cursors are not accepted by another
+  secret: string
+}): Promise<Page<TTable["$inferSelect"]>> {
+  const limit = Number.isInteger(page.limit) && page.limit > 0 ? Math.min(page.limit, MAX_PAGE_SIZE) : 20
+  const backward = page.direction === "backward"
+  // Going backward reads the listing in reverse and flips the page afterwards
+  const descending = (page.sortOrder === "desc") !== backward
+  const sortKey = { scope, sortBy: page.sortBy, sortOrder: page.sortOrder }
 
-  let comparator
-  if (cursor) {
-    comparator =
-      direction === "forward"
-        ? gt(cursorColumn, cursor as any)
-        : lt(cursorColumn, cursor as any)
+  let after: SQL | undefined
+  if (page.cursor) {
+    const position = decodeCursor(page.cursor, secret, sortKey)
+    const value = sql`${position.value}::${sql.raw(sortColumn.getSQLType())}`
+    const id = sql`${position.id}::${sql.raw(idColumn.getSQLType())}`
+    after = descending
+      ? sql`(${sortColumn}, ${idColumn}) < (${value}, ${id})`
+      : sql`(${sortColumn}, ${idColumn}) > (${value}, ${id})`
   }
 
-  const order = direction === "forward" ? asc(cursorColumn) : desc(cursorColumn)
-
-  let rows: T[]
-  if (comparator) {
-    rows = await db
-      .select()
-      .from(table)
-      .where(comparator)
-      .orderBy(order)
-      .limit(safeLimit + 1)
-  } else {
-    rows = await db
-      .select()
-      .from(table)
-      .orderBy(order)
-      .limit(safeLimit + 1)
-  }
-
-  const hasMore = rows.length > safeLimit
-  let data = hasMore ? rows.slice(0, safeLimit) : rows
-  if (direction === "backward") data = data.reverse()
-
-  const firstRow = data[0]
-  const lastRow = data[data.length - 1]
+  const order = descending ? desc : asc
+  const rows = await db
+    .select({
+      row: table as PgTable,
+      cursorValue: sql<string>`${sortColumn}::text`,
+      cursorId: sql<string>`${idColumn}::text`,
+    })
+    .from(table as PgTable)
+    .where(and(where, after))
+    .orderBy(order(sortColumn), order(idColumn))
+    .limit(limit + 1)
 
-  const nextCursor =
-    hasMore && direction === "forward"
-      ? String((lastRow as any)[cursorColumn.name])
-      : null
+  const hasMore = rows.length > limit
+  const entries = rows.slice(0, limit)
+  if (backward) entries.reverse()
 
-  const prevCursor =
-    direction === "backward"
-      ? hasMore
-        ? String((firstRow as any)[cursorColumn.name])
-        : null
-      : firstRow
-      ? String((firstRow as any)[cursorColumn.name])
-      : null
+  const hasNextPage = backward ? !!page.cursor : hasMore
+  const hasPrevPage = backward ? hasMore : !!page.cursor
+  const cursorAt = (entry: (typeof entries)[number] | undefined) =>
+    entry ? encodeCursor({ ...sortKey, value: entry.cursorValue, id: entry.cursorId }, secret) : null
 
   return {
-    data,
-    limit: safeLimit,
-    nextCursor,
-    prevCursor,
-    hasNextPage: direction === "forward" ? hasMore : true,
-    hasPrevPage: direction === "backward" ? hasMore : !!cursor,
+    data: entries.map((entry) => entry.row as TTable["$inferSelect"]),
+    limit,
+    nextCursor: hasNextPage ? cursorAt(entries[entries.length - 1]) : null,
+    prevCursor: hasPrevPage ? cursorAt(entries[0]) : null,
+    hasNextPage,
+    hasPrevPage,
   }
 }
@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+// Token for dependency injection
+export const MAIL_CONFIG_TOKEN = "MailConfig";
+
+// Compose files pass unset variables through as empty strings
+const setting = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+
+const MailConfigSchema = z
+  .object({
+    // smtp delivers for real, outbox writes .eml files (or logs) so everything runs offline
+    MAIL_TRANSPORT: z.enum(["smtp", "outbox"]).default("outbox"),
+    MAIL_FROM: z.string().min(1).default("Tax Finch <no-reply@localhost>"),
+    // Directory the outbox writes to; without one messages are logged
+    MAIL_OUTBOX_DIR: setting(z.string()),
+    SMTP_HOST: setting(z.string()),
+    SMTP_PORT: z.coerce.number().int().positive().default(587),
+    // Implicit TLS (usually port 465); otherwise STARTTLS is used whenever the server offers it
+    SMTP_SECURE: z.stringbool().default(false),
+    SMTP_USER: setting(z.string()),
+    SMTP_PASSWORD: setting(z.string()),
+    // Where links in emails point, the page there posts the token back to the API
+    APP_URL: z.url().default("http://localhost:3000"),
+  })
+  .refine((env) => env.MAIL_TRANSPORT !== "smtp" || env.SMTP_HOST, {
+    message: "SMTP_HOST is required when MAIL_TRANSPORT is smtp",
+    path: ["SMTP_HOST"],
+  })
+  .refine((env) => !env.SMTP_USER === !env.SMTP_PASSWORD, {
+    message: "SMTP_USER and SMTP_PASSWORD go together",
+    path: ["SMTP_PASSWORD"],
+  });
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  auth: { user: string; password: string } | null;
+}
+
+export interface MailConfig {
+  from: string;
+  appUrl: string;
+  transport: { type: "smtp"; smtp: SmtpSettings } | { type: "outbox"; directory: string | null };
+}
+
+export function loadMailConfig(): MailConfig {
+  const config = MailConfigSchema.safeParse(process.env);
+  if (!config.success) {
+    console.error("Invalid mail configuration:", config.error);
+    throw new Error("Failed to load mail configuration");
+  }
+
+  const env = config.data;
+  const common = { from: env.MAIL_FROM, appUrl: env.APP_URL.replace(/\/+$/, "") };
+  if (env.MAIL_TRANSPORT === "outbox") {
+    return { ...common, transport: { type: "outbox", directory: env.MAIL_OUTBOX_DIR ?? null } };
+  }
+
+  return {
+    ...common,
+    transport: {
+      type: "smtp",
+      smtp: {
+        host: env.SMTP_HOST!,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        auth: env.SMTP_USER ? { user: env.SMTP_USER, password: env.SMTP_PASSWORD! } : null,
+      },
+    },
+  };
+}
@@ -0,0 +1,14 @@
+// Token for dependency injection
+export const MAILER_TOKEN = "Mailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Sends one message; implementations throw when it could not be handed over
+export interface IMailer {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,48 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import type { MailMessage } from "./mailer";
+
+// The bare address of `Name <address>` or of a plain address
+export const addressOf = (mailbox: string): string =>
+  (/<([^<>]+)>\s*$/.exec(mailbox)?.[1] ?? mailbox).trim();
+
+// Refuses line breaks, which would let a value add headers of its own
+const headerValue = (value: string): string => {
+  if (/[\r\n]/.test(value)) {
+    throw new Error("Mail header values cannot contain line breaks");
+  }
+  return value;
+};
+
+// RFC 2047 encoded word for anything beyond printable ASCII
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const base64Body = (body: string): string =>
+  Buffer.from(body, "utf8").toString("base64").replace(/.{76}(?=.)/g, "$&\r\n");
+
+/**
+ * Renders the message as RFC 5322 text: a multipart/alternative body with the
+ * plain text and HTML versions, both base64 encoded so no line needs escaping.
+ */
+export function formatMessage(from: string, message: MailMessage, date: Date = new Date()): string {
+  const boundary = `=_${randomBytes(12).toString("hex")}`;
+  const domain = addressOf(from).split("@")[1] ?? "localhost";
+  const part = (type: string, body: string) =>
+    [`--${boundary}`, `Content-Type: ${type}; charset=utf-8`, "Content-Transfer-Encoding: base64", "", base64Body(body)]
+      .join("\r\n");
+
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
@@ -0,0 +1,25 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { IMailer, MailMessage } from "./mailer";
+import { formatMessage } from "./message";
+
+// Keeps mail on this machine: .eml files in a directory, or the log when there is none
+export class OutboxMailer implements IMailer {
+  constructor(
+    private from: string,
+    private directory: string | null,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (!this.directory) {
+      console.info(`Mail to ${message.to}: ${message.subject}\n\n${message.text}`);
+      return;
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    // Timestamped names list the outbox in the order messages were sent
+    const file = join(this.directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`);
+    await writeFile(file, formatMessage(this.from, message));
+  }
+}
@@ -0,0 +1,174 @@
+import { connect as connectPlain } from "node:net";
+import type { Socket } from "node:net";
+import { hostname } from "node:os";
+import { connect as connectTls } from "node:tls";
+import type { SmtpSettings } from "./config";
+import type { IMailer, MailMessage } from "./mailer";
+import { addressOf, formatMessage } from "./message";
+
+const TIMEOUT_MS = 30_000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One conversation with an SMTP server: writes commands and hands back the
+ * replies, including multi-line ones, in order.
+ */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: Socket) {
+    this.listen(socket);
+  }
+
+  static open(settings: SmtpSettings): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const options = { host: settings.host, port: settings.port, servername: settings.host };
+      const socket = settings.secure ? connectTls(options) : connectPlain(options);
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+      socket.once(settings.secure ? "secureConnect" : "connect", () => {
+        socket.off("error", reject);
+        resolve(new SmtpConnection(socket));
+      });
+      socket.once("error", reject);
+    });
+  }
+
+  async command(line: string, expected: number[], label = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return await this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  // Switches the connection to TLS after the server agreed to STARTTLS
+  upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+
+    return new Promise((resolve, reject) => {
+      const secured = connectTls({ socket: this.socket, servername: host });
+      secured.setTimeout(TIMEOUT_MS, () => secured.destroy(new Error("SMTP server timed out")));
+      secured.once("secureConnect", () => {
+        secured.off("error", reject);
+        this.socket = secured;
+        this.listen(secured);
+        resolve();
+      });
+      secured.once("error", reject);
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private listen(socket: Socket): void {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.receive(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP server closed the connection")));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line.slice(4));
+      // "250-" continues a reply, "250 " ends it
+      if (line[3] !== "-") {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  }
+
+  private read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+}
+
+// Lines starting with a dot get another one, so none of them ends the DATA section early
+const dotStuff = (data: string): string => data.replace(/^\./gm, "..");
+
+/**
+ * Delivers through an SMTP relay with nothing but node:net and node:tls. Uses
+ * STARTTLS whenever the server offers it and refuses to send credentials over
+ * a connection that stayed in plain text.
+ */
+export class SmtpMailer implements IMailer {
+  constructor(
+    private settings: SmtpSettings,
+    private from: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, secure, auth } = this.settings;
+    const connection = await SmtpConnection.open(this.settings);
+
+    try {
+      await connection.expect([220], "greeting");
+      const greeting = await connection.command(`EHLO ${hostname()}`, [250]);
+
+      const offersStartTls = greeting.lines.some((line) => line.toUpperCase() === "STARTTLS");
+      if (!secure && offersStartTls) {
+        await connection.command("STARTTLS", [220]);
+        await connection.upgrade(host);
+        await connection.command(`EHLO ${hostname()}`, [250]);
+      }
+
+      if (auth) {
+        if (!secure && !offersStartTls) {
+          throw new Error("SMTP server does not offer STARTTLS, refusing to send credentials in plain text");
+        }
+        const credentials = Buffer.from(`\0${auth.user}\0${auth.password}`, "utf8").toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(this.from)}>`, [250], "MAIL FROM");
+      await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251], "RCPT TO");
+      await connection.command("DATA", [354]);
+      await connection.command(`${dotStuff(formatMessage(this.from, message))}.`, [250], "message");
+      // The message is accepted at this point, a failed goodbye changes nothing
+      await connection.command("QUIT", [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
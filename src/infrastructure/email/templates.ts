@@ -0,0 +1,101 @@
+// Subjects and bodies of the emails the API sends. {{name}} placeholders are
+// filled in by renderTemplate, escaped for the HTML version.
+const TEMPLATES = {
+  "verify-email": {
+    subject: "Confirm your email address",
+    text: [
+      "Hi {{name}},",
+      "",
+      "Please confirm {{email}} is your email address by opening this link:",
+      "",
+      "{{link}}",
+      "",
+      "The link works once and expires in {{expiresIn}}. If you did not sign up, ignore this email.",
+    ].join("\n"),
+    html: [
+      "<p>Hi {{name}},</p>",
+      "<p>Please confirm {{email}} is your email address:</p>",
+      '<p><a href="{{link}}">Confirm email address</a></p>',
+      "<p>The link works once and expires in {{expiresIn}}. If you did not sign up, ignore this email.</p>",
+    ].join("\n"),
+  },
+  "reset-password": {
+    subject: "Reset your password",
+    text: [
+      "Hi {{name}},",
+      "",
+      "Someone asked to reset the password of your account. To choose a new one, open this link:",
+      "",
+      "{{link}}",
+      "",
+      "The link works once and expires in {{expiresIn}}. Resetting signs you out everywhere.",
+      "If you did not ask for this, ignore this email and your password stays as it is.",
+    ].join("\n"),
+    html: [
+      "<p>Hi {{name}},</p>",
+      "<p>Someone asked to reset the password of your account. To choose a new one:</p>",
+      '<p><a href="{{link}}">Reset password</a></p>',
+      "<p>The link works once and expires in {{expiresIn}}. Resetting signs you out everywhere.</p>",
+      "<p>If you did not ask for this, ignore this email and your password stays as it is.</p>",
+    ].join("\n"),
+  },
+  "confirm-email-change": {
+    subject: "Confirm your new email address",
+    text: [
+      "Hi {{name}},",
+      "",
+      "To start using {{email}} for your account, open this link:",
+      "",
+      "{{link}}",
+      "",
+      "The link works once and expires in {{expiresIn}}. Until then your account keeps its current address.",
+      "If you did not ask for this, ignore this email.",
+    ].join("\n"),
+    html: [
+      "<p>Hi {{name}},</p>",
+      "<p>To start using {{email}} for your account:</p>",
+      '<p><a href="{{link}}">Confirm new email address</a></p>',
+      "<p>The link works once and expires in {{expiresIn}}. Until then your account keeps its current address.</p>",
+      "<p>If you did not ask for this, ignore this email.</p>",
+    ].join("\n"),
+  },
+  "email-changed": {
+    subject: "Your email address was changed",
+    text: [
+      "Hi {{name}},",
+      "",
+      "Your account now uses {{newEmail}} instead of this address.",
+      "If you did not make this change, contact support right away.",
+    ].join("\n"),
+    html: [
+      "<p>Hi {{name}},</p>",
+      "<p>Your account now uses {{newEmail}} instead of this address.</p>",
+      "<p>If you did not make this change, contact support right away.</p>",
+    ].join("\n"),
+  },
+} as const;
+
+export type TemplateName = keyof typeof TEMPLATES;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const fill = (template: string, values: Record<string, string>, escape: (value: string) => string) =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    if (!(key in values)) {
+      throw new Error(`Missing value for {{${key}}} in email template`);
+    }
+    return escape(values[key]);
+  });
+
+export function renderTemplate(
+  name: TemplateName,
+  values: Record<string, string>,
+): { subject: string; text: string; html: string } {
+  const template = TEMPLATES[name];
+  return {
+    subject: fill(template.subject, values, (value) => value),
+    text: fill(template.text, values, (value) => value),
+    html: fill(template.html, values, escapeHtml),
+  };
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+// Token for dependency injection
+export const REPORTING_CURRENCY_TOKEN = "ReportingCurrency";
+
+const CurrencyConfigSchema = z.object({
+  // Currency every order total is also reported in
+  REPORTING_CURRENCY: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/, "REPORTING_CURRENCY must be an ISO 4217 code")
+    .transform((code) => code.toUpperCase())
+    .default("USD"),
+});
+
+export type CurrencyConfig = z.infer<typeof CurrencyConfigSchema>;
+
+export function loadCurrencyConfig(): CurrencyConfig {
+  try {
+    return CurrencyConfigSchema.parse(process.env);
+  } catch (error) {
+    console.error("Invalid currency configuration:", error);
+    throw new Error("Failed to load currency configuration");
+  }
+}
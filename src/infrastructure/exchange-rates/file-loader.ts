@@ -0,0 +1,76 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { z } from "zod";
+import { ExchangeRateEntity } from "../../domain/entities/exchange-rate";
+
+const ExchangeRateRecord = z.object({
+  date: z.iso.date("date must be YYYY-MM-DD"),
+  base: z.string().trim().length(3),
+  quote: z.string().trim().length(3),
+  rate: z.coerce.number().positive(),
+});
+
+export type ExchangeRateFormat = "csv" | "json";
+
+/**
+ * Parses exchange rates published as CSV (a `date,base,quote,rate` header row,
+ * columns in any order) or as a JSON array of `{ date, base, quote, rate }`.
+ * A later row for the same pair and date replaces an earlier one.
+ */
+export function parseExchangeRates(
+  content: string,
+  format: ExchangeRateFormat,
+): ExchangeRateEntity[] {
+  const records = format === "json" ? parseJson(content) : parseCsv(content);
+  const rates = new Map<string, ExchangeRateEntity>();
+
+  records.forEach((record, index) => {
+    const parsed = ExchangeRateRecord.safeParse(record);
+    if (!parsed.success) {
+      throw new Error(`Invalid exchange rate at record ${index + 1}: ${parsed.error.issues[0].message}`);
+    }
+
+    const { date, base, quote, rate } = parsed.data;
+    const exchangeRate = ExchangeRateEntity.create(base, quote, rate, date);
+    rates.set(
+      `${exchangeRate.baseCurrency}/${exchangeRate.quoteCurrency}@${date}`,
+      exchangeRate,
+    );
+  });
+
+  return [...rates.values()];
+}
+
+export async function readExchangeRateFile(path: string): Promise<ExchangeRateEntity[]> {
+  const extension = extname(path).toLowerCase();
+  if (extension !== ".csv" && extension !== ".json") {
+    throw new Error(`Unsupported exchange rate file ${path}, expected .csv or .json`);
+  }
+
+  const content = await readFile(path, "utf8");
+  return parseExchangeRates(content, extension === ".csv" ? "csv" : "json");
+}
+
+function parseJson(content: string): unknown[] {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data)) {
+    throw new Error("Exchange rate JSON must be an array");
+  }
+  return data;
+}
+
+function parseCsv(content: string): Record<string, string>[] {
+  const [header, ...rows] = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.split(",").map((column) => column.trim().toLowerCase());
+  return rows.map((row) => {
+    const values = row.split(",");
+    return Object.fromEntries(columns.map((column, i) => [column, values[i]?.trim() ?? ""]));
+  });
+}
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+// Token for dependency injection
+export const IDEMPOTENCY_CONFIG_TOKEN = "IdempotencyConfig";
+
+const IdempotencyConfigSchema = z.object({
+  // How long a response is replayed to retries carrying the same Idempotency-Key
+  IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().positive().default(24),
+});
+
+export interface IdempotencyConfig {
+  ttlHours: number;
+}
+
+export function loadIdempotencyConfig(): IdempotencyConfig {
+  const config = IdempotencyConfigSchema.safeParse(process.env);
+  if (!config.success) {
+    console.error("Invalid idempotency configuration:", config.error);
+    throw new Error("Failed to load idempotency configuration");
+  }
+
+  return { ttlHours: config.data.IDEMPOTENCY_KEY_TTL_HOURS };
+}
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+// Token for dependency injection
+export const OUTBOX_CONFIG_TOKEN = "OutboxConfig";
+
+const OutboxConfigSchema = z.object({
+  // How often the server looks for events to dispatch, 0 turns the dispatcher off
+  OUTBOX_POLL_INTERVAL_SECONDS: z.coerce.number().nonnegative().default(5),
+  // Events taken from the outbox per poll
+  OUTBOX_BATCH_SIZE: z.coerce.number().int().positive().default(100),
+});
+
+export interface OutboxConfig {
+  pollIntervalSeconds: number;
+  batchSize: number;
+}
+
+export function loadOutboxConfig(): OutboxConfig {
+  const config = OutboxConfigSchema.safeParse(process.env);
+  if (!config.success) {
+    console.error("Invalid outbox configuration:", config.error);
+    throw new Error("Failed to load outbox configuration");
+  }
+
+  return {
+    pollIntervalSeconds: config.data.OUTBOX_POLL_INTERVAL_SECONDS,
+    batchSize: config.data.OUTBOX_BATCH_SIZE,
+  };
+}
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { DeletedUserOrderPolicy } from "../../domain/vo/DeletedUserOrderPolicy";
+
+// Token for dependency injection
+export const USER_LIFECYCLE_CONFIG_TOKEN = "UserLifecycleConfig";
+
+const UserLifecycleConfigSchema = z.object({
+  USER_DELETE_ORDER_POLICY: z.enum(DeletedUserOrderPolicy).default(DeletedUserOrderPolicy.BLOCK),
+  // Days a deleted user can still be restored before the purge removes them
+  USER_PURGE_AFTER_DAYS: z.coerce.number().int().positive().default(30),
+  // How often the server runs the purge itself, 0 leaves it to `npm run users:purge`
+  USER_PURGE_INTERVAL_HOURS: z.coerce.number().nonnegative().default(24),
+});
+
+export interface UserLifecycleConfig {
+  orderPolicy: DeletedUserOrderPolicy;
+  purgeAfterDays: number;
+  purgeIntervalHours: number;
+}
+
+export function loadUserLifecycleConfig(): UserLifecycleConfig {
+  const config = UserLifecycleConfigSchema.safeParse(process.env);
+  if (!config.success) {
+    console.error("Invalid user lifecycle configuration:", config.error);
+    throw new Error("Failed to load user lifecycle configuration");
+  }
+
+  return {
+    orderPolicy: config.data.USER_DELETE_ORDER_POLICY,
+    purgeAfterDays: config.data.USER_PURGE_AFTER_DAYS,
+    purgeIntervalHours: config.data.USER_PURGE_INTERVAL_HOURS,
+  };
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// Token for dependency injection
+export const WEBHOOK_CONFIG_TOKEN = "WebhookConfig";
+
+const WebhookConfigSchema = z.object({
+  // How often the server looks for deliveries that are due, 0 turns delivery off
+  WEBHOOK_POLL_INTERVAL_SECONDS: z.coerce.number().nonnegative().default(5),
+  // Attempts at a delivery before it goes dead
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(12),
+  // How long a subscriber gets to answer
+  WEBHOOK_TIMEOUT_SECONDS: z.coerce.number().positive().default(10),
+  // How long delivered and dead deliveries stay in the log
+  WEBHOOK_DELIVERY_RETENTION_DAYS: z.coerce.number().positive().default(30),
+});
+
+export interface WebhookConfig {
+  pollIntervalSeconds: number;
+  maxAttempts: number;
+  timeoutSeconds: number;
+  deliveryRetentionDays: number;
+}
+
+export function loadWebhookConfig(): WebhookConfig {
+  const config = WebhookConfigSchema.safeParse(process.env);
+  if (!config.success) {
+    console.error("Invalid webhook configuration:", config.error);
+    throw new Error("Failed to load webhook configuration");
+  }
+
+  return {
+    pollIntervalSeconds: config.data.WEBHOOK_POLL_INTERVAL_SECONDS,
+    maxAttempts: config.data.WEBHOOK_MAX_ATTEMPTS,
+    timeoutSeconds: config.data.WEBHOOK_TIMEOUT_SECONDS,
+    deliveryRetentionDays: config.data.WEBHOOK_DELIVERY_RETENTION_DAYS,
+  };
+}
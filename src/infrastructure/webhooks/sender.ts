@@ -0,0 +1,74 @@
+import { createHmac } from "node:crypto";
+import { inject, injectable } from "tsyringe";
+import type { WebhookAttempt } from "../../domain/vo/WebhookDelivery";
+import { WEBHOOK_CONFIG_TOKEN } from "./config";
+import type { WebhookConfig } from "./config";
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  eventId: string;
+  eventType: string;
+  body: string;
+}
+
+// Longer answers are cut off in the attempt log
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, hex encoded. Receivers recompute it
+ * with their secret and reject stale timestamps, so a captured request cannot
+ * be replayed later.
+ */
+export const signWebhook = (secret: string, timestamp: number, body: string): string =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/**
+ * Posts deliveries to subscribers. Any 2xx answer counts as delivered;
+ * redirects are not followed and count as failures like every other answer,
+ * as do timeouts and connection errors. Never throws, every outcome comes back
+ * as the attempt it was.
+ */
+@injectable()
+export class WebhookSender {
+  constructor(@inject(WEBHOOK_CONFIG_TOKEN) private config: Pick<WebhookConfig, "timeoutSeconds">) {}
+
+  async send(request: WebhookRequest, now: Date = new Date()): Promise<WebhookAttempt> {
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const started = Date.now();
+    const attempt = (statusCode: number | null, error: string | null): WebhookAttempt => ({
+      attemptedAt: now,
+      statusCode,
+      error: error && error.slice(0, MAX_ERROR_LENGTH),
+      durationMs: Date.now() - started,
+    });
+
+    try {
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "tax-finch-webhooks",
+          "Webhook-Id": request.eventId,
+          "Webhook-Event": request.eventType,
+          "Webhook-Timestamp": String(timestamp),
+          "Webhook-Signature": `sha256=${signWebhook(request.secret, timestamp, request.body)}`,
+        },
+        body: request.body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.config.timeoutSeconds * 1000),
+      });
+      // The body is only read to report what went wrong
+      const text = await response.text().catch(() => "");
+      return response.ok
+        ? attempt(response.status, null)
+        : attempt(response.status, `HTTP ${response.status}${text ? `: ${text}` : ""}`);
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        return attempt(null, `No answer within ${this.config.timeoutSeconds} seconds`);
+      }
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      return attempt(null, cause instanceof Error ? cause.message : String(cause));
+    }
+  }
+}
@@ -21,7 +21,9 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      '@': resolve(__dirname, './src')
+      '@': resolve(__dirname, './src'),
+      'entities': resolve(__dirname, './src/domain/entities/index.ts'),
+      'vo': resolve(__dirname, './src/domain/vo/index.ts')
     }
   }
 });